@@ -0,0 +1,79 @@
+// Keeps the staff portal loading when the counter loses its connection. API calls to
+// Supabase are never cached; assignments made offline are queued in IndexedDB by the app.
+const CACHE_NAME = 'voya-staff-v2';
+const APP_SHELL = ['/', '/staff', '/manifest.webmanifest', '/staff-icon.svg', '/image.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET') return;
+
+  // Pages: network first so deploys show up, falling back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets are content-hashed, and fonts never change, so serve them from cache
+  const immutable = (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) ||
+    url.origin === 'https://fonts.googleapis.com' ||
+    url.origin === 'https://fonts.gstatic.com';
+
+  // Other files from this site (icons, the manifest) can change between deploys without
+  // changing name: network first, falling back to the copy cached at install
+  if (!immutable) {
+    if (url.origin !== self.location.origin) return;
+
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(request).then((cached) => cached || Promise.reject(new TypeError('Offline'))))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+
+      return fetch(request).then((response) => {
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
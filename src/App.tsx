@@ -21,6 +21,13 @@ import SuperAdminLogin from './components/SuperAdminLogin';
 import PrivacyPage from './components/PrivacyPage';
 import TermsPage from './components/TermsPage';
 import BillingPage from './components/BillingPage';
+import CampaignsPage from './components/CampaignsPage';
+import EmailCampaignsPage from './components/EmailCampaignsPage';
+import AuditLogPage from './components/AuditLogPage';
+import RefundsPage from './components/RefundsPage';
+import CustomersPage from './components/CustomersPage';
+import SegmentsPage from './components/SegmentsPage';
+import SettingsPage from './components/SettingsPage';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
@@ -110,16 +117,21 @@ function App() {
             }
           >
             <Route index element={<DashboardHome />} />
-            <Route path="customers" element={<div className="p-8 text-center text-gray-500">Customers page coming soon...</div>} />
+            <Route path="customers" element={<CustomersPage />} />
+            <Route path="segments" element={<SegmentsPage />} />
             <Route path="rewards" element={<RewardsPage />} />
+            <Route path="campaigns" element={<CampaignsPage />} />
+            <Route path="email" element={<EmailCampaignsPage />} />
             <Route path="menu-items" element={<MenuItemsPage />} />
             <Route path="loyalty-config" element={<LoyaltyConfigPage />} />
             <Route path="branches" element={<BranchManagement />} />
+            <Route path="refunds" element={<RefundsPage />} />
             <Route path="billing" element={<BillingPage />} />
+            <Route path="audit-log" element={<AuditLogPage />} />
             <Route path="support" element={<SupportUI />} />
             <Route path="qr" element={<div className="p-8 text-center text-gray-500">QR Codes page coming soon...</div>} />
             <Route path="analytics" element={<div className="p-8 text-center text-gray-500">Analytics page coming soon...</div>} />
-            <Route path="settings" element={<div className="p-8 text-center text-gray-500">Settings page coming soon...</div>} />
+            <Route path="settings" element={<SettingsPage />} />
           </Route>
           
           <Route path="/app" element={<Navigate to="/dashboard" replace />} />
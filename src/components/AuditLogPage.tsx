@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Search, History, Loader2, ChevronDown, ChevronRight, ChevronLeft, Monitor, Globe
+} from 'lucide-react';
+import {
+  AuditLogService,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditActorType,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ACTOR_LABELS
+} from '../services/auditLogService';
+import { useAuth } from '../contexts/AuthContext';
+
+interface AuditLogPageProps {
+  // 'platform' is the SuperAdminUI view across every restaurant
+  scope?: 'restaurant' | 'platform';
+  restaurants?: { id: string; name: string }[];
+}
+
+const ACTOR_COLORS: Record<AuditActorType, string> = {
+  owner: 'bg-purple-100 text-purple-800',
+  staff: 'bg-blue-100 text-blue-800',
+  customer: 'bg-green-100 text-green-800',
+  super_admin: 'bg-red-100 text-red-800',
+  system: 'bg-gray-100 text-gray-700'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const describeEntry = (entry: AuditLogEntry) => {
+  if (entry.description) return entry.description;
+
+  const row = entry.after ?? entry.before ?? {};
+  if (entry.entity_type === 'transactions') {
+    const points = Number(row.points ?? 0);
+    return `${points > 0 ? '+' : ''}${points} points (${formatValue(row.type)})`;
+  }
+  if (entry.action === 'update') {
+    return `Changed ${entry.changed_fields.join(', ')}`;
+  }
+
+  const name = row.name ?? row.code ?? [row.first_name, row.last_name].filter(Boolean).join(' ');
+  return name ? String(name) : '';
+};
+
+const AuditLogPage: React.FC<AuditLogPageProps> = ({ scope = 'restaurant', restaurants = [] }) => {
+  const { restaurant } = useAuth();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters & { restaurantId?: string }>({ page: 0 });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const restaurantId = restaurant?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      setLoading(true);
+      const result = scope === 'platform'
+        ? await AuditLogService.getAuditLogForSuperAdmin(filters)
+        : await AuditLogService.getAuditLog(restaurantId || '', filters);
+      if (cancelled) return;
+      setEntries(result.entries);
+      setHasMore(result.hasMore);
+      setLoading(false);
+    };
+
+    loadEntries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, restaurantId, filters]);
+
+  const updateFilters = (updates: Partial<AuditLogFilters & { restaurantId?: string }>) => {
+    setFilters(current => ({ ...current, ...updates, page: 0 }));
+    setExpandedId(null);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput });
+  };
+
+  const page = filters.page ?? 0;
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {scope === 'restaurant' && (
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-1">Every change to points, rewards and settings, and who made it</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl p-4 border border-gray-200 space-y-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by person, changed field or record ID..."
+              className={`w-full pl-9 ${inputClass}`}
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {scope === 'platform' && (
+            <select
+              value={filters.restaurantId || ''}
+              onChange={(e) => updateFilters({ restaurantId: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">All restaurants</option>
+              {restaurants.map((r) => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={filters.entityType || ''}
+            onChange={(e) => updateFilters({ entityType: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">All records</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.actorType || ''}
+            onChange={(e) => updateFilters({ actorType: (e.target.value || undefined) as AuditActorType | undefined })}
+            className={inputClass}
+          >
+            <option value="">Anyone</option>
+            {Object.entries(AUDIT_ACTOR_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+            className={inputClass}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+            className={inputClass}
+            title="To"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No matching changes</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              const fields = entry.action === 'update'
+                ? entry.changed_fields
+                : Object.keys(entry.after ?? entry.before ?? {});
+
+              return (
+                <div key={entry.id}>
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="h-4 w-4 text-gray-400 mt-1 flex-shrink-0" />
+                      : <ChevronRight className="h-4 w-4 text-gray-400 mt-1 flex-shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">
+                          {AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type}
+                        </span>
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 capitalize">
+                          {entry.action}
+                        </span>
+                        {scope === 'platform' && entry.restaurant_name && (
+                          <span className="text-xs text-gray-500">{entry.restaurant_name}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 truncate">{describeEntry(entry)}</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${ACTOR_COLORS[entry.actor_type]}`}>
+                        {AUDIT_ACTOR_LABELS[entry.actor_type]}
+                      </span>
+                      <p className="text-sm text-gray-900 mt-1">{entry.actor_label || '—'}</p>
+                      <p className="text-xs text-gray-500">{new Date(entry.occurred_at).toLocaleString()}</p>
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="px-11 pb-4 space-y-3">
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500">
+                              <th className="py-1 pr-4 font-medium">Field</th>
+                              <th className="py-1 pr-4 font-medium">Before</th>
+                              <th className="py-1 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {fields.map((field) => (
+                              <tr key={field} className="border-t border-gray-100 align-top">
+                                <td className="py-1 pr-4 font-mono text-xs text-gray-700">{field}</td>
+                                <td className="py-1 pr-4 font-mono text-xs text-red-700 break-all">
+                                  {entry.before ? formatValue(entry.before[field]) : '—'}
+                                </td>
+                                <td className="py-1 font-mono text-xs text-green-700 break-all">
+                                  {entry.after ? formatValue(entry.after[field]) : '—'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+                        <span className="flex items-center gap-1">
+                          <Globe className="h-3 w-3" />
+                          {entry.ip_address || 'No IP recorded'}
+                        </span>
+                        <span className="flex items-center gap-1 min-w-0">
+                          <Monitor className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">{entry.user_agent || 'No device recorded'}</span>
+                        </span>
+                        {entry.entity_id && <span className="font-mono">ID {entry.entity_id}</span>}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {(page > 0 || hasMore) && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page - 1 }))}
+            disabled={page === 0 || loading}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Newer
+          </button>
+          <span className="text-sm text-gray-500">Page {page + 1}</span>
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page + 1 }))}
+            disabled={!hasMore || loading}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Older
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Cake, PartyPopper } from 'lucide-react';
+import { BonusGift, LoyaltyConfig } from '../services/loyaltyConfigService';
+import { Database } from '../lib/supabase';
+
+type Reward = Database['public']['Tables']['rewards']['Row'];
+
+interface BonusGiftsEditorProps {
+  signupBonus: LoyaltyConfig['signupBonus'];
+  birthdayReward: LoyaltyConfig['birthdayReward'];
+  rewards: Reward[];
+  onChange: (updates: Pick<LoyaltyConfig, 'signupBonus' | 'birthdayReward'>) => void;
+}
+
+interface GiftFieldsProps<T extends BonusGift> {
+  gift: T;
+  rewards: Reward[];
+  onChange: (gift: T) => void;
+}
+
+// The points-or-reward choice shared by both bonuses
+const GiftFields = <T extends BonusGift>({ gift, rewards, onChange }: GiftFieldsProps<T>) => (
+  <div className="space-y-3">
+    <div className="flex gap-2">
+      {(['points', 'reward'] as const).map(type => (
+        <button
+          key={type}
+          onClick={() => onChange({ ...gift, type })}
+          className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+            gift.type === type
+              ? 'bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white'
+              : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {type === 'points' ? 'Bonus points' : 'Free reward'}
+        </button>
+      ))}
+    </div>
+
+    {gift.type === 'points' ? (
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          value={gift.points}
+          onChange={(e) => onChange({ ...gift, points: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+          min="0"
+        />
+        <span className="text-gray-600">points</span>
+      </div>
+    ) : (
+      <select
+        value={gift.rewardId || ''}
+        onChange={(e) => onChange({ ...gift, rewardId: e.target.value || null })}
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg bg-white"
+      >
+        <option value="">Select a reward</option>
+        {rewards.filter(reward => reward.is_active).map(reward => (
+          <option key={reward.id} value={reward.id}>{reward.name}</option>
+        ))}
+      </select>
+    )}
+  </div>
+);
+
+const Toggle: React.FC<{ enabled: boolean; onToggle: () => void }> = ({ enabled, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+      enabled ? 'bg-gradient-to-r from-[#E6A85C] to-[#E85A9B]' : 'bg-gray-200'
+    }`}
+  >
+    <span
+      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+        enabled ? 'translate-x-6' : 'translate-x-1'
+      }`}
+    />
+  </button>
+);
+
+const BonusGiftsEditor: React.FC<BonusGiftsEditorProps> = ({ signupBonus, birthdayReward, rewards, onChange }) => {
+  const setSignupBonus = (gift: LoyaltyConfig['signupBonus']) => onChange({ signupBonus: gift, birthdayReward });
+  const setBirthdayReward = (gift: LoyaltyConfig['birthdayReward']) => onChange({ signupBonus, birthdayReward: gift });
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
+          <PartyPopper className="h-6 w-6 text-purple-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Welcome &amp; Birthday Bonuses</h3>
+          <p className="text-sm text-gray-600">Given automatically; free rewards arrive as a code in the wallet</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="bg-gray-50 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <p className="font-medium text-gray-900">Welcome bonus</p>
+              <p className="text-sm text-gray-600">For every new customer when they join</p>
+            </div>
+            <Toggle
+              enabled={signupBonus.enabled}
+              onToggle={() => setSignupBonus({ ...signupBonus, enabled: !signupBonus.enabled })}
+            />
+          </div>
+
+          {signupBonus.enabled && (
+            <div className="space-y-3">
+              <GiftFields gift={signupBonus} rewards={rewards} onChange={setSignupBonus} />
+              {signupBonus.type === 'reward' && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-600">Can be claimed for</span>
+                  <input
+                    type="number"
+                    value={signupBonus.validDays}
+                    onChange={(e) => setSignupBonus({ ...signupBonus, validDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                    min="1"
+                  />
+                  <span className="text-gray-600">days</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-50 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Cake className="h-5 w-5 text-pink-600" />
+              <div>
+                <p className="font-medium text-gray-900">Birthday reward</p>
+                <p className="text-sm text-gray-600">For customers who gave their date of birth, once a year</p>
+              </div>
+            </div>
+            <Toggle
+              enabled={birthdayReward.enabled}
+              onToggle={() => setBirthdayReward({ ...birthdayReward, enabled: !birthdayReward.enabled })}
+            />
+          </div>
+
+          {birthdayReward.enabled && (
+            <div className="space-y-3">
+              <GiftFields gift={birthdayReward} rewards={rewards} onChange={setBirthdayReward} />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Issued during</label>
+                <select
+                  value={birthdayReward.window}
+                  onChange={(e) => setBirthdayReward({ ...birthdayReward, window: e.target.value as 'week' | 'month' })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                >
+                  <option value="week">Birthday week (3 days either side)</option>
+                  <option value="month">Birthday month</option>
+                </select>
+                {birthdayReward.type === 'reward' && (
+                  <p className="text-xs text-gray-500 mt-2">The free reward can be claimed until the end of that week or month.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BonusGiftsEditor;
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { 
-  Plus, Edit3, Trash2, Eye, EyeOff, Search, MapPin,
+  Plus, Edit3, Trash2, Search, MapPin,
   Building, Users, TrendingUp, Gift, DollarSign,
   X, Save, AlertCircle, CheckCircle, Key, Lock,
   MoreVertical, Settings, Target, BarChart3
 } from 'lucide-react';
 import { BranchService, Branch, BranchStats } from '../services/branchService';
+import { StaffService } from '../services/staffService';
+import StaffMembersModal from './StaffMembersModal';
 import { useAuth } from '../contexts/AuthContext';
 
 const BranchManagement: React.FC = () => {
@@ -20,12 +22,12 @@ const BranchManagement: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     location: '',
-    staff_password: '',
     is_active: true
   });
   const [formLoading, setFormLoading] = useState(false);
   const [formError, setFormError] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
+  const [staffCounts, setStaffCounts] = useState<Record<string, number>>({});
+  const [staffBranch, setStaffBranch] = useState<Branch | null>(null);
 
   const { restaurant } = useAuth();
 
@@ -62,6 +64,13 @@ const BranchManagement: React.FC = () => {
       });
       setBranchStats(dailyStatsMap);
       setAllTimeStats(allTimeStatsMap);
+
+      const staffMembers = await StaffService.getStaffMembers(restaurant.id);
+      const counts: Record<string, number> = {};
+      staffMembers.filter(member => member.is_active).forEach(member => {
+        counts[member.branch_id] = (counts[member.branch_id] || 0) + 1;
+      });
+      setStaffCounts(counts);
       
     } catch (err: any) {
       console.error('Error fetching branches:', err);
@@ -88,27 +97,19 @@ const BranchManagement: React.FC = () => {
         return;
       }
 
-      if (!formData.staff_password.trim()) {
-        setFormError('Staff password is required');
-        return;
-      }
-
-      if (formData.staff_password.length < 4) {
-        setFormError('Staff password must be at least 4 characters');
-        return;
-      }
-
-      await BranchService.createBranch({
+      const branch = await BranchService.createBranch({
         restaurant_id: restaurant.id,
         name: formData.name,
         location: formData.location,
-        staff_password: formData.staff_password,
         is_active: formData.is_active
       });
 
       await fetchBranches();
       setShowCreateModal(false);
       resetForm();
+
+      // A new branch is unusable until someone can sign in to it
+      setStaffBranch(branch);
     } catch (err: any) {
       console.error('Error creating branch:', err);
       setFormError(err.message || 'Failed to create branch');
@@ -132,7 +133,6 @@ const BranchManagement: React.FC = () => {
       await BranchService.updateBranch(restaurant.id, editingBranch.id, {
         name: formData.name,
         location: formData.location,
-        staff_password: formData.staff_password,
         is_active: formData.is_active
       });
 
@@ -167,11 +167,9 @@ const BranchManagement: React.FC = () => {
     setFormData({
       name: '',
       location: '',
-      staff_password: '',
       is_active: true
     });
     setFormError('');
-    setShowPassword(false);
   };
 
   const openEditModal = (branch: Branch) => {
@@ -179,21 +177,11 @@ const BranchManagement: React.FC = () => {
     setFormData({
       name: branch.name,
       location: branch.location,
-      staff_password: branch.staff_password,
       is_active: branch.is_active
     });
     setFormError('');
   };
 
-  const generatePassword = () => {
-    const chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    setFormData({ ...formData, staff_password: result });
-  };
-
   const filteredBranches = branches.filter(branch => 
     branch.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     branch.location.toLowerCase().includes(searchQuery.toLowerCase())
@@ -424,8 +412,8 @@ const BranchManagement: React.FC = () => {
                       {branch.is_active ? 'Active' : 'Inactive'}
                     </span>
                     <div className="flex items-center gap-1 text-xs text-gray-500">
-                      <Key className="h-3 w-3" />
-                      <span>Password Protected</span>
+                      <Users className="h-3 w-3" />
+                      <span>{staffCounts[branch.id] || 0} staff</span>
                     </div>
                   </div>
 
@@ -437,6 +425,14 @@ const BranchManagement: React.FC = () => {
                       <Edit3 className="h-4 w-4" />
                       Edit
                     </button>
+
+                    <button
+                      onClick={() => setStaffBranch(branch)}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <Key className="h-4 w-4" />
+                      Staff
+                    </button>
                     
                     <button
                       onClick={() => handleDeleteBranch(branch.id)}
@@ -505,40 +501,6 @@ const BranchManagement: React.FC = () => {
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Staff Password *
-                </label>
-                <div className="flex gap-2">
-                  <div className="relative flex-1">
-                    <input
-                      type={showPassword ? 'text' : 'password'}
-                      value={formData.staff_password}
-                      onChange={(e) => setFormData({ ...formData, staff_password: e.target.value })}
-                      className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent pr-10"
-                      placeholder="Enter staff password"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </button>
-                  </div>
-                  <button
-                    type="button"
-                    onClick={generatePassword}
-                    className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                  >
-                    Generate
-                  </button>
-                </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Staff will use this password to access the branch system
-                </p>
-              </div>
-
               <div className="flex items-center gap-3">
                 <input
                   type="checkbox"
@@ -582,6 +544,15 @@ const BranchManagement: React.FC = () => {
           </div>
         </div>
       )}
+
+      {staffBranch && restaurant && (
+        <StaffMembersModal
+          restaurantId={restaurant.id}
+          branch={staffBranch}
+          onClose={() => setStaffBranch(null)}
+          onChange={fetchBranches}
+        />
+      )}
     </div>
   );
 };
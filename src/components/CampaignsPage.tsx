@@ -0,0 +1,646 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus, Edit3, Trash2, X, Save, AlertCircle, Megaphone,
+  Calendar, Clock, Building, Zap, Gift, Pause, Play, Users
+} from 'lucide-react';
+import { CampaignService, Campaign, CampaignBonusType } from '../services/campaignService';
+import { BranchService, Branch } from '../services/branchService';
+import { SegmentService, CustomerSegment } from '../services/segmentService';
+import { LoyaltyConfigService } from '../services/loyaltyConfigService';
+import { useAuth } from '../contexts/AuthContext';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface CampaignFormData {
+  name: string;
+  description: string;
+  starts_on: string;
+  ends_on: string;
+  days: number[];
+  start_time: string;
+  end_time: string;
+  branch_ids: string[];
+  segment_id: string; // '' for every customer
+  bonus_type: CampaignBonusType;
+  multiplier: number;
+  bonus_points: number;
+  is_active: boolean;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = (): CampaignFormData => ({
+  name: '',
+  description: '',
+  starts_on: today(),
+  ends_on: today(),
+  days: [0, 1, 2, 3, 4, 5, 6],
+  start_time: '15:00',
+  end_time: '18:00',
+  branch_ids: [],
+  segment_id: '',
+  bonus_type: 'multiplier',
+  multiplier: 2,
+  bonus_points: 50,
+  is_active: true
+});
+
+const CampaignsPage: React.FC = () => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [timezone, setTimezone] = useState('Asia/Dubai');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [formData, setFormData] = useState<CampaignFormData>(emptyForm());
+  const [formLoading, setFormLoading] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const { restaurant } = useAuth();
+
+  useEffect(() => {
+    if (restaurant) {
+      fetchCampaigns();
+    }
+  }, [restaurant]);
+
+  const fetchCampaigns = async () => {
+    if (!restaurant) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [campaignsData, branchesData, segmentsData, config] = await Promise.all([
+        CampaignService.getCampaigns(restaurant.id),
+        BranchService.getBranches(restaurant.id),
+        SegmentService.getSegments(restaurant.id),
+        LoyaltyConfigService.getLoyaltyConfig(restaurant.id)
+      ]);
+      setCampaigns(campaignsData);
+      setBranches(branchesData);
+      setSegments(segmentsData);
+      setTimezone(config.timezone);
+    } catch (err) {
+      console.error('Error fetching campaigns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load campaigns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateForm = (): string | null => {
+    if (!formData.name.trim()) return 'Campaign name is required';
+    if (!formData.starts_on || !formData.ends_on) return 'Start and end dates are required';
+    if (formData.ends_on < formData.starts_on) return 'End date must be on or after the start date';
+    if (formData.days.length === 0) return 'Select at least one day';
+    if (formData.start_time === formData.end_time && formData.end_time !== '00:00') return 'Start and end times must be different';
+    if (formData.bonus_type === 'multiplier' && formData.multiplier <= 1) return 'Multiplier must be greater than 1';
+    if (formData.bonus_type === 'flat' && formData.bonus_points <= 0) return 'Bonus points must be greater than 0';
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!restaurant) return;
+
+    const validationError = validateForm();
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      setFormLoading(true);
+      setFormError('');
+
+      const payload = {
+        ...formData,
+        name: formData.name.trim(),
+        description: formData.description.trim() || undefined,
+        segment_id: formData.segment_id || null,
+        // The end is exclusive, so a window until midnight is stored as 24:00
+        end_time: formData.end_time === '00:00' ? '24:00' : formData.end_time
+      };
+
+      if (editingCampaign) {
+        await CampaignService.updateCampaign(restaurant.id, editingCampaign.id, payload);
+      } else {
+        await CampaignService.createCampaign({ ...payload, restaurant_id: restaurant.id });
+      }
+
+      await fetchCampaigns();
+      closeModal();
+    } catch (err) {
+      console.error('Error saving campaign:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save campaign');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (campaign: Campaign) => {
+    if (!restaurant) return;
+
+    try {
+      await CampaignService.updateCampaign(restaurant.id, campaign.id, { is_active: !campaign.is_active });
+      await fetchCampaigns();
+    } catch (err) {
+      console.error('Error updating campaign:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update campaign');
+    }
+  };
+
+  const handleDelete = async (campaignId: string) => {
+    if (!restaurant) return;
+
+    if (!confirm('Are you sure you want to delete this campaign? Past transactions keep their points.')) {
+      return;
+    }
+
+    try {
+      await CampaignService.deleteCampaign(restaurant.id, campaignId);
+      await fetchCampaigns();
+    } catch (err) {
+      console.error('Error deleting campaign:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete campaign');
+    }
+  };
+
+  const openEditModal = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    setFormData({
+      name: campaign.name,
+      description: campaign.description || '',
+      starts_on: campaign.starts_on,
+      ends_on: campaign.ends_on,
+      days: campaign.days,
+      start_time: campaign.start_time.slice(0, 5),
+      end_time: campaign.end_time.startsWith('24:') ? '00:00' : campaign.end_time.slice(0, 5),
+      branch_ids: campaign.branch_ids,
+      segment_id: campaign.segment_id || '',
+      bonus_type: campaign.bonus_type,
+      multiplier: campaign.multiplier,
+      bonus_points: campaign.bonus_points,
+      is_active: campaign.is_active
+    });
+    setFormError('');
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setEditingCampaign(null);
+    setFormData(emptyForm());
+    setFormError('');
+  };
+
+  const toggleValue = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const getStatus = (campaign: Campaign) => {
+    if (!campaign.is_active) return { label: 'Paused', color: 'bg-gray-100 text-gray-800' };
+    const localDate = LoyaltyConfigService.getLocalTime(new Date(), timezone).date;
+    if (campaign.ends_on < localDate) return { label: 'Ended', color: 'bg-gray-100 text-gray-600' };
+    if (campaign.starts_on > localDate) return { label: 'Scheduled', color: 'bg-blue-100 text-blue-800' };
+    const liveAnywhere = campaign.branch_ids.length === 0
+      ? CampaignService.isCampaignLive(campaign, undefined, timezone)
+      : campaign.branch_ids.some(branchId => CampaignService.isCampaignLive(campaign, branchId, timezone));
+    return liveAnywhere
+      ? { label: 'Live Now', color: 'bg-green-100 text-green-800' }
+      : { label: 'Active', color: 'bg-yellow-100 text-yellow-800' };
+  };
+
+  const describeBonus = (campaign: Campaign) =>
+    campaign.bonus_type === 'flat'
+      ? `+${campaign.bonus_points} points per purchase`
+      : `${campaign.multiplier}× points`;
+
+  const describeBranches = (campaign: Campaign) => {
+    if (campaign.branch_ids.length === 0) return 'All branches';
+    return branches
+      .filter(branch => campaign.branch_ids.includes(branch.id))
+      .map(branch => branch.name)
+      .join(', ') || 'No active branches';
+  };
+
+  const describeSegment = (campaign: Campaign) =>
+    campaign.segment_id
+      ? segments.find(segment => segment.id === campaign.segment_id)?.name || 'One segment'
+      : 'All customers';
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="h-8 bg-gray-200 rounded w-48"></div>
+          <div className="h-10 bg-gray-200 rounded w-32"></div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white rounded-2xl p-6 border border-gray-200">
+              <div className="h-6 bg-gray-200 rounded mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center max-w-md">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Unable to Load Campaigns</h2>
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={fetchCampaigns}
+            className="px-6 py-3 bg-[#1E2A78] text-white rounded-lg hover:bg-[#3B4B9A] transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+          <p className="text-gray-600 mt-1">Happy hours and limited-time bonus points</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200"
+        >
+          <Plus className="h-4 w-4" />
+          New Campaign
+        </button>
+      </div>
+
+      {/* Campaigns Grid */}
+      {campaigns.length === 0 ? (
+        <div className="bg-white rounded-2xl p-12 border border-gray-200 text-center">
+          <Megaphone className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No Campaigns Yet</h3>
+          <p className="text-gray-500 mb-6">
+            Boost quiet hours with a multiplier or a flat bonus on every purchase.
+          </p>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-6 py-3 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200"
+          >
+            Create Your First Campaign
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {campaigns.map((campaign) => {
+            const status = getStatus(campaign);
+            return (
+              <div
+                key={campaign.id}
+                className="bg-white rounded-2xl border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-200 group"
+              >
+                <div className="p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <div className="w-12 h-12 bg-pink-100 rounded-xl flex items-center justify-center">
+                        {campaign.bonus_type === 'flat'
+                          ? <Gift className="h-6 w-6 text-pink-600" />
+                          : <Zap className="h-6 w-6 text-pink-600" />}
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-gray-900 group-hover:text-[#E6A85C] transition-colors">
+                          {campaign.name}
+                        </h3>
+                        <p className="text-sm text-gray-600">{describeBonus(campaign)}</p>
+                      </div>
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded-full ${status.color}`}>
+                      {status.label}
+                    </span>
+                  </div>
+
+                  {campaign.description && (
+                    <p className="text-sm text-gray-600 mb-4">{campaign.description}</p>
+                  )}
+
+                  <div className="space-y-2 mb-4 text-sm text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4 text-gray-400" />
+                      <span>{campaign.starts_on} → {campaign.ends_on}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-gray-400" />
+                      <span>
+                        {campaign.days.length === 7 ? 'Every day' : campaign.days.map(day => DAYS[day]).join(', ')}
+                        {' · '}
+                        {campaign.start_time.slice(0, 5)}–{campaign.end_time.slice(0, 5)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Building className="h-4 w-4 text-gray-400" />
+                      <span>{describeBranches(campaign)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Users className="h-4 w-4 text-gray-400" />
+                      <span>{describeSegment(campaign)}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openEditModal(campaign)}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <Edit3 className="h-4 w-4" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(campaign)}
+                      className="flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                      title={campaign.is_active ? 'Pause' : 'Resume'}
+                    >
+                      {campaign.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(campaign.id)}
+                      className="flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      {(showCreateModal || editingCampaign) && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-gray-900">
+                {editingCampaign ? 'Edit Campaign' : 'Create New Campaign'}
+              </h3>
+              <button
+                onClick={closeModal}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {formError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm mb-4">
+                {formError}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Campaign Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  placeholder="e.g., Afternoon Happy Hour"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Starts On *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.starts_on}
+                    onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Ends On *
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.ends_on}
+                    onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Days *
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {DAYS.map((day, dayIndex) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => setFormData({
+                        ...formData,
+                        days: toggleValue(formData.days, dayIndex).sort((a, b) => a - b)
+                      })}
+                      className={`w-12 py-1 rounded-lg text-sm border transition-colors ${
+                        formData.days.includes(dayIndex)
+                          ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900'
+                          : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    From *
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Until *
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                Times are in {timezone}. An end time before the start time runs past midnight, and 00:00 runs until midnight.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Branches
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {branches.map(branch => (
+                    <button
+                      key={branch.id}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, branch_ids: toggleValue(formData.branch_ids, branch.id) })}
+                      className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                        formData.branch_ids.includes(branch.id)
+                          ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900'
+                          : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      {branch.name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave all unselected to run at every branch</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Customers
+                </label>
+                <select
+                  value={formData.segment_id}
+                  onChange={(e) => setFormData({ ...formData, segment_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                >
+                  <option value="">All customers</option>
+                  {segments.map(segment => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  With a segment, only customers in it when they buy get the bonus
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bonus *
+                </label>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                  {([
+                    { value: 'multiplier', label: 'Points Multiplier' },
+                    { value: 'flat', label: 'Flat Bonus' }
+                  ] as { value: CampaignBonusType; label: string }[]).map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, bonus_type: option.value })}
+                      className={`py-2 px-3 rounded-lg text-sm border transition-colors ${
+                        formData.bonus_type === option.value
+                          ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900 font-medium'
+                          : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {formData.bonus_type === 'multiplier' ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={formData.multiplier}
+                      onChange={(e) => setFormData({ ...formData, multiplier: parseFloat(e.target.value) || 1 })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      step="0.25"
+                      min="1"
+                    />
+                    <span className="text-gray-600">× the points the purchase earns</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={formData.bonus_points}
+                      onChange={(e) => setFormData({ ...formData, bonus_points: parseInt(e.target.value) || 0 })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      min="1"
+                    />
+                    <span className="text-gray-600">extra points per purchase</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="campaign_is_active"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  className="w-4 h-4 text-[#E6A85C] border-gray-300 rounded focus:ring-[#E6A85C]"
+                />
+                <label htmlFor="campaign_is_active" className="text-sm font-medium text-gray-700">
+                  Active (applies to purchases in its window)
+                </label>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={closeModal}
+                className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={formLoading}
+                className="flex-1 py-3 px-4 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {formLoading ? (
+                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <>
+                    <Save className="h-4 w-4" />
+                    {editingCampaign ? 'Update Campaign' : 'Create Campaign'}
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignsPage;
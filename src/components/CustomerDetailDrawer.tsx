@@ -0,0 +1,342 @@
+import React, { useState, useEffect } from 'react';
+import { X, Mail, Phone, Calendar, Loader2, Gift, History, PlusCircle, AlertCircle, Trash2, Download } from 'lucide-react';
+import { CustomerService } from '../services/customerService';
+import { RewardService } from '../services/rewardService';
+import { CustomerDataService } from '../services/customerDataService';
+import { TierLadder, LoyaltyConfigService } from '../services/loyaltyConfigService';
+import { Database } from '../lib/supabase';
+
+type Customer = Database['public']['Tables']['customers']['Row'];
+type Transaction = Database['public']['Tables']['transactions']['Row'];
+type Redemption = Database['public']['Tables']['reward_redemptions']['Row'] & { reward: { name: string } | null };
+
+interface CustomerDetailDrawerProps {
+  restaurantId: string;
+  customer: Customer;
+  tierLadder: TierLadder;
+  onClose: () => void;
+  onChanged: (customer: Customer | null) => void;
+}
+
+const TRANSACTION_LABELS: Record<Transaction['type'], string> = {
+  purchase: 'Purchase',
+  bonus: 'Bonus',
+  referral: 'Referral',
+  signup: 'Welcome',
+  redemption: 'Redemption',
+  expiry: 'Expired',
+  refund: 'Refund',
+  reversal: 'Refund reversed',
+  adjustment: 'Manual adjustment',
+  migration: 'Opening balance'
+};
+
+const REDEMPTION_STYLES: Record<Redemption['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  used: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-gray-100 text-gray-600',
+  voided: 'bg-red-100 text-red-800'
+};
+
+const CustomerDetailDrawer: React.FC<CustomerDetailDrawerProps> = ({ restaurantId, customer, tierLadder, onClose, onChanged }) => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [activeTab, setActiveTab] = useState<'activity' | 'redemptions'>('activity');
+  const [loading, setLoading] = useState(true);
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [adjusting, setAdjusting] = useState(false);
+  const [adjustError, setAdjustError] = useState('');
+  // One adjustment per submit, however many times the button is pressed
+  const [adjustmentKey, setAdjustmentKey] = useState(() => crypto.randomUUID());
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const customerId = customer.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadActivity = async () => {
+      setLoading(true);
+      const [transactionsData, redemptionsData] = await Promise.all([
+        CustomerService.getCustomerTransactions(restaurantId, customerId),
+        RewardService.getCustomerRedemptions(restaurantId, customerId)
+      ]);
+      if (cancelled) return;
+      setTransactions(transactionsData);
+      setRedemptions(redemptionsData);
+      setLoading(false);
+    };
+
+    loadActivity();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, customerId, refreshCount]);
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseInt(points);
+    if (!amount) {
+      setAdjustError('Enter the number of points to add, or a negative number to deduct');
+      return;
+    }
+    if (!reason.trim()) {
+      setAdjustError('Enter a reason for the adjustment');
+      return;
+    }
+
+    try {
+      setAdjusting(true);
+      setAdjustError('');
+      await CustomerService.adjustPoints(restaurantId, customerId, amount, reason.trim(), adjustmentKey);
+      setPoints('');
+      setReason('');
+      setAdjustmentKey(crypto.randomUUID());
+      setRefreshCount(count => count + 1);
+      onChanged(await CustomerService.getCustomer(restaurantId, customerId));
+    } catch (err) {
+      console.error('Error adjusting points:', err);
+      setAdjustError(err instanceof Error ? err.message : 'Failed to adjust points');
+    } finally {
+      setAdjusting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const data = await CustomerDataService.exportCustomerData(restaurantId, customerId);
+      CustomerDataService.downloadJson(data, `customer-data-${customerId}.json`);
+    } catch (err) {
+      console.error('Error exporting customer data:', err);
+      alert(err instanceof Error ? err.message : 'Failed to export customer data');
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm(`Erase ${customer.first_name} ${customer.last_name}'s personal data? Their name, email, phone and birthday are removed for good; points and transactions are kept for your records.`)) {
+      return;
+    }
+
+    try {
+      await CustomerDataService.eraseCustomers(restaurantId, [customerId]);
+      onChanged(null);
+      onClose();
+    } catch (err) {
+      console.error('Error erasing customer:', err);
+      alert(err instanceof Error ? err.message : 'Failed to erase customer');
+    }
+  };
+
+  const tier = LoyaltyConfigService.getTier(tierLadder, customer.current_tier);
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-lg h-full overflow-y-auto shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-6 flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-12 h-12 bg-gradient-to-br from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-xl flex items-center justify-center text-white font-bold flex-shrink-0">
+              {customer.first_name[0]}{customer.last_name[0]}
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-gray-900 truncate">{customer.first_name} {customer.last_name}</h2>
+              <p className="text-sm text-gray-600">{tier.name} member</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-2 text-sm">
+            <p className="flex items-center gap-2 text-gray-700">
+              <Mail className="h-4 w-4 text-gray-400" />
+              {customer.email}
+              {customer.email_opt_out_at && (
+                <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+                  Unsubscribed {new Date(customer.email_opt_out_at).toLocaleDateString()}
+                </span>
+              )}
+            </p>
+            {customer.phone && (
+              <p className="flex items-center gap-2 text-gray-700">
+                <Phone className="h-4 w-4 text-gray-400" />
+                {customer.phone}
+              </p>
+            )}
+            <p className="flex items-center gap-2 text-gray-700">
+              <Calendar className="h-4 w-4 text-gray-400" />
+              Joined {new Date(customer.created_at).toLocaleDateString()}
+              {customer.date_of_birth && ` • Birthday ${new Date(`${customer.date_of_birth}T00:00:00`).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              { label: 'Points balance', value: customer.total_points.toLocaleString() },
+              { label: 'Lifetime points', value: customer.lifetime_points.toLocaleString() },
+              { label: 'Total spent', value: `${customer.total_spent.toFixed(2)} AED` },
+              { label: 'Visits', value: customer.visit_count.toLocaleString() }
+            ].map(stat => (
+              <div key={stat.label} className="bg-gray-50 rounded-xl p-3">
+                <p className="text-xs text-gray-500">{stat.label}</p>
+                <p className="text-lg font-bold text-gray-900">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Manual adjustment */}
+          <form onSubmit={handleAdjust} className="bg-gray-50 rounded-xl p-4 space-y-3">
+            <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+              <PlusCircle className="h-4 w-4 text-gray-500" />
+              Adjust points
+            </h3>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+                placeholder="e.g. 50 or -50"
+                className={`w-32 ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (required)"
+                className={`flex-1 ${inputClass}`}
+              />
+            </div>
+            {adjustError && (
+              <p className="flex items-center gap-1 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {adjustError}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={adjusting}
+              className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+            >
+              {adjusting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Apply
+            </button>
+          </form>
+
+          {/* Timeline */}
+          <div>
+            <div className="flex gap-2 mb-4">
+              {([
+                { id: 'activity', label: 'Activity', icon: History, count: transactions.length },
+                { id: 'redemptions', label: 'Redemptions', icon: Gift, count: redemptions.length }
+              ] as const).map(tab => {
+                const Icon = tab.icon;
+                return (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      activeTab === tab.id ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {tab.label}
+                    {!loading && <span className="text-xs opacity-75">{tab.count}</span>}
+                  </button>
+                );
+              })}
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : activeTab === 'activity' ? (
+              transactions.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8">No activity yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {transactions.map(transaction => (
+                    <div key={transaction.id} className="flex items-start justify-between gap-3 border-l-2 border-gray-200 pl-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {TRANSACTION_LABELS[transaction.type]}
+                          {transaction.amount_spent ? ` • ${transaction.amount_spent.toFixed(2)} AED` : ''}
+                        </p>
+                        {transaction.description && (
+                          <p className="text-xs text-gray-600 truncate">{transaction.description}</p>
+                        )}
+                        <p className="text-xs text-gray-400">{new Date(transaction.created_at).toLocaleString()}</p>
+                      </div>
+                      <span className={`text-sm font-semibold flex-shrink-0 ${transaction.points >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {transaction.points > 0 ? '+' : ''}{transaction.points}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : redemptions.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">No redemptions yet</p>
+            ) : (
+              <div className="space-y-3">
+                {redemptions.map(redemption => (
+                  <div key={redemption.id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{redemption.reward?.name ?? 'Deleted reward'}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(redemption.redeemed_at).toLocaleString()} • {redemption.points_used} pts
+                        {redemption.code && ` • ${RewardService.formatRedemptionCode(redemption.code)}`}
+                      </p>
+                      {redemption.void_reason && (
+                        <p className="text-xs text-red-600">{redemption.void_reason}</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize flex-shrink-0 ${REDEMPTION_STYLES[redemption.status]}`}>
+                      {redemption.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {customer.erased_at ? (
+            <p className="text-sm text-gray-500">
+              Personal data erased on {new Date(customer.erased_at).toLocaleDateString()}
+            </p>
+          ) : (
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                <Download className="h-4 w-4" />
+                Download data
+              </button>
+              <button
+                onClick={handleErase}
+                className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+                Erase personal data
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetailDrawer;
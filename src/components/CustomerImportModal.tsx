@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { X, Upload, Loader2, AlertCircle, CheckCircle, Download, FileSpreadsheet } from 'lucide-react';
+import {
+  CustomerImportService,
+  ImportFile,
+  ImportMapping,
+  ImportReportRow,
+  DuplicateHandling,
+  IMPORT_FIELDS
+} from '../services/customerImportService';
+
+interface CustomerImportModalProps {
+  restaurantId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const CustomerImportModal: React.FC<CustomerImportModalProps> = ({ restaurantId, onClose, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateHandling>('merge');
+  const [dryRun, setDryRun] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const [report, setReport] = useState<{ rows: ImportReportRow[]; dryRun: boolean } | null>(null);
+
+  const rows = file && mapping ? CustomerImportService.validateRows(file, mapping) : [];
+  const problemRows = rows.filter(row => row.problems.length > 0);
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === null)
+    : [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      setError('');
+      setReport(null);
+      const parsed = await CustomerImportService.readFile(selected);
+      setFileName(selected.name);
+      setFile(parsed);
+      setMapping(CustomerImportService.guessMapping(parsed.headers));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setWorking(true);
+      setError('');
+      setProgress(null);
+      const result = await CustomerImportService.importCustomers(
+        restaurantId,
+        rows,
+        { onDuplicate, dryRun },
+        (done, total) => setProgress({ done, total })
+      );
+      setReport({ rows: result, dryRun });
+      if (!dryRun) onImported();
+    } catch (err) {
+      console.error('Error importing customers:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+
+    const csv = CustomerImportService.buildReportCsv(report.rows);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, '')}-import-${report.dryRun ? 'dry-run' : 'report'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const counts = report
+    ? {
+        created: report.rows.filter(row => row.status === 'created').length,
+        merged: report.rows.filter(row => row.status === 'merged').length,
+        skipped: report.rows.filter(row => row.status === 'skipped').length,
+        points: report.rows.reduce((sum, row) => sum + (row.status === 'created' ? row.points : 0), 0)
+      }
+    : null;
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-2xl w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-bold text-gray-900">Import Customers</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:bg-gray-50">
+            <Upload className="h-6 w-6 text-gray-400" />
+            <span className="text-sm text-gray-700">
+              {fileName ? `${fileName} • ${file?.rows.length ?? 0} rows` : 'Choose a CSV or Excel (.xlsx) file'}
+            </span>
+            <span className="text-xs text-gray-500">The first row should hold the column names</span>
+            <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+
+          {file && mapping && (
+            <>
+              {/* Column mapping */}
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-2">Columns</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}{required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                        className={`w-full ${inputClass}`}
+                      >
+                        <option value="">Not in file</option>
+                        {file.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Opening points are added to new customers as a migration transaction and count towards their tier.
+                </p>
+              </div>
+
+              {/* Options */}
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">When the email already belongs to a customer</label>
+                  <select
+                    value={onDuplicate}
+                    onChange={(e) => setOnDuplicate(e.target.value as DuplicateHandling)}
+                    className={`w-full ${inputClass}`}
+                  >
+                    <option value="merge">Merge: fill in their missing phone and birthday</option>
+                    <option value="skip">Skip the row</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Dry run: check everything and show the report without saving
+                </label>
+              </div>
+
+              {/* Validation preview */}
+              {missingRequired.length > 0 ? (
+                <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  Choose a column for {missingRequired.map(({ label }) => label).join(' and ')}
+                </div>
+              ) : problemRows.length > 0 ? (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+                  <p className="font-medium text-amber-800 mb-2">
+                    {problemRows.length} of {rows.length} rows have problems and will be skipped
+                  </p>
+                  <ul className="space-y-1 text-amber-700 max-h-40 overflow-y-auto">
+                    {problemRows.slice(0, 50).map(row => (
+                      <li key={row.line}>Row {row.line}: {row.problems.join('; ')}</li>
+                    ))}
+                    {problemRows.length > 50 && <li>…and {problemRows.length - 50} more in the report</li>}
+                  </ul>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4 flex-shrink-0" />
+                  All {rows.length} rows look good
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {report && counts && (
+            <div className="p-4 bg-gray-50 rounded-xl space-y-3">
+              <p className="font-semibold text-gray-900">
+                {report.dryRun ? 'Dry run: nothing was saved' : 'Import finished'}
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <p className="text-xl font-bold text-green-600">{counts.created}</p>
+                  <p className="text-xs text-gray-500">{report.dryRun ? 'would be created' : 'created'}</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-blue-600">{counts.merged}</p>
+                  <p className="text-xs text-gray-500">{report.dryRun ? 'would be merged' : 'merged'}</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-gray-600">{counts.skipped}</p>
+                  <p className="text-xs text-gray-500">skipped</p>
+                </div>
+              </div>
+              {counts.points > 0 && (
+                <p className="text-sm text-gray-600">{counts.points.toLocaleString()} opening points{report.dryRun ? ' would be' : ''} added</p>
+              )}
+              <button
+                onClick={downloadReport}
+                className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                <Download className="h-4 w-4" />
+                Download report (CSV)
+              </button>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {report && !report.dryRun ? 'Done' : 'Cancel'}
+            </button>
+            {file && (!report || report.dryRun) && (
+              <button
+                onClick={handleImport}
+                disabled={working || missingRequired.length > 0 || rows.length === problemRows.length}
+                className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+              >
+                {working && <Loader2 className="h-4 w-4 animate-spin" />}
+                {working && progress ? `${progress.done} of ${progress.total}` : dryRun ? 'Run dry run' : 'Import customers'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerImportModal;
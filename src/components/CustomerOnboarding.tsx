@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   User, Mail, Phone, Calendar, ArrowRight, ArrowLeft, 
@@ -6,7 +7,8 @@ import {
   Trophy, Heart, Zap, Eye, EyeOff, Lock,
   Shield, MessageSquare, Loader2, Crown, Award
 } from 'lucide-react';
-import { CustomerService } from '../services/customerService';
+import { CustomerAuthService, LoginIdentifier } from '../services/customerAuthService';
+import { normalizePhone } from '../lib/phone';
 
 
 
@@ -26,7 +28,7 @@ interface Customer {
   phone?: string;
   total_points: number;
   lifetime_points: number;
-  current_tier: 'bronze' | 'silver' | 'gold';
+  current_tier: string;
   tier_progress: number;
   visit_count: number;
   total_spent: number;
@@ -40,8 +42,13 @@ interface CustomerOnboardingProps {
 }
 
 const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onComplete }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [step, setStep] = useState(0); // 0: welcome, 1: auth form
-  const [authMode, setAuthMode] = useState<'login' | 'signup'>('login'); // Default to login
+  // Invite links (?ref=CODE) open on signup with the friend's code filled in
+  const [referralCode, setReferralCode] = useState(() => (searchParams.get('ref') || '').trim().toUpperCase());
+  const [authMode, setAuthMode] = useState<'login' | 'signup'>(() => (searchParams.get('ref') ? 'signup' : 'login'));
+  // What the account is found by and where the code goes
+  const [loginMethod, setLoginMethod] = useState<'email' | 'phone'>('email');
   const [formData, setFormData] = useState({
     email: '',
     firstName: '',
@@ -51,86 +58,123 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [existingCustomer, setExistingCustomer] = useState<Customer | null>(null);
-  const [emailCheckLoading, setEmailCheckLoading] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  // Phone sign-ups confirm their email with a second code
+  const [emailCode, setEmailCode] = useState('');
+  const magicLinkHandled = useRef(false);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     setError('');
   };
 
-  const handleEmailCheck = async (email: string) => {
-    if (!email || email.length < 3) {
-      setExistingCustomer(null);
-      return;
-    }
+  const signupProfile = () => authMode === 'signup'
+    ? {
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        email: loginMethod === 'phone' ? formData.email : undefined,
+        phone: loginMethod === 'email' ? formData.phone || undefined : undefined,
+        birthDate: formData.birthDate || undefined,
+        referralCode: referralCode || undefined
+      }
+    : undefined;
+
+  const identifier = (): LoginIdentifier => loginMethod === 'phone'
+    ? { phone: formData.phone }
+    : { email: formData.email };
+
+  const identifierValue = loginMethod === 'phone' ? formData.phone : formData.email;
 
-    setEmailCheckLoading(true);
+  const needsEmailCode = authMode === 'signup' && loginMethod === 'phone';
+
+  const referralSettings = restaurant.settings?.referrals;
+
+  const verify = async (loginIdentifier: LoginIdentifier, loginCode: string) => {
+    setLoading(true);
     try {
-      const customer = await CustomerService.getCustomerByEmail(restaurant.id, email);
-      if (customer) {
-        setExistingCustomer(customer);
-        // Don't auto-switch to login mode, let user choose
-      } else {
-        setExistingCustomer(null);
-      }
+      const customer = await CustomerAuthService.verifyCode(
+        restaurant.id,
+        loginIdentifier,
+        loginCode,
+        signupProfile(),
+        needsEmailCode ? emailCode.trim() : undefined
+      );
+      onComplete(customer);
     } catch (err) {
-      setExistingCustomer(null);
+      setError(err instanceof Error ? err.message : 'Verification failed');
     } finally {
-      setEmailCheckLoading(false);
+      setLoading(false);
     }
   };
 
-  const handleLogin = async () => {
-    if (!formData.email.trim()) {
-      setError('Please enter your email');
+  const verifyRef = useRef(verify);
+  verifyRef.current = verify;
+
+  // Magic links carry the email and code; sign straight in and drop them from the URL
+  useEffect(() => {
+    const email = searchParams.get('email');
+    const linkCode = searchParams.get('code');
+    if (!email || !linkCode || magicLinkHandled.current) return;
+
+    magicLinkHandled.current = true;
+    setSearchParams({}, { replace: true });
+    setFormData(prev => ({ ...prev, email }));
+    setCode(linkCode);
+    setCodeSent(true);
+    setStep(1);
+    verifyRef.current({ email }, linkCode);
+  }, [searchParams, setSearchParams]);
+
+  const handleSendCode = async () => {
+    if (!identifierValue.trim()) {
+      setError(loginMethod === 'phone' ? 'Please enter your phone number' : 'Please enter your email');
       return;
     }
 
-    setLoading(true);
-    try {
-      const customer = await CustomerService.getCustomerByEmail(restaurant.id, formData.email);
-      if (customer) {
-        onComplete(customer);
-      } else {
-        setError('Customer not found');
-      }
-    } catch (err: any) {
-      setError(err.message || 'Login failed');
-    } finally {
-      setLoading(false);
+    if (authMode === 'signup' && (!formData.firstName.trim() || !formData.lastName.trim())) {
+      setError('Please fill in all required fields');
+      return;
     }
-  };
 
-  const handleSignup = async () => {
-    if (!formData.firstName.trim() || !formData.lastName.trim() || !formData.email.trim()) {
-      setError('Please fill in all required fields');
+    if (loginMethod === 'phone' && !normalizePhone(formData.phone)) {
+      setError('Please enter a valid phone number');
       return;
     }
 
-    if (!/\S+@\S+\.\S+/.test(formData.email)) {
+    // Phone sign-ups still give an email, which every account has
+    if ((loginMethod === 'email' || authMode === 'signup') && !/\S+@\S+\.\S+/.test(formData.email)) {
       setError('Please enter a valid email address');
       return;
     }
 
     setLoading(true);
     try {
-      const newCustomer = await CustomerService.createCustomer(restaurant.id, {
-        first_name: formData.firstName,
-        last_name: formData.lastName,
-        email: formData.email,
-        phone: formData.phone || undefined,
-        date_of_birth: formData.birthDate || undefined
-      });
-
-      onComplete(newCustomer);
-    } catch (err: any) {
-      setError(err.message || 'Signup failed');
+      await CustomerAuthService.requestCode(restaurant.id, identifier(), signupProfile());
+      setCode('');
+      setEmailCode('');
+      setCodeSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send code');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleVerifyCode = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError(`Please enter the 6-digit code from your ${loginMethod === 'phone' ? 'text message' : 'email'}`);
+      return;
+    }
+
+    if (needsEmailCode && !/^\d{6}$/.test(emailCode.trim())) {
+      setError('Please enter the 6-digit code from your email');
+      return;
+    }
+
+    await verify(identifier(), code.trim());
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 relative overflow-hidden font-['Inter',sans-serif]">
       {/* Modern Header */}
@@ -278,58 +322,138 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
                     </p>
                   </motion.div>
 
-                  {/* Email Field */}
+                  {/* Email or Phone */}
                   <motion.div
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.2, duration: 0.6 }}
                   >
+                    <div className="grid grid-cols-2 gap-1 p-1 mb-4 bg-gray-100 rounded-xl">
+                      {(['email', 'phone'] as const).map(method => (
+                        <button
+                          key={method}
+                          onClick={() => {
+                            setLoginMethod(method);
+                            setError('');
+                          }}
+                          disabled={codeSent}
+                          className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold transition-all duration-300 ${
+                            loginMethod === method ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                          } disabled:cursor-not-allowed`}
+                        >
+                          {method === 'email' ? <Mail className="h-4 w-4" /> : <Phone className="h-4 w-4" />}
+                          {method === 'email' ? 'Email' : 'Phone'}
+                        </button>
+                      ))}
+                    </div>
+
                     <label className="block text-sm font-semibold text-gray-700 mb-3">
-                      Email Address
+                      {loginMethod === 'phone' ? 'Phone Number' : 'Email Address'}
                     </label>
                     <div className="relative">
-                      <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      {loginMethod === 'phone' ? (
+                        <Phone className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      ) : (
+                        <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      )}
                       <input
-                        type="email"
-                        value={formData.email}
-                        onChange={(e) => {
-                          handleInputChange('email', e.target.value);
-                          handleEmailCheck(e.target.value);
-                        }}
-                        className="w-full pl-12 pr-10 py-3 border border-gray-200 rounded-xl bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
-                        placeholder="Enter your email address"
+                        type={loginMethod === 'phone' ? 'tel' : 'email'}
+                        autoComplete={loginMethod === 'phone' ? 'tel' : 'email'}
+                        value={identifierValue}
+                        onChange={(e) => handleInputChange(loginMethod, e.target.value)}
+                        disabled={codeSent}
+                        className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-xl bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 disabled:text-gray-500"
+                        placeholder={loginMethod === 'phone' ? '+971 50 123 4567' : 'Enter your email address'}
                       />
-                      {emailCheckLoading && (
-                        <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
-                        </div>
-                      )}
                     </div>
                   </motion.div>
 
-                  {/* Existing Customer Detection */}
+                  {/* One-time Code */}
                   <AnimatePresence>
-                    {existingCustomer && (
+                    {codeSent && (
                       <motion.div 
-                        className="bg-blue-50 border border-blue-200 rounded-xl p-4"
-                        initial={{ opacity: 0, height: 0, scale: 0.9 }}
-                        animate={{ opacity: 1, height: 'auto', scale: 1 }}
-                        exit={{ opacity: 0, height: 0, scale: 0.9 }}
+                        className="space-y-3"
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
                         transition={{ duration: 0.4, ease: [0.4, 0, 0.2, 1] }}
                       >
-                        <div className="flex items-center gap-4">
-                          <div className="w-12 h-12 bg-gradient-to-br from-[#E6A85C] to-[#E85A9B] rounded-lg flex items-center justify-center text-white font-bold">
-                            {existingCustomer.first_name[0]}{existingCustomer.last_name[0]}
-                          </div>
-                          <div>
-                            <p className="font-semibold text-blue-900">Welcome back!</p>
-                            <p className="text-sm text-blue-700">
-                              {existingCustomer.first_name} {existingCustomer.last_name}
-                            </p>
-                            <p className="text-sm text-blue-600">
-                              {existingCustomer.total_points} points • {existingCustomer.current_tier} tier
-                            </p>
-                          </div>
+                        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex items-start gap-3">
+                          <Shield className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                          <p className="text-sm text-blue-800">
+                            {loginMethod === 'phone' ? (
+                              needsEmailCode ? (
+                                <>We texted a 6-digit code to <span className="font-semibold">{normalizePhone(formData.phone)}</span> and emailed another to <span className="font-semibold">{formData.email}</span>. Enter both below.</>
+                              ) : (
+                                <>We texted a 6-digit code to <span className="font-semibold">{normalizePhone(formData.phone)}</span>. Enter it below.</>
+                              )
+                            ) : (
+                              <>We sent a 6-digit code to <span className="font-semibold">{formData.email}</span>. Enter it below or tap the link in the email.</>
+                            )}
+                          </p>
+                        </div>
+                        <label className="block text-sm font-semibold text-gray-700">
+                          Sign-in Code
+                        </label>
+                        <div className="relative">
+                          <Lock className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            value={code}
+                            onChange={(e) => {
+                              setCode(e.target.value.replace(/\D/g, ''));
+                              setError('');
+                            }}
+                            onKeyDown={(e) => e.key === 'Enter' && handleVerifyCode()}
+                            className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-xl bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 font-mono tracking-[0.5em]"
+                            placeholder="000000"
+                          />
+                        </div>
+                        {needsEmailCode && (
+                          <>
+                            <label className="block text-sm font-semibold text-gray-700">
+                              Email Code
+                            </label>
+                            <div className="relative">
+                              <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                              <input
+                                type="text"
+                                inputMode="numeric"
+                                maxLength={6}
+                                value={emailCode}
+                                onChange={(e) => {
+                                  setEmailCode(e.target.value.replace(/\D/g, ''));
+                                  setError('');
+                                }}
+                                onKeyDown={(e) => e.key === 'Enter' && handleVerifyCode()}
+                                className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-xl bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 font-mono tracking-[0.5em]"
+                                placeholder="000000"
+                              />
+                            </div>
+                          </>
+                        )}
+                        <div className="flex justify-between text-sm">
+                          <button
+                            onClick={() => {
+                              setCodeSent(false);
+                              setCode('');
+                              setEmailCode('');
+                              setError('');
+                            }}
+                            className="text-gray-600 hover:text-gray-700"
+                          >
+                            Use a different {loginMethod === 'phone' ? 'number' : 'email'}
+                          </button>
+                          <button
+                            onClick={handleSendCode}
+                            disabled={loading}
+                            className="text-blue-600 hover:text-blue-700 font-semibold disabled:opacity-50"
+                          >
+                            Resend code
+                          </button>
                         </div>
                       </motion.div>
                     )}
@@ -337,7 +461,7 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
 
                   {/* Signup Fields */}
                   <AnimatePresence>
-                    {authMode === 'signup' && (
+                    {authMode === 'signup' && !codeSent && (
                       <motion.div 
                         className="space-y-6"
                         initial={{ opacity: 0, height: 0 }}
@@ -372,21 +496,62 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
                           </div>
                         </div>
 
-                        <div>
-                          <label className="block text-sm font-semibold text-gray-700 mb-2">
-                            Phone Number (Optional)
-                          </label>
-                          <div className="relative">
-                            <Phone className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-                            <input
-                              type="tel"
-                              value={formData.phone}
-                              onChange={(e) => handleInputChange('phone', e.target.value)}
-                              className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
-                              placeholder="+971 50 123 4567"
-                            />
+                        {loginMethod === 'phone' ? (
+                          <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                              Email Address
+                            </label>
+                            <div className="relative">
+                              <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                              <input
+                                type="email"
+                                value={formData.email}
+                                onChange={(e) => handleInputChange('email', e.target.value)}
+                                className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+                                placeholder="For receipts and offers"
+                              />
+                            </div>
                           </div>
-                        </div>
+                        ) : (
+                          <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                              Phone Number (Optional)
+                            </label>
+                            <div className="relative">
+                              <Phone className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                              <input
+                                type="tel"
+                                value={formData.phone}
+                                onChange={(e) => handleInputChange('phone', e.target.value)}
+                                className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+                                placeholder="+971 50 123 4567"
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        {referralSettings?.enabled && (
+                          <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-2">
+                              Referral Code (Optional)
+                            </label>
+                            <div className="relative">
+                              <UserPlus className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                              <input
+                                type="text"
+                                value={referralCode}
+                                onChange={(e) => setReferralCode(e.target.value.trim().toUpperCase())}
+                                className="w-full pl-12 pr-4 py-3 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 font-mono tracking-wider"
+                                placeholder="From a friend's invite"
+                              />
+                            </div>
+                            {referralCode && referralSettings.refereePoints > 0 && (
+                              <p className="text-xs text-gray-500 mt-2">
+                                You'll get {referralSettings.refereePoints} bonus points after your first purchase.
+                              </p>
+                            )}
+                          </div>
+                        )}
 
                         <div>
                           <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -408,8 +573,8 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
 
                   {/* Action Button */}
                   <motion.button
-                    onClick={authMode === 'login' ? handleLogin : handleSignup}
-                    disabled={loading || !formData.email.trim() || (authMode === 'signup' && (!formData.firstName.trim() || !formData.lastName.trim()))}
+                    onClick={codeSent ? handleVerifyCode : handleSendCode}
+                    disabled={loading || !identifierValue.trim() || (codeSent ? code.length !== 6 || (needsEmailCode && emailCode.length !== 6) : authMode === 'signup' && (!formData.firstName.trim() || !formData.lastName.trim()))}
                     className="w-full bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white font-bold py-4 px-6 rounded-xl hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -421,7 +586,7 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
                       <Loader2 className="w-5 h-5 animate-spin" />
                     ) : (
                       <>
-                        {authMode === 'login' ? 'Sign In' : 'Create Account'}
+                        {codeSent ? (authMode === 'login' ? 'Sign In' : 'Create Account') : 'Send Code'}
                         <ArrowRight className="w-5 h-5" />
                       </>
                     )}
@@ -438,7 +603,9 @@ const CustomerOnboarding: React.FC<CustomerOnboardingProps> = ({ restaurant, onC
                       onClick={() => {
                         setAuthMode(authMode === 'login' ? 'signup' : 'login');
                         setError('');
-                        setExistingCustomer(null);
+                        setCodeSent(false);
+                        setCode('');
+                        setEmailCode('');
                       }}
                       className="text-blue-600 hover:text-blue-700 font-semibold transition-colors duration-300"
                     >
@@ -2,10 +2,13 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { gsap } from 'gsap';
 import { 
-  X, Gift, Sparkles, CheckCircle, QrCode, Clock, 
+  X, Gift, Sparkles, CheckCircle, Clock, 
   User, Crown, Award, ChefHat, Copy, Check, Share2,
-  AlertTriangle, Loader2, Star
+  AlertTriangle, Loader2
 } from 'lucide-react';
+import { LoyaltyConfigService, StoredTierSettings } from '../services/loyaltyConfigService';
+import { RewardService, RedemptionResult } from '../services/rewardService';
+import RotatingQRCode from './RotatingQRCode';
 
 interface Reward {
   id: string;
@@ -13,14 +16,14 @@ interface Reward {
   description?: string;
   points_required: number;
   category: string;
-  min_tier: 'bronze' | 'silver' | 'gold';
+  min_tier: string;
 }
 
 interface Customer {
   id: string;
   first_name: string;
   last_name: string;
-  current_tier: 'bronze' | 'silver' | 'gold';
+  current_tier: string;
   total_points: number;
 }
 
@@ -28,13 +31,14 @@ interface Restaurant {
   id: string;
   name: string;
   slug: string;
+  settings?: StoredTierSettings;
 }
 
 interface CustomerRedemptionModalProps {
   reward: Reward;
   customer: Customer;
   restaurant: Restaurant;
-  onConfirm: () => Promise<void>;
+  onConfirm: () => Promise<RedemptionResult>;
   onClose: () => void;
 }
 
@@ -45,20 +49,26 @@ const CustomerRedemptionModal: React.FC<CustomerRedemptionModalProps> = ({
   onConfirm,
   onClose
 }) => {
-  const [step, setStep] = useState<'confirm' | 'processing' | 'qr' | 'complete'>('confirm');
+  const [step, setStep] = useState<'confirm' | 'processing' | 'qr'>('confirm');
   const [redemptionCode, setRedemptionCode] = useState('');
+  const [redemptionId, setRedemptionId] = useState('');
   const [copied, setCopied] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  const TIER_STYLES = [
+    { icon: ChefHat, color: 'text-orange-600' },
+    { icon: Award, color: 'text-gray-600' },
+    { icon: Crown, color: 'text-yellow-600' },
+    { icon: Sparkles, color: 'text-purple-600' }
+  ];
+
   const getTierInfo = (tier: string) => {
-    switch (tier) {
-      case 'gold':
-        return { name: 'Gold', icon: Crown, color: 'text-yellow-600' };
-      case 'silver':
-        return { name: 'Silver', icon: Award, color: 'text-gray-600' };
-      default:
-        return { name: 'Bronze', icon: ChefHat, color: 'text-orange-600' };
-    }
+    const ladder = LoyaltyConfigService.getTierLadder(restaurant.settings);
+    const rank = Math.max(LoyaltyConfigService.getTierRank(ladder, tier), 0);
+    return {
+      ...TIER_STYLES[Math.min(rank, TIER_STYLES.length - 1)],
+      name: LoyaltyConfigService.getTier(ladder, tier)?.name || tier
+    };
   };
 
   const tierInfo = getTierInfo(customer.current_tier);
@@ -72,16 +82,14 @@ const CustomerRedemptionModal: React.FC<CustomerRedemptionModalProps> = ({
       // Add a small delay to show processing state
       await new Promise(resolve => setTimeout(resolve, 1500));
       
-      await onConfirm();
-      
-      // Generate redemption code
-      const code = `${restaurant.name.substring(0, 3).toUpperCase()}-${Date.now().toString().slice(-6)}`;
-      setRedemptionCode(code);
+      const redemption = await onConfirm();
+      setRedemptionId(redemption.redemption_id);
+      setRedemptionCode(RewardService.formatRedemptionCode(redemption.code));
       
       setStep('qr');
     } catch (error) {
       console.error('Redemption failed:', error);
-      alert('Redemption failed. Please try again.');
+      alert(error instanceof Error ? error.message : 'Redemption failed. Please try again.');
       setStep('confirm');
     } finally {
       setLoading(false);
@@ -98,15 +106,13 @@ const CustomerRedemptionModal: React.FC<CustomerRedemptionModalProps> = ({
     }
   };
 
-  const handleStaffConfirmation = () => {
-    setStep('complete');
-    setTimeout(() => {
-      onClose();
-      // Reset state for next use
-      setStep('confirm');
-      setRedemptionCode('');
-      setCopied(false);
-    }, 2000);
+  const handleDone = () => {
+    onClose();
+    // Reset state for next use
+    setStep('confirm');
+    setRedemptionCode('');
+    setRedemptionId('');
+    setCopied(false);
   };
 
   return (
@@ -309,8 +315,8 @@ const CustomerRedemptionModal: React.FC<CustomerRedemptionModalProps> = ({
               animate={{ opacity: 1, scale: 1 }}
               transition={{ delay: 0.3, duration: 0.6 }}
             >
-              <div className="w-48 h-48 bg-white rounded-[var(--radius-md)] mx-auto mb-6 flex items-center justify-center border-2 border-gray-200 shadow-[var(--shadow-soft)]">
-                <QrCode className="h-24 w-24 text-gray-400" />
+              <div className="mb-6">
+                <RotatingQRCode customerId={customer.id} redemptionId={redemptionId} />
               </div>
               
               <div className="space-y-2">
@@ -365,59 +371,23 @@ const CustomerRedemptionModal: React.FC<CustomerRedemptionModalProps> = ({
               </div>
             </motion.div>
 
-            {/* Demo Staff Confirmation Button */}
             <div className="border-t border-gray-200 pt-4">
               <p className="text-xs text-gray-500 text-center mb-3">
-                Demo: Staff would scan this QR code
+                This code works once. You can close this window after staff accept it.
               </p>
               <motion.button
-                onClick={handleStaffConfirmation}
+                onClick={handleDone}
                 className="btn-modern w-full py-4 px-4 bg-green-600 text-white rounded-[var(--radius-md)] hover:bg-green-700 transition-colors flex items-center justify-center gap-2 font-bold"
                 whileHover={{ scale: 1.01 }}
                 whileTap={{ scale: 0.99 }}
               >
                 <CheckCircle className="h-4 w-4" />
-                Staff: Confirm Redemption
+                Done
               </motion.button>
             </div>
           </motion.div>
         )}
 
-        {/* Complete Step */}
-        {step === 'complete' && (
-          <motion.div 
-            className="p-6 text-center py-12"
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ duration: 0.6, ease: [0.4, 0, 0.2, 1] }}
-          >
-            <motion.div 
-              className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6 shadow-[var(--shadow-soft)]"
-              initial={{ scale: 0 }}
-              animate={{ scale: 1 }}
-              transition={{ type: "spring", stiffness: 200, delay: 0.2 }}
-            >
-              <CheckCircle className="h-8 w-8 text-green-600" />
-            </motion.div>
-            <h4 className="text-2xl font-bold text-[var(--color-dark)] mb-3">Reward Claimed!</h4>
-            <p className="text-gray-600 mb-6 text-lg">
-              Your {reward.name} has been successfully redeemed. Enjoy!
-            </p>
-            <motion.div 
-              className="bg-green-50/50 border border-green-200 rounded-[var(--radius-md)] p-4"
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.4, duration: 0.6 }}
-            >
-              <div className="flex items-center gap-2 justify-center">
-                <Star className="h-4 w-4 text-green-600" />
-                <p className="text-green-800 text-sm font-bold">
-                  Thank you for being a loyal customer at {restaurant.name}!
-                </p>
-              </div>
-            </motion.div>
-          </motion.div>
-        )}
       </motion.div>
     </motion.div>
   );
@@ -1,18 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Home, Gift, Clock, User, QrCode, ArrowRight, 
   Crown, Award, ChefHat, Star, Sparkles, TrendingUp,
   Bell, Menu, X, Eye, EyeOff, Mail, Phone, Calendar,
   UserPlus, Shield, CheckCircle, AlertCircle, Loader2,
-  Search, Copy, Share2, MapPin, Building
+  Search, Copy, Share2, MapPin, Building, RotateCcw, Cake, Download, Trash2
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { CustomerService } from '../services/customerService';
-import { RewardService } from '../services/rewardService';
+import { supabase, setWalletAccessToken } from '../lib/supabase';
+import { CustomerService, ExpiringPoints, TierHistoryEntry, BirthdayReward } from '../services/customerService';
+import { RewardService, RedemptionResult } from '../services/rewardService';
+import { CustomerAuthService } from '../services/customerAuthService';
+import { LoyaltyConfigService, TIER_METRIC_UNITS } from '../services/loyaltyConfigService';
+import { ReferralService, ReferralSummary } from '../services/referralService';
+import { CustomerDataService, CustomerDataRequest } from '../services/customerDataService';
 import CustomerOnboarding from './CustomerOnboarding';
 import CustomerRedemptionModal from './CustomerRedemptionModal';
+import RotatingQRCode from './RotatingQRCode';
 
 interface Restaurant {
   id: string;
@@ -29,8 +34,11 @@ interface Customer {
   phone?: string;
   total_points: number;
   lifetime_points: number;
-  current_tier: 'bronze' | 'silver' | 'gold' | 'platinum';
+  current_tier: string;
   tier_progress: number;
+  tier_qualifying_value?: number;
+  tier_grace_until?: string | null;
+  referral_code?: string;
   visit_count: number;
   total_spent: number;
   last_visit?: string;
@@ -44,7 +52,7 @@ interface Reward {
   points_required: number;
   category: string;
   image_url?: string;
-  min_tier: 'bronze' | 'silver' | 'gold' | 'platinum';
+  min_tier: string;
   is_active: boolean;
   total_available?: number;
   total_redeemed: number;
@@ -52,7 +60,7 @@ interface Reward {
 
 interface Transaction {
   id: string;
-  type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption';
+  type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption' | 'expiry' | 'refund' | 'reversal' | 'adjustment' | 'migration';
   points: number;
   amount_spent?: number;
   description?: string;
@@ -60,6 +68,15 @@ interface Transaction {
   reward?: { name: string };
 }
 
+interface PendingRedemption {
+  id: string;
+  code: string | null;
+  points_used: number;
+  redeemed_at: string;
+  expires_at: string | null;
+  reward: { name: string };
+}
+
 interface CustomerWalletProps {
   isDemo?: boolean;
   onClose?: () => void;
@@ -67,12 +84,22 @@ interface CustomerWalletProps {
 
 const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose }) => {
   const { restaurantSlug } = useParams();
-  const navigate = useNavigate();
   
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [customer, setCustomer] = useState<Customer | null>(null);
   const [rewards, setRewards] = useState<Reward[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [expiringPoints, setExpiringPoints] = useState<ExpiringPoints[]>([]);
+  const [tierHistory, setTierHistory] = useState<TierHistoryEntry[]>([]);
+  const [pendingRedemptions, setPendingRedemptions] = useState<PendingRedemption[]>([]);
+  const [cancellingRedemptionId, setCancellingRedemptionId] = useState<string | null>(null);
+  const [shownRedemptionQrId, setShownRedemptionQrId] = useState<string | null>(null);
+  const [referralSummary, setReferralSummary] = useState<ReferralSummary | null>(null);
+  const [referralLinkCopied, setReferralLinkCopied] = useState(false);
+  const [birthdayReward, setBirthdayReward] = useState<BirthdayReward | null>(null);
+  const [pendingErasure, setPendingErasure] = useState<CustomerDataRequest | null>(null);
+  const [dataRequestWorking, setDataRequestWorking] = useState(false);
+  const [dataRequestError, setDataRequestError] = useState('');
   const [activeTab, setActiveTab] = useState<'home' | 'rewards' | 'history' | 'profile'>('home');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -87,6 +114,11 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
     loadRestaurantData();
   }, [restaurantSlug, isDemo]);
 
+  // The wallet token must not outlive the wallet, e.g. when staff open the dashboard next
+  useEffect(() => {
+    return () => setWalletAccessToken(null);
+  }, []);
+
   const loadRestaurantData = async () => {
     try {
       setLoading(true);
@@ -94,11 +126,9 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
       // If no slug provided, try to get the first restaurant from the database
       let restaurantData;
       if (restaurantSlug) {
-        const { data, error: restaurantError } = await supabase
-          .from('restaurants')
-          .select('*')
-          .eq('slug', restaurantSlug)
-          .single();
+        const { data, error: restaurantError } = await supabase.rpc('get_wallet_restaurant', {
+          p_slug: restaurantSlug
+        });
 
         if (restaurantError || !data) {
           setError('Restaurant not found');
@@ -121,7 +151,21 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
       }
 
       setRestaurant(restaurantData);
-      setShowOnboarding(true);
+
+      // Pick up where the customer left off if their session for this restaurant is still valid
+      const session = CustomerAuthService.getSession(restaurantData.id);
+      const sessionCustomer = session
+        ? await CustomerService.getCustomer(restaurantData.id, session.customerId)
+        : null;
+
+      // An erased customer's session no longer belongs to anyone
+      if (sessionCustomer && !sessionCustomer.erased_at) {
+        setCustomer(sessionCustomer);
+        await loadCustomerActivity(restaurantData.id, sessionCustomer.id);
+      } else {
+        CustomerAuthService.signOut(restaurantData.id);
+        setShowOnboarding(true);
+      }
     } catch (err: any) {
       console.error('Error loading restaurant:', err);
       setError('Failed to load restaurant data');
@@ -130,19 +174,44 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
     }
   };
 
+  const loadCustomerActivity = async (restaurantId: string, customerId: string) => {
+    const [
+      rewardsData,
+      transactionsData,
+      expiringData,
+      tierHistoryData,
+      pendingData,
+      referralData,
+      birthdayData,
+      erasureData
+    ] = await Promise.all([
+      RewardService.getAvailableRewards(restaurantId, customerId),
+      CustomerService.getCustomerTransactions(restaurantId, customerId),
+      CustomerService.getExpiringPoints(restaurantId, customerId),
+      CustomerService.getTierHistory(restaurantId, customerId),
+      RewardService.getPendingRedemptions(restaurantId, customerId),
+      ReferralService.getReferralSummary(restaurantId, customerId),
+      CustomerService.getActiveBirthdayReward(restaurantId, customerId),
+      CustomerDataService.getPendingErasure(restaurantId, customerId)
+    ]);
+
+    setRewards(rewardsData);
+    setTransactions(transactionsData);
+    setExpiringPoints(expiringData);
+    setTierHistory(tierHistoryData);
+    setPendingRedemptions(pendingData);
+    setReferralSummary(referralData);
+    setBirthdayReward(birthdayData);
+    setPendingErasure(erasureData);
+  };
+
   const handleOnboardingComplete = async (customerData: Customer) => {
     try {
       setCustomer(customerData);
       setShowOnboarding(false);
       
       if (restaurant) {
-        const [rewardsData, transactionsData] = await Promise.all([
-          RewardService.getAvailableRewards(restaurant.id, customerData.id),
-          CustomerService.getCustomerTransactions(restaurant.id, customerData.id)
-        ]);
-        
-        setRewards(rewardsData);
-        setTransactions(transactionsData);
+        await loadCustomerActivity(restaurant.id, customerData.id);
       }
     } catch (err: any) {
       console.error('Error completing onboarding:', err);
@@ -150,103 +219,215 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
     }
   };
 
-  const handleRewardRedeem = async () => {
-    if (!selectedReward || !customer || !restaurant) return;
+  const handleSignOut = () => {
+    if (restaurant) {
+      CustomerAuthService.signOut(restaurant.id);
+    }
+    setCustomer(null);
+    setShowOnboarding(true);
+    setActiveTab('home');
+  };
+
+  const handleDownloadData = async () => {
+    if (!restaurant) return;
+
+    try {
+      setDataRequestWorking(true);
+      setDataRequestError('');
+      const data = await CustomerDataService.exportMyData();
+      CustomerDataService.downloadJson(data, `${restaurant.slug}-my-data.json`);
+    } catch (err) {
+      console.error('Error downloading data:', err);
+      setDataRequestError(err instanceof Error ? err.message : 'Could not download your data');
+    } finally {
+      setDataRequestWorking(false);
+    }
+  };
+
+  const handleRequestErasure = async () => {
+    if (!confirm('Delete your personal data? Your name, email, phone and birthday will be erased within 30 days and your points will be lost. You can cancel until then.')) {
+      return;
+    }
+
+    try {
+      setDataRequestWorking(true);
+      setDataRequestError('');
+      setPendingErasure(await CustomerDataService.requestErasure());
+    } catch (err) {
+      console.error('Error requesting erasure:', err);
+      setDataRequestError(err instanceof Error ? err.message : 'Could not send your request');
+    } finally {
+      setDataRequestWorking(false);
+    }
+  };
+
+  const handleCancelErasure = async () => {
+    try {
+      setDataRequestWorking(true);
+      setDataRequestError('');
+      await CustomerDataService.cancelErasure();
+      setPendingErasure(null);
+    } catch (err) {
+      console.error('Error cancelling erasure:', err);
+      setDataRequestError(err instanceof Error ? err.message : 'Could not cancel your request');
+    } finally {
+      setDataRequestWorking(false);
+    }
+  };
+
+  const handleRewardRedeem = async (): Promise<RedemptionResult> => {
+    if (!selectedReward || !customer || !restaurant) {
+      throw new Error('Reward not found');
+    }
 
     try {
-      await RewardService.redeemReward(restaurant.id, customer.id, selectedReward.id);
+      const redemption = await RewardService.redeemReward(restaurant.id, customer.id, selectedReward.id);
       
       // Refresh customer data to get updated points
-      const updatedCustomer = await CustomerService.getCustomerByEmail(restaurant.id, customer.email);
+      const updatedCustomer = await CustomerService.getCustomer(restaurant.id, customer.id);
       if (updatedCustomer) {
         setCustomer(updatedCustomer);
       }
       
       // Refresh rewards and transactions
-      const [updatedRewards, updatedTransactions] = await Promise.all([
-        RewardService.getAvailableRewards(restaurant.id, customer.id),
-        CustomerService.getCustomerTransactions(restaurant.id, customer.id)
-      ]);
-      
-      setRewards(updatedRewards);
-      setTransactions(updatedTransactions);
-      setSelectedReward(null);
-      setShowRedemptionModal(false);
+      await loadCustomerActivity(restaurant.id, customer.id);
+
+      // The modal stays open to show the code; it's cleared when the customer closes it
+      return redemption;
     } catch (err: any) {
       console.error('Error redeeming reward:', err);
       throw err;
     }
   };
 
-  const getTierInfo = (tier: string) => {
-    switch (tier) {
-      case 'platinum':
-        return { 
-          name: 'Platinum', 
-          icon: Sparkles, 
-          color: 'text-purple-600',
-          bgColor: 'bg-purple-50',
-          borderColor: 'border-purple-200',
-          nextTier: null,
-          threshold: 2000
-        };
-      case 'gold':
-        return { 
-          name: 'Gold', 
-          icon: Crown, 
-          color: 'text-yellow-600',
-          bgColor: 'bg-yellow-50',
-          borderColor: 'border-yellow-200',
-          nextTier: 'Platinum',
-          threshold: 1000
-        };
-      case 'silver':
-        return { 
-          name: 'Silver', 
-          icon: Award, 
-          color: 'text-gray-600',
-          bgColor: 'bg-gray-50',
-          borderColor: 'border-gray-200',
-          nextTier: 'Gold',
-          threshold: 500
-        };
-      default:
-        return { 
-          name: 'Bronze', 
-          icon: ChefHat, 
-          color: 'text-orange-600',
-          bgColor: 'bg-orange-50',
-          borderColor: 'border-orange-200',
-          nextTier: 'Silver',
-          threshold: 0
-        };
+  const handleCancelRedemption = async (redemption: PendingRedemption) => {
+    if (!customer || !restaurant) return;
+    if (!confirm(`Cancel your ${redemption.reward.name} code? Your ${redemption.points_used} points will be returned.`)) return;
+
+    try {
+      setCancellingRedemptionId(redemption.id);
+      await RewardService.cancelRedemption(customer.id, redemption.id);
+
+      const updatedCustomer = await CustomerService.getCustomer(restaurant.id, customer.id);
+      if (updatedCustomer) {
+        setCustomer(updatedCustomer);
+      }
+
+      await loadCustomerActivity(restaurant.id, customer.id);
+    } catch (err) {
+      console.error('Error cancelling redemption:', err);
+      alert(err instanceof Error ? err.message : 'Failed to cancel redemption');
+    } finally {
+      setCancellingRedemptionId(null);
     }
   };
 
-  const getNextTierProgress = () => {
-    if (!customer) return { progress: 0, pointsNeeded: 0, nextTier: 'Silver' };
-    
-    const tierInfo = getTierInfo(customer.current_tier);
-    let nextThreshold = 0;
-    
-    switch (customer.current_tier) {
-      case 'bronze':
-        nextThreshold = 500;
-        break;
-      case 'silver':
-        nextThreshold = 1000;
-        break;
-      case 'gold':
-        nextThreshold = 2000;
-        break;
-      default:
-        return { progress: 100, pointsNeeded: 0, nextTier: null };
+  const referralSettings = restaurant?.settings?.referrals;
+  const referralLink = restaurant && customer?.referral_code
+    ? ReferralService.getReferralLink(restaurant.slug, customer.referral_code)
+    : null;
+
+  // Phones get the native share sheet; everywhere else the link is copied
+  const handleShareReferral = async () => {
+    if (!referralLink || !restaurant) return;
+
+    const text = referralSettings?.refereePoints > 0
+      ? `Join ${restaurant.name}'s loyalty program with my link and get ${referralSettings.refereePoints} bonus points after your first purchase.`
+      : `Join ${restaurant.name}'s loyalty program with my link.`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: restaurant.name, text, url: referralLink });
+      } catch {
+        // Closing the share sheet rejects; nothing to do
+      }
+      return;
+    }
+
+    await handleCopyReferralLink();
+  };
+
+  const handleCopyReferralLink = async () => {
+    if (!referralLink) return;
+
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      setReferralLinkCopied(true);
+      setTimeout(() => setReferralLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying referral link:', err);
     }
-    
-    const progress = Math.min((customer.lifetime_points / nextThreshold) * 100, 100);
-    const pointsNeeded = Math.max(nextThreshold - customer.lifetime_points, 0);
-    
-    return { progress, pointsNeeded, nextTier: tierInfo.nextTier };
+  };
+
+  // Tiers are styled by their position in the ladder, so custom ladders still look right
+  const TIER_STYLES = [
+    { icon: ChefHat, color: 'text-orange-600', bgColor: 'bg-orange-50', borderColor: 'border-orange-200' },
+    { icon: Award, color: 'text-gray-600', bgColor: 'bg-gray-50', borderColor: 'border-gray-200' },
+    { icon: Crown, color: 'text-yellow-600', bgColor: 'bg-yellow-50', borderColor: 'border-yellow-200' },
+    { icon: Sparkles, color: 'text-purple-600', bgColor: 'bg-purple-50', borderColor: 'border-purple-200' }
+  ];
+
+  const tierLadder = LoyaltyConfigService.getTierLadder(restaurant?.settings);
+
+  const getTierInfo = (tier: string) => {
+    const rank = Math.max(LoyaltyConfigService.getTierRank(tierLadder, tier), 0);
+    const definition = LoyaltyConfigService.getTier(tierLadder, tier);
+    return {
+      ...TIER_STYLES[Math.min(rank, TIER_STYLES.length - 1)],
+      name: definition?.name || tier,
+      perks: definition?.perks || []
+    };
+  };
+
+  const getNextTierProgress = () => {
+    if (!customer) return { progress: 0, remaining: 0, nextTier: null };
+
+    const value = customer.tier_qualifying_value ?? customer.lifetime_points;
+    const { progress, remaining, nextTier } = LoyaltyConfigService.getTierProgress(tierLadder, customer.current_tier, value);
+    return { progress, remaining, nextTier: nextTier?.name || null };
+  };
+
+  // How far the customer is from keeping their current tier this period
+  const getTierRetention = () => {
+    if (!customer || tierLadder.period === 'all_time') return null;
+
+    const tier = LoyaltyConfigService.getTier(tierLadder, customer.current_tier);
+    const value = customer.tier_qualifying_value ?? 0;
+    if (!tier || tier.threshold <= 0 || (value >= tier.threshold && !customer.tier_grace_until)) return null;
+
+    return {
+      tierName: tier.name,
+      remaining: Math.max(tier.threshold - value, 0),
+      graceUntil: customer.tier_grace_until || null
+    };
+  };
+
+  const getTierName = (tierId: string | null) => {
+    if (!tierId) return '—';
+    return tierLadder.tiers.find(tier => tier.id === tierId)?.name || tierId;
+  };
+
+  const formatTierValue = (value: number) => {
+    const unit = TIER_METRIC_UNITS[tierLadder.metric];
+    return tierLadder.metric === 'spend' ? `${value.toLocaleString()} ${unit}` : `${Math.ceil(value).toLocaleString()} ${unit}`;
+  };
+
+  // Date the whole balance lapses if the customer doesn't visit again
+  const getInactivityExpiryDate = () => {
+    const expiry = restaurant?.settings?.pointsExpiry;
+    if (!customer || !expiry?.enabled || !expiry.inactivityMonths || customer.total_points <= 0) return null;
+
+    const date = new Date(customer.last_visit || customer.created_at);
+    date.setMonth(date.getMonth() + expiry.inactivityMonths);
+    return date;
+  };
+
+  const formatExpiryDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
   };
 
   const formatDate = (dateString: string) => {
@@ -309,6 +490,7 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
   const tierInfo = getTierInfo(customer.current_tier);
   const TierIcon = tierInfo.icon;
   const nextTierProgress = getNextTierProgress();
+  const tierRetention = getTierRetention();
 
   return (
     <div className="min-h-screen bg-gray-50 font-['Inter',sans-serif]">
@@ -337,7 +519,7 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
               </span>
             </button>
             <button
-              onClick={() => navigate('/login')}
+              onClick={handleSignOut}
               className="px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm font-medium"
             >
               Sign Out
@@ -374,7 +556,7 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
                   <span className="text-sm font-medium text-gray-700">Tier Progress</span>
                   {nextTierProgress.nextTier && (
                     <span className="text-xs text-gray-500">
-                      {nextTierProgress.pointsNeeded} points to {nextTierProgress.nextTier}
+                      {formatTierValue(nextTierProgress.remaining)} to {nextTierProgress.nextTier}
                     </span>
                   )}
                 </div>
@@ -385,7 +567,10 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-600">
-                  <span>{customer.lifetime_points} lifetime points</span>
+                  <span>
+                    {formatTierValue(customer.tier_qualifying_value ?? customer.lifetime_points)}
+                    {tierLadder.windowMonths > 0 ? ` in the last ${tierLadder.windowMonths} months` : ' lifetime'}
+                  </span>
                   {nextTierProgress.nextTier && (
                     <span>{nextTierProgress.progress.toFixed(0)}% complete</span>
                   )}
@@ -448,6 +633,99 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
               </div>
             </div>
 
+            {/* Birthday Reward */}
+            {birthdayReward && (
+              <div className="bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-2xl p-6 text-white">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                    <Cake className="h-5 w-5" />
+                  </div>
+                  <h3 className="text-lg font-bold font-['Space_Grotesk',sans-serif]">Happy birthday, {customer.first_name}!</h3>
+                </div>
+                {birthdayReward.redemption ? (
+                  birthdayReward.redemption.status === 'pending' && birthdayReward.redemption.code ? (
+                    <>
+                      <p className="text-sm text-white/90 mb-3">
+                        Your gift: {birthdayReward.redemption.reward?.name ?? 'a free reward'}. Show this code to staff to claim it.
+                      </p>
+                      <div className="flex items-center justify-between p-3 bg-white/20 rounded-lg">
+                        <span className="font-mono font-bold tracking-wider">
+                          {RewardService.formatRedemptionCode(birthdayReward.redemption.code)}
+                        </span>
+                        <span className="text-xs text-white/90">
+                          Until {new Date(`${birthdayReward.valid_until}T00:00:00`).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-white/90">Your birthday gift has been claimed. Enjoy!</p>
+                  )
+                ) : (
+                  <p className="text-sm text-white/90">We've added {birthdayReward.points.toLocaleString()} bonus points to your balance.</p>
+                )}
+              </div>
+            )}
+
+            {/* Invite Friends */}
+            {referralSettings?.enabled && referralLink && (
+              <div className="bg-white rounded-2xl p-6 border border-gray-200">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 bg-pink-100 rounded-lg flex items-center justify-center">
+                    <UserPlus className="h-5 w-5 text-pink-600" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-900 font-['Space_Grotesk',sans-serif]">Invite Friends</h3>
+                    <p className="text-sm text-gray-600">
+                      {referralSettings.referrerPoints > 0
+                        ? `Get ${referralSettings.referrerPoints} points when a friend makes their first purchase`
+                        : 'Share your link with friends'}
+                      {referralSettings.refereePoints > 0 ? `; they get ${referralSettings.refereePoints} too` : ''}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg mb-4">
+                  <span className="flex-1 font-mono font-semibold tracking-wider text-gray-900">{customer.referral_code}</span>
+                  <button
+                    onClick={handleCopyReferralLink}
+                    className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-white transition-colors"
+                    title="Copy link"
+                  >
+                    {referralLinkCopied ? <CheckCircle className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={handleShareReferral}
+                    className="px-3 py-2 bg-gradient-to-r from-[#E6A85C] to-[#E85A9B] text-white text-sm font-medium rounded-lg hover:shadow-md transition-all duration-200 flex items-center gap-1"
+                  >
+                    <Share2 className="h-4 w-4" />
+                    Share
+                  </button>
+                </div>
+
+                {referralSummary && referralSummary.joined > 0 && (
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div>
+                      <p className="text-xl font-bold text-gray-900">{referralSummary.joined}</p>
+                      <p className="text-xs text-gray-600">Joined</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold text-gray-900">{referralSummary.purchased}</p>
+                      <p className="text-xs text-gray-600">Purchased</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold text-gray-900">{referralSummary.pointsEarned}</p>
+                      <p className="text-xs text-gray-600">Points earned</p>
+                    </div>
+                  </div>
+                )}
+                {referralSettings.maxRewardsPerReferrer > 0 && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Rewards for up to {referralSettings.maxRewardsPerReferrer} friends.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Available Rewards Preview */}
             <div className="bg-white rounded-2xl p-6 border border-gray-200">
               <div className="flex items-center justify-between mb-4">
@@ -494,6 +772,59 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
         {/* Rewards Tab */}
         {activeTab === 'rewards' && (
           <div className="p-4 space-y-4">
+            {pendingRedemptions.length > 0 && (
+              <div className="bg-white rounded-2xl p-6 border border-gray-200">
+                <h3 className="font-bold text-gray-900 mb-1">Your Codes</h3>
+                <p className="text-sm text-gray-500 mb-4">Show a code to staff to claim the reward</p>
+                <div className="space-y-3">
+                  {pendingRedemptions.map((redemption) => (
+                    <div key={redemption.id} className="p-3 bg-gray-50 rounded-xl">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900">{redemption.reward.name}</p>
+                          {redemption.code && (
+                            <p className="font-mono font-bold text-gray-900 tracking-wider">
+                              {RewardService.formatRedemptionCode(redemption.code)}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-500">
+                            {redemption.expires_at
+                              ? `Valid until ${new Date(redemption.expires_at).toLocaleString()}`
+                              : 'No expiry'}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                          <button
+                            onClick={() => setShownRedemptionQrId(shownRedemptionQrId === redemption.id ? null : redemption.id)}
+                            className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-white transition-colors"
+                            title="Show QR code"
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleCancelRedemption(redemption)}
+                            disabled={cancellingRedemptionId === redemption.id}
+                            className="px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center gap-1"
+                          >
+                            {cancellingRedemptionId === redemption.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                      {shownRedemptionQrId === redemption.id && (
+                        <div className="mt-3">
+                          <RotatingQRCode customerId={customer.id} redemptionId={redemption.id} size={160} />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-3">
+                  Unused codes are cancelled automatically when they expire and your points are returned.
+                </p>
+              </div>
+            )}
+
             <h2 className="text-xl font-bold text-gray-900 font-['Space_Grotesk',sans-serif]">Available Rewards</h2>
             
             {rewards.length === 0 ? (
@@ -555,6 +886,28 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
         {activeTab === 'history' && (
           <div className="p-4 space-y-4">
             <h2 className="text-xl font-bold text-gray-900 font-['Space_Grotesk',sans-serif]">Transaction History</h2>
+
+            {/* Expiry Warning */}
+            {(expiringPoints.length > 0 || getInactivityExpiryDate()) && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                  <div className="space-y-1">
+                    <p className="font-medium text-amber-900">Points expiring soon</p>
+                    {expiringPoints.slice(0, 3).map((entry) => (
+                      <p key={entry.expiresAt} className="text-sm text-amber-800">
+                        {entry.points} pts expire on {formatExpiryDate(entry.expiresAt)}
+                      </p>
+                    ))}
+                    {getInactivityExpiryDate() && (
+                      <p className="text-sm text-amber-800">
+                        Your balance expires on {formatExpiryDate(getInactivityExpiryDate()!)} unless you visit before then
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
             
             {transactions.length === 0 ? (
               <div className="bg-white rounded-2xl p-12 border border-gray-200 text-center">
@@ -573,6 +926,10 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
                         }`}>
                           {transaction.points > 0 ? (
                             <TrendingUp className={`h-5 w-5 ${transaction.points > 0 ? 'text-green-600' : 'text-red-600'}`} />
+                          ) : transaction.type === 'expiry' ? (
+                            <Clock className="h-5 w-5 text-red-600" />
+                          ) : transaction.type === 'reversal' ? (
+                            <RotateCcw className="h-5 w-5 text-red-600" />
                           ) : (
                             <Gift className="h-5 w-5 text-red-600" />
                           )}
@@ -656,7 +1013,7 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
                   <h3 className="text-lg font-bold text-gray-900">{tierInfo.name} Member</h3>
                   <p className="text-sm text-gray-600">
                     {nextTierProgress.nextTier 
-                      ? `${nextTierProgress.pointsNeeded} points to ${nextTierProgress.nextTier}`
+                      ? `${formatTierValue(nextTierProgress.remaining)} to ${nextTierProgress.nextTier}`
                       : 'Highest tier achieved!'
                     }
                   </p>
@@ -671,6 +1028,113 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
                   />
                 </div>
               )}
+
+              {tierInfo.perks.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                  {tierInfo.perks.map(perk => (
+                    <li key={perk} className="flex items-center gap-2 text-sm text-gray-700">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      {perk}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {tierRetention && tierRetention.remaining > 0 && (
+                <div className="mt-4 bg-white/70 rounded-xl p-3 flex items-start gap-2">
+                  <AlertCircle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-gray-700">
+                    {tierRetention.graceUntil
+                      ? `Your ${tierRetention.tierName} status is kept until ${formatExpiryDate(tierRetention.graceUntil)}. `
+                      : ''}
+                    {formatTierValue(tierRetention.remaining)} more to keep {tierRetention.tierName}
+                    {tierLadder.period === 'calendar_year' ? ' for next year' : ''}.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Tier History */}
+            {tierHistory.length > 0 && (
+              <div className="bg-white rounded-2xl p-6 border border-gray-200">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Tier History</h3>
+                <div className="space-y-3">
+                  {tierHistory.slice(0, 10).map((entry) => (
+                    <div key={entry.id} className="flex items-start gap-3">
+                      <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${
+                        entry.change_type === 'upgrade' || entry.change_type === 'requalified'
+                          ? 'bg-green-100'
+                          : 'bg-amber-100'
+                      }`}>
+                        {entry.change_type === 'upgrade' || entry.change_type === 'requalified' ? (
+                          <TrendingUp className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <AlertCircle className="h-4 w-4 text-amber-600" />
+                        )}
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-900">
+                          {entry.from_tier === entry.to_tier
+                            ? getTierName(entry.to_tier)
+                            : `${getTierName(entry.from_tier)} → ${getTierName(entry.to_tier)}`}
+                        </p>
+                        <p className="text-xs text-gray-600">{entry.reason}</p>
+                        <p className="text-xs text-gray-400">{formatExpiryDate(entry.created_at)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Your Data */}
+            <div className="bg-white rounded-2xl p-6 border border-gray-200">
+              <h3 className="text-lg font-bold text-gray-900 mb-2">Your Data</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Download everything {restaurant.name} holds about you, or ask for your personal data to be deleted.
+              </p>
+
+              {pendingErasure && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                  Your data will be deleted on {formatExpiryDate(pendingErasure.due_at || pendingErasure.requested_at)}.
+                  Changed your mind?{' '}
+                  <button
+                    onClick={handleCancelErasure}
+                    disabled={dataRequestWorking}
+                    className="font-medium underline disabled:opacity-50"
+                  >
+                    Cancel the request
+                  </button>
+                </div>
+              )}
+
+              {dataRequestError && (
+                <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  {dataRequestError}
+                </div>
+              )}
+
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={handleDownloadData}
+                  disabled={dataRequestWorking}
+                  className="flex items-center justify-center gap-2 px-4 py-3 border border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {dataRequestWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Download my data
+                </button>
+                {!pendingErasure && (
+                  <button
+                    onClick={handleRequestErasure}
+                    disabled={dataRequestWorking}
+                    className="flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium text-red-600 hover:bg-red-50 rounded-xl disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete my data
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -721,8 +1185,8 @@ const CustomerWallet: React.FC<CustomerWalletProps> = ({ isDemo = false, onClose
             </div>
             
             <div className="text-center">
-              <div className="w-48 h-48 bg-gray-100 rounded-2xl mx-auto mb-4 flex items-center justify-center">
-                <QrCode className="h-24 w-24 text-gray-400" />
+              <div className="mb-4">
+                <RotatingQRCode customerId={customer.id} />
               </div>
               <p className="text-sm text-gray-600 mb-4">
                 Show this QR code to staff to earn points with your purchase
@@ -0,0 +1,572 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Search, Users, Loader2, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, X, Trash2, PlusCircle, AlertCircle, Upload, GitMerge
+} from 'lucide-react';
+import {
+  CustomerService,
+  CustomerFilters,
+  CustomerSortField,
+  CUSTOMERS_PAGE_SIZE
+} from '../services/customerService';
+import { LoyaltyConfigService, TierLadder } from '../services/loyaltyConfigService';
+import { BranchService, Branch } from '../services/branchService';
+import { SegmentService, CustomerSegment } from '../services/segmentService';
+import { CustomerDataService } from '../services/customerDataService';
+import { Database } from '../lib/supabase';
+import CustomerDetailDrawer from './CustomerDetailDrawer';
+import CustomerImportModal from './CustomerImportModal';
+import DuplicateCustomersModal from './DuplicateCustomersModal';
+import { useAuth } from '../contexts/AuthContext';
+
+type Customer = Database['public']['Tables']['customers']['Row'];
+
+const COLUMNS: { field: CustomerSortField; label: string; align?: 'right' }[] = [
+  { field: 'name', label: 'Customer' },
+  { field: 'total_points', label: 'Points', align: 'right' },
+  { field: 'total_spent', label: 'Spent', align: 'right' },
+  { field: 'visit_count', label: 'Visits', align: 'right' },
+  { field: 'last_visit', label: 'Last visit' },
+  { field: 'created_at', label: 'Joined' }
+];
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const CustomersPage: React.FC = () => {
+  const { restaurant } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  // The segments page links here with ?segment=<id>
+  const [filters, setFilters] = useState<CustomerFilters>({
+    page: 0,
+    sort: 'created_at',
+    ascending: false,
+    segmentId: searchParams.get('segment') || undefined
+  });
+  const [tierLadder, setTierLadder] = useState<TierLadder>(LoyaltyConfigService.getTierLadder({}));
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [openCustomer, setOpenCustomer] = useState<Customer | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [showBulkAdjust, setShowBulkAdjust] = useState(false);
+  const [bulkPoints, setBulkPoints] = useState('');
+  const [bulkReason, setBulkReason] = useState('');
+  const [bulkKeys, setBulkKeys] = useState<Record<string, string>>({});
+  const [bulkWorking, setBulkWorking] = useState(false);
+  const [bulkError, setBulkError] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  const restaurantId = restaurant?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      const [config, branchesData, segmentsData] = await Promise.all([
+        LoyaltyConfigService.getLoyaltyConfig(restaurantId || ''),
+        BranchService.getBranches(restaurantId || ''),
+        SegmentService.getSegments(restaurantId || '')
+      ]);
+      if (cancelled) return;
+      setTierLadder(config.tierLadder);
+      setBranches(branchesData);
+      setSegments(segmentsData);
+    };
+
+    if (restaurantId) loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCustomers = async () => {
+      setLoading(true);
+      const result = await CustomerService.getCustomerPage(restaurantId || '', filters);
+      if (cancelled) return;
+      setCustomers(result.customers);
+      setTotal(result.total);
+      setSelectedIds(new Set());
+      setLoading(false);
+    };
+
+    loadCustomers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, filters, refreshCount]);
+
+  const updateFilters = (updates: Partial<CustomerFilters>) => {
+    setFilters(current => ({ ...current, ...updates, page: 0 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput });
+  };
+
+  const handleSort = (field: CustomerSortField) => {
+    updateFilters({
+      sort: field,
+      // Names read best A-Z; numbers and dates start with the biggest or latest
+      ascending: filters.sort === field ? !filters.ascending : field === 'name'
+    });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters(current => ({ page: 0, sort: current.sort, ascending: current.ascending }));
+  };
+
+  const toggleSelected = (customerId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(customerId)) {
+        next.delete(customerId);
+      } else {
+        next.add(customerId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(current =>
+      current.size === customers.length ? new Set() : new Set(customers.map(customer => customer.id))
+    );
+  };
+
+  const openBulkAdjust = () => {
+    // One key per customer for as long as the dialog is open, so retrying after a partial failure is safe
+    setBulkKeys(Object.fromEntries(Array.from(selectedIds, id => [id, crypto.randomUUID()])));
+    setBulkPoints('');
+    setBulkReason('');
+    setBulkError('');
+    setShowBulkAdjust(true);
+  };
+
+  const handleBulkAdjust = async () => {
+    if (!restaurantId) return;
+
+    const amount = parseInt(bulkPoints);
+    if (!amount) {
+      setBulkError('Enter the number of points to add, or a negative number to deduct');
+      return;
+    }
+    if (!bulkReason.trim()) {
+      setBulkError('Enter a reason for the adjustment');
+      return;
+    }
+
+    setBulkWorking(true);
+    setBulkError('');
+
+    const failed: string[] = [];
+    for (const customerId of Object.keys(bulkKeys)) {
+      try {
+        await CustomerService.adjustPoints(restaurantId, customerId, amount, bulkReason.trim(), bulkKeys[customerId]);
+      } catch (err) {
+        console.error('Error adjusting points:', err);
+        failed.push(customerId);
+      }
+    }
+
+    setBulkWorking(false);
+
+    if (failed.length > 0) {
+      setBulkError(`${failed.length} of ${Object.keys(bulkKeys).length} adjustments failed. Apply again to retry them.`);
+      return;
+    }
+
+    setShowBulkAdjust(false);
+    setRefreshCount(count => count + 1);
+  };
+
+  const handleBulkErase = async () => {
+    if (!restaurantId) return;
+    if (!confirm(`Erase the personal data of ${selectedIds.size} customer${selectedIds.size === 1 ? '' : 's'}? Names, emails, phones and birthdays are removed for good; points and transactions are kept for your records.`)) {
+      return;
+    }
+
+    try {
+      await CustomerDataService.eraseCustomers(restaurantId, Array.from(selectedIds));
+      setRefreshCount(count => count + 1);
+    } catch (err) {
+      console.error('Error erasing customers:', err);
+      alert(err instanceof Error ? err.message : 'Failed to erase customers');
+    }
+  };
+
+  const handleCustomerChanged = (customer: Customer | null) => {
+    if (customer) setOpenCustomer(customer);
+    setRefreshCount(count => count + 1);
+  };
+
+  const page = filters.page ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / CUSTOMERS_PAGE_SIZE));
+  const hasFilters = Boolean(
+    filters.search || filters.tier || filters.branchId || filters.segmentId || filters.lastVisitFrom || filters.lastVisitTo ||
+    filters.minSpent !== undefined || filters.maxSpent !== undefined ||
+    filters.minPoints !== undefined || filters.maxPoints !== undefined
+  );
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600 mt-1">
+            {total.toLocaleString()} {hasFilters ? 'matching' : 'loyalty'} member{total === 1 ? '' : 's'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <GitMerge className="h-4 w-4" />
+            Find duplicates
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl p-4 border border-gray-200 space-y-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, email or phone..."
+              className={`w-full pl-9 ${inputClass}`}
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {segments.length > 0 && (
+            <select
+              value={filters.segmentId || ''}
+              onChange={(e) => updateFilters({ segmentId: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">All segments</option>
+              {segments.map(segment => (
+                <option key={segment.id} value={segment.id}>{segment.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={filters.tier || ''}
+            onChange={(e) => updateFilters({ tier: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">All tiers</option>
+            {tierLadder.tiers.map(tier => (
+              <option key={tier.id} value={tier.id}>{tier.name}</option>
+            ))}
+          </select>
+          {branches.length > 0 && (
+            <select
+              value={filters.branchId || ''}
+              onChange={(e) => updateFilters({ branchId: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">All branches</option>
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.id}>{branch.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <span>Last visit</span>
+            <input
+              type="date"
+              value={filters.lastVisitFrom || ''}
+              onChange={(e) => updateFilters({ lastVisitFrom: e.target.value || undefined })}
+              className={inputClass}
+              title="From"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={filters.lastVisitTo || ''}
+              onChange={(e) => updateFilters({ lastVisitTo: e.target.value || undefined })}
+              className={inputClass}
+              title="To"
+            />
+          </div>
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <span>Spent</span>
+            <input
+              type="number"
+              min="0"
+              value={filters.minSpent ?? ''}
+              onChange={(e) => updateFilters({ minSpent: parseNumber(e.target.value) })}
+              placeholder="Min"
+              className={`w-24 ${inputClass}`}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min="0"
+              value={filters.maxSpent ?? ''}
+              onChange={(e) => updateFilters({ maxSpent: parseNumber(e.target.value) })}
+              placeholder="Max"
+              className={`w-24 ${inputClass}`}
+            />
+            <span>AED</span>
+          </div>
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            <span>Points</span>
+            <input
+              type="number"
+              value={filters.minPoints ?? ''}
+              onChange={(e) => updateFilters({ minPoints: parseNumber(e.target.value) })}
+              placeholder="Min"
+              className={`w-24 ${inputClass}`}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              value={filters.maxPoints ?? ''}
+              onChange={(e) => updateFilters({ maxPoints: parseNumber(e.target.value) })}
+              placeholder="Max"
+              className={`w-24 ${inputClass}`}
+            />
+          </div>
+          {hasFilters && (
+            <button onClick={clearFilters} className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+              <X className="h-4 w-4" />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      {selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-gray-900 text-white rounded-2xl px-4 py-3">
+          <span className="text-sm font-medium">{selectedIds.size} selected</span>
+          <button
+            onClick={openBulkAdjust}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-sm"
+          >
+            <PlusCircle className="h-4 w-4" />
+            Adjust points
+          </button>
+          <button
+            onClick={handleBulkErase}
+            className="flex items-center gap-1 px-3 py-1.5 bg-red-500/80 hover:bg-red-500 rounded-lg text-sm"
+          >
+            <Trash2 className="h-4 w-4" />
+            Erase
+          </button>
+          <button onClick={() => setSelectedIds(new Set())} className="ml-auto text-sm text-white/70 hover:text-white">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : customers.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">{hasFilters ? 'No customers match these filters' : 'No customers yet'}</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-3 w-10">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.size === customers.length}
+                    onChange={toggleAll}
+                    className="rounded border-gray-300"
+                  />
+                </th>
+                {COLUMNS.map(column => (
+                  <th key={column.field} className={`px-4 py-3 font-medium ${column.align === 'right' ? 'text-right' : 'text-left'}`}>
+                    <button
+                      onClick={() => handleSort(column.field)}
+                      className="inline-flex items-center gap-1 hover:text-gray-900"
+                    >
+                      {column.label}
+                      {filters.sort === column.field && (
+                        filters.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-4 py-3 font-medium text-left">Tier</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {customers.map(customer => (
+                <tr
+                  key={customer.id}
+                  onClick={() => setOpenCustomer(customer)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(customer.id)}
+                      onChange={() => toggleSelected(customer.id)}
+                      className="rounded border-gray-300"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{customer.first_name} {customer.last_name}</p>
+                    <p className="text-xs text-gray-500">{customer.email}</p>
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{customer.total_points.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{customer.total_spent.toFixed(2)} AED</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{customer.visit_count}</td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {customer.last_visit ? new Date(customer.last_visit).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{new Date(customer.created_at).toLocaleDateString()}</td>
+                  <td className="px-4 py-3">
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs font-medium">
+                      {LoyaltyConfigService.getTier(tierLadder, customer.current_tier).name}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > CUSTOMERS_PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page - 1 }))}
+            disabled={page === 0 || loading}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+          <button
+            onClick={() => setFilters(current => ({ ...current, page: page + 1 }))}
+            disabled={page + 1 >= pageCount || loading}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {showBulkAdjust && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full border border-gray-200 shadow-xl">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900">
+                Adjust points for {Object.keys(bulkKeys).length} customer{Object.keys(bulkKeys).length === 1 ? '' : 's'}
+              </h3>
+              <button
+                onClick={() => setShowBulkAdjust(false)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <input
+                type="number"
+                value={bulkPoints}
+                onChange={(e) => setBulkPoints(e.target.value)}
+                placeholder="Points each, e.g. 50 or -50"
+                className={`w-full ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={bulkReason}
+                onChange={(e) => setBulkReason(e.target.value)}
+                placeholder="Reason (required)"
+                className={`w-full ${inputClass}`}
+              />
+              {bulkError && (
+                <p className="flex items-center gap-1 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  {bulkError}
+                </p>
+              )}
+              <button
+                onClick={handleBulkAdjust}
+                disabled={bulkWorking}
+                className="w-full px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {bulkWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showImport && restaurantId && (
+        <CustomerImportModal
+          restaurantId={restaurantId}
+          onClose={() => setShowImport(false)}
+          onImported={() => setRefreshCount(count => count + 1)}
+        />
+      )}
+
+      {showDuplicates && restaurantId && (
+        <DuplicateCustomersModal
+          restaurantId={restaurantId}
+          onClose={() => setShowDuplicates(false)}
+          onMerged={() => setRefreshCount(count => count + 1)}
+        />
+      )}
+
+      {openCustomer && restaurantId && (
+        <CustomerDetailDrawer
+          restaurantId={restaurantId}
+          customer={openCustomer}
+          tierLadder={tierLadder}
+          onClose={() => setOpenCustomer(null)}
+          onChanged={handleCustomerChanged}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomersPage;
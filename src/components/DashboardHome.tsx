@@ -12,6 +12,7 @@ import {
 import { useDashboardData } from '../hooks/useDashboardData';
 import { useAuth } from '../contexts/AuthContext';
 import LoyaltyROIDashboard from './LoyaltyROIDashboard';
+import ReferralFunnelCard from './ReferralFunnelCard';
 
 import { Link } from 'react-router-dom';
 const DashboardHome = () => {
@@ -480,6 +481,9 @@ const DashboardHome = () => {
         </div>
       )}
 
+      {/* Referral Funnel */}
+      {restaurant && <ReferralFunnelCard restaurantId={restaurant.id} />}
+
       {/* Monthly Revenue Trends */}
       {monthlyTrends.length > 0 && (
         <div className="bg-white rounded-2xl p-6 border border-gray-200 hover:shadow-lg transition-all duration-300">
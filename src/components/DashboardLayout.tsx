@@ -18,7 +18,13 @@ import {
   Crown,
   Clock,
   ArrowRight,
-  CreditCard
+  CreditCard,
+  Megaphone,
+  History,
+  RotateCcw,
+  SlidersHorizontal,
+  Filter,
+  Mail
 } from 'lucide-react';
 
 export default function DashboardLayout() {
@@ -100,11 +106,17 @@ export default function DashboardLayout() {
     { name: 'Dashboard', href: '/dashboard', icon: Home },
     { name: 'Menu Items', href: '/dashboard/menu-items', icon: ChefHat },
     { name: 'Rewards', href: '/dashboard/rewards', icon: Gift },
-    { name: 'Customers', href: '/customers', icon: Users },
+    { name: 'Campaigns', href: '/dashboard/campaigns', icon: Megaphone },
+    { name: 'Email', href: '/dashboard/email', icon: Mail },
+    { name: 'Customers', href: '/dashboard/customers', icon: Users },
+    { name: 'Segments', href: '/dashboard/segments', icon: Filter },
     { name: 'Branches', href: '/dashboard/branches', icon: MapPin },
+    { name: 'Refunds', href: '/dashboard/refunds', icon: RotateCcw },
     { name: 'Loyalty Config', href: '/dashboard/loyalty-config', icon: Settings },
     { name: 'Billing', href: '/dashboard/billing', icon: CreditCard },
+    { name: 'Audit Log', href: '/dashboard/audit-log', icon: History },
     { name: 'Analytics', href: '/analytics', icon: BarChart3 },
+    { name: 'Settings', href: '/dashboard/settings', icon: SlidersHorizontal },
     { name: 'Support', href: '/dashboard/support', icon: HeadphonesIcon },
   ];
 
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, CheckCircle, GitMerge, Users } from 'lucide-react';
+import { CustomerService, DuplicatePair } from '../services/customerService';
+import { Database } from '../lib/supabase';
+
+type Customer = Database['public']['Tables']['customers']['Row'];
+
+interface DuplicateCustomersModalProps {
+  restaurantId: string;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const pairKey = (pair: DuplicatePair) => `${pair.customer_a.id}:${pair.customer_b.id}`;
+
+// Keep the record with more history by default; the older one wins a tie
+const defaultSurvivor = (pair: DuplicatePair) => {
+  const { customer_a: a, customer_b: b } = pair;
+  if (a.visit_count !== b.visit_count) return a.visit_count > b.visit_count ? a.id : b.id;
+  return new Date(a.created_at) <= new Date(b.created_at) ? a.id : b.id;
+};
+
+const DuplicateCustomersModal: React.FC<DuplicateCustomersModalProps> = ({ restaurantId, onClose, onMerged }) => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [confirmKey, setConfirmKey] = useState<string | null>(null);
+  const [workingKey, setWorkingKey] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [mergedCount, setMergedCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDuplicates = async () => {
+      setLoading(true);
+      const result = await CustomerService.findDuplicates(restaurantId);
+      if (cancelled) return;
+      setPairs(result);
+      setSurvivors(Object.fromEntries(result.map(pair => [pairKey(pair), defaultSurvivor(pair)])));
+      setLoading(false);
+    };
+
+    loadDuplicates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId]);
+
+  const handleMerge = async (pair: DuplicatePair) => {
+    const key = pairKey(pair);
+    const survivorId = survivors[key];
+    const duplicateId = survivorId === pair.customer_a.id ? pair.customer_b.id : pair.customer_a.id;
+
+    try {
+      setWorkingKey(key);
+      setError('');
+      await CustomerService.mergeCustomers(restaurantId, survivorId, duplicateId);
+      // Other suggestions involving the merged-away record no longer apply
+      setPairs(current => current.filter(item => item.customer_a.id !== duplicateId && item.customer_b.id !== duplicateId));
+      setMergedCount(count => count + 1);
+      setConfirmKey(null);
+      onMerged();
+    } catch (err) {
+      console.error('Error merging customers:', err);
+      setError(err instanceof Error ? err.message : 'Could not merge the customers');
+    } finally {
+      setWorkingKey(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    const key = pairKey(pair);
+
+    try {
+      setWorkingKey(key);
+      setError('');
+      await CustomerService.dismissDuplicate(restaurantId, [pair.customer_a.id, pair.customer_b.id]);
+      setPairs(current => current.filter(item => pairKey(item) !== key));
+    } catch (err) {
+      console.error('Error dismissing duplicate:', err);
+      setError(err instanceof Error ? err.message : 'Could not dismiss the suggestion');
+    } finally {
+      setWorkingKey(null);
+    }
+  };
+
+  const renderCustomer = (pair: DuplicatePair, customer: Customer) => {
+    const key = pairKey(pair);
+    const kept = survivors[key] === customer.id;
+
+    return (
+      <label
+        className={`flex-1 p-3 border rounded-xl cursor-pointer ${
+          kept ? 'border-[#E6A85C] bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+        }`}
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <input
+            type="radio"
+            name={`keep-${key}`}
+            checked={kept}
+            onChange={() => setSurvivors(current => ({ ...current, [key]: customer.id }))}
+          />
+          <span className="text-xs font-medium text-gray-500">{kept ? 'Keep' : 'Merge into the other'}</span>
+        </div>
+        <p className="font-medium text-gray-900">{customer.first_name} {customer.last_name}</p>
+        <p className="text-sm text-gray-600 break-all">{customer.email}</p>
+        {customer.phone && <p className="text-sm text-gray-600">{customer.phone}</p>}
+        <p className="text-xs text-gray-500 mt-1">
+          {customer.total_points.toLocaleString()} pts • {customer.visit_count} visits • AED {customer.total_spent.toFixed(2)}
+        </p>
+        <p className="text-xs text-gray-500">Joined {new Date(customer.created_at).toLocaleDateString()}</p>
+      </label>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-3xl w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-bold text-gray-900">Possible Duplicates</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Merging moves the other record's points, visits, transactions and redemptions to the customer
+          you keep, then deletes it. This can't be undone.
+        </p>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {mergedCount > 0 && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+            <CheckCircle className="h-4 w-4 flex-shrink-0" />
+            {mergedCount} merge{mergedCount === 1 ? '' : 's'} done
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : pairs.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No likely duplicates found</p>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map(pair => {
+              const key = pairKey(pair);
+              const working = workingKey === key;
+
+              return (
+                <div key={key} className="border border-gray-200 rounded-xl p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap gap-1">
+                      {pair.reasons.map(reason => (
+                        <span key={reason} className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">{reason}</span>
+                      ))}
+                    </div>
+                    <span className="text-xs font-medium text-gray-500">{Math.round(pair.score * 100)}% match</span>
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    {renderCustomer(pair, pair.customer_a)}
+                    {renderCustomer(pair, pair.customer_b)}
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    {confirmKey === key ? (
+                      <>
+                        <button
+                          onClick={() => setConfirmKey(null)}
+                          disabled={working}
+                          className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleMerge(pair)}
+                          disabled={working}
+                          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+                        >
+                          {working && <Loader2 className="h-4 w-4 animate-spin" />}
+                          Confirm merge
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleDismiss(pair)}
+                          disabled={working}
+                          className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Not duplicates
+                        </button>
+                        <button
+                          onClick={() => setConfirmKey(key)}
+                          disabled={working}
+                          className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+                        >
+                          <GitMerge className="h-4 w-4" />
+                          Merge
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateCustomersModal;
@@ -0,0 +1,311 @@
+import React from 'react';
+import {
+  Layers, Plus, Trash2, ChevronUp, ChevronDown, Tag, Clock,
+  Building, ShieldCheck, TrendingUp
+} from 'lucide-react';
+import { EarningRule, EarningRuleType } from '../services/loyaltyConfigService';
+
+interface EarningRulesEditorProps {
+  rules: EarningRule[];
+  branches: { id: string; name: string }[];
+  categories: string[];
+  onChange: (rules: EarningRule[]) => void;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RULE_TYPES: { value: EarningRuleType; label: string; description: string; icon: React.ElementType }[] = [
+  { value: 'category_multiplier', label: 'Category Multiplier', description: 'Multiply points on items from selected categories', icon: Tag },
+  { value: 'min_spend', label: 'Minimum Spend Bonus', description: 'Flat bonus when the order reaches an amount', icon: TrendingUp },
+  { value: 'time_window', label: 'Time Window', description: 'Multiply points on certain days and hours', icon: Clock },
+  { value: 'branch_override', label: 'Branch Override', description: 'Use a different earning rate at selected branches', icon: Building },
+  { value: 'transaction_cap', label: 'Transaction Cap', description: 'Limit the points a single transaction can earn', icon: ShieldCheck }
+];
+
+const createRule = (type: EarningRuleType): EarningRule => {
+  const base = { id: crypto.randomUUID(), enabled: true };
+
+  switch (type) {
+    case 'category_multiplier':
+      return { ...base, type, name: 'Category bonus', categories: [], multiplier: 2 };
+    case 'min_spend':
+      return { ...base, type, name: 'Big spender bonus', minAmount: 200, bonusPoints: 50 };
+    case 'time_window':
+      return { ...base, type, name: 'Quiet hours boost', days: [1, 2, 3, 4], startTime: '15:00', endTime: '18:00', multiplier: 1.5 };
+    case 'branch_override':
+      return { ...base, type, name: 'Branch rate', branchIds: [], pointsPerAED: 0.2 };
+    case 'transaction_cap':
+      return { ...base, type, name: 'Per-transaction cap', maxPoints: 500 };
+  }
+};
+
+const EarningRulesEditor: React.FC<EarningRulesEditorProps> = ({ rules, branches, categories, onChange }) => {
+  const updateRule = (index: number, updates: Partial<EarningRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } as EarningRule : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const toggleValue = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const renderRuleFields = (rule: EarningRule, index: number) => {
+    switch (rule.type) {
+      case 'category_multiplier':
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {categories.length === 0 && (
+                <p className="text-sm text-gray-500">Add menu items to choose categories</p>
+              )}
+              {categories.map(category => (
+                <button
+                  key={category}
+                  onClick={() => updateRule(index, { categories: toggleValue(rule.categories, category) })}
+                  className={`px-3 py-1 rounded-full text-sm capitalize border transition-colors ${
+                    rule.categories.includes(category)
+                      ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={rule.multiplier}
+                onChange={(e) => updateRule(index, { multiplier: parseFloat(e.target.value) || 1 })}
+                className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                step="0.25"
+                min="0"
+              />
+              <span className="text-gray-600">× points on these categories</span>
+            </div>
+          </div>
+        );
+
+      case 'min_spend':
+        return (
+          <div className="flex flex-wrap items-center gap-2 text-gray-600">
+            <span>Orders of</span>
+            <input
+              type="number"
+              value={rule.minAmount}
+              onChange={(e) => updateRule(index, { minAmount: parseFloat(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+              min="0"
+            />
+            <span>AED or more earn</span>
+            <input
+              type="number"
+              value={rule.bonusPoints}
+              onChange={(e) => updateRule(index, { bonusPoints: parseInt(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+              min="0"
+            />
+            <span>bonus points</span>
+          </div>
+        );
+
+      case 'time_window':
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {DAYS.map((day, dayIndex) => (
+                <button
+                  key={day}
+                  onClick={() => updateRule(index, { days: toggleValue(rule.days, dayIndex).sort((a, b) => a - b) })}
+                  className={`w-12 py-1 rounded-lg text-sm border transition-colors ${
+                    rule.days.includes(dayIndex)
+                      ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {day}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-gray-600">
+              <span>From</span>
+              <input
+                type="time"
+                value={rule.startTime}
+                onChange={(e) => updateRule(index, { startTime: e.target.value })}
+                className="px-3 py-2 border border-gray-200 rounded-lg"
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={rule.endTime}
+                onChange={(e) => updateRule(index, { endTime: e.target.value })}
+                className="px-3 py-2 border border-gray-200 rounded-lg"
+              />
+              <input
+                type="number"
+                value={rule.multiplier}
+                onChange={(e) => updateRule(index, { multiplier: parseFloat(e.target.value) || 1 })}
+                className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                step="0.25"
+                min="0"
+              />
+              <span>×</span>
+            </div>
+          </div>
+        );
+
+      case 'branch_override':
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {branches.length === 0 && (
+                <p className="text-sm text-gray-500">Create branches to use overrides</p>
+              )}
+              {branches.map(branch => (
+                <button
+                  key={branch.id}
+                  onClick={() => updateRule(index, { branchIds: toggleValue(rule.branchIds, branch.id) })}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    rule.branchIds.includes(branch.id)
+                      ? 'bg-[#E6A85C]/10 border-[#E6A85C] text-gray-900'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {branch.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={rule.pointsPerAED}
+                onChange={(e) => updateRule(index, { pointsPerAED: parseFloat(e.target.value) || 0 })}
+                className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                step="0.05"
+                min="0"
+              />
+              <span className="text-gray-600">points per AED at these branches</span>
+            </div>
+          </div>
+        );
+
+      case 'transaction_cap':
+        return (
+          <div className="flex items-center gap-2 text-gray-600">
+            <span>Never award more than</span>
+            <input
+              type="number"
+              value={rule.maxPoints}
+              onChange={(e) => updateRule(index, { maxPoints: parseInt(e.target.value) || 0 })}
+              className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+              min="0"
+            />
+            <span>points per transaction</span>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 bg-orange-100 rounded-xl flex items-center justify-center">
+          <Layers className="h-6 w-6 text-orange-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Earning Rules</h3>
+          <p className="text-sm text-gray-600">
+            Applied after base points in this order: branch, category, time window, minimum spend, tier, cap
+          </p>
+        </div>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-6 bg-gray-50 rounded-xl mb-4">
+          <p className="text-gray-600">No earning rules yet</p>
+          <p className="text-sm text-gray-500">Base points and tier multipliers apply on their own</p>
+        </div>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {rules.map((rule, index) => {
+            const typeInfo = RULE_TYPES.find(t => t.value === rule.type)!;
+            const TypeIcon = typeInfo.icon;
+            return (
+              <div
+                key={rule.id}
+                className={`rounded-xl p-4 border ${rule.enabled ? 'bg-gray-50 border-gray-200' : 'bg-white border-dashed border-gray-300 opacity-60'}`}
+              >
+                <div className="flex items-center gap-3 mb-3">
+                  <TypeIcon className="h-5 w-5 text-gray-700" />
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                    className="flex-1 px-3 py-1 border border-gray-200 rounded-lg font-medium text-gray-900"
+                  />
+                  <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600">{typeInfo.label}</span>
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => updateRule(index, { enabled: !rule.enabled })}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      rule.enabled ? 'bg-gradient-to-r from-[#E6A85C] to-[#E85A9B]' : 'bg-gray-200'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        rule.enabled ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                  <button
+                    onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    className="p-1 text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                {renderRuleFields(rule, index)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+        {RULE_TYPES.map(type => (
+          <button
+            key={type.value}
+            onClick={() => onChange([...rules, createRule(type.value)])}
+            className="flex items-center gap-2 p-3 rounded-xl border border-dashed border-gray-300 text-left text-sm text-gray-700 hover:border-[#E6A85C] hover:bg-[#E6A85C]/5 transition-colors"
+            title={type.description}
+          >
+            <Plus className="h-4 w-4" />
+            {type.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EarningRulesEditor;
@@ -0,0 +1,553 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Plus, Edit3, Trash2, Mail, Send, Ban, Clock, Users, FileText, Loader2, AlertCircle, X, Save
+} from 'lucide-react';
+import {
+  EmailCampaignService, EmailCampaign, EmailCampaignStats, EmailCampaignStatus, EmailTemplate
+} from '../services/emailCampaignService';
+import { SegmentService, CustomerSegment } from '../services/segmentService';
+import EmailTemplateModal from './EmailTemplateModal';
+import { useAuth } from '../contexts/AuthContext';
+
+interface CampaignFormData {
+  name: string;
+  template_id: string;
+  segment_id: string; // '' sends to every member
+  scheduled_at: string; // datetime-local value; '' saves a draft
+}
+
+const emptyForm = (): CampaignFormData => ({
+  name: '',
+  template_id: '',
+  segment_id: '',
+  scheduled_at: ''
+});
+
+const STATUS_BADGES: Record<EmailCampaignStatus, { label: string; color: string }> = {
+  draft: { label: 'Draft', color: 'bg-gray-100 text-gray-700' },
+  scheduled: { label: 'Scheduled', color: 'bg-blue-100 text-blue-800' },
+  sending: { label: 'Sending', color: 'bg-yellow-100 text-yellow-800' },
+  sent: { label: 'Sent', color: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', color: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', color: 'bg-gray-100 text-gray-500' }
+};
+
+// datetime-local inputs work in the browser's time zone, without an offset
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EmailCampaignsPage: React.FC = () => {
+  const { restaurant } = useAuth();
+  const [campaigns, setCampaigns] = useState<EmailCampaign[]>([]);
+  const [stats, setStats] = useState<Record<string, EmailCampaignStats>>({});
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [showCampaignModal, setShowCampaignModal] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<EmailCampaign | null>(null);
+  const [formData, setFormData] = useState<CampaignFormData>(emptyForm());
+  const [formLoading, setFormLoading] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<EmailTemplate | null>(null);
+
+  const restaurantId = restaurant?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadData = async () => {
+      const [campaignsData, statsData, templatesData, segmentsData] = await Promise.all([
+        EmailCampaignService.getCampaigns(restaurantId || ''),
+        EmailCampaignService.getStats(restaurantId || ''),
+        EmailCampaignService.getTemplates(restaurantId || ''),
+        SegmentService.getSegments(restaurantId || '')
+      ]);
+      if (cancelled) return;
+      setCampaigns(campaignsData);
+      setStats(statsData);
+      setTemplates(templatesData);
+      setSegments(segmentsData);
+      setLoading(false);
+    };
+
+    loadData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshCount]);
+
+  // Keep delivery counts moving while a campaign is going out
+  useEffect(() => {
+    if (!campaigns.some(campaign => campaign.status === 'sending')) return;
+
+    const timer = setTimeout(() => setRefreshCount(count => count + 1), 5000);
+    return () => clearTimeout(timer);
+  }, [campaigns]);
+
+  const reload = () => setRefreshCount(count => count + 1);
+
+  const templateName = (templateId: string) =>
+    templates.find(template => template.id === templateId)?.name || 'a removed template';
+
+  const audienceName = (segmentId: string | null) =>
+    segmentId ? segments.find(segment => segment.id === segmentId)?.name || 'a removed segment' : 'All members';
+
+  const openCampaignModal = (campaign: EmailCampaign | null) => {
+    setEditingCampaign(campaign);
+    setFormData(campaign
+      ? {
+          name: campaign.name,
+          template_id: campaign.template_id,
+          segment_id: campaign.segment_id || '',
+          scheduled_at: campaign.scheduled_at ? toLocalInput(campaign.scheduled_at) : ''
+        }
+      : { ...emptyForm(), template_id: templates[0]?.id || '' });
+    setFormError('');
+    setShowCampaignModal(true);
+  };
+
+  const closeCampaignModal = () => {
+    setShowCampaignModal(false);
+    setEditingCampaign(null);
+    setFormData(emptyForm());
+    setFormError('');
+  };
+
+  const validateForm = (): string | null => {
+    if (!formData.name.trim()) return 'Campaign name is required';
+    if (!formData.template_id) return 'Choose a template';
+    if (formData.scheduled_at && new Date(formData.scheduled_at) <= new Date()) {
+      return 'Schedule the campaign for a time in the future, or use Send now';
+    }
+    return null;
+  };
+
+  const handleSaveCampaign = async () => {
+    if (!restaurantId) return;
+
+    const validationError = validateForm();
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      setFormLoading(true);
+      setFormError('');
+
+      const input = {
+        name: formData.name,
+        template_id: formData.template_id,
+        segment_id: formData.segment_id || null,
+        scheduled_at: formData.scheduled_at ? new Date(formData.scheduled_at).toISOString() : null
+      };
+
+      if (editingCampaign) {
+        await EmailCampaignService.updateCampaign(restaurantId, editingCampaign.id, input);
+      } else {
+        await EmailCampaignService.createCampaign(restaurantId, input);
+      }
+
+      closeCampaignModal();
+      reload();
+    } catch (err) {
+      console.error('Error saving email campaign:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save campaign');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const runAction = async (campaignId: string, action: () => Promise<void>, fallback: string) => {
+    try {
+      setBusyId(campaignId);
+      setError('');
+      await action();
+    } catch (err) {
+      console.error('Error updating email campaign:', err);
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusyId(null);
+      reload();
+    }
+  };
+
+  const handleSendNow = (campaign: EmailCampaign) => {
+    if (!restaurantId) return;
+    const audience = campaign.segment_id ? `the "${audienceName(campaign.segment_id)}" segment` : 'every member';
+    if (!confirm(`Send "${campaign.name}" to ${audience} now?`)) {
+      return;
+    }
+    runAction(campaign.id, () => EmailCampaignService.sendNow(restaurantId, campaign.id), 'Failed to send campaign');
+  };
+
+  const handleCancel = (campaign: EmailCampaign) => {
+    if (!restaurantId) return;
+    if (!confirm(`Cancel "${campaign.name}"? It won't be sent.`)) return;
+    runAction(campaign.id, () => EmailCampaignService.cancelCampaign(restaurantId, campaign.id), 'Failed to cancel campaign');
+  };
+
+  const handleDelete = (campaign: EmailCampaign) => {
+    if (!restaurantId) return;
+    if (!confirm(`Delete "${campaign.name}"? This cannot be undone.`)) return;
+    runAction(campaign.id, () => EmailCampaignService.deleteCampaign(restaurantId, campaign.id), 'Failed to delete campaign');
+  };
+
+  const handleDeleteTemplate = async (template: EmailTemplate) => {
+    if (!restaurantId) return;
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      setError('');
+      await EmailCampaignService.deleteTemplate(restaurantId, template.id);
+      reload();
+    } catch (err) {
+      console.error('Error deleting email template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const handleTemplateSaved = () => {
+    setShowTemplateModal(false);
+    setEditingTemplate(null);
+    reload();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  const renderStats = (campaign: EmailCampaign) => {
+    const campaignStats = stats[campaign.id];
+    if (!campaignStats || campaignStats.recipients === 0) {
+      return campaign.status === 'sent'
+        ? <p className="text-sm text-gray-500">No members matched when this was sent.</p>
+        : null;
+    }
+
+    const openRate = campaignStats.sent > 0 ? (campaignStats.opened / campaignStats.sent) * 100 : 0;
+
+    return (
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+        {[
+          { label: 'Recipients', value: campaignStats.recipients.toLocaleString() },
+          { label: 'Delivered', value: campaignStats.sent.toLocaleString() },
+          { label: 'Failed', value: campaignStats.failed.toLocaleString() },
+          { label: 'Opened', value: campaignStats.opened.toLocaleString() },
+          { label: 'Open rate', value: `${openRate.toFixed(1)}%` },
+          { label: 'Unsubscribed', value: campaignStats.unsubscribed.toLocaleString() }
+        ].map(stat => (
+          <div key={stat.label} className="bg-gray-50 rounded-xl p-3">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="font-semibold text-gray-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Email</h1>
+          <p className="text-gray-600 mt-1">Send personalised emails to your loyalty members</p>
+        </div>
+        <button
+          onClick={() => openCampaignModal(null)}
+          disabled={templates.length === 0}
+          title={templates.length === 0 ? 'Create a template first' : undefined}
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          New Campaign
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <>
+          {campaigns.length === 0 ? (
+            <div className="bg-white rounded-2xl p-12 border border-gray-200 text-center">
+              <Mail className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Email Campaigns Yet</h3>
+              <p className="text-gray-500">
+                {templates.length === 0
+                  ? 'Start by writing a template below, then send it to all members or a segment.'
+                  : 'Create a campaign to send one of your templates now or at a set time.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {campaigns.map(campaign => {
+                const badge = STATUS_BADGES[campaign.status];
+                const editable = campaign.status === 'draft' || campaign.status === 'scheduled';
+                const busy = busyId === campaign.id;
+
+                return (
+                  <div key={campaign.id} className="bg-white rounded-2xl p-6 border border-gray-200 space-y-4">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-gray-900">{campaign.name}</h3>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${badge.color}`}>{badge.label}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                          <span className="flex items-center gap-1">
+                            <FileText className="h-4 w-4 text-gray-400" />
+                            {templateName(campaign.template_id)}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Users className="h-4 w-4 text-gray-400" />
+                            {audienceName(campaign.segment_id)}
+                          </span>
+                          {(campaign.sent_at || campaign.scheduled_at) && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-4 w-4 text-gray-400" />
+                              {campaign.sent_at
+                                ? `Sent ${new Date(campaign.sent_at).toLocaleString()}`
+                                : `${campaign.status === 'scheduled' ? 'Sends' : 'Was scheduled for'} ${new Date(campaign.scheduled_at as string).toLocaleString()}`}
+                            </span>
+                          )}
+                        </div>
+                        {campaign.status === 'failed' && campaign.error && (
+                          <p className="text-sm text-red-600">{campaign.error}</p>
+                        )}
+                      </div>
+
+                      <div className="flex gap-2">
+                        {busy && <Loader2 className="h-5 w-5 animate-spin text-gray-400 self-center" />}
+                        {editable && (
+                          <>
+                            <button
+                              onClick={() => handleSendNow(campaign)}
+                              disabled={busy}
+                              className="flex items-center gap-2 py-2 px-3 text-sm font-medium text-white bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-lg disabled:opacity-50"
+                            >
+                              <Send className="h-4 w-4" />
+                              Send now
+                            </button>
+                            <button
+                              onClick={() => openCampaignModal(campaign)}
+                              disabled={busy}
+                              className="flex items-center justify-center py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                              title="Edit"
+                            >
+                              <Edit3 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        {campaign.status === 'scheduled' && (
+                          <button
+                            onClick={() => handleCancel(campaign)}
+                            disabled={busy}
+                            className="flex items-center justify-center py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            title="Cancel"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </button>
+                        )}
+                        {['draft', 'cancelled', 'failed'].includes(campaign.status) && (
+                          <button
+                            onClick={() => handleDelete(campaign)}
+                            disabled={busy}
+                            className="flex items-center justify-center py-2 px-3 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 transition-colors disabled:opacity-50"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {renderStats(campaign)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Templates</h2>
+                <p className="text-sm text-gray-600">Reusable messages with fields filled in for each member</p>
+              </div>
+              <button
+                onClick={() => {
+                  setEditingTemplate(null);
+                  setShowTemplateModal(true);
+                }}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                New Template
+              </button>
+            </div>
+
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">No templates yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{template.name}</p>
+                      <p className="text-sm text-gray-500 truncate">{template.subject}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          setEditingTemplate(template);
+                          setShowTemplateModal(true);
+                        }}
+                        className="flex items-center justify-center py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                        title="Edit"
+                      >
+                        <Edit3 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="flex items-center justify-center py-2 px-3 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {showCampaignModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-lg w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900">{editingCampaign ? 'Edit Campaign' : 'New Campaign'}</h3>
+              <button
+                onClick={closeCampaignModal}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {formError && (
+              <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                {formError}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., September points reminder"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Template *</label>
+                <select
+                  value={formData.template_id}
+                  onChange={(e) => setFormData({ ...formData, template_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Choose a template</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Send to</label>
+                <select
+                  value={formData.segment_id}
+                  onChange={(e) => setFormData({ ...formData, segment_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All members</option>
+                  {segments.map(segment => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Members who unsubscribed are skipped. The segment is checked when sending starts.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Schedule</label>
+                <input
+                  type="datetime-local"
+                  value={formData.scheduled_at}
+                  onChange={(e) => setFormData({ ...formData, scheduled_at: e.target.value })}
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to save a draft you can send later</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6 pt-4 border-t border-gray-100">
+              <button
+                onClick={closeCampaignModal}
+                className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveCampaign}
+                disabled={formLoading}
+                className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+              >
+                {formLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {formData.scheduled_at ? 'Schedule' : 'Save Draft'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showTemplateModal && restaurantId && (
+        <EmailTemplateModal
+          restaurantId={restaurantId}
+          restaurantName={restaurant?.name}
+          template={editingTemplate}
+          onClose={() => {
+            setShowTemplateModal(false);
+            setEditingTemplate(null);
+          }}
+          onSaved={handleTemplateSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EmailCampaignsPage;
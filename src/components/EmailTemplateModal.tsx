@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { X, Loader2, AlertCircle, Save } from 'lucide-react';
+import { EmailCampaignService, EmailTemplate, MERGE_FIELDS } from '../services/emailCampaignService';
+
+interface EmailTemplateModalProps {
+  restaurantId: string;
+  restaurantName?: string;
+  template: EmailTemplate | null;
+  onClose: () => void;
+  onSaved: (template: EmailTemplate) => void;
+}
+
+const EmailTemplateModal: React.FC<EmailTemplateModalProps> = ({
+  restaurantId, restaurantName, template, onClose, onSaved
+}) => {
+  const [name, setName] = useState(template?.name || '');
+  const [subject, setSubject] = useState(template?.subject || '');
+  const [body, setBody] = useState(template?.body || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const sample = EmailCampaignService.sampleValues(restaurantName);
+
+  // Drops the field in at the cursor, or at the end when the body hasn't been focused
+  const insertField = (key: string) => {
+    const tag = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + tag + body.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !subject.trim() || !body.trim()) {
+      setError('Name, subject and message are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const input = { name, subject, body };
+      const saved = template
+        ? await EmailCampaignService.updateTemplate(restaurantId, template.id, input)
+        : await EmailCampaignService.createTemplate(restaurantId, input);
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving email template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-2xl w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900">{template ? 'Edit Template' : 'New Template'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Monthly points update"
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject *</label>
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="e.g., {{first_name}}, you have {{points}} points waiting"
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Message *</label>
+            <textarea
+              ref={bodyRef}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={8}
+              className={`w-full ${inputClass}`}
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {MERGE_FIELDS.map(field => (
+                <button
+                  key={field.key}
+                  type="button"
+                  onClick={() => insertField(field.key)}
+                  className="px-3 py-1 rounded-full text-xs border border-gray-200 text-gray-600 hover:bg-gray-50"
+                >
+                  + {field.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              An unsubscribe link is added to the bottom of every email.
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Preview</p>
+            <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 text-sm">
+              <p className="font-semibold text-gray-900 mb-2">
+                {EmailCampaignService.renderTemplate(subject, sample) || 'No subject'}
+              </p>
+              <p className="text-gray-700 whitespace-pre-wrap">
+                {EmailCampaignService.renderTemplate(body, sample) || 'Your message will appear here.'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 pt-4 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplateModal;
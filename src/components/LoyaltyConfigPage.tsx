@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { 
   Settings, Save, RefreshCw, AlertCircle, CheckCircle, 
-  DollarSign, Zap, Calculator, TrendingUp, Users, Crown,
-  Award, ChefHat, Sparkles, BarChart3, Target, Info,
-  Globe, Menu as MenuIcon, Percent
+  DollarSign, Zap, Calculator, TrendingUp,
+  BarChart3, Target, Info,
+  Globe, Menu as MenuIcon, Percent, Clock, Receipt, UserPlus
 } from 'lucide-react';
-import { LoyaltyConfigService, LoyaltyConfig } from '../services/loyaltyConfigService';
+import { LoyaltyConfigService, LoyaltyConfig, AppliedRule } from '../services/loyaltyConfigService';
+import { BranchService, Branch } from '../services/branchService';
+import { MenuItemService } from '../services/menuItemService';
+import { RewardService } from '../services/rewardService';
+import { Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import EarningRulesEditor from './EarningRulesEditor';
+import TierLadderEditor from './TierLadderEditor';
+import BonusGiftsEditor from './BonusGiftsEditor';
+
+type Reward = Database['public']['Tables']['rewards']['Row'];
 
 const LoyaltyConfigPage: React.FC = () => {
   const [config, setConfig] = useState<LoyaltyConfig | null>(null);
@@ -16,6 +25,11 @@ const LoyaltyConfigPage: React.FC = () => {
   const [success, setSuccess] = useState(false);
   const [previewTier, setPreviewTier] = useState('bronze');
   const [previewAmount, setPreviewAmount] = useState(100);
+  const [previewBranchId, setPreviewBranchId] = useState('');
+  const [previewAt, setPreviewAt] = useState('');
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
 
   const { restaurant } = useAuth();
 
@@ -31,8 +45,17 @@ const LoyaltyConfigPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const loyaltyConfig = await LoyaltyConfigService.getLoyaltyConfig(restaurant.id);
+      const [loyaltyConfig, branchesData, menuItems, rewardsData] = await Promise.all([
+        LoyaltyConfigService.getLoyaltyConfig(restaurant.id),
+        BranchService.getBranches(restaurant.id),
+        MenuItemService.getMenuItems(restaurant.id),
+        RewardService.getRewards(restaurant.id)
+      ]);
       setConfig(loyaltyConfig);
+      setPreviewTier(loyaltyConfig.tierLadder.tiers[0].id);
+      setBranches(branchesData);
+      setCategories([...new Set(menuItems.map(item => item.category).filter(Boolean))].sort());
+      setRewards(rewardsData);
     } catch (err: any) {
       console.error('Error fetching loyalty config:', err);
       setError(err.message || 'Failed to load loyalty configuration');
@@ -44,10 +67,28 @@ const LoyaltyConfigPage: React.FC = () => {
   const handleSave = async () => {
     if (!restaurant || !config) return;
 
+    const validationError = LoyaltyConfigService.validateTierLadder(config.tierLadder)
+      || LoyaltyConfigService.validateBonusGift(config.signupBonus, 'welcome bonus')
+      || LoyaltyConfigService.validateBonusGift(config.birthdayReward, 'birthday reward');
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
     try {
       setSaving(true);
       setError(null);
-      await LoyaltyConfigService.updateLoyaltyConfig(restaurant.id, config);
+      await LoyaltyConfigService.updateLoyaltyConfig(restaurant.id, {
+        ...config,
+        tierLadder: {
+          ...config.tierLadder,
+          tiers: config.tierLadder.tiers.map(tier => ({
+            ...tier,
+            name: tier.name.trim(),
+            perks: tier.perks.map(perk => perk.trim()).filter(Boolean)
+          }))
+        }
+      });
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
     } catch (err: any) {
@@ -66,17 +107,14 @@ const LoyaltyConfigPage: React.FC = () => {
       undefined, // No specific menu item for blanket preview
       previewAmount,
       previewTier,
-      1
+      1,
+      {
+        branchId: previewBranchId || undefined,
+        at: previewAt ? new Date(previewAt) : undefined
+      }
     );
   };
 
-  const tiers = [
-    { value: 'bronze', label: 'Bronze', icon: ChefHat, color: 'text-orange-600' },
-    { value: 'silver', label: 'Silver', icon: Award, color: 'text-gray-600' },
-    { value: 'gold', label: 'Gold', icon: Crown, color: 'text-yellow-600' },
-    { value: 'platinum', label: 'Platinum', icon: Sparkles, color: 'text-purple-600' }
-  ];
-
   if (loading) {
     return (
       <div className="animate-pulse space-y-6">
@@ -117,7 +155,7 @@ const LoyaltyConfigPage: React.FC = () => {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Loyalty Program Configuration</h1>
-          <p className="text-gray-600 mt-1">Configure point values, blanket modes, and tier multipliers</p>
+          <p className="text-gray-600 mt-1">Configure point values, blanket modes, and the tier ladder</p>
         </div>
         <div className="flex items-center gap-3">
           <button
@@ -407,49 +445,267 @@ const LoyaltyConfigPage: React.FC = () => {
             )}
           </div>
 
-          {/* Tier Multipliers */}
+          {/* Tier Ladder */}
+          <TierLadderEditor
+            ladder={config.tierLadder}
+            onChange={(tierLadder) => setConfig({ ...config, tierLadder })}
+          />
+
+          {/* Earning Rules */}
+          <EarningRulesEditor
+            rules={config.earningRules}
+            branches={branches}
+            categories={categories}
+            onChange={(earningRules) => setConfig({ ...config, earningRules })}
+          />
+
+          {/* Welcome & Birthday Bonuses */}
+          <BonusGiftsEditor
+            signupBonus={config.signupBonus}
+            birthdayReward={config.birthdayReward}
+            rewards={rewards}
+            onChange={(updates) => setConfig({ ...config, ...updates })}
+          />
+
+          {/* Points Expiry */}
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 bg-red-100 rounded-xl flex items-center justify-center">
+                  <Clock className="h-6 w-6 text-red-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Points Expiry</h3>
+                  <p className="text-sm text-gray-600">Oldest points are spent first; expired points are removed nightly</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setConfig({
+                  ...config,
+                  pointsExpiry: { ...config.pointsExpiry, enabled: !config.pointsExpiry.enabled }
+                })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  config.pointsExpiry.enabled ? 'bg-gradient-to-r from-[#E6A85C] to-[#E85A9B]' : 'bg-gray-200'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    config.pointsExpiry.enabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
+            {config.pointsExpiry.enabled && (
+              <div className="space-y-4">
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Expire points after earning
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={config.pointsExpiry.afterEarningMonths}
+                      onChange={(e) => setConfig({
+                        ...config,
+                        pointsExpiry: { ...config.pointsExpiry, afterEarningMonths: parseInt(e.target.value) || 0 }
+                      })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      min="0"
+                      max="60"
+                    />
+                    <span className="text-gray-600">months (0 = never)</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Applies to points earned from now on. Existing balances keep no expiry date.
+                  </p>
+                </div>
+
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Expire the whole balance after no visits for
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={config.pointsExpiry.inactivityMonths}
+                      onChange={(e) => setConfig({
+                        ...config,
+                        pointsExpiry: { ...config.pointsExpiry, inactivityMonths: parseInt(e.target.value) || 0 }
+                      })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      min="0"
+                      max="60"
+                    />
+                    <span className="text-gray-600">months (0 = never)</span>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Sales Tax */}
           <div className="bg-white rounded-2xl p-6 border border-gray-200">
             <div className="flex items-center gap-3 mb-6">
-              <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
-                <Users className="h-6 w-6 text-purple-600" />
+              <div className="w-12 h-12 bg-gray-100 rounded-xl flex items-center justify-center">
+                <Receipt className="h-6 w-6 text-gray-600" />
               </div>
               <div>
-                <h3 className="text-lg font-semibold text-gray-900">Tier Multipliers</h3>
-                <p className="text-sm text-gray-600">Bonus multipliers for different customer tiers</p>
+                <h3 className="text-lg font-semibold text-gray-900">Sales Tax</h3>
+                <p className="text-sm text-gray-600">Shown on staff portal orders and receipts</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="bg-gray-50 rounded-xl p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tax rate
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    value={config.tax.ratePercent}
+                    onChange={(e) => setConfig({
+                      ...config,
+                      tax: { ...config.tax, ratePercent: Math.max(0, parseFloat(e.target.value) || 0) }
+                    })}
+                    className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                    min="0"
+                    max="50"
+                    step="0.5"
+                  />
+                  <span className="text-gray-600">%</span>
+                </div>
               </div>
+
+              <label className="flex items-center gap-3 bg-gray-50 rounded-xl p-4">
+                <input
+                  type="checkbox"
+                  checked={config.tax.pricesIncludeTax}
+                  onChange={(e) => setConfig({
+                    ...config,
+                    tax: { ...config.tax, pricesIncludeTax: e.target.checked }
+                  })}
+                  className="w-4 h-4 text-[#E6A85C] border-gray-300 rounded focus:ring-[#E6A85C]"
+                />
+                <span className="text-sm text-gray-700">Menu prices already include tax</span>
+              </label>
             </div>
+          </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              {tiers.map((tier) => {
-                const TierIcon = tier.icon;
-                return (
-                  <div key={tier.value} className="bg-gray-50 rounded-xl p-4">
-                    <div className="flex items-center gap-3 mb-3">
-                      <TierIcon className={`h-5 w-5 ${tier.color}`} />
-                      <span className="font-medium text-gray-900">{tier.label}</span>
+          {/* Referrals */}
+          <div className="bg-white rounded-2xl p-6 border border-gray-200">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 bg-pink-100 rounded-xl flex items-center justify-center">
+                  <UserPlus className="h-6 w-6 text-pink-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Referrals</h3>
+                  <p className="text-sm text-gray-600">Both sides earn once the invited friend makes a first purchase</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setConfig({
+                  ...config,
+                  referrals: { ...config.referrals, enabled: !config.referrals.enabled }
+                })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  config.referrals.enabled ? 'bg-gradient-to-r from-[#E6A85C] to-[#E85A9B]' : 'bg-gray-200'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    config.referrals.enabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
+            {config.referrals.enabled && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="bg-gray-50 rounded-xl p-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Referrer gets
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        value={config.referrals.referrerPoints}
+                        onChange={(e) => setConfig({
+                          ...config,
+                          referrals: { ...config.referrals, referrerPoints: Math.max(0, parseInt(e.target.value) || 0) }
+                        })}
+                        className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                        min="0"
+                      />
+                      <span className="text-gray-600">points</span>
                     </div>
+                  </div>
+
+                  <div className="bg-gray-50 rounded-xl p-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Friend gets
+                    </label>
                     <div className="flex items-center gap-2">
                       <input
                         type="number"
-                        value={config.tierMultipliers[tier.value as keyof typeof config.tierMultipliers]}
+                        value={config.referrals.refereePoints}
                         onChange={(e) => setConfig({
                           ...config,
-                          tierMultipliers: {
-                            ...config.tierMultipliers,
-                            [tier.value]: parseFloat(e.target.value) || 1.0
-                          }
+                          referrals: { ...config.referrals, refereePoints: Math.max(0, parseInt(e.target.value) || 0) }
                         })}
-                        className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
-                        step="0.25"
-                        min="1.0"
-                        max="5.0"
+                        className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                        min="0"
                       />
-                      <span className="text-gray-600">×</span>
+                      <span className="text-gray-600">points</span>
                     </div>
                   </div>
-                );
-              })}
-            </div>
+                </div>
+
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Friend's first purchase must be at least
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={config.referrals.minPurchaseAED}
+                      onChange={(e) => setConfig({
+                        ...config,
+                        referrals: { ...config.referrals, minPurchaseAED: Math.max(0, parseFloat(e.target.value) || 0) }
+                      })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      min="0"
+                    />
+                    <span className="text-gray-600">AED</span>
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 rounded-xl p-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reward each customer for at most
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={config.referrals.maxRewardsPerReferrer}
+                      onChange={(e) => setConfig({
+                        ...config,
+                        referrals: { ...config.referrals, maxRewardsPerReferrer: Math.max(0, parseInt(e.target.value) || 0) }
+                      })}
+                      className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                      min="0"
+                    />
+                    <span className="text-gray-600">referrals (0 = no limit)</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Friends past the limit still get their points. Signups using the referrer's own email or phone number are blocked.
+                  </p>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -490,14 +746,45 @@ const LoyaltyConfigPage: React.FC = () => {
                 onChange={(e) => setPreviewTier(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-200 rounded-lg"
               >
-                {tiers.map((tier) => (
-                  <option key={tier.value} value={tier.value}>
-                    {tier.label} ({config.tierMultipliers[tier.value as keyof typeof config.tierMultipliers]}×)
+                {config.tierLadder.tiers.map((tier) => (
+                  <option key={tier.id} value={tier.id}>
+                    {tier.name} ({tier.multiplier}×)
                   </option>
                 ))}
               </select>
             </div>
 
+            {branches.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Branch
+                </label>
+                <select
+                  value={previewBranchId}
+                  onChange={(e) => setPreviewBranchId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+                >
+                  <option value="">Any branch</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Order Time
+              </label>
+              <input
+                type="datetime-local"
+                value={previewAt}
+                onChange={(e) => setPreviewAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty to use the current time</p>
+            </div>
+
             {/* Preview Results */}
             <div className="bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-xl p-4 text-white">
               <div className="text-center mb-4">
@@ -530,6 +817,20 @@ const LoyaltyConfigPage: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {preview.breakdown.rules?.length > 0 && (
+                <div className="bg-white/10 rounded-lg p-3 mt-3">
+                  <p className="text-xs font-medium mb-2">Rules Applied</p>
+                  <div className="text-xs space-y-1 opacity-90">
+                    {preview.breakdown.rules.map((rule: AppliedRule, index: number) => (
+                      <div key={`${rule.ruleId}-${index}`} className="flex justify-between gap-2">
+                        <span>{rule.name}: {rule.detail}</span>
+                        <span className="whitespace-nowrap">{rule.pointsBefore} → {rule.pointsAfter}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Configuration Status */}
@@ -541,6 +842,8 @@ const LoyaltyConfigPage: React.FC = () => {
                 {config.blanketMode.enabled && (
                   <p>Mode: {config.blanketMode.type.charAt(0).toUpperCase() + config.blanketMode.type.slice(1)}</p>
                 )}
+                <p>Tiers: {config.tierLadder.tiers.map(tier => tier.name).join(', ')}</p>
+                <p>Earning Rules: {config.earningRules.filter(rule => rule.enabled).length} active</p>
               </div>
             </div>
           </div>
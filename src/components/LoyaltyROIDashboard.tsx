@@ -3,14 +3,15 @@ import {
   TrendingUp, TrendingDown, DollarSign, Users, Gift, Target,
   ChevronDown, ChevronUp, Info, AlertCircle, CheckCircle,
   BarChart3, PieChart, LineChart, Repeat, ShoppingCart,
-  Crown, Award, Sparkles, RefreshCw, Settings, Calculator
+  Crown, Award, Sparkles, RefreshCw, Settings, Calculator, Mail
 } from 'lucide-react';
 import {
   AreaChart, Area, BarChart, Bar, PieChart as RechartsPieChart, Pie, Cell,
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   LineChart as RechartsLineChart, Line, ComposedChart, Legend
 } from 'recharts';
-import { LoyaltyAnalyticsService, LoyaltyROIMetrics, RevenueBreakdown, CustomerBehaviorMetrics, ROISettings } from '../services/loyaltyAnalyticsService';
+import { LoyaltyAnalyticsService, LoyaltyROIMetrics, RevenueBreakdown, CustomerBehaviorMetrics, ROISettings, CampaignPerformance, EmailCampaignPerformance } from '../services/loyaltyAnalyticsService';
+import { CampaignService, Campaign } from '../services/campaignService';
 import { useAuth } from '../contexts/AuthContext';
 
 interface LoyaltyROIDashboardProps {
@@ -27,6 +28,10 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [savingSettings, setSavingSettings] = useState(false);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [selectedCampaignId, setSelectedCampaignId] = useState('');
+  const [campaignPerformance, setCampaignPerformance] = useState<CampaignPerformance | null>(null);
+  const [emailPerformance, setEmailPerformance] = useState<EmailCampaignPerformance[]>([]);
   
   const { restaurant } = useAuth();
 
@@ -36,6 +41,40 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
     }
   }, [restaurant, timeRange]);
 
+  useEffect(() => {
+    if (restaurant) {
+      CampaignService.getCampaigns(restaurant.id).then(setCampaigns);
+    }
+  }, [restaurant]);
+
+  useEffect(() => {
+    if (restaurant && selectedCampaignId) {
+      fetchCampaignPerformance();
+    } else {
+      setCampaignPerformance(null);
+    }
+  }, [restaurant, timeRange, selectedCampaignId]);
+
+  const getDateRange = () => {
+    const endDate = new Date();
+    const startDate = new Date();
+    const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
+    startDate.setDate(startDate.getDate() - days);
+
+    return { start: startDate, end: endDate };
+  };
+
+  const fetchCampaignPerformance = async () => {
+    if (!restaurant || !selectedCampaignId) return;
+
+    const performance = await LoyaltyAnalyticsService.getCampaignPerformance(
+      restaurant.id,
+      selectedCampaignId,
+      getDateRange()
+    );
+    setCampaignPerformance(performance);
+  };
+
   const fetchLoyaltyMetrics = async () => {
     if (!restaurant) return;
 
@@ -43,24 +82,20 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
       setLoading(true);
       setError(null);
 
-      // Calculate date range
-      const endDate = new Date();
-      const startDate = new Date();
-      const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
-      startDate.setDate(startDate.getDate() - days);
+      const dateRange = getDateRange();
 
-      const dateRange = { start: startDate, end: endDate };
-
-      const [metricsData, revenueData, behaviorData] = await Promise.all([
+      const [metricsData, revenueData, behaviorData, emailData] = await Promise.all([
         LoyaltyAnalyticsService.getLoyaltyROIMetrics(restaurant.id, dateRange),
         LoyaltyAnalyticsService.getRevenueBreakdown(restaurant.id, dateRange),
         LoyaltyAnalyticsService.getCustomerBehaviorMetrics(restaurant.id, dateRange),
+        LoyaltyAnalyticsService.getEmailCampaignPerformance(restaurant.id, dateRange),
         LoyaltyAnalyticsService.getROISettings(restaurant.id)
       ]);
 
       setMetrics(metricsData);
       setRevenueBreakdown(revenueData);
       setBehaviorMetrics(behaviorData);
+      setEmailPerformance(emailData);
       setROISettings(roiSettings);
 
     } catch (err: any) {
@@ -199,6 +234,18 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {campaigns.length > 0 && (
+            <select
+              value={selectedCampaignId}
+              onChange={(e) => setSelectedCampaignId(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+            >
+              <option value="">All activity</option>
+              {campaigns.map((campaign) => (
+                <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+              ))}
+            </select>
+          )}
           <button
             onClick={fetchLoyaltyMetrics}
             className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -216,6 +263,106 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
         </div>
       </div>
 
+      {/* Campaign Performance */}
+      {selectedCampaignId && (
+        <div className="bg-white rounded-2xl p-6 border border-gray-200">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-12 h-12 bg-pink-100 rounded-xl flex items-center justify-center">
+              <Sparkles className="h-6 w-6 text-pink-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {campaigns.find(c => c.id === selectedCampaignId)?.name} Performance
+              </h3>
+              <p className="text-sm text-gray-600">Purchases boosted by this campaign in the selected period</p>
+            </div>
+          </div>
+
+          {campaignPerformance ? (
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-gray-50 rounded-xl p-4">
+                <p className="text-sm text-gray-600">Campaign Revenue</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(campaignPerformance.revenue)}</p>
+                <p className="text-xs text-gray-500">
+                  {campaignPerformance.orders} orders · {campaignPerformance.customers} customers
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-4">
+                <p className="text-sm text-gray-600">Average Order</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(campaignPerformance.averageOrderValue)}</p>
+                <p className="text-xs text-gray-500">
+                  vs {formatCurrency(campaignPerformance.baselineAverageOrderValue)} outside campaigns
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-4">
+                <p className="text-sm text-gray-600">Bonus Cost</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(campaignPerformance.bonusCost)}</p>
+                <p className="text-xs text-gray-500">
+                  {campaignPerformance.bonusPoints.toLocaleString()} bonus points
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-4">
+                <p className="text-sm text-gray-600">Campaign ROI</p>
+                <p className={`text-xl font-bold ${campaignPerformance.roi >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercentage(campaignPerformance.roi)}
+                </p>
+                <p className="text-xs text-gray-500">Gross profit vs bonus cost</p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No campaign data for this period</p>
+          )}
+        </div>
+      )}
+
+      {/* Email Campaigns */}
+      {emailPerformance.length > 0 && (
+        <div className="bg-white rounded-2xl p-6 border border-gray-200">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+              <Mail className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Email Campaigns</h3>
+              <p className="text-sm text-gray-600">Recipients who came back within 7 days of each email</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {emailPerformance.map(email => (
+              <div key={email.campaignId} className="bg-gray-50 rounded-xl p-4">
+                <div className="flex items-center justify-between gap-3 mb-3">
+                  <p className="font-medium text-gray-900">{email.name}</p>
+                  <p className="text-xs text-gray-500">Sent {new Date(email.sentAt).toLocaleDateString()}</p>
+                </div>
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-gray-600">Delivered</p>
+                    <p className="text-xl font-bold text-gray-900">{email.sent.toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">{email.unsubscribed.toLocaleString()} unsubscribed</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600">Open Rate</p>
+                    <p className="text-xl font-bold text-gray-900">{formatPercentage(email.openRate)}</p>
+                    <p className="text-xs text-gray-500">{email.opened.toLocaleString()} opened</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600">Customers Returned</p>
+                    <p className="text-xl font-bold text-gray-900">{email.customersReturned.toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">{email.orders.toLocaleString()} orders</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600">Revenue</p>
+                    <p className="text-xl font-bold text-gray-900">{formatCurrency(email.revenue)}</p>
+                    <p className="text-xs text-gray-500">From returning recipients</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Primary ROI Card */}
       <div className="bg-gradient-to-br from-[#1E2A78] to-[#3B4B9A] rounded-2xl p-8 text-white relative overflow-hidden">
         <div className="absolute top-0 right-0 w-32 h-32 bg-white/10 rounded-full -translate-y-16 translate-x-16"></div>
@@ -438,6 +585,11 @@ const LoyaltyROIDashboard: React.FC<LoyaltyROIDashboardProps> = ({ timeRange })
             </div>
           </div>
           <p className="text-xs text-gray-500">Value of unused points</p>
+          {metrics.totalPointsExpired > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {metrics.totalPointsExpired.toLocaleString()} points expired this period
+            </p>
+          )}
         </div>
       </div>
         <div className="bg-white rounded-2xl p-6 border border-gray-200">
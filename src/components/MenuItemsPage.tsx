@@ -3,12 +3,12 @@ import {
   Plus, Edit3, Trash2, Eye, EyeOff, Search, Filter, 
   Utensils, Coffee, Salad, Cookie, DollarSign, Calculator, TrendingUp,
   X, Save, AlertCircle, CheckCircle, Zap,
-  MoreVertical, Copy, Settings, Target, Crown, Award, ChefHat, Percent,
+  MoreVertical, Copy, Settings, Target, Percent,
   PieChart, BarChart3, Info
 } from 'lucide-react';
 import { MenuItemService, MenuItem } from '../services/menuItemService';
 import { useAuth } from '../contexts/AuthContext';
-import { LoyaltyConfigService } from '../services/loyaltyConfigService';
+import { LoyaltyConfigService, TierLadder } from '../services/loyaltyConfigService';
 
 const MenuItemsPage: React.FC = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -45,12 +45,12 @@ const MenuItemsPage: React.FC = () => {
     { value: 'appetizer', label: 'Appetizers', icon: Target, color: 'bg-purple-100 text-purple-600' }
   ];
 
-  const tiers = [
-    { value: 'bronze', label: 'Bronze', icon: ChefHat, multiplier: 1.0 },
-    { value: 'silver', label: 'Silver', icon: Award, multiplier: 1.25 },
-    { value: 'gold', label: 'Gold', icon: Crown, multiplier: 1.5 },
-    { value: 'platinum', label: 'Platinum', icon: Crown, multiplier: 2.0 }
-  ];
+  const tierLadder: TierLadder = loyaltyConfig?.tierLadder || LoyaltyConfigService.getTierLadder({});
+  const tiers = tierLadder.tiers.map(tier => ({
+    value: tier.id,
+    label: tier.name,
+    multiplier: tier.multiplier
+  }));
 
   useEffect(() => {
     if (restaurant) {
@@ -64,6 +64,7 @@ const MenuItemsPage: React.FC = () => {
     try {
       const config = await LoyaltyConfigService.getLoyaltyConfig(restaurant.id);
       setLoyaltyConfig(config);
+      setPreviewTier(config.tierLadder.tiers[0].id);
     } catch (error) {
       console.error('Error fetching loyalty config:', error);
     }
@@ -867,7 +868,7 @@ const MenuItemsPage: React.FC = () => {
                           ≈ {getPreviewValueAED().toFixed(3)} AED value
                         </p>
                         <p className="text-xs opacity-75 mt-1">
-                          {previewTier.charAt(0).toUpperCase() + previewTier.slice(1)} tier • {tiers.find(t => t.value === previewTier)?.multiplier}x multiplier
+                          {tiers.find(t => t.value === previewTier)?.label || previewTier} tier • {tiers.find(t => t.value === previewTier)?.multiplier}x multiplier
                         </p>
                         {loyaltyConfig && (
                           <p className="text-xs opacity-75 mt-1">
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Wifi, WifiOff, RefreshCw, AlertCircle, X, Trash2, UploadCloud } from 'lucide-react';
+import { OfflineQueueState } from '../hooks/useOfflineQueue';
+import { QueuedAssignment } from '../services/offlineQueueService';
+
+interface OfflineSyncStatusProps {
+  queue: OfflineQueueState;
+}
+
+const describeAction = (entry: QueuedAssignment) => {
+  const { action } = entry;
+  if (action.kind === 'points') return `+${action.points} pts for ${action.amountSpent} AED`;
+  if (action.kind === 'order') {
+    const items = action.lines.reduce((sum, line) => sum + line.quantity, 0);
+    return `Menu order, ${items} item${items === 1 ? '' : 's'}`;
+  }
+  return `Redeem ${action.rewardName} (${action.pointsRequired} pts)`;
+};
+
+const OfflineSyncStatus: React.FC<OfflineSyncStatusProps> = ({ queue }) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const { isOnline, entries, pendingCount, conflictCount, syncing, lastSync } = queue;
+
+  const badge = !isOnline
+    ? { icon: WifiOff, label: pendingCount > 0 ? `Offline • ${pendingCount} to sync` : 'Offline', className: 'bg-amber-100 text-amber-800' }
+    : conflictCount > 0
+    ? { icon: AlertCircle, label: `${conflictCount} need${conflictCount === 1 ? 's' : ''} attention`, className: 'bg-red-100 text-red-700' }
+    : pendingCount > 0
+    ? { icon: RefreshCw, label: `${pendingCount} to sync`, className: 'bg-blue-100 text-blue-800' }
+    : { icon: Wifi, label: 'Synced', className: 'bg-green-100 text-green-700' };
+  const BadgeIcon = badge.icon;
+
+  return (
+    <>
+      <button
+        onClick={() => setShowPanel(true)}
+        className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${badge.className}`}
+      >
+        <BadgeIcon className={`h-3.5 w-3.5 ${syncing ? 'animate-spin' : ''}`} />
+        {badge.label}
+      </button>
+
+      {showPanel && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <UploadCloud className="h-5 w-5 text-gray-700" />
+                <h3 className="text-lg font-bold text-gray-900">Offline Queue</h3>
+              </div>
+              <button
+                onClick={() => setShowPanel(false)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              {isOnline
+                ? 'Assignments made while offline are sent in the order they were made.'
+                : 'You are offline. Points and redemptions are saved on this device and sent when the connection returns.'}
+            </p>
+
+            {lastSync?.pausedReason && pendingCount > 0 && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl text-sm mb-4">
+                {lastSync.pausedReason}
+              </div>
+            )}
+
+            {entries.length === 0 ? (
+              <div className="text-center py-8">
+                <Wifi className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+                <p className="text-gray-500">Everything is synced</p>
+              </div>
+            ) : (
+              <div className="space-y-2 mb-4">
+                {entries.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className={`p-3 rounded-xl border ${
+                      entry.status === 'conflict' ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 text-sm">{entry.customerName}</p>
+                        <p className="text-sm text-gray-600">{describeAction(entry)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(entry.createdAt).toLocaleTimeString()}
+                          {entry.staffName ? ` • ${entry.staffName}` : ''}
+                        </p>
+                      </div>
+                      {entry.status === 'conflict' && (
+                        <div className="flex gap-1 flex-shrink-0">
+                          <button
+                            onClick={() => queue.retry(entry.id)}
+                            disabled={!isOnline || syncing}
+                            className="p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-white disabled:opacity-50"
+                            title="Try again"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => queue.discard(entry.id)}
+                            className="p-2 text-red-600 hover:text-red-700 rounded-lg hover:bg-white"
+                            title="Discard"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {entry.error && <p className="text-sm text-red-700 mt-2">{entry.error}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={queue.syncNow}
+              disabled={!isOnline || syncing || pendingCount === 0}
+              className="w-full py-3 px-4 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+              Sync now
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default OfflineSyncStatus;
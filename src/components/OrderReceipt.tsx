@@ -0,0 +1,139 @@
+import React, { useRef } from 'react';
+import { X, Printer, CheckCircle } from 'lucide-react';
+import { Order } from '../services/orderService';
+
+interface OrderReceiptProps {
+  order: Order;
+  restaurantName: string;
+  branchName?: string;
+  customerName?: string;
+  staffName?: string;
+  onClose: () => void;
+}
+
+const formatAED = (value: number) => `${value.toFixed(2)} AED`;
+
+const OrderReceipt: React.FC<OrderReceiptProps> = ({
+  order,
+  restaurantName,
+  branchName,
+  customerName,
+  staffName,
+  onClose
+}) => {
+  const receiptRef = useRef<HTMLDivElement>(null);
+
+  // Print just the receipt, reusing the app's stylesheets so it looks the same on paper
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=420,height=640');
+    if (!printWindow || !receiptRef.current) return;
+
+    const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+      .map(node => node.outerHTML)
+      .join('');
+
+    printWindow.document.write(
+      `<html><head><title>Receipt #${order.order_number}</title>${styles}</head>` +
+      `<body class="p-4">${receiptRef.current.outerHTML}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.onload = () => {
+      printWindow.print();
+      printWindow.close();
+    };
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-sm w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2 text-green-700">
+            <CheckCircle className="h-5 w-5" />
+            <h3 className="text-lg font-bold text-gray-900">Order Recorded</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div ref={receiptRef} className="font-mono text-sm text-gray-900">
+          <div className="text-center mb-3">
+            <p className="font-bold text-base">{restaurantName}</p>
+            {branchName && <p className="text-gray-600">{branchName}</p>}
+            <p className="text-gray-600">Receipt #{order.order_number}</p>
+            <p className="text-gray-600">{new Date(order.created_at).toLocaleString()}</p>
+          </div>
+
+          <div className="border-t border-dashed border-gray-300 py-2 space-y-1">
+            {order.items.map((item) => (
+              <div key={item.id}>
+                <div className="flex justify-between gap-2">
+                  <span>{item.quantity} × {item.name}</span>
+                  <span>{formatAED(item.unit_price * item.quantity)}</span>
+                </div>
+                {item.discount > 0 && (
+                  <div className="flex justify-between gap-2 text-gray-600 pl-4">
+                    <span>Discount</span>
+                    <span>-{formatAED(item.discount)}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-dashed border-gray-300 py-2 space-y-1">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatAED(order.subtotal)}</span>
+            </div>
+            {order.order_discount > 0 && (
+              <div className="flex justify-between">
+                <span>Order discount</span>
+                <span>-{formatAED(order.order_discount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-gray-600">
+              <span>VAT {order.tax_rate}%{order.tax_inclusive ? ' (included)' : ''}</span>
+              <span>{formatAED(order.tax_total)}</span>
+            </div>
+            <div className="flex justify-between font-bold text-base">
+              <span>Total</span>
+              <span>{formatAED(order.total)}</span>
+            </div>
+          </div>
+
+          <div className="border-t border-dashed border-gray-300 pt-2 space-y-1 text-gray-600">
+            {customerName && <p>Member: {customerName}</p>}
+            <p>
+              Points earned: {order.points_awarded}
+              {order.campaign_bonus_points > 0 && ` (incl. +${order.campaign_bonus_points} bonus)`}
+            </p>
+            {staffName && <p>Served by: {staffName}</p>}
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            Done
+          </button>
+          <button
+            onClick={handlePrint}
+            className="flex-1 py-3 px-4 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200 flex items-center justify-center gap-2"
+          >
+            <Printer className="h-4 w-4" />
+            Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderReceipt;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useRef } from 'react';
+import jsQR from 'jsqr';
+import { X, Camera, CameraOff, Keyboard, ArrowRight } from 'lucide-react';
+
+interface QRScannerProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+}
+
+const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState('');
+  const [manualEntry, setManualEntry] = useState('');
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scanFrame = () => {
+      if (stopped) return;
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+          if (code?.data) {
+            stopped = true;
+            onScanRef.current(code.data);
+            return;
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('This device has no camera access. Enter the code below instead.');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        setCameraError('Camera permission was denied. Enter the code below instead.');
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleManualSubmit = () => {
+    if (manualEntry.trim()) {
+      onScan(manualEntry.trim());
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Camera className="h-5 w-5 text-[#E85A9B]" />
+            Scan Customer Code
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {cameraError ? (
+          <div className="aspect-square bg-gray-100 rounded-xl flex flex-col items-center justify-center gap-3 p-6 text-center mb-4">
+            <CameraOff className="h-10 w-10 text-gray-400" />
+            <p className="text-sm text-gray-600">{cameraError}</p>
+          </div>
+        ) : (
+          <div className="relative aspect-square bg-black rounded-xl overflow-hidden mb-4">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-10 border-2 border-white/80 rounded-2xl pointer-events-none" />
+          </div>
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+
+        <p className="text-sm text-gray-600 mb-2 flex items-center gap-2">
+          <Keyboard className="h-4 w-4" />
+          Or enter a redemption code or customer email
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={manualEntry}
+            onChange={(e) => setManualEntry(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleManualSubmit()}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+            placeholder="XXXXX-XXXXX or name@example.com"
+          />
+          <button
+            onClick={handleManualSubmit}
+            disabled={!manualEntry.trim()}
+            className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl disabled:opacity-50"
+          >
+            <ArrowRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QRScanner;
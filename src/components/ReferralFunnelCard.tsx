@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { UserPlus, ShoppingCart, Gift, ShieldAlert, Trophy } from 'lucide-react';
+import { ReferralService, ReferralFunnelStats } from '../services/referralService';
+
+interface ReferralFunnelCardProps {
+  restaurantId: string;
+}
+
+const ReferralFunnelCard: React.FC<ReferralFunnelCardProps> = ({ restaurantId }) => {
+  const [stats, setStats] = useState<ReferralFunnelStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const data = await ReferralService.getFunnelStats(restaurantId);
+      if (!cancelled) {
+        setStats(data);
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId]);
+
+  if (loading || !stats) return null;
+
+  const steps = [
+    { label: 'Signed up with a link', value: stats.signedUp, icon: UserPlus, color: 'bg-[#E6A85C]' },
+    { label: 'Made a first purchase', value: stats.purchased, icon: ShoppingCart, color: 'bg-[#E85A9B]' },
+    { label: 'Referrer rewarded', value: stats.referrerRewarded, icon: Gift, color: 'bg-[#D946EF]' }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200 hover:shadow-lg transition-all duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Referral Funnel</h2>
+          <p className="text-sm text-gray-500">Friends invited by your customers, from signup to first purchase</p>
+        </div>
+        <div className="px-3 py-1 bg-pink-100 text-pink-800 rounded-full text-sm font-medium">
+          {stats.pointsIssued.toLocaleString()} pts issued
+        </div>
+      </div>
+
+      {stats.signedUp === 0 && stats.blocked === 0 ? (
+        <div className="text-center py-8">
+          <UserPlus className="h-12 w-12 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-500">No referrals yet</p>
+          <Link to="/dashboard/loyalty-config" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            Referral settings
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            {steps.map((step, index) => {
+              const Icon = step.icon;
+              const width = stats.signedUp > 0 ? (step.value / stats.signedUp) * 100 : 0;
+              return (
+                <div key={step.label}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="flex items-center gap-2 text-gray-700">
+                      <Icon className="h-4 w-4 text-gray-500" />
+                      {step.label}
+                    </span>
+                    <span className="font-semibold text-gray-900">
+                      {step.value}
+                      {index > 0 && stats.signedUp > 0 && (
+                        <span className="ml-1 font-normal text-gray-500">({width.toFixed(0)}%)</span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-3">
+                    <div className={`${step.color} h-3 rounded-full transition-all duration-500`} style={{ width: `${width}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap gap-4 pt-2 text-sm text-gray-600">
+              {stats.capped > 0 && (
+                <span>{stats.capped} past the referrer's limit (friend rewarded only)</span>
+              )}
+              {stats.reversed > 0 && (
+                <span>{stats.reversed} reversed after the first purchase was refunded</span>
+              )}
+              {stats.blocked > 0 && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <ShieldAlert className="h-4 w-4" />
+                  {stats.blocked} self-referral{stats.blocked === 1 ? '' : 's'} blocked
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-xl p-4">
+            <h3 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+              <Trophy className="h-4 w-4 text-yellow-600" />
+              Top referrers
+            </h3>
+            {stats.topReferrers.length === 0 ? (
+              <p className="text-sm text-gray-500">No purchases from referred friends yet</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.topReferrers.map(referrer => (
+                  <div key={referrer.customerId} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-900 truncate">{referrer.name}</span>
+                    <span className="text-gray-600">{referrer.purchased}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferralFunnelCard;
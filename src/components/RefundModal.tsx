@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, CheckCircle, AlertCircle, Loader2, ShieldCheck } from 'lucide-react';
+import { RefundService, RefundablePurchase, RefundResult } from '../services/refundService';
+import { StaffMember } from '../services/staffService';
+
+interface RefundModalProps {
+  purchase: RefundablePurchase;
+  // Managers who can approve with their PIN; the owner and managers' own sessions approve automatically
+  approvers?: StaffMember[];
+  onClose: () => void;
+  onRefunded: (result: RefundResult) => void;
+}
+
+const formatAED = (value: number) => `${value.toFixed(2)} AED`;
+
+const RefundModal: React.FC<RefundModalProps> = ({ purchase, approvers = [], onClose, onRefunded }) => {
+  const [mode, setMode] = useState<'full' | 'partial'>('full');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [approvalNeeded, setApprovalNeeded] = useState(false);
+  const [approverId, setApproverId] = useState('');
+  const [approverPin, setApproverPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<RefundResult | null>(null);
+  // One refund per modal, however many times the button is pressed
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const managers = approvers.filter(staff => staff.role === 'manager' && staff.is_active);
+  const refundAmount = mode === 'full' ? purchase.remaining_amount : Math.min(parseFloat(amount) || 0, purchase.remaining_amount);
+  const pointsReversed = RefundService.previewPointsReversed(purchase, refundAmount);
+  const balanceAfter = (purchase.customer?.total_points ?? 0) - pointsReversed;
+  const customerName = purchase.customer
+    ? `${purchase.customer.first_name} ${purchase.customer.last_name}`
+    : 'Unknown customer';
+
+  const handleRefund = async () => {
+    if (refundAmount <= 0) {
+      setError('Enter an amount to refund');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const outcome = await RefundService.refundPurchase(purchase.id, {
+        amount: mode === 'partial' ? refundAmount : undefined,
+        reason,
+        approverStaffId: approverId || undefined,
+        approverPin: approverPin || undefined,
+        idempotencyKey
+      });
+
+      if ('requires_approval' in outcome) {
+        setApprovalNeeded(true);
+        setApproverPin('');
+        setError(outcome.error);
+        return;
+      }
+
+      setResult(outcome);
+      onRefunded(outcome);
+    } catch (err) {
+      console.error('Error refunding purchase:', err);
+      setError(err instanceof Error ? err.message : 'Failed to refund purchase');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-md w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5 text-red-600" />
+            <h3 className="text-lg font-bold text-gray-900">Refund Purchase</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="bg-gray-50 rounded-xl p-4 mb-4 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Customer</span>
+            <span className="font-medium text-gray-900">{customerName}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Purchase</span>
+            <span className="text-gray-900">
+              {purchase.order ? `Receipt #${purchase.order.order_number} • ` : ''}
+              {new Date(purchase.created_at).toLocaleString()}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Paid</span>
+            <span className="text-gray-900">{formatAED(purchase.amount_spent || 0)} • {purchase.points} pts</span>
+          </div>
+          {purchase.refunded_amount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Already refunded</span>
+              <span className="text-gray-900">{formatAED(purchase.refunded_amount)} • {purchase.refunded_points} pts</span>
+            </div>
+          )}
+          {purchase.description && <p className="text-gray-500 pt-1">{purchase.description}</p>}
+        </div>
+
+        {result ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-xl text-sm text-green-700">
+              <div className="flex items-center gap-2 font-medium mb-1">
+                <CheckCircle className="h-4 w-4" />
+                Refunded {formatAED(result.amount_refunded)}
+              </div>
+              <p>
+                {result.points_reversed} points reversed. New balance: {result.balance} points.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full py-3 px-4 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {(['full', 'partial'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`flex-1 py-2 px-3 rounded-xl text-sm font-medium transition-all ${
+                    mode === option
+                      ? 'bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {option === 'full' ? `Full (${formatAED(purchase.remaining_amount)})` : 'Partial'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'partial' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount to refund (AED)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={purchase.remaining_amount}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  placeholder={`Up to ${purchase.remaining_amount.toFixed(2)}`}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                placeholder="e.g. Wrong order, item returned"
+              />
+            </div>
+
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Points reversed</span>
+              <span className="font-medium text-red-600">-{pointsReversed} pts</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Balance after refund</span>
+              <span className={`font-medium ${balanceAfter < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {balanceAfter} pts
+              </span>
+            </div>
+
+            {approvalNeeded && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+                  <ShieldCheck className="h-4 w-4" />
+                  Manager approval
+                </div>
+                {managers.length === 0 ? (
+                  <p className="text-sm text-amber-700">
+                    No manager is set up for this restaurant. Ask the owner to make this refund.
+                  </p>
+                ) : (
+                  <>
+                    <select
+                      value={approverId}
+                      onChange={(e) => setApproverId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                    >
+                      <option value="">Select a manager</option>
+                      {managers.map(manager => (
+                        <option key={manager.id} value={manager.id}>{manager.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      value={approverPin}
+                      onChange={(e) => setApproverPin(e.target.value.replace(/\D/g, ''))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg tracking-widest focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                      placeholder="Manager PIN"
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRefund}
+                disabled={loading || refundAmount <= 0 || (approvalNeeded && (!approverId || !approverPin))}
+                className="flex-1 py-3 px-4 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                Refund {formatAED(refundAmount)}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Search, RotateCcw, Loader2, Receipt, X } from 'lucide-react';
+import { RefundService, RefundablePurchase, RefundResult } from '../services/refundService';
+import { CustomerService } from '../services/customerService';
+import { StaffMember } from '../services/staffService';
+import RefundModal from './RefundModal';
+import { useAuth } from '../contexts/AuthContext';
+
+interface RefundsPageProps {
+  // 'branch' is the StaffUI tab: purchases at one branch, approved by its managers
+  scope?: 'restaurant' | 'branch';
+  branchId?: string;
+  approvers?: StaffMember[];
+  onRefunded?: (result: RefundResult) => void;
+}
+
+const ORDER_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  partially_refunded: { label: 'Partly refunded', className: 'bg-amber-100 text-amber-800' },
+  refunded: { label: 'Refunded', className: 'bg-gray-200 text-gray-700' }
+};
+
+const RefundsPage: React.FC<RefundsPageProps> = ({ scope = 'restaurant', branchId, approvers, onRefunded }) => {
+  const { restaurant } = useAuth();
+  const [purchases, setPurchases] = useState<RefundablePurchase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [customerFilter, setCustomerFilter] = useState<{ id: string; name: string } | null>(null);
+  const [searchError, setSearchError] = useState('');
+  const [selectedPurchase, setSelectedPurchase] = useState<RefundablePurchase | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const restaurantId = restaurant?.id;
+  const customerId = customerFilter?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPurchases = async () => {
+      setLoading(true);
+      const data = await RefundService.getRefundablePurchases(restaurantId || '', {
+        customerId,
+        branchId,
+        limit: customerId ? 50 : 20
+      });
+      if (cancelled) return;
+      setPurchases(data);
+      setLoading(false);
+    };
+
+    loadPurchases();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, customerId, branchId, refreshCount]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurantId) return;
+
+    const email = searchInput.trim();
+    setSearchError('');
+
+    if (!email) {
+      setCustomerFilter(null);
+      return;
+    }
+
+    const customer = await CustomerService.getCustomerByEmail(restaurantId, email);
+    if (!customer) {
+      setSearchError('No customer with this email');
+      return;
+    }
+
+    setCustomerFilter({ id: customer.id, name: `${customer.first_name} ${customer.last_name}` });
+  };
+
+  const handleRefunded = (result: RefundResult) => {
+    setRefreshCount(count => count + 1);
+    onRefunded?.(result);
+  };
+
+  return (
+    <div className="space-y-6">
+      {scope === 'restaurant' && (
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Refunds</h1>
+          <p className="text-gray-600 mt-1">Refund a purchase and take back the points it earned</p>
+        </div>
+      )}
+
+      <div className={scope === 'restaurant' ? 'bg-white rounded-2xl p-4 border border-gray-200' : ''}>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="email"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Customer email"
+              className="w-full pl-9 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm"
+          >
+            Find
+          </button>
+        </form>
+        {searchError && <p className="text-sm text-red-600 mt-2">{searchError}</p>}
+        {customerFilter && (
+          <div className="mt-3 inline-flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-sm text-gray-700">
+            Purchases by {customerFilter.name}
+            <button
+              onClick={() => {
+                setCustomerFilter(null);
+                setSearchInput('');
+              }}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : purchases.length === 0 ? (
+          <div className="text-center py-12">
+            <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No purchases found</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {purchases.map((purchase) => {
+              const status = purchase.order ? ORDER_STATUS_STYLES[purchase.order.status] : undefined;
+              const fullyRefunded = purchase.remaining_amount <= 0 && purchase.remaining_points <= 0;
+
+              return (
+                <div key={purchase.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-gray-900 truncate">
+                        {purchase.customer
+                          ? `${purchase.customer.first_name} ${purchase.customer.last_name}`
+                          : 'Unknown customer'}
+                      </p>
+                      {purchase.order && (
+                        <span className="text-xs text-gray-500">#{purchase.order.order_number}</span>
+                      )}
+                      {(status || (fullyRefunded && !purchase.order)) && (
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                          (status ?? ORDER_STATUS_STYLES.refunded).className
+                        }`}>
+                          {(status ?? ORDER_STATUS_STYLES.refunded).label}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 truncate">
+                      {new Date(purchase.created_at).toLocaleString()}
+                      {purchase.description ? ` • ${purchase.description}` : ''}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-gray-900">{(purchase.amount_spent || 0).toFixed(2)} AED</p>
+                    <p className="text-sm text-gray-500">
+                      {purchase.points} pts
+                      {purchase.refunded_amount > 0 && ` • ${purchase.refunded_amount.toFixed(2)} AED refunded`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setSelectedPurchase(purchase)}
+                    disabled={fullyRefunded}
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Refund
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selectedPurchase && (
+        <RefundModal
+          purchase={selectedPurchase}
+          approvers={approvers}
+          onClose={() => setSelectedPurchase(null)}
+          onRefunded={handleRefunded}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RefundsPage;
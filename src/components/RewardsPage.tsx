@@ -7,6 +7,7 @@ import {
   MoreVertical, Copy, Settings, Target, Zap
 } from 'lucide-react';
 import { RewardService } from '../services/rewardService';
+import { LoyaltyConfigService, TierLadder } from '../services/loyaltyConfigService';
 import { useAuth } from '../contexts/AuthContext';
 
 interface Reward {
@@ -16,9 +17,10 @@ interface Reward {
   points_required: number;
   category: string;
   image_url?: string;
-  min_tier: 'bronze' | 'silver' | 'gold';
+  min_tier: string;
   is_active: boolean;
   total_available?: number;
+  redemption_ttl_hours: number | null;
   total_redeemed: number;
   created_at: string;
   updated_at: string;
@@ -29,9 +31,10 @@ interface RewardFormData {
   description: string;
   points_required: number;
   category: string;
-  min_tier: 'bronze' | 'silver' | 'gold';
+  min_tier: string;
   is_active: boolean;
   total_available?: number;
+  redemption_ttl_hours: number | null;
 }
 
 const RewardsPage: React.FC = () => {
@@ -51,10 +54,12 @@ const RewardsPage: React.FC = () => {
     category: 'food',
     min_tier: 'bronze',
     is_active: true,
-    total_available: undefined
+    total_available: undefined,
+    redemption_ttl_hours: 48
   });
   const [formLoading, setFormLoading] = useState(false);
   const [formError, setFormError] = useState('');
+  const [tierLadder, setTierLadder] = useState<TierLadder>(LoyaltyConfigService.getTierLadder({}));
 
   const { restaurant } = useAuth();
 
@@ -66,12 +71,19 @@ const RewardsPage: React.FC = () => {
     { value: 'merchandise', label: 'Merchandise', icon: Gift, color: 'bg-pink-100 text-pink-600' }
   ];
 
-  const tiers = [
-    { value: 'bronze', label: 'Bronze', icon: ChefHat, color: 'bg-orange-100 text-orange-600' },
-    { value: 'silver', label: 'Silver', icon: Award, color: 'bg-gray-100 text-gray-600' },
-    { value: 'gold', label: 'Gold', icon: Crown, color: 'bg-yellow-100 text-yellow-600' }
+  const tierStyles = [
+    { icon: ChefHat, color: 'bg-orange-100 text-orange-600' },
+    { icon: Award, color: 'bg-gray-100 text-gray-600' },
+    { icon: Crown, color: 'bg-yellow-100 text-yellow-600' },
+    { icon: Sparkles, color: 'bg-purple-100 text-purple-600' }
   ];
 
+  const tiers = tierLadder.tiers.map((tier, index) => ({
+    value: tier.id,
+    label: tier.name,
+    ...tierStyles[Math.min(index, tierStyles.length - 1)]
+  }));
+
   useEffect(() => {
     if (restaurant) {
       fetchRewards();
@@ -84,8 +96,12 @@ const RewardsPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const rewardsData = await RewardService.getRewards(restaurant.id);
+      const [rewardsData, config] = await Promise.all([
+        RewardService.getRewards(restaurant.id),
+        LoyaltyConfigService.getLoyaltyConfig(restaurant.id)
+      ]);
       setRewards(rewardsData);
+      setTierLadder(config.tierLadder);
     } catch (err: any) {
       console.error('Error fetching rewards:', err);
       setError(err.message || 'Failed to load rewards');
@@ -196,9 +212,10 @@ const RewardsPage: React.FC = () => {
       description: '',
       points_required: 100,
       category: 'food',
-      min_tier: 'bronze',
+      min_tier: tiers[0]?.value || 'bronze',
       is_active: true,
-      total_available: undefined
+      total_available: undefined,
+      redemption_ttl_hours: 48
     });
     setFormError('');
   };
@@ -212,7 +229,8 @@ const RewardsPage: React.FC = () => {
       category: reward.category,
       min_tier: reward.min_tier,
       is_active: reward.is_active,
-      total_available: reward.total_available
+      total_available: reward.total_available,
+      redemption_ttl_hours: reward.redemption_ttl_hours
     });
     setFormError('');
   };
@@ -233,8 +251,14 @@ const RewardsPage: React.FC = () => {
     return categories.find(c => c.value === category) || categories[0];
   };
 
+  // Rewards can point at a tier that has since been removed from the ladder
   const getTierInfo = (tier: string) => {
-    return tiers.find(t => t.value === tier) || tiers[0];
+    return tiers.find(t => t.value === tier) || {
+      value: tier,
+      label: `${tier} (removed tier)`,
+      icon: AlertCircle,
+      color: 'bg-red-100 text-red-600'
+    };
   };
 
   const getRewardStats = () => {
@@ -647,7 +671,7 @@ const RewardsPage: React.FC = () => {
                   </label>
                   <select
                     value={formData.min_tier}
-                    onChange={(e) => setFormData({ ...formData, min_tier: e.target.value as any })}
+                    onChange={(e) => setFormData({ ...formData, min_tier: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
                   >
                     {tiers.map(tier => (
@@ -659,6 +683,24 @@ const RewardsPage: React.FC = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Code Valid For (hours)
+                </label>
+                <input
+                  type="number"
+                  value={formData.redemption_ttl_hours ?? ''}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    redemption_ttl_hours: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null
+                  })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                  placeholder="Never expires"
+                  min="1"
+                />
+                <p className="text-xs text-gray-500 mt-1">Unused codes expire after this and the points go back to the customer</p>
+              </div>
+
               <div className="flex items-center gap-3">
                 <input
                   type="checkbox"
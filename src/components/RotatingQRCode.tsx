@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2, RefreshCw, AlertCircle } from 'lucide-react';
+import { QRTokenService, QRToken } from '../services/qrTokenService';
+
+interface RotatingQRCodeProps {
+  customerId: string;
+  // When set, the code points at this pending redemption instead of the customer
+  redemptionId?: string;
+  size?: number;
+}
+
+const RotatingQRCode: React.FC<RotatingQRCodeProps> = ({ customerId, redemptionId, size = 192 }) => {
+  const [qrToken, setQrToken] = useState<QRToken | null>(null);
+  const [error, setError] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const loadToken = async () => {
+      try {
+        const token = redemptionId
+          ? await QRTokenService.issueRedemptionToken(customerId, redemptionId)
+          : await QRTokenService.issueCustomerToken(customerId);
+        if (cancelled) return;
+
+        setQrToken(token);
+        setError('');
+
+        // Swap the code halfway through its life so staff never scan a stale one
+        const lifetime = new Date(token.expires_at).getTime() - Date.now();
+        refreshTimer = setTimeout(loadToken, Math.max(5000, lifetime / 2));
+      } catch (err) {
+        if (cancelled) return;
+        setQrToken(null);
+        setError(err instanceof Error ? err.message : 'Failed to load QR code');
+      }
+    };
+
+    loadToken();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [customerId, redemptionId, refreshCount]);
+
+  useEffect(() => {
+    if (!qrToken) return;
+
+    const updateCountdown = () => {
+      setSecondsLeft(Math.max(0, Math.round((new Date(qrToken.expires_at).getTime() - Date.now()) / 1000)));
+    };
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+    return () => clearInterval(interval);
+  }, [qrToken]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 mx-auto text-center" style={{ width: size, height: size }}>
+        <AlertCircle className="h-8 w-8 text-red-500" />
+        <p className="text-sm text-red-600">{error}</p>
+        <button
+          onClick={() => setRefreshCount(count => count + 1)}
+          className="text-sm text-[#E85A9B] hover:text-[#D946EF] font-medium flex items-center gap-1"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!qrToken) {
+    return (
+      <div className="flex items-center justify-center mx-auto" style={{ width: size, height: size }}>
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="bg-white p-3 rounded-xl border-2 border-gray-200">
+        <QRCodeSVG value={qrToken.token} size={size} level="M" />
+      </div>
+      <p className="text-xs text-gray-500 flex items-center gap-1">
+        <RefreshCw className="h-3 w-3" />
+        Refreshes automatically · valid for {secondsLeft}s
+      </p>
+    </div>
+  );
+};
+
+export default RotatingQRCode;
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, Save, Users } from 'lucide-react';
+import { SegmentService, CustomerSegment, SegmentRules, MONTHS } from '../services/segmentService';
+import { TierLadder } from '../services/loyaltyConfigService';
+import { Branch } from '../services/branchService';
+import { Database } from '../lib/supabase';
+
+type Reward = Database['public']['Tables']['rewards']['Row'];
+
+type NumberRule = {
+  [K in keyof SegmentRules]-?: SegmentRules[K] extends number | undefined ? K : never;
+}[keyof SegmentRules];
+
+interface SegmentBuilderModalProps {
+  restaurantId: string;
+  segment: CustomerSegment | null;
+  tierLadder: TierLadder;
+  branches: Branch[];
+  rewards: Reward[];
+  onClose: () => void;
+  onSaved: (segment: CustomerSegment) => void;
+}
+
+const REWARD_CATEGORIES = ['food', 'beverage', 'discount', 'experience', 'merchandise'];
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const SegmentBuilderModal: React.FC<SegmentBuilderModalProps> = ({
+  restaurantId, segment, tierLadder, branches, rewards, onClose, onSaved
+}) => {
+  const [name, setName] = useState(segment?.name || '');
+  const [description, setDescription] = useState(segment?.description || '');
+  const [rules, setRules] = useState<SegmentRules>(segment?.rules || {});
+  const [memberCount, setMemberCount] = useState<number | null>(null);
+  const [counting, setCounting] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Recount shortly after the last change rather than on every keystroke
+  useEffect(() => {
+    let cancelled = false;
+    setCounting(true);
+
+    const timer = setTimeout(async () => {
+      const count = await SegmentService.countMembers(restaurantId, rules);
+      if (cancelled) return;
+      setMemberCount(count);
+      setCounting(false);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [restaurantId, rules]);
+
+  const setRule = <K extends keyof SegmentRules>(key: K, value: SegmentRules[K]) => {
+    setRules(current => ({ ...current, [key]: value }));
+  };
+
+  const toggleRule = <T,>(key: 'tiers' | 'branchIds' | 'redeemedRewardIds' | 'redeemedCategories' | 'birthdayMonths', value: T) => {
+    setRules(current => {
+      const values = (current[key] || []) as T[];
+      return {
+        ...current,
+        [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+      };
+    });
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return 'Segment name is required';
+    const cleaned = SegmentService.cleanRules(rules);
+    if (Object.keys(cleaned).length === 0) return 'Add at least one condition';
+    const numbers = Object.entries(cleaned).filter(([, value]) => typeof value === 'number') as [string, number][];
+    if (numbers.some(([, value]) => value < 0)) return 'Numbers must be zero or more';
+    // Spend is the only condition that isn't counted in whole units
+    if (numbers.some(([key, value]) => !key.endsWith('Spent') && !Number.isInteger(value))) {
+      return 'Points, visits and days must be whole numbers';
+    }
+    const pairs: [number | undefined, number | undefined, string][] = [
+      [cleaned.minPoints, cleaned.maxPoints, 'points'],
+      [cleaned.minSpent, cleaned.maxSpent, 'spend'],
+      [cleaned.minVisits, cleaned.maxVisits, 'visits']
+    ];
+    for (const [min, max, label] of pairs) {
+      if (min !== undefined && max !== undefined && min > max) return `Minimum ${label} can't be above the maximum`;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      const input = { name, description, rules };
+      const saved = segment
+        ? await SegmentService.updateSegment(restaurantId, segment.id, input)
+        : await SegmentService.createSegment(restaurantId, input);
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving segment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  const chip = (selected: boolean) =>
+    `px-3 py-1 rounded-full text-xs border transition-colors ${
+      selected ? 'border-[#E6A85C] bg-orange-50 text-gray-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+    }`;
+
+  const numberInput = (key: NumberRule, placeholder: string) => (
+    <input
+      type="number"
+      min="0"
+      value={rules[key] ?? ''}
+      onChange={(e) => setRule(key, parseNumber(e.target.value))}
+      placeholder={placeholder}
+      className={`w-24 ${inputClass}`}
+    />
+  );
+
+  const section = (title: string, children: React.ReactNode, hint?: string) => (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium text-gray-700">{title}</p>
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+      </div>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-2xl w-full border border-gray-200 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900">{segment ? 'Edit Segment' : 'New Segment'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Lapsed VIPs"
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">Customers must match every condition you set. Leave a condition empty to ignore it.</p>
+
+          {section('Tier', (
+            <div className="flex flex-wrap gap-2">
+              {tierLadder.tiers.map(tier => (
+                <button
+                  key={tier.id}
+                  type="button"
+                  onClick={() => toggleRule('tiers', tier.id)}
+                  className={chip(rules.tiers?.includes(tier.id) ?? false)}
+                >
+                  {tier.name}
+                </button>
+              ))}
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+            {section('Points balance', (
+              <div className="flex items-center gap-1 text-sm text-gray-600">
+                {numberInput('minPoints', 'Min')}
+                <span>–</span>
+                {numberInput('maxPoints', 'Max')}
+              </div>
+            ))}
+            {section('Total spent (AED)', (
+              <div className="flex items-center gap-1 text-sm text-gray-600">
+                {numberInput('minSpent', 'Min')}
+                <span>–</span>
+                {numberInput('maxSpent', 'Max')}
+              </div>
+            ))}
+          </div>
+
+          {section('Visit recency', (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-600">
+              <div className="flex items-center gap-2">
+                <span>Visited in the last</span>
+                {numberInput('lastVisitWithinDays', 'Days')}
+                <span>days</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span>No visit in the last</span>
+                {numberInput('noVisitForDays', 'Days')}
+                <span>days</span>
+              </div>
+            </div>
+          ), 'Customers who never visited count as not visiting.')}
+
+          {section('Visit frequency', (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              {numberInput('minVisits', 'Min')}
+              <span>–</span>
+              {numberInput('maxVisits', 'Max')}
+              <span>visits in the last</span>
+              {numberInput('visitWindowDays', 'Days')}
+              <span>days</span>
+            </div>
+          ), 'Leave the days empty to count every visit.')}
+
+          {branches.length > 0 && section('Visited branch', (
+            <div className="flex flex-wrap gap-2">
+              {branches.map(branch => (
+                <button
+                  key={branch.id}
+                  type="button"
+                  onClick={() => toggleRule('branchIds', branch.id)}
+                  className={chip(rules.branchIds?.includes(branch.id) ?? false)}
+                >
+                  {branch.name}
+                </button>
+              ))}
+            </div>
+          ), 'Has a purchase at any of these branches.')}
+
+          {section('Redemption history', (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {REWARD_CATEGORIES.map(category => (
+                  <button
+                    key={category}
+                    type="button"
+                    onClick={() => toggleRule('redeemedCategories', category)}
+                    className={`capitalize ${chip(rules.redeemedCategories?.includes(category) ?? false)}`}
+                  >
+                    {category}
+                  </button>
+                ))}
+              </div>
+              {rewards.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {rewards.map(reward => (
+                    <button
+                      key={reward.id}
+                      type="button"
+                      onClick={() => toggleRule('redeemedRewardIds', reward.id)}
+                      className={chip(rules.redeemedRewardIds?.includes(reward.id) ?? false)}
+                    >
+                      {reward.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <span>Within the last</span>
+                {numberInput('redeemedWithinDays', 'Days')}
+                <span>days</span>
+              </div>
+            </div>
+          ), 'Has used any of the rewards or categories picked, optionally within the last few days.')}
+
+          {section('Birthday month', (
+            <div className="flex flex-wrap gap-2">
+              {MONTHS.map((month, index) => (
+                <button
+                  key={month}
+                  type="button"
+                  onClick={() => toggleRule('birthdayMonths', index + 1)}
+                  className={chip(rules.birthdayMonths?.includes(index + 1) ?? false)}
+                >
+                  {month}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-6 pt-4 border-t border-gray-100">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Users className="h-4 w-4 text-gray-400" />
+            {counting ? (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            ) : memberCount === null ? (
+              <span>Couldn't count members</span>
+            ) : (
+              <span>
+                <span className="font-semibold text-gray-900">{memberCount.toLocaleString()}</span>
+                {' '}matching customer{memberCount === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save Segment
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentBuilderModal;
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Edit3, Trash2, Filter, Users, Loader2, AlertCircle, ArrowRight } from 'lucide-react';
+import { SegmentService, CustomerSegment, SegmentLabels } from '../services/segmentService';
+import { LoyaltyConfigService, TierLadder } from '../services/loyaltyConfigService';
+import { BranchService, Branch } from '../services/branchService';
+import { RewardService } from '../services/rewardService';
+import { Database } from '../lib/supabase';
+import SegmentBuilderModal from './SegmentBuilderModal';
+import { useAuth } from '../contexts/AuthContext';
+
+type Reward = Database['public']['Tables']['rewards']['Row'];
+
+const SegmentsPage: React.FC = () => {
+  const { restaurant } = useAuth();
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [tierLadder, setTierLadder] = useState<TierLadder>(LoyaltyConfigService.getTierLadder({}));
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [countsLoading, setCountsLoading] = useState(true);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [editing, setEditing] = useState<CustomerSegment | null>(null);
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [error, setError] = useState('');
+
+  const restaurantId = restaurant?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      const [config, branchesData, rewardsData] = await Promise.all([
+        LoyaltyConfigService.getLoyaltyConfig(restaurantId || ''),
+        BranchService.getBranches(restaurantId || ''),
+        RewardService.getRewards(restaurantId || '')
+      ]);
+      if (cancelled) return;
+      setTierLadder(config.tierLadder);
+      setBranches(branchesData);
+      setRewards(rewardsData);
+    };
+
+    if (restaurantId) loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId]);
+
+  // Counts run every segment's rules, so the list shows first and the numbers follow
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSegments = async () => {
+      setLoading(true);
+      setCountsLoading(true);
+      const segmentsData = await SegmentService.getSegments(restaurantId || '');
+      if (cancelled) return;
+      setSegments(segmentsData);
+      setLoading(false);
+
+      const countsData = await SegmentService.getMemberCounts(restaurantId || '');
+      if (cancelled) return;
+      setCounts(countsData);
+      setCountsLoading(false);
+    };
+
+    loadSegments();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshCount]);
+
+  const labels: SegmentLabels = {
+    tierName: tierId => LoyaltyConfigService.getTier(tierLadder, tierId).name,
+    branchName: branchId => branches.find(branch => branch.id === branchId)?.name || 'a removed branch',
+    rewardName: rewardId => rewards.find(reward => reward.id === rewardId)?.name || 'a removed reward'
+  };
+
+  const openBuilder = (segment: CustomerSegment | null) => {
+    setEditing(segment);
+    setShowBuilder(true);
+  };
+
+  const closeBuilder = () => {
+    setEditing(null);
+    setShowBuilder(false);
+  };
+
+  const handleSaved = () => {
+    closeBuilder();
+    setRefreshCount(count => count + 1);
+  };
+
+  const handleDelete = async (segment: CustomerSegment) => {
+    if (!restaurantId) return;
+
+    if (!confirm(`Delete the "${segment.name}" segment? Customers aren't affected.`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await SegmentService.deleteSegment(restaurantId, segment.id);
+      setRefreshCount(count => count + 1);
+    } catch (err) {
+      console.error('Error deleting segment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete segment');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Segments</h1>
+          <p className="text-gray-600 mt-1">Saved groups of customers for filtering, exports and campaigns</p>
+        </div>
+        <button
+          onClick={() => openBuilder(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200"
+        >
+          <Plus className="h-4 w-4" />
+          New Segment
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="bg-white rounded-2xl p-12 border border-gray-200 text-center">
+          <Filter className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No Segments Yet</h3>
+          <p className="text-gray-500 mb-6">
+            Group customers by tier, spend, visits, redemptions or birthday month, then target them with campaigns.
+          </p>
+          <button
+            onClick={() => openBuilder(null)}
+            className="px-6 py-3 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200"
+          >
+            Create Your First Segment
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {segments.map(segment => (
+            <div key={segment.id} className="bg-white rounded-2xl p-6 border border-gray-200 flex flex-col">
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{segment.name}</h3>
+                  {segment.description && <p className="text-sm text-gray-600">{segment.description}</p>}
+                </div>
+                <div className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap">
+                  <Users className="h-4 w-4 text-gray-400" />
+                  {countsLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                  ) : (
+                    <span className="font-semibold">{(counts[segment.id] ?? 0).toLocaleString()}</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-1 mb-4">
+                {SegmentService.describeRules(segment.rules, labels).map(part => (
+                  <span key={part} className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">{part}</span>
+                ))}
+              </div>
+
+              <div className="flex gap-2 mt-auto">
+                <Link
+                  to={`/dashboard/customers?segment=${segment.id}`}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  View customers
+                  <ArrowRight className="h-4 w-4" />
+                </Link>
+                <button
+                  onClick={() => openBuilder(segment)}
+                  className="flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  title="Edit"
+                >
+                  <Edit3 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(segment)}
+                  className="flex items-center justify-center gap-2 py-2 px-3 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showBuilder && restaurantId && (
+        <SegmentBuilderModal
+          restaurantId={restaurantId}
+          segment={editing}
+          tierLadder={tierLadder}
+          branches={branches}
+          rewards={rewards}
+          onClose={closeBuilder}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SegmentsPage;
@@ -0,0 +1,420 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, AlertCircle, FileDown, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { BranchService, Branch } from '../services/branchService';
+import { SegmentService, CustomerSegment } from '../services/segmentService';
+import {
+  DataExportService,
+  DataExport,
+  ExportDataset,
+  ExportFormat,
+  ExportFilters,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS
+} from '../services/dataExportService';
+import { CustomerDataService, CustomerDataRequest } from '../services/customerDataService';
+
+// Queued exports older than this were probably never started; offer a retry instead of polling
+const STALE_QUEUED_MS = 5 * 60 * 1000;
+// Matches the data-export function, which lets a running export this old be claimed again
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_STYLES: Record<DataExport['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  expired: 'bg-gray-100 text-gray-500'
+};
+
+const REQUEST_STATUS_STYLES: Record<CustomerDataRequest['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  completed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isStale = (dataExport: DataExport) => {
+  if (dataExport.status === 'queued') {
+    return Date.now() - new Date(dataExport.created_at).getTime() > STALE_QUEUED_MS;
+  }
+  return dataExport.status === 'running' && !!dataExport.started_at &&
+    Date.now() - new Date(dataExport.started_at).getTime() > STALE_RUNNING_MS;
+};
+
+const SettingsPage: React.FC = () => {
+  const { restaurant } = useAuth();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [dataset, setDataset] = useState<ExportDataset>('customers');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [filters, setFilters] = useState<ExportFilters>({});
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [dataRequests, setDataRequests] = useState<CustomerDataRequest[]>([]);
+  const [requestsRefreshCount, setRequestsRefreshCount] = useState(0);
+  const [erasingId, setErasingId] = useState<string | null>(null);
+
+  const restaurantId = restaurant?.id;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      const [branchesData, segmentsData] = await Promise.all([
+        BranchService.getBranches(restaurantId || ''),
+        SegmentService.getSegments(restaurantId || '')
+      ]);
+      if (cancelled) return;
+      setBranches(branchesData);
+      setSegments(segmentsData);
+    };
+
+    if (restaurantId) loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadExports = async () => {
+      const exportsData = await DataExportService.getExports(restaurantId || '');
+      if (!cancelled) setExports(exportsData);
+    };
+
+    loadExports();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshCount]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDataRequests = async () => {
+      const requestsData = await CustomerDataService.getRequests(restaurantId || '');
+      if (!cancelled) setDataRequests(requestsData);
+    };
+
+    loadDataRequests();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, requestsRefreshCount]);
+
+  const inProgress = exports.some(item => (item.status === 'running' || item.status === 'queued') && !isStale(item));
+
+  // Poll while an export is being built
+  useEffect(() => {
+    if (!inProgress) return;
+
+    const timer = setTimeout(() => setRefreshCount(count => count + 1), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [inProgress, exports]);
+
+  const handleRequest = async () => {
+    try {
+      setRequesting(true);
+      setError('');
+      await DataExportService.requestExport(restaurantId || '', dataset, format, filters);
+    } catch (err) {
+      console.error('Error requesting export:', err);
+      setError(err instanceof Error ? err.message : 'Could not start the export');
+    } finally {
+      setRequesting(false);
+      setRefreshCount(count => count + 1);
+    }
+  };
+
+  const handleRetry = async (dataExport: DataExport) => {
+    try {
+      setError('');
+      await DataExportService.startExport(dataExport.id);
+    } catch (err) {
+      console.error('Error retrying export:', err);
+      setError(err instanceof Error ? err.message : 'Could not start the export');
+    } finally {
+      setRefreshCount(count => count + 1);
+    }
+  };
+
+  const handleDownload = async (dataExport: DataExport) => {
+    try {
+      setError('');
+      window.location.href = await DataExportService.getDownloadUrl(dataExport);
+    } catch (err) {
+      console.error('Error downloading export:', err);
+      setError(err instanceof Error ? err.message : 'Could not download the export');
+    }
+  };
+
+  const handleEraseNow = async (request: CustomerDataRequest) => {
+    if (!confirm('Erase this customer\'s personal data now? Points and transactions are kept; this cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setErasingId(request.id);
+      await CustomerDataService.eraseCustomers(restaurantId || '', [request.customer_id]);
+    } catch (err) {
+      console.error('Error erasing customer:', err);
+      alert(err instanceof Error ? err.message : 'Failed to erase customer');
+    } finally {
+      setErasingId(null);
+      setRequestsRefreshCount(count => count + 1);
+    }
+  };
+
+  const datasetLabel = (value: ExportDataset) => EXPORT_DATASETS.find(item => item.value === value)?.label ?? value;
+  const branchName = (branchId?: string) => branches.find(branch => branch.id === branchId)?.name ?? 'One branch';
+  const segmentName = (segmentId?: string) => segments.find(segment => segment.id === segmentId)?.name ?? 'One segment';
+  const filtersApply = dataset !== 'rewards';
+  const inputClass = 'px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600 mt-1">Account data, exports and privacy requests</p>
+      </div>
+
+      {/* Data export */}
+      <div className="bg-white rounded-2xl p-6 border border-gray-200 space-y-4">
+        <div className="flex items-center gap-2">
+          <FileDown className="h-5 w-5 text-gray-600" />
+          <h2 className="text-lg font-bold text-gray-900">Export data</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Exports are prepared in the background and stay available to download for 7 days.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {EXPORT_DATASETS.map(item => (
+            <label
+              key={item.value}
+              className={`flex items-start gap-3 p-3 border rounded-xl cursor-pointer ${
+                dataset === item.value ? 'border-[#E6A85C] bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="dataset"
+                checked={dataset === item.value}
+                onChange={() => setDataset(item.value)}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900">{item.label}</p>
+                <p className="text-xs text-gray-500">{item.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClass}>
+              {EXPORT_FORMATS.map(item => (
+                <option key={item.value} value={item.value}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+          {filtersApply && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </div>
+              {branches.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Branch</label>
+                  <select
+                    value={filters.branchId || ''}
+                    onChange={(e) => setFilters({ ...filters, branchId: e.target.value || undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">All branches</option>
+                    {branches.map(branch => (
+                      <option key={branch.id} value={branch.id}>{branch.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {dataset === 'customers' && segments.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Segment</label>
+                  <select
+                    value={filters.segmentId || ''}
+                    onChange={(e) => setFilters({ ...filters, segmentId: e.target.value || undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">All customers</option>
+                    {segments.map(segment => (
+                      <option key={segment.id} value={segment.id}>{segment.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+          <button
+            onClick={handleRequest}
+            disabled={requesting || !restaurantId}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50"
+          >
+            {requesting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export
+          </button>
+        </div>
+        {filtersApply && (
+          <p className="text-xs text-gray-500">
+            Customers are filtered by join date, by having visited the branch and by segment;
+            transactions and redemptions by when they happened.
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Recent exports */}
+        {exports.length > 0 && (
+          <div className="border-t border-gray-100 pt-4">
+            <h3 className="font-semibold text-gray-900 mb-2">Recent exports</h3>
+            <div className="divide-y divide-gray-100">
+              {exports.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {datasetLabel(item.dataset)} • {item.format.toUpperCase()}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(item.created_at).toLocaleString()}
+                      {item.filters.from && ` • from ${new Date(item.filters.from).toLocaleDateString()}`}
+                      {/* The stored end is exclusive: midnight after the last day */}
+                      {item.filters.to && ` • to ${new Date(new Date(item.filters.to).getTime() - 1).toLocaleDateString()}`}
+                      {item.filters.branchId && ` • ${branchName(item.filters.branchId)}`}
+                      {item.filters.segmentId && ` • ${segmentName(item.filters.segmentId)}`}
+                      {item.status === 'completed' && ` • ${item.row_count?.toLocaleString()} rows, ${formatSize(item.file_size)}`}
+                    </p>
+                    {item.status === 'failed' && item.error && (
+                      <p className="text-xs text-red-600 mt-1">{item.error}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[item.status]}`}>
+                      {item.status}
+                    </span>
+                    {item.status === 'completed' && (
+                      <button
+                        onClick={() => handleDownload(item)}
+                        className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        <Download className="h-4 w-4" />
+                        Download
+                      </button>
+                    )}
+                    {isStale(item) && (
+                      <button
+                        onClick={() => handleRetry(item)}
+                        className="flex items-center gap-1 text-sm font-medium text-gray-600 hover:text-gray-800"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Customer data requests */}
+      <div className="bg-white rounded-2xl p-6 border border-gray-200 space-y-4">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-gray-600" />
+          <h2 className="text-lg font-bold text-gray-900">Customer data requests</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Customers can download their data and ask for it to be deleted from their wallet. Deletion
+          requests are carried out automatically on the due date; you can erase sooner. Erasing keeps
+          points and transactions for your records.
+        </p>
+
+        {dataRequests.length === 0 ? (
+          <p className="text-sm text-gray-500">No requests yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {dataRequests.map(request => (
+              <div key={request.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {request.kind === 'export' ? 'Data download' : 'Deletion'} •{' '}
+                    {request.customer?.erased_at
+                      ? 'Erased customer'
+                      : `${request.customer?.first_name ?? ''} ${request.customer?.last_name ?? ''}`.trim() || 'Unknown customer'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {request.source === 'customer' ? 'By the customer' : 'By your team'} •{' '}
+                    {new Date(request.requested_at).toLocaleString()}
+                    {request.status === 'pending' && request.due_at && ` • due ${new Date(request.due_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${REQUEST_STATUS_STYLES[request.status]}`}>
+                    {request.status}
+                  </span>
+                  {request.kind === 'erasure' && request.status === 'pending' && (
+                    <button
+                      onClick={() => handleEraseNow(request)}
+                      disabled={erasingId === request.id}
+                      className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Erase now
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Users, Key, Trash2, Loader2, Save, Lock } from 'lucide-react';
+import { Branch } from '../services/branchService';
+import { StaffService, StaffMember, StaffRole, STAFF_ROLE_LABELS } from '../services/staffService';
+
+interface StaffMembersModalProps {
+  restaurantId: string;
+  branch: Branch;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const StaffMembersModal: React.FC<StaffMembersModalProps> = ({ restaurantId, branch, onClose, onChange }) => {
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [formData, setFormData] = useState<{ name: string; role: StaffRole; pin: string }>({
+    name: '',
+    role: 'cashier',
+    pin: ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [resettingPinId, setResettingPinId] = useState<string | null>(null);
+  const [newPin, setNewPin] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStaff = async () => {
+      const staff = await StaffService.getStaffMembers(restaurantId, branch.id);
+      if (cancelled) return;
+      setStaffMembers(staff);
+      setLoading(false);
+    };
+
+    loadStaff();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, branch.id, refreshCount]);
+
+  const reloadStaff = () => setRefreshCount(count => count + 1);
+
+  const generatePin = () => {
+    const digits = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+    return digits.toString().padStart(6, '0');
+  };
+
+  const handleAddStaff = async () => {
+    if (!formData.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      await StaffService.createStaffMember(restaurantId, {
+        branch_id: branch.id,
+        name: formData.name.trim(),
+        role: formData.role,
+        pin: formData.pin
+      });
+      setFormData({ name: '', role: 'cashier', pin: '' });
+      setShowAddForm(false);
+      reloadStaff();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add staff member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (member: StaffMember, updates: { role?: StaffRole; is_active?: boolean }) => {
+    try {
+      setError('');
+      await StaffService.updateStaffMember(restaurantId, member.id, updates);
+      reloadStaff();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update staff member');
+    }
+  };
+
+  const handleResetPin = async (member: StaffMember) => {
+    try {
+      setSaving(true);
+      setError('');
+      await StaffService.setPin(member.id, newPin);
+      setResettingPinId(null);
+      setNewPin('');
+      reloadStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset PIN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (member: StaffMember) => {
+    if (!confirm(`Remove ${member.name}? Their past transactions keep the record but they can no longer sign in.`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await StaffService.deleteStaffMember(restaurantId, member.id);
+      reloadStaff();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove staff member');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Staff at {branch.name}</h3>
+            <p className="text-sm text-gray-500">Each person signs in to the staff portal with their own PIN</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : staffMembers.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No staff yet. Add someone so they can use the staff portal.</p>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            {staffMembers.map((member) => {
+              const isLocked = member.locked_until && new Date(member.locked_until) > new Date();
+
+              return (
+                <div key={member.id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className={`font-medium ${member.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                        {member.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {member.last_login_at
+                          ? `Last signed in ${new Date(member.last_login_at).toLocaleString()}`
+                          : 'Never signed in'}
+                        {isLocked && <span className="text-red-600"> • Locked after wrong PINs</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleUpdate(member, { role: e.target.value as StaffRole })}
+                        className="px-2 py-1 border border-gray-200 rounded-lg text-sm"
+                      >
+                        {Object.entries(STAFF_ROLE_LABELS).map(([role, label]) => (
+                          <option key={role} value={role}>{label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => {
+                          setResettingPinId(resettingPinId === member.id ? null : member.id);
+                          setNewPin('');
+                        }}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+                        title="Reset PIN"
+                      >
+                        <Key className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(member)}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={member.is_active}
+                      onChange={(e) => handleUpdate(member, { is_active: e.target.checked })}
+                      className="w-4 h-4 text-[#E6A85C] border-gray-300 rounded focus:ring-[#E6A85C]"
+                    />
+                    Active (can sign in)
+                  </label>
+
+                  {resettingPinId === member.id && (
+                    <div className="flex gap-2 mt-3">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={newPin}
+                        onChange={(e) => setNewPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                        className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                        placeholder="New 4-8 digit PIN"
+                      />
+                      <button
+                        onClick={() => setNewPin(generatePin())}
+                        className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+                      >
+                        Generate
+                      </button>
+                      <button
+                        onClick={() => handleResetPin(member)}
+                        disabled={saving || newPin.length < 4}
+                        className="px-3 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {showAddForm ? (
+          <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                placeholder="e.g., Sara"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+                >
+                  {Object.entries(STAFF_ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">PIN *</label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={formData.pin}
+                    onChange={(e) => setFormData({ ...formData, pin: e.target.value.replace(/\D/g, '').slice(0, 8) })}
+                    className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg font-mono focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                    placeholder="4-8 digits"
+                  />
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Managers can also void redemptions. Share the PIN with the staff member directly; it can't be viewed again.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setFormData({ ...formData, pin: generatePin() })}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+              >
+                Generate PIN
+              </button>
+              <div className="flex-1" />
+              <button
+                onClick={() => {
+                  setShowAddForm(false);
+                  setError('');
+                }}
+                className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddStaff}
+                disabled={saving || !formData.name.trim() || formData.pin.length < 4}
+                className="px-4 py-2 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-lg text-sm disabled:opacity-50 flex items-center gap-2"
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Add
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="w-full flex items-center justify-center gap-2 py-3 border-2 border-dashed border-gray-200 text-gray-600 rounded-xl hover:border-[#E6A85C] hover:text-[#E6A85C] transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add Staff Member
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffMembersModal;
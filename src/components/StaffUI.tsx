@@ -3,12 +3,26 @@ import {
   Building, Lock, Eye, EyeOff, ArrowRight, ChefHat,
   Users, TrendingUp, Gift, DollarSign, QrCode, Calculator,
   Utensils, Search, User, CheckCircle, AlertCircle, X,
-  Loader2, Sparkles, Crown, Award, Plus, Minus, Zap
+  Loader2, Sparkles, Crown, Award, Plus, Minus, Zap, Camera, Receipt
 } from 'lucide-react';
 import { BranchService, Branch, BranchStats } from '../services/branchService';
-import { CustomerService } from '../services/customerService';
+import { CustomerService, TierHistoryEntry } from '../services/customerService';
 import { MenuItemService, MenuItem } from '../services/menuItemService';
 import { LoyaltyConfigService } from '../services/loyaltyConfigService';
+import { CampaignService, Campaign } from '../services/campaignService';
+import { SegmentService } from '../services/segmentService';
+import type { RedemptionCodeDetails } from '../services/rewardService';
+import { QRTokenService } from '../services/qrTokenService';
+import { StaffService, StaffMember, StaffSession, STAFF_ROLE_LABELS } from '../services/staffService';
+import { OrderService, Order, BasketLine } from '../services/orderService';
+import QRScanner from './QRScanner';
+import OrderReceipt from './OrderReceipt';
+import RefundsPage from './RefundsPage';
+import OfflineSyncStatus from './OfflineSyncStatus';
+import { OfflineQueueService, QueuedAction } from '../services/offlineQueueService';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { registerStaffApp } from '../lib/pwa';
+import { looksLikePhone } from '../lib/phone';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase'; 
 
@@ -18,17 +32,22 @@ interface Customer {
   first_name: string;
   last_name: string;
   email: string;
+  phone?: string | null;
   total_points: number;
-  current_tier: 'bronze' | 'silver' | 'gold';
+  current_tier: string;
+  tier_grace_until?: string | null;
 }
 
 const StaffUI: React.FC = () => {
-  const [step, setStep] = useState<'branch-select' | 'password' | 'dashboard'>('branch-select');
+  const [step, setStep] = useState<'branch-select' | 'staff-login' | 'dashboard'>('branch-select');
   const [branches, setBranches] = useState<Branch[]>([]);
   const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
   const [branchStats, setBranchStats] = useState<BranchStats | null>(null);
-  const [password, setPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [selectedStaff, setSelectedStaff] = useState<StaffMember | null>(null);
+  const [staffSession, setStaffSession] = useState<StaffSession | null>(null);
+  const [pin, setPin] = useState('');
+  const [showPin, setShowPin] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   
@@ -36,30 +55,83 @@ const StaffUI: React.FC = () => {
   const [assignmentMode, setAssignmentMode] = useState<'qr' | 'menu'>('qr');
   const [customerEmail, setCustomerEmail] = useState('');
   const [foundCustomer, setFoundCustomer] = useState<Customer | null>(null);
+  const [phoneMatches, setPhoneMatches] = useState<Customer[]>([]);
+  const [lastTierChange, setLastTierChange] = useState<TierHistoryEntry | null>(null);
   const [orderAmount, setOrderAmount] = useState('');
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [selectedMenuItems, setSelectedMenuItems] = useState<{[key: string]: number}>({});
+  const [basket, setBasket] = useState<BasketLine[]>([]);
+  const [orderDiscount, setOrderDiscount] = useState('');
+  const [lastOrder, setLastOrder] = useState<{ order: Order; customerName: string } | null>(null);
+  const [showReceipt, setShowReceipt] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [assignmentLoading, setAssignmentLoading] = useState(false);
+  // Kept until an assignment goes through or is queued, so a retried confirm is only counted once
+  const [assignmentKey, setAssignmentKey] = useState(() => crypto.randomUUID());
   const [loyaltyConfig, setLoyaltyConfig] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'assign' | 'redeem'>('assign');
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [customerSegmentIds, setCustomerSegmentIds] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<'assign' | 'redeem' | 'refund'>('assign');
   const [redeemCustomerEmail, setRedeemCustomerEmail] = useState('');
   const [redeemFoundCustomer, setRedeemFoundCustomer] = useState<Customer | null>(null);
+  const [redeemPhoneMatches, setRedeemPhoneMatches] = useState<Customer[]>([]);
   const [availableRewards, setAvailableRewards] = useState<any[]>([]);
   const [selectedReward, setSelectedReward] = useState<any>(null);
   const [showRedeemModal, setShowRedeemModal] = useState(false);
   const [redeemLoading, setRedeemLoading] = useState(false);
+  const [redemptionKey, setRedemptionKey] = useState(() => crypto.randomUUID());
+  const [redemptionCode, setRedemptionCode] = useState('');
+  const [verifiedRedemption, setVerifiedRedemption] = useState<RedemptionCodeDetails | null>(null);
+  const [codeLoading, setCodeLoading] = useState(false);
+  const [showVoidForm, setShowVoidForm] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
 
   const { restaurant } = useAuth();
+  const offlineQueue = useOfflineQueue(restaurant?.id);
+  const { isOnline } = offlineQueue;
+  const restaurantId = restaurant?.id;
 
   useEffect(() => {
     if (restaurant) {
       fetchBranches();
       fetchMenuItems();
       fetchLoyaltyConfig();
+      fetchCampaigns();
     }
   }, [restaurant]);
 
+  // Don't leave a staff session behind when leaving the portal
+  useEffect(() => {
+    registerStaffApp();
+
+    return () => {
+      StaffService.endSession();
+    };
+  }, []);
+
+  // Refresh what the counter can look up offline whenever it's back on the dashboard online
+  useEffect(() => {
+    if (step === 'dashboard' && restaurantId && isOnline) {
+      OfflineQueueService.refreshCache(restaurantId);
+    }
+  }, [step, restaurantId, isOnline]);
+
+  // Sessions are short-lived; drop back to the PIN screen once the database would reject them
+  useEffect(() => {
+    if (!staffSession) return;
+
+    const timeout = setTimeout(() => {
+      StaffService.endSession();
+      setStaffSession(null);
+      setSelectedStaff(null);
+      setPin('');
+      setStep('staff-login');
+      setError('Your session has expired. Please enter your PIN again.');
+    }, Math.max(0, new Date(staffSession.expires_at).getTime() - Date.now()));
+
+    return () => clearTimeout(timeout);
+  }, [staffSession]);
+
   const fetchBranches = async () => {
     if (!restaurant) return;
     
@@ -94,6 +166,17 @@ const StaffUI: React.FC = () => {
     }
   };
 
+  const fetchCampaigns = async () => {
+    if (!restaurant) return;
+
+    try {
+      const campaignsData = await CampaignService.getCampaigns(restaurant.id);
+      setCampaigns(campaignsData.filter(campaign => campaign.is_active));
+    } catch (err) {
+      console.error('Error fetching campaigns:', err);
+    }
+  };
+
   const fetchBranchStatsRefresh = async () => {
     if (!restaurant || !selectedBranch) return;
     
@@ -107,85 +190,201 @@ const StaffUI: React.FC = () => {
 
   const handleBranchSelect = async (branch: Branch) => {
     setSelectedBranch(branch);
-    setStep('password');
+    setSelectedStaff(null);
+    setPin('');
+    setStep('staff-login');
     setError('');
     
-    // Fetch branch stats
+    // Fetch branch stats and the staff who can sign in here
     if (restaurant) {
       try {
-        const stats = await BranchService.getBranchStats(restaurant.id, branch.id);
+        const [stats, staff] = await Promise.all([
+          BranchService.getBranchStats(restaurant.id, branch.id),
+          StaffService.getStaffMembers(restaurant.id, branch.id)
+        ]);
         setBranchStats(stats);
+        setStaffMembers(staff.filter(member => member.is_active));
       } catch (err) {
-        console.error('Error fetching branch stats:', err);
+        console.error('Error fetching branch data:', err);
       }
     }
   };
 
-  const handlePasswordSubmit = async () => {
-    if (!selectedBranch || !restaurant) return;
+  const handlePinSubmit = async () => {
+    if (!selectedStaff || !pin.trim()) return;
 
     try {
       setLoading(true);
       setError('');
 
-      const isValid = await BranchService.verifyBranchPassword(
-        restaurant.id, 
-        selectedBranch.id, 
-        password
-      );
-
-      if (isValid) {
-        setStep('dashboard');
-      } else {
-        setError('Invalid password. Please try again.');
-      }
-    } catch (err: any) {
-      setError('Failed to verify password');
+      const session = await StaffService.startSession(selectedStaff.id, pin);
+      setStaffSession(session);
+      setPin('');
+      setStep('dashboard');
+    } catch (err) {
+      setPin('');
+      setError(err instanceof Error ? err.message : 'Failed to verify PIN');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCustomerSearch = async (email: string) => {
-    if (!email || !restaurant) {
+  const handleStaffSignOut = async () => {
+    await StaffService.endSession();
+    setStaffSession(null);
+    setSelectedStaff(null);
+    setPin('');
+    setError('');
+    setStep('staff-login');
+  };
+
+  // Four digits list every customer whose number ends in them; a full number that matches
+  // one customer selects them straight away
+  const findByPhone = async (query: string): Promise<Customer[]> => {
+    if (!restaurant) return [];
+    return navigator.onLine
+      ? CustomerService.findCustomersByPhone(restaurant.id, query)
+      : OfflineQueueService.findCachedCustomersByPhone(restaurant.id, query);
+  };
+
+  const isLastFour = (query: string) => query.replace(/\D/g, '').length === 4;
+
+  const selectCustomer = async (customer: Customer | null) => {
+    setFoundCustomer(customer);
+    setPhoneMatches([]);
+
+    // Offline, segment campaigns aren't previewed; the database still applies them on sync
+    if (!customer || !restaurant || !navigator.onLine) {
+      setLastTierChange(null);
+      setCustomerSegmentIds([]);
+      return;
+    }
+
+    // Lets staff answer "why did my tier change?" at the counter
+    const [history, segmentIds] = await Promise.all([
+      CustomerService.getTierHistory(restaurant.id, customer.id),
+      SegmentService.getCustomerSegmentIds(restaurant.id, customer.id)
+    ]);
+    setLastTierChange(history[0] || null);
+    setCustomerSegmentIds(segmentIds);
+  };
+
+  const handleCustomerSearch = async (query: string) => {
+    if (!query || !restaurant) {
       setFoundCustomer(null);
+      setPhoneMatches([]);
+      setLastTierChange(null);
       return;
     }
 
     try {
-      const customer = await CustomerService.getCustomerByEmail(restaurant.id, email);
-      setFoundCustomer(customer);
+      if (looksLikePhone(query)) {
+        const matches = await findByPhone(query);
+        if (matches.length === 1 && !isLastFour(query)) {
+          await selectCustomer(matches[0]);
+        } else {
+          setFoundCustomer(null);
+          setLastTierChange(null);
+          setPhoneMatches(matches);
+        }
+        return;
+      }
+
+      const email = query;
+      await selectCustomer(navigator.onLine
+        ? await CustomerService.getCustomerByEmail(restaurant.id, email)
+        : await OfflineQueueService.findCachedCustomer(restaurant.id, { email }));
     } catch (err) {
       setFoundCustomer(null);
+      setPhoneMatches([]);
+      setLastTierChange(null);
     }
   };
 
-  const handleRedeemCustomerSearch = async (email: string) => {
-    if (!email || !restaurant) {
+  const selectRedeemCustomer = async (customer: Customer | null) => {
+    setRedeemFoundCustomer(customer);
+    setRedeemPhoneMatches([]);
+
+    if (!customer || !restaurant) {
+      setAvailableRewards([]);
+      return;
+    }
+
+    if (!navigator.onLine) {
+      // Best guess from the cache; the database has the final say when the redemption syncs
+      const rewards = await OfflineQueueService.getCachedRewards(restaurant.id);
+      setAvailableRewards(rewards.filter(reward =>
+        reward.is_active &&
+        (!reward.total_available || reward.total_redeemed < reward.total_available) &&
+        (!loyaltyConfig || LoyaltyConfigService.meetsTier(loyaltyConfig.tierLadder, customer.current_tier, reward.min_tier))
+      ));
+      return;
+    }
+
+    // Fetch available rewards for this customer
+    const { RewardService } = await import('../services/rewardService');
+    const rewards = await RewardService.getAvailableRewards(restaurant.id, customer.id);
+    setAvailableRewards(rewards);
+  };
+
+  const handleRedeemCustomerSearch = async (query: string) => {
+    if (!query || !restaurant) {
       setRedeemFoundCustomer(null);
+      setRedeemPhoneMatches([]);
       setAvailableRewards([]);
       return;
     }
 
     try {
-      const customer = await CustomerService.getCustomerByEmail(restaurant.id, email);
-      setRedeemFoundCustomer(customer);
-      
-      if (customer) {
-        // Fetch available rewards for this customer
-        const { RewardService } = await import('../services/rewardService');
-        const rewards = await RewardService.getAvailableRewards(restaurant.id, customer.id);
-        setAvailableRewards(rewards);
+      if (looksLikePhone(query)) {
+        const matches = await findByPhone(query);
+        if (matches.length === 1 && !isLastFour(query)) {
+          await selectRedeemCustomer(matches[0]);
+        } else {
+          setRedeemFoundCustomer(null);
+          setAvailableRewards([]);
+          setRedeemPhoneMatches(matches);
+        }
+        return;
       }
+
+      const email = query;
+      await selectRedeemCustomer(navigator.onLine
+        ? await CustomerService.getCustomerByEmail(restaurant.id, email)
+        : await OfflineQueueService.findCachedCustomer(restaurant.id, { email }));
     } catch (err) {
       setRedeemFoundCustomer(null);
+      setRedeemPhoneMatches([]);
       setAvailableRewards([]);
     }
   };
 
+  const renderPhoneMatches = (matches: Customer[], onSelect: (customer: Customer) => void) => (
+    <div className="mt-3 bg-white/60 border border-gray-200 rounded-xl divide-y divide-gray-100">
+      <p className="px-4 py-2 text-xs font-medium text-gray-500">
+        {matches.length === 1 ? 'One customer has' : `${matches.length} customers have`} a number ending in these digits. Check the name before continuing.
+      </p>
+      {matches.map(customer => (
+        <button
+          key={customer.id}
+          onClick={() => onSelect(customer)}
+          className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-gray-50"
+        >
+          <div>
+            <p className="font-medium text-gray-900">{customer.first_name} {customer.last_name}</p>
+            <p className="text-sm text-gray-500">{customer.phone} • {customer.email}</p>
+          </div>
+          <span className="text-sm text-gray-600">{customer.total_points} pts</span>
+        </button>
+      ))}
+    </div>
+  );
+
   const calculatePointsForOrder = () => {
     if (!loyaltyConfig || !foundCustomer) return 0;
 
+    const context = { branchId: selectedBranch?.id };
+
     if (assignmentMode === 'qr') {
       const amount = parseFloat(orderAmount) || 0;
       if (amount <= 0) return 0;
@@ -195,30 +394,74 @@ const StaffUI: React.FC = () => {
         undefined,
         amount,
         foundCustomer.current_tier,
-        1
+        1,
+        context
       );
       return result.points;
     } else {
-      let totalPoints = 0;
-      Object.entries(selectedMenuItems).forEach(([itemId, quantity]) => {
-        if (quantity > 0) {
-          const menuItem = menuItems.find(item => item.id === itemId);
-          if (menuItem) {
-            const result = LoyaltyConfigService.calculatePointsPreview(
-              loyaltyConfig,
-              menuItem,
-              menuItem.selling_price,
-              foundCustomer.current_tier,
-              1 // Calculate for single item first
-            );
-            totalPoints += result.points * quantity; // Then multiply by quantity
-          }
-        }
-      });
-      return totalPoints;
+      // Score the whole basket at once so min-spend, time-window and cap rules see the full order
+      const lines = getOrderTotals().pointsLines;
+
+      if (lines.length === 0) return 0;
+
+      const result = LoyaltyConfigService.calculateOrderPointsPreview(
+        loyaltyConfig,
+        lines,
+        foundCustomer.current_tier,
+        context
+      );
+      return result.points;
     }
   };
 
+  const getOrderTotals = () =>
+    OrderService.calculateTotals(
+      basket,
+      menuItems,
+      parseFloat(orderDiscount) || 0,
+      loyaltyConfig?.tax ?? { ratePercent: 5, pricesIncludeTax: true }
+    );
+
+  const getBasketQuantity = (menuItemId: string) =>
+    basket.find(line => line.menuItemId === menuItemId)?.quantity || 0;
+
+  const changeBasketQuantity = (menuItemId: string, delta: number) => {
+    setBasket(prev => {
+      if (!prev.some(line => line.menuItemId === menuItemId)) {
+        return delta > 0 ? [...prev, { menuItemId, quantity: delta, discount: 0 }] : prev;
+      }
+      return prev
+        .map(line => line.menuItemId === menuItemId ? { ...line, quantity: line.quantity + delta } : line)
+        .filter(line => line.quantity > 0);
+    });
+  };
+
+  const setBasketLineDiscount = (menuItemId: string, discount: number) => {
+    setBasket(prev => prev.map(line =>
+      line.menuItemId === menuItemId ? { ...line, discount: Math.max(0, discount) } : line
+    ));
+  };
+
+  const getCampaignMatch = (points: number) => {
+    if (!loyaltyConfig || points <= 0) return null;
+    return CampaignService.pickBestCampaign(
+      CampaignService.forSegments(campaigns, customerSegmentIds),
+      points,
+      selectedBranch?.id,
+      loyaltyConfig.timezone
+    );
+  };
+
+  const renderCampaignBonus = (points: number) => {
+    const match = getCampaignMatch(points);
+    if (!match || match.bonusPoints <= 0) return null;
+    return (
+      <p className="text-xs opacity-90 mt-1">
+        Includes +{match.bonusPoints} from {match.campaign.name}
+      </p>
+    );
+  };
+
   const handleAssignPoints = async () => {
     if (!foundCustomer || !restaurant || !selectedBranch) return;
 
@@ -226,66 +469,115 @@ const StaffUI: React.FC = () => {
       setAssignmentLoading(true);
       
       const pointsToAssign = calculatePointsForOrder();
-      if (pointsToAssign <= 0) {
+      if (assignmentMode === 'qr' && pointsToAssign <= 0) {
         setError('No points to assign');
         return;
       }
 
-      let description = '';
-      let amountSpent = 0;
-
-      if (assignmentMode === 'qr') {
-        amountSpent = parseFloat(orderAmount) || 0;
-        description = `Order amount: ${amountSpent} AED`;
-      } else {
-        const itemDescriptions: string[] = [];
-        Object.entries(selectedMenuItems).forEach(([itemId, quantity]) => {
-          if (quantity > 0) {
-            const menuItem = menuItems.find(item => item.id === itemId);
-            if (menuItem) {
-              itemDescriptions.push(`${menuItem.name} x${quantity}`);
-              amountSpent += menuItem.selling_price * quantity;
+      // The database re-checks the campaign window before adding the bonus
+      const campaignMatch = getCampaignMatch(pointsToAssign);
+      let totalAssigned = pointsToAssign + (campaignMatch?.bonusPoints || 0);
+      const amountSpent = parseFloat(orderAmount) || 0;
+      const customerName = `${foundCustomer.first_name} ${foundCustomer.last_name}`;
+
+      const action: QueuedAction = assignmentMode === 'qr'
+        ? {
+            kind: 'points',
+            points: pointsToAssign,
+            amountSpent,
+            description: `Order amount: ${amountSpent} AED (${selectedBranch.name})`,
+            campaignId: campaignMatch?.campaign.id || null
+          }
+        : {
+            kind: 'order',
+            lines: basket,
+            orderDiscount: parseFloat(orderDiscount) || 0,
+            campaignId: campaignMatch?.campaign.id || null
+          };
+
+      // Offline, or the connection dropped mid-request: keep it on the device and sync later
+      let queuedOffline = !navigator.onLine;
+
+      if (!queuedOffline) {
+        try {
+          if (action.kind === 'points') {
+            // Use the process_point_transaction function directly
+            const { error } = await supabase.rpc('process_point_transaction', {
+              p_restaurant_id: restaurant.id,
+              p_customer_id: foundCustomer.id,
+              p_type: 'purchase',
+              p_points: action.points,
+              p_description: action.description,
+              p_amount_spent: action.amountSpent,
+              p_reward_id: null,
+              p_branch_id: selectedBranch.id,
+              p_campaign_id: action.campaignId,
+              p_idempotency_key: assignmentKey
+            });
+
+            if (error) {
+              throw new Error(error.message);
             }
+          } else if (action.kind === 'order') {
+            // Menu prices, discounts, tax and points are all settled server-side
+            const order = await OrderService.createOrder(restaurant.id, {
+              branchId: selectedBranch.id,
+              customerId: foundCustomer.id,
+              lines: action.lines,
+              orderDiscount: action.orderDiscount,
+              campaignId: action.campaignId,
+              idempotencyKey: assignmentKey
+            });
+            totalAssigned = order.points_awarded;
+            setLastOrder({ order, customerName });
           }
-        });
-        description = `Items: ${itemDescriptions.join(', ')}`;
-      }
-
-      // Use the process_point_transaction function directly
-      const { error } = await supabase.rpc('process_point_transaction', {
-        p_restaurant_id: restaurant.id,
-        p_customer_id: foundCustomer.id,
-        p_type: 'purchase',
-        p_points: pointsToAssign,
-        p_description: `${description} (${selectedBranch.name})`,
-        p_amount_spent: amountSpent,
-        p_reward_id: null,
-        p_branch_id: selectedBranch.id
-      });
-
-      if (error) {
-        throw new Error(error.message);
+        } catch (err) {
+          if (!OfflineQueueService.isNetworkError(err)) throw err;
+          queuedOffline = true;
+        }
       }
 
-      // Refresh customer data to get updated points
-      const updatedCustomer = await CustomerService.getCustomer(
-        restaurant.id,
-        foundCustomer.id
-      );
-      
-      if (updatedCustomer) {
-        setFoundCustomer(updatedCustomer);
+      // The request may have landed before the connection dropped; the same key stops it counting twice
+      if (queuedOffline) {
+        await OfflineQueueService.enqueue({
+          id: assignmentKey,
+          restaurantId: restaurant.id,
+          branchId: selectedBranch.id,
+          staffMemberId: staffSession?.staff_member.id ?? null,
+          staffName: staffSession?.staff_member.name ?? null,
+          customerId: foundCustomer.id,
+          customerName,
+          action
+        });
+      } else {
+        // Refresh customer data to get updated points
+        const updatedCustomer = await CustomerService.getCustomer(
+          restaurant.id,
+          foundCustomer.id
+        );
+
+        if (updatedCustomer) {
+          setFoundCustomer(updatedCustomer);
+        }
       }
 
       // Reset form
+      setAssignmentKey(crypto.randomUUID());
       setCustomerEmail('');
       setOrderAmount('');
-      setSelectedMenuItems({});
+      setBasket([]);
+      setOrderDiscount('');
       setShowConfirmModal(false);
       setError('');
       
-      // Show success message
-      alert(`Successfully assigned ${pointsToAssign} points to ${foundCustomer.first_name} ${foundCustomer.last_name}!`);
+      // Show success message; menu orders show their receipt instead
+      if (queuedOffline) {
+        alert(`No connection. ${assignmentMode === 'menu' ? 'The order' : `${totalAssigned} points`} for ${customerName} will sync automatically when the connection returns.`);
+      } else if (assignmentMode === 'menu') {
+        setShowReceipt(true);
+      } else {
+        alert(`Successfully assigned ${totalAssigned} points to ${customerName}!`);
+      }
 
       // Clear customer after success message
       setTimeout(() => {
@@ -300,6 +592,139 @@ const StaffUI: React.FC = () => {
     }
   };
 
+  const handleVerifyCode = async () => {
+    if (!restaurant || !redemptionCode.trim()) return;
+
+    try {
+      setCodeLoading(true);
+      setError('');
+      setVerifiedRedemption(null);
+      setShowVoidForm(false);
+      setVoidReason('');
+
+      const { RewardService } = await import('../services/rewardService');
+      const details = await RewardService.verifyRedemptionCode(restaurant.id, redemptionCode);
+      setVerifiedRedemption(details);
+    } catch (err) {
+      console.error('Error verifying code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+    } finally {
+      setCodeLoading(false);
+    }
+  };
+
+  const handleConsumeCode = async () => {
+    if (!restaurant || !selectedBranch || !verifiedRedemption) return;
+
+    try {
+      setCodeLoading(true);
+      setError('');
+
+      const { RewardService } = await import('../services/rewardService');
+      const details = await RewardService.consumeRedemptionCode(
+        restaurant.id,
+        verifiedRedemption.code,
+        selectedBranch.id
+      );
+      setVerifiedRedemption(details);
+      setRedemptionCode('');
+      fetchBranchStatsRefresh();
+    } catch (err) {
+      console.error('Error accepting code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept code');
+    } finally {
+      setCodeLoading(false);
+    }
+  };
+
+  // One entry point for the camera and manual fallback: signed QR, redemption code or email
+  const handleScanResult = async (text: string) => {
+    if (!restaurant) return;
+
+    setShowScanner(false);
+    setError('');
+    setShowVoidForm(false);
+
+    const findCustomerByEmail = async (email: string) => {
+      if (activeTab === 'redeem') {
+        setRedeemCustomerEmail(email);
+        await handleRedeemCustomerSearch(email);
+      } else {
+        setCustomerEmail(email);
+        await handleCustomerSearch(email);
+      }
+    };
+
+    try {
+      if (text.includes('@')) {
+        await findCustomerByEmail(text);
+        return;
+      }
+
+      const { RewardService } = await import('../services/rewardService');
+
+      if (!QRTokenService.isQRToken(text)) {
+        const details = await RewardService.verifyRedemptionCode(restaurant.id, text);
+        setActiveTab('redeem');
+        setRedemptionCode(RewardService.formatRedemptionCode(details.code));
+        setVerifiedRedemption(details);
+        return;
+      }
+
+      if (!navigator.onLine) {
+        // Signatures can only be checked online; match the customer from this device's cache
+        const customerId = QRTokenService.readCustomerIdOffline(text);
+        const cached = customerId ? await OfflineQueueService.findCachedCustomer(restaurant.id, { id: customerId }) : null;
+        if (!cached) {
+          throw new Error(customerId
+            ? 'You are offline and this customer is not saved on this device. Try their email instead.'
+            : 'Redemption codes can only be checked online');
+        }
+        await findCustomerByEmail(cached.email);
+        return;
+      }
+
+      const resolved = await QRTokenService.resolveToken(restaurant.id, text);
+      if (resolved.kind === 'redemption') {
+        setActiveTab('redeem');
+        setRedemptionCode(RewardService.formatRedemptionCode(resolved.code));
+        setVerifiedRedemption(resolved);
+        return;
+      }
+
+      const customer = await CustomerService.getCustomer(restaurant.id, resolved.customer_id);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+      await findCustomerByEmail(customer.email);
+    } catch (err) {
+      console.error('Error resolving scanned code:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this code');
+    }
+  };
+
+  const handleVoidRedemption = async () => {
+    if (!restaurant || !verifiedRedemption) return;
+
+    try {
+      setCodeLoading(true);
+      setError('');
+
+      const { RewardService } = await import('../services/rewardService');
+      await RewardService.voidRedemption(restaurant.id, verifiedRedemption.redemption_id, voidReason);
+      const details = await RewardService.verifyRedemptionCode(restaurant.id, verifiedRedemption.code);
+      setVerifiedRedemption(details);
+      setShowVoidForm(false);
+      setVoidReason('');
+      fetchBranchStatsRefresh();
+    } catch (err) {
+      console.error('Error voiding redemption:', err);
+      setError(err instanceof Error ? err.message : 'Failed to void redemption');
+    } finally {
+      setCodeLoading(false);
+    }
+  };
+
   const handleRedeemReward = async () => {
     if (!redeemFoundCustomer || !selectedReward || !restaurant || !selectedBranch) return;
 
@@ -309,30 +734,69 @@ const StaffUI: React.FC = () => {
       // Import RewardService
       const { RewardService } = await import('../services/rewardService');
       
-      // Process the redemption
-      await RewardService.redeemReward(restaurant.id, redeemFoundCustomer.id, selectedReward.id, selectedBranch.id);
-      
-      // Refresh customer data
-      const updatedCustomer = await CustomerService.getCustomer(
-        restaurant.id,
-        redeemFoundCustomer.id
-      );
-      
-      if (updatedCustomer) {
-        setRedeemFoundCustomer(updatedCustomer);
-        // Refresh available rewards
-        const rewards = await RewardService.getAvailableRewards(restaurant.id, updatedCustomer.id);
-        setAvailableRewards(rewards);
+      // Process the redemption; without a connection it is queued and checked again on sync
+      let queuedOffline = !navigator.onLine;
+
+      if (!queuedOffline) {
+        try {
+          await RewardService.redeemReward(
+            restaurant.id,
+            redeemFoundCustomer.id,
+            selectedReward.id,
+            selectedBranch.id,
+            true,
+            redemptionKey
+          );
+        } catch (err) {
+          if (!OfflineQueueService.isNetworkError(err)) throw err;
+          queuedOffline = true;
+        }
+      }
+
+      if (queuedOffline) {
+        await OfflineQueueService.enqueue({
+          id: redemptionKey,
+          restaurantId: restaurant.id,
+          branchId: selectedBranch.id,
+          staffMemberId: staffSession?.staff_member.id ?? null,
+          staffName: staffSession?.staff_member.name ?? null,
+          customerId: redeemFoundCustomer.id,
+          customerName: `${redeemFoundCustomer.first_name} ${redeemFoundCustomer.last_name}`,
+          action: {
+            kind: 'redemption',
+            rewardId: selectedReward.id,
+            rewardName: selectedReward.name,
+            pointsRequired: selectedReward.points_required
+          }
+        });
+      } else {
+        // Refresh customer data
+        const updatedCustomer = await CustomerService.getCustomer(
+          restaurant.id,
+          redeemFoundCustomer.id
+        );
+
+        if (updatedCustomer) {
+          setRedeemFoundCustomer(updatedCustomer);
+          // Refresh available rewards
+          const rewards = await RewardService.getAvailableRewards(restaurant.id, updatedCustomer.id);
+          setAvailableRewards(rewards);
+        }
       }
 
       // Reset form
+      setRedemptionKey(crypto.randomUUID());
       setRedeemCustomerEmail('');
       setSelectedReward(null);
       setShowRedeemModal(false);
       setError('');
       
       // Show success message
-      alert(`Successfully redeemed ${selectedReward.name} for ${redeemFoundCustomer.first_name} ${redeemFoundCustomer.last_name}!`);
+      if (queuedOffline) {
+        alert(`No connection. ${selectedReward.name} for ${redeemFoundCustomer.first_name} ${redeemFoundCustomer.last_name} is saved and will sync when the connection returns. If it can't go through, it shows up in the offline queue.`);
+      } else {
+        alert(`Successfully redeemed ${selectedReward.name} for ${redeemFoundCustomer.first_name} ${redeemFoundCustomer.last_name}!`);
+      }
 
       // Clear customer after success message
       setTimeout(() => {
@@ -349,11 +813,18 @@ const StaffUI: React.FC = () => {
   };
 
   const getTierInfo = (tier: string) => {
-    switch (tier) {
-      case 'gold': return { name: 'Gold', icon: Crown, color: 'text-yellow-600' };
-      case 'silver': return { name: 'Silver', icon: Award, color: 'text-gray-600' };
-      default: return { name: 'Bronze', icon: ChefHat, color: 'text-orange-600' };
-    }
+    const styles = [
+      { icon: ChefHat, color: 'text-orange-600' },
+      { icon: Award, color: 'text-gray-600' },
+      { icon: Crown, color: 'text-yellow-600' },
+      { icon: Sparkles, color: 'text-purple-600' }
+    ];
+    if (!loyaltyConfig) return { ...styles[0], name: tier };
+    const rank = Math.max(LoyaltyConfigService.getTierRank(loyaltyConfig.tierLadder, tier), 0);
+    return {
+      ...styles[Math.min(rank, styles.length - 1)],
+      name: LoyaltyConfigService.getTier(loyaltyConfig.tierLadder, tier)?.name || tier
+    };
   };
 
   // Branch Selection Screen
@@ -425,8 +896,8 @@ const StaffUI: React.FC = () => {
     );
   }
 
-  // Password Screen
-  if (step === 'password') {
+  // Staff Sign-in Screen
+  if (step === 'staff-login') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-white via-gray-50 to-gray-100">
         
@@ -446,7 +917,8 @@ const StaffUI: React.FC = () => {
             <button
               onClick={() => {
                 setStep('branch-select');
-                setPassword('');
+                setSelectedStaff(null);
+                setPin('');
                 setError('');
               }}
               className="text-gray-600 hover:text-gray-900 transition-colors text-sm font-medium px-3 py-1 rounded-lg hover:bg-gray-100"
@@ -460,15 +932,12 @@ const StaffUI: React.FC = () => {
           <div className="w-full max-w-md">
             <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-gray-200/50 p-8">
               <div className="text-center mb-6">
-                {/* <div className="w-16 h-16 bg-gradient-to-br from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
-                  <img 
-                    src="/image.png" 
-                    alt="VOYA" 
-                    className="w-16 h-16 object-contain"
-                  /> 
-                </div> */}
-                <h2 className="text-xl font-bold text-gray-900 mb-2 font-['Space_Grotesk']">Enter Staff Password</h2>
-                <p className="text-gray-600">Access the staff portal for {selectedBranch?.name}</p>
+                <h2 className="text-xl font-bold text-gray-900 mb-2 font-['Space_Grotesk']">
+                  {selectedStaff ? `Hi ${selectedStaff.name}` : 'Who\'s working?'}
+                </h2>
+                <p className="text-gray-600">
+                  {selectedStaff ? 'Enter your PIN to start your session' : `Select your name to sign in to ${selectedBranch?.name}`}
+                </p>
               </div>
 
               {error && (
@@ -477,45 +946,91 @@ const StaffUI: React.FC = () => {
                 </div>
               )}
 
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Password
-                  </label>
-                  <div className="relative">
-                    <input
-                      type={showPassword ? 'text' : 'password'}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && handlePasswordSubmit()}
-                      className="w-full px-3 py-3 bg-white/60 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent pr-10 text-gray-900 placeholder-gray-500"
-                      placeholder="Enter staff password"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                    >
-                      {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                    </button>
+              {!selectedStaff ? (
+                staffMembers.length === 0 ? (
+                  <div className="text-center py-6">
+                    <Users className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+                    <p className="text-gray-600">No staff accounts for this branch yet. Ask your manager to add you.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {staffMembers.map((member) => (
+                      <button
+                        key={member.id}
+                        onClick={() => {
+                          setSelectedStaff(member);
+                          setError('');
+                        }}
+                        className="w-full flex items-center gap-3 p-3 bg-white/60 border border-gray-200 rounded-xl hover:border-[#E6A85C] transition-colors text-left"
+                      >
+                        <div className="w-10 h-10 bg-gradient-to-br from-[#E6A85C] to-[#E85A9B] rounded-lg flex items-center justify-center text-white font-bold">
+                          {member.name.charAt(0).toUpperCase()}
+                        </div>
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-900">{member.name}</p>
+                          <p className="text-xs text-gray-500">{STAFF_ROLE_LABELS[member.role]}</p>
+                        </div>
+                        <ArrowRight className="h-4 w-4 text-gray-400" />
+                      </button>
+                    ))}
+                  </div>
+                )
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      PIN
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      <input
+                        type={showPin ? 'text' : 'password'}
+                        inputMode="numeric"
+                        autoComplete="off"
+                        autoFocus
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handlePinSubmit()}
+                        className="w-full pl-10 pr-10 py-3 bg-white/60 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent text-gray-900 placeholder-gray-500 tracking-widest"
+                        placeholder="Enter your PIN"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPin(!showPin)}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                      >
+                        {showPin ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                      </button>
+                    </div>
                   </div>
-                </div>
 
-                <button
-                  onClick={handlePasswordSubmit}
-                  disabled={loading || !password.trim()}
-                  className="w-full bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white font-medium py-3 px-6 rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                >
-                  {loading ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : (
-                    <>
-                      Access Portal
-                      <ArrowRight className="w-4 h-4" />
-                    </>
-                  )}
-                </button>
-              </div>
+                  <button
+                    onClick={handlePinSubmit}
+                    disabled={loading || !pin.trim()}
+                    className="w-full bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white font-medium py-3 px-6 rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {loading ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <>
+                        Start Session
+                        <ArrowRight className="w-4 h-4" />
+                      </>
+                    )}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setSelectedStaff(null);
+                      setPin('');
+                      setError('');
+                    }}
+                    className="w-full text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Not {selectedStaff.name}?
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -523,6 +1038,9 @@ const StaffUI: React.FC = () => {
     );
   }
 
+  // Scored once per render and shared by the preview, campaign bonus and assign button
+  const orderPoints = calculatePointsForOrder();
+
   // Staff Dashboard
   return (
     <div className="min-h-screen bg-gradient-to-br from-white via-gray-50 to-gray-100">
@@ -541,16 +1059,21 @@ const StaffUI: React.FC = () => {
               <p className="text-xs text-gray-600">Staff Portal • {selectedBranch?.location}</p>
             </div>
           </div>
-          <button
-            onClick={() => {
-              setStep('branch-select');
-              setPassword('');
-              setError('');
-            }}
-            className="text-gray-600 hover:text-gray-900 transition-colors text-sm font-medium px-3 py-1 rounded-lg hover:bg-gray-100"
-          >
-            Sign Out
-          </button>
+          <div className="flex items-center gap-3">
+            <OfflineSyncStatus queue={offlineQueue} />
+            {staffSession && (
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{staffSession.staff_member.name}</p>
+                <p className="text-xs text-gray-500">{STAFF_ROLE_LABELS[staffSession.staff_member.role]}</p>
+              </div>
+            )}
+            <button
+              onClick={handleStaffSignOut}
+              className="text-gray-600 hover:text-gray-900 transition-colors text-sm font-medium px-3 py-1 rounded-lg hover:bg-gray-100"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
@@ -631,6 +1154,16 @@ const StaffUI: React.FC = () => {
             >
               Redeem Rewards
             </button>
+            <button
+              onClick={() => setActiveTab('refund')}
+              className={`flex-1 py-4 px-6 font-medium transition-colors ${
+                activeTab === 'refund'
+                  ? 'bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+              }`}
+            >
+              Refunds
+            </button>
           </div>
 
           {/* Point Assignment Tab */}
@@ -670,23 +1203,34 @@ const StaffUI: React.FC = () => {
 
               {/* Customer Search */}
               <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Customer Email
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Customer Email or Phone
+                  </label>
+                  <button
+                    onClick={() => setShowScanner(true)}
+                    className="flex items-center gap-1 text-sm font-medium text-[#E85A9B] hover:text-[#D946EF]"
+                  >
+                    <Camera className="h-4 w-4" />
+                    Scan QR
+                  </button>
+                </div>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
                   <input
-                    type="email"
+                    type="text"
                     value={customerEmail}
                     onChange={(e) => {
                       setCustomerEmail(e.target.value);
                       handleCustomerSearch(e.target.value);
                     }}
                     className="w-full pl-10 pr-4 py-3 bg-white/60 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent text-gray-900 placeholder-gray-500"
-                    placeholder="Enter customer email"
+                    placeholder="Email, phone or last 4 digits"
                   />
                 </div>
 
+                {!foundCustomer && phoneMatches.length > 0 && renderPhoneMatches(phoneMatches, selectCustomer)}
+
                 {foundCustomer && (
                   <div className="mt-3 p-4 bg-green-50 border border-green-200 rounded-xl">
                     <div className="flex items-center gap-3">
@@ -711,6 +1255,16 @@ const StaffUI: React.FC = () => {
                             );
                           })()}
                         </div>
+                        {foundCustomer.tier_grace_until && (
+                          <p className="text-xs text-amber-700 mt-1">
+                            Tier kept until {new Date(foundCustomer.tier_grace_until).toLocaleDateString()} unless they re-qualify
+                          </p>
+                        )}
+                        {lastTierChange && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            Last tier change ({new Date(lastTierChange.created_at).toLocaleDateString()}): {lastTierChange.reason}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -750,22 +1304,16 @@ const StaffUI: React.FC = () => {
                         </div>
                         <div className="flex items-center gap-2">
                           <button
-                            onClick={() => setSelectedMenuItems(prev => ({
-                              ...prev,
-                              [item.id]: Math.max(0, (prev[item.id] || 0) - 1)
-                            }))}
+                            onClick={() => changeBasketQuantity(item.id, -1)}
                             className="w-8 h-8 bg-gray-100 rounded-lg flex items-center justify-center hover:bg-gray-200 transition-colors text-gray-700"
                           >
                             <Minus className="h-4 w-4" />
                           </button>
                           <span className="w-8 text-center font-medium text-gray-900">
-                            {selectedMenuItems[item.id] || 0}
+                            {getBasketQuantity(item.id)}
                           </span>
                           <button
-                            onClick={() => setSelectedMenuItems(prev => ({
-                              ...prev,
-                              [item.id]: (prev[item.id] || 0) + 1
-                            }))}
+                            onClick={() => changeBasketQuantity(item.id, 1)}
                             className="w-8 h-8 bg-gray-100 rounded-lg flex items-center justify-center hover:bg-gray-200 transition-colors text-gray-700"
                           >
                             <Plus className="h-4 w-4" />
@@ -774,6 +1322,81 @@ const StaffUI: React.FC = () => {
                       </div>
                     ))}
                   </div>
+
+                  {/* Basket */}
+                  {basket.length > 0 && (() => {
+                    const totals = getOrderTotals();
+                    const tax = loyaltyConfig?.tax ?? { ratePercent: 5, pricesIncludeTax: true };
+
+                    return (
+                      <div className="bg-white/60 rounded-xl border border-gray-200 p-4 space-y-3">
+                        <h3 className="font-medium text-gray-900">Order</h3>
+                        {basket.map((line) => {
+                          const item = menuItems.find(i => i.id === line.menuItemId);
+                          if (!item) return null;
+                          return (
+                            <div key={line.menuItemId} className="flex items-center justify-between gap-3 text-sm">
+                              <div className="flex-1 min-w-0">
+                                <p className="text-gray-900 truncate">{line.quantity} × {item.name}</p>
+                                <p className="text-gray-500">{(item.selling_price * line.quantity).toFixed(2)} AED</p>
+                              </div>
+                              <input
+                                type="number"
+                                value={line.discount || ''}
+                                onChange={(e) => setBasketLineDiscount(line.menuItemId, parseFloat(e.target.value) || 0)}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-right"
+                                placeholder="Discount"
+                                min="0"
+                                step="0.01"
+                              />
+                            </div>
+                          );
+                        })}
+                        <div className="flex items-center justify-between gap-3 text-sm pt-2 border-t border-gray-200">
+                          <span className="text-gray-700">Order discount (AED)</span>
+                          <input
+                            type="number"
+                            value={orderDiscount}
+                            onChange={(e) => setOrderDiscount(e.target.value)}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-right"
+                            placeholder="0.00"
+                            min="0"
+                            step="0.01"
+                          />
+                        </div>
+                        <div className="text-sm space-y-1 pt-2 border-t border-gray-200">
+                          <div className="flex justify-between text-gray-600">
+                            <span>Subtotal</span>
+                            <span>{totals.subtotal.toFixed(2)} AED</span>
+                          </div>
+                          {totals.discountTotal > 0 && (
+                            <div className="flex justify-between text-gray-600">
+                              <span>Discounts</span>
+                              <span>-{totals.discountTotal.toFixed(2)} AED</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between text-gray-600">
+                            <span>VAT {tax.ratePercent}%{tax.pricesIncludeTax ? ' (included)' : ''}</span>
+                            <span>{totals.taxTotal.toFixed(2)} AED</span>
+                          </div>
+                          <div className="flex justify-between font-semibold text-gray-900">
+                            <span>Total</span>
+                            <span>{totals.total.toFixed(2)} AED</span>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {lastOrder && (
+                    <button
+                      onClick={() => setShowReceipt(true)}
+                      className="w-full flex items-center justify-center gap-2 py-2 text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      <Receipt className="h-4 w-4" />
+                      Reprint receipt #{lastOrder.order.order_number}
+                    </button>
+                  )}
                 </div>
               )}
 
@@ -781,8 +1404,11 @@ const StaffUI: React.FC = () => {
               {foundCustomer && (
                 <div className="mt-6 p-4 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-xl text-white">
                   <div className="text-center">
-                    <p className="text-3xl font-bold">{calculatePointsForOrder()}</p>
+                    <p className="text-3xl font-bold">
+                      {orderPoints + (getCampaignMatch(orderPoints)?.bonusPoints || 0)}
+                    </p>
                     <p className="text-sm opacity-90">points will be assigned</p>
+                    {renderCampaignBonus(orderPoints)}
                   </div>
                 </div>
               )}
@@ -790,7 +1416,7 @@ const StaffUI: React.FC = () => {
               {/* Assign Button */}
               <button
                 onClick={() => setShowConfirmModal(true)}
-                disabled={!foundCustomer || calculatePointsForOrder() <= 0}
+                disabled={!foundCustomer || (assignmentMode === 'menu' ? basket.length === 0 : orderPoints <= 0)}
                 className="w-full mt-6 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white font-medium py-3 px-6 rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 <Zap className="h-4 w-4" />
@@ -808,25 +1434,164 @@ const StaffUI: React.FC = () => {
                 </div>
               )}
 
-              {/* Customer Search for Redemption */}
-              <div className="mb-6">
+              {/* Redemption Code Verification */}
+              <div className="mb-6 pb-6 border-b border-gray-200">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Customer Email
+                  Redemption Code
                 </label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <QrCode className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                    <input
+                      type="text"
+                      value={redemptionCode}
+                      onChange={(e) => {
+                        setRedemptionCode(e.target.value.toUpperCase());
+                        setVerifiedRedemption(null);
+                        setShowVoidForm(false);
+                      }}
+                      onKeyDown={(e) => e.key === 'Enter' && handleVerifyCode()}
+                      className="w-full pl-10 pr-4 py-3 bg-white/60 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent text-gray-900 placeholder-gray-500 font-mono tracking-wider"
+                      placeholder="XXXXX-XXXXX"
+                    />
+                  </div>
+                  <button
+                    onClick={handleVerifyCode}
+                    disabled={codeLoading || !redemptionCode.trim()}
+                    className="px-4 py-3 bg-gray-900 text-white rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    {codeLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                    Verify Code
+                  </button>
+                </div>
+
+                {verifiedRedemption && (
+                  <div className={`mt-3 p-4 rounded-xl border ${
+                    verifiedRedemption.status === 'pending'
+                      ? 'bg-green-50 border-green-200'
+                      : 'bg-gray-50 border-gray-200'
+                  }`}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="font-medium text-gray-900">{verifiedRedemption.reward_name}</p>
+                        <p className="text-sm text-gray-600">
+                          {verifiedRedemption.customer_name} • {verifiedRedemption.points_used} points
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Redeemed {new Date(verifiedRedemption.redeemed_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+                        verifiedRedemption.status === 'pending'
+                          ? 'bg-green-100 text-green-700'
+                          : verifiedRedemption.status === 'used'
+                          ? 'bg-gray-200 text-gray-700'
+                          : 'bg-red-100 text-red-700'
+                      }`}>
+                        {verifiedRedemption.status === 'pending' ? 'Valid' :
+                         verifiedRedemption.status === 'used' ? 'Used' :
+                         verifiedRedemption.status === 'cancelled' ? 'Cancelled' :
+                         verifiedRedemption.status === 'voided' ? 'Voided' : 'Expired'}
+                      </span>
+                    </div>
+
+                    {verifiedRedemption.status === 'pending' ? (
+                      <button
+                        onClick={handleConsumeCode}
+                        disabled={codeLoading}
+                        className="mt-3 w-full py-2 px-4 bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] text-white rounded-xl hover:shadow-lg transition-all duration-200 disabled:opacity-50 flex items-center justify-center gap-2"
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                        Mark as Used
+                      </button>
+                    ) : verifiedRedemption.used_at && (
+                      <p className="text-sm text-gray-600 mt-2">
+                        Used {new Date(verifiedRedemption.used_at).toLocaleString()}
+                      </p>
+                    )}
+
+                    {verifiedRedemption.status === 'pending' && verifiedRedemption.expires_at && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Valid until {new Date(verifiedRedemption.expires_at).toLocaleString()}
+                      </p>
+                    )}
+
+                    {verifiedRedemption.void_reason && (
+                      <p className="text-sm text-gray-600 mt-2">Void reason: {verifiedRedemption.void_reason}</p>
+                    )}
+
+                    {staffSession?.staff_member.role === 'manager' && (verifiedRedemption.status === 'pending' || verifiedRedemption.status === 'used') && (
+                      showVoidForm ? (
+                        <div className="mt-3 space-y-2">
+                          <input
+                            type="text"
+                            value={voidReason}
+                            onChange={(e) => setVoidReason(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+                            placeholder="Reason, e.g. item out of stock"
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => {
+                                setShowVoidForm(false);
+                                setVoidReason('');
+                              }}
+                              className="flex-1 py-2 px-3 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                            >
+                              Keep
+                            </button>
+                            <button
+                              onClick={handleVoidRedemption}
+                              disabled={codeLoading || !voidReason.trim()}
+                              className="flex-1 py-2 px-3 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                            >
+                              Void & Refund {verifiedRedemption.points_used} pts
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setShowVoidForm(true)}
+                          className="mt-2 text-sm text-red-600 hover:text-red-700"
+                        >
+                          Void redemption
+                        </button>
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Customer Search for Redemption */}
+              <div className="mb-6">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Customer Email or Phone
+                  </label>
+                  <button
+                    onClick={() => setShowScanner(true)}
+                    className="flex items-center gap-1 text-sm font-medium text-[#E85A9B] hover:text-[#D946EF]"
+                  >
+                    <Camera className="h-4 w-4" />
+                    Scan QR
+                  </button>
+                </div>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
                   <input
-                    type="email"
+                    type="text"
                     value={redeemCustomerEmail}
                     onChange={(e) => {
                       setRedeemCustomerEmail(e.target.value);
                       handleRedeemCustomerSearch(e.target.value);
                     }}
                     className="w-full pl-10 pr-4 py-3 bg-white/60 border border-gray-300 rounded-xl focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent text-gray-900 placeholder-gray-500"
-                    placeholder="Enter customer email to redeem rewards"
+                    placeholder="Email, phone or last 4 digits"
                   />
                 </div>
 
+                {!redeemFoundCustomer && redeemPhoneMatches.length > 0 && renderPhoneMatches(redeemPhoneMatches, selectRedeemCustomer)}
+
                 {redeemFoundCustomer && (
                   <div className="mt-3 p-4 bg-green-50 border border-green-200 rounded-xl">
                     <div className="flex items-center gap-3">
@@ -915,6 +1680,18 @@ const StaffUI: React.FC = () => {
               )}
             </div>
           )}
+
+          {/* Refunds Tab */}
+          {activeTab === 'refund' && selectedBranch && (
+            <div className="p-6">
+              <RefundsPage
+                scope="branch"
+                branchId={selectedBranch.id}
+                approvers={staffMembers}
+                onRefunded={() => fetchBranchStatsRefresh()}
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -950,8 +1727,11 @@ const StaffUI: React.FC = () => {
 
               {/* Points to Assign */}
               <div className="bg-gradient-to-r from-[#E6A85C] via-[#E85A9B] to-[#D946EF] rounded-xl p-4 text-white text-center">
-                <p className="text-3xl font-bold">{calculatePointsForOrder()}</p>
+                <p className="text-3xl font-bold">
+                  {orderPoints + (getCampaignMatch(orderPoints)?.bonusPoints || 0)}
+                </p>
                 <p className="text-sm opacity-90">points will be assigned</p>
+                {renderCampaignBonus(orderPoints)}
               </div>
 
               {/* Order Details */}
@@ -961,17 +1741,18 @@ const StaffUI: React.FC = () => {
                   <p className="text-sm text-gray-600">Order Amount: {orderAmount} AED</p>
                 ) : (
                   <div className="space-y-1">
-                    {Object.entries(selectedMenuItems).map(([itemId, quantity]) => {
-                      if (quantity > 0) {
-                        const item = menuItems.find(i => i.id === itemId);
-                        return item ? (
-                          <p key={itemId} className="text-sm text-gray-600">
-                            {item.name} x{quantity} = {(item.selling_price * quantity).toFixed(2)} AED
-                          </p>
-                        ) : null;
-                      }
-                      return null;
+                    {basket.map((line) => {
+                      const item = menuItems.find(i => i.id === line.menuItemId);
+                      return item ? (
+                        <p key={line.menuItemId} className="text-sm text-gray-600">
+                          {item.name} x{line.quantity} = {(item.selling_price * line.quantity).toFixed(2)} AED
+                          {line.discount > 0 && ` (-${line.discount.toFixed(2)})`}
+                        </p>
+                      ) : null;
                     })}
+                    <p className="text-sm font-medium text-gray-900 pt-1">
+                      Total: {getOrderTotals().total.toFixed(2)} AED
+                    </p>
                   </div>
                 )}
               </div>
@@ -1003,6 +1784,18 @@ const StaffUI: React.FC = () => {
         </div>
       )}
 
+      {/* Order Receipt */}
+      {showReceipt && lastOrder && restaurant && (
+        <OrderReceipt
+          order={lastOrder.order}
+          restaurantName={restaurant.name}
+          branchName={selectedBranch?.name}
+          customerName={lastOrder.customerName}
+          staffName={staffSession?.staff_member.name}
+          onClose={() => setShowReceipt(false)}
+        />
+      )}
+
       {/* Redemption Confirmation Modal */}
       {showRedeemModal && redeemFoundCustomer && selectedReward && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
@@ -1080,6 +1873,13 @@ const StaffUI: React.FC = () => {
           </div>
         </div>
       )}
+
+      {showScanner && (
+        <QRScanner
+          onScan={handleScanResult}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
     </div>
   );
 };
@@ -19,6 +19,7 @@ import {
 import { supabase } from '../lib/supabase';
 import { SupportService, SupportTicket, SupportMessage } from '../services/supportService';
 import { SubscriptionService } from '../services/subscriptionService';
+import AuditLogPage from './AuditLogPage';
 
 interface SubscriptionStats {
   totalUsers: number;
@@ -111,7 +112,7 @@ interface GrowthData {
 const SuperAdminUI: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'subscriptions' | 'restaurants' | 'customers' | 'support' | 'analytics'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'subscriptions' | 'restaurants' | 'customers' | 'support' | 'analytics' | 'audit'>('overview');
   
   // Data states
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
@@ -154,6 +155,7 @@ const SuperAdminUI: React.FC = () => {
   });
   const [pointsAdjustment, setPointsAdjustment] = useState(0);
   const [adjustmentReason, setAdjustmentReason] = useState('');
+  const [adjustmentKey, setAdjustmentKey] = useState(() => crypto.randomUUID());
 
   // Chart colors
   const CHART_COLORS = ['#EF4444', '#3B82F6', '#8B5CF6', '#F59E0B', '#10B981', '#F97316'];
@@ -247,6 +249,9 @@ const SuperAdminUI: React.FC = () => {
             fetchGrowthData()
           ]);
           break;
+        case 'audit':
+          await fetchRestaurants();
+          break;
       }
     } catch (error: any) {
       console.error('Error fetching data:', error);
@@ -571,7 +576,8 @@ const SuperAdminUI: React.FC = () => {
       const { error } = await supabase.rpc('super_admin_adjust_customer_points', {
         p_customer_id: selectedCustomer.id,
         p_points_adjustment: pointsAdjustment,
-        p_description: adjustmentReason || 'Super admin adjustment'
+        p_description: adjustmentReason || 'Super admin adjustment',
+        p_idempotency_key: adjustmentKey
       });
 
       if (error) throw error;
@@ -580,6 +586,7 @@ const SuperAdminUI: React.FC = () => {
       setShowCustomerModal(false);
       setPointsAdjustment(0);
       setAdjustmentReason('');
+      setAdjustmentKey(crypto.randomUUID());
       await fetchCustomers();
       alert(`Successfully adjusted points for ${selectedCustomer.first_name} ${selectedCustomer.last_name}`);
     } catch (error: any) {
@@ -778,7 +785,8 @@ const SuperAdminUI: React.FC = () => {
               { id: 'restaurants', label: 'Restaurants', icon: Building },
               { id: 'customers', label: 'All Customers', icon: Users },
               { id: 'support', label: 'Support Tickets', icon: MessageSquare },
-              { id: 'analytics', label: 'Analytics', icon: TrendingUp }
+              { id: 'analytics', label: 'Analytics', icon: TrendingUp },
+              { id: 'audit', label: 'Audit Log', icon: FileText }
             ].map((tab) => {
               const Icon = tab.icon;
               return (
@@ -1883,6 +1891,17 @@ const SuperAdminUI: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Audit Log Tab */}
+        {activeTab === 'audit' && (
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+              <p className="text-gray-600">Point, reward and configuration changes across all restaurants</p>
+            </div>
+            <AuditLogPage scope="platform" restaurants={restaurants} />
+          </div>
+        )}
       </main>
 
       {/* All existing modals remain exactly the same */}
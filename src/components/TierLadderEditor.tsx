@@ -0,0 +1,234 @@
+import React from 'react';
+import {
+  Users, Plus, Trash2, ChefHat, Award, Crown, Sparkles, CheckCircle, X
+} from 'lucide-react';
+import { TierLadder, TierDefinition, TierMetric, TierPeriod, TIER_METRIC_UNITS } from '../services/loyaltyConfigService';
+
+interface TierLadderEditorProps {
+  ladder: TierLadder;
+  onChange: (ladder: TierLadder) => void;
+}
+
+const METRICS: { value: TierMetric; label: string }[] = [
+  { value: 'lifetime_points', label: 'Points earned' },
+  { value: 'spend', label: 'Amount spent' },
+  { value: 'visits', label: 'Number of visits' }
+];
+
+const PERIODS: { value: TierPeriod; label: string; description: string }[] = [
+  { value: 'all_time', label: 'Never', description: 'Customers keep their tier for good' },
+  { value: 'rolling', label: 'Rolling period', description: 'Customers must keep qualifying over the last few months' },
+  { value: 'calendar_year', label: 'Calendar year', description: 'Status earned this year lasts until the end of next year' }
+];
+
+const TIER_STYLES = [
+  { icon: ChefHat, color: 'text-orange-600' },
+  { icon: Award, color: 'text-gray-600' },
+  { icon: Crown, color: 'text-yellow-600' },
+  { icon: Sparkles, color: 'text-purple-600' }
+];
+
+const TierLadderEditor: React.FC<TierLadderEditorProps> = ({ ladder, onChange }) => {
+  const updateTier = (index: number, updates: Partial<TierDefinition>) => {
+    onChange({
+      ...ladder,
+      tiers: ladder.tiers.map((tier, i) => (i === index ? { ...tier, ...updates } : tier))
+    });
+  };
+
+  const addTier = () => {
+    const highest = ladder.tiers.reduce((max, tier) => Math.max(max, tier.threshold), 0);
+    const multiplier = ladder.tiers.reduce((max, tier) => Math.max(max, tier.multiplier), 1);
+    onChange({
+      ...ladder,
+      tiers: [
+        ...ladder.tiers,
+        {
+          id: `tier-${crypto.randomUUID().slice(0, 8)}`,
+          name: 'New tier',
+          threshold: highest > 0 ? highest * 2 : 500,
+          multiplier: multiplier + 0.25,
+          perks: []
+        }
+      ]
+    });
+  };
+
+  const unit = TIER_METRIC_UNITS[ladder.metric];
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
+          <Users className="h-6 w-6 text-purple-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Tier Ladder</h3>
+          <p className="text-sm text-gray-600">Customers move up as they reach each threshold</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Qualify on</label>
+          <select
+            value={ladder.metric}
+            onChange={(e) => onChange({ ...ladder, metric: e.target.value as TierMetric })}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+          >
+            {METRICS.map(metric => (
+              <option key={metric.value} value={metric.value}>{metric.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Re-qualify</label>
+          <select
+            value={ladder.period}
+            onChange={(e) => {
+              const period = e.target.value as TierPeriod;
+              onChange({ ...ladder, period, windowMonths: period === 'rolling' ? ladder.windowMonths || 12 : ladder.windowMonths });
+            }}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#E6A85C] focus:border-transparent"
+          >
+            {PERIODS.map(period => (
+              <option key={period.value} value={period.value}>{period.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {PERIODS.find(period => period.value === ladder.period)?.description}
+          </p>
+        </div>
+      </div>
+
+      {ladder.period !== 'all_time' && (
+        <div className="bg-gray-50 rounded-xl p-4 mb-6 space-y-3">
+          {ladder.period === 'rolling' && (
+            <div className="flex items-center gap-2 text-gray-600">
+              <span>Count activity from the last</span>
+              <input
+                type="number"
+                value={ladder.windowMonths}
+                onChange={(e) => onChange({ ...ladder, windowMonths: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                min="1"
+                max="60"
+              />
+              <span>months</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-gray-600">
+            <span>Keep the tier for</span>
+            <input
+              type="number"
+              value={ladder.graceMonths}
+              onChange={(e) => onChange({ ...ladder, graceMonths: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+              min="0"
+              max="24"
+            />
+            <span>months after failing to re-qualify</span>
+          </div>
+          <p className="text-xs text-gray-500">Tiers are checked every night. Upgrades still happen straight away.</p>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        {ladder.tiers.map((tier, index) => {
+          const rank = [...ladder.tiers]
+            .sort((a, b) => a.threshold - b.threshold)
+            .findIndex(candidate => candidate.id === tier.id);
+          const style = TIER_STYLES[Math.min(rank, TIER_STYLES.length - 1)];
+          const TierIcon = style.icon;
+
+          return (
+            <div key={tier.id} className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+              <div className="flex items-center gap-3 mb-3">
+                <TierIcon className={`h-5 w-5 ${style.color}`} />
+                <input
+                  type="text"
+                  value={tier.name}
+                  onChange={(e) => updateTier(index, { name: e.target.value })}
+                  className="flex-1 px-3 py-1 border border-gray-200 rounded-lg font-medium text-gray-900"
+                />
+                <button
+                  onClick={() => onChange({ ...ladder, tiers: ladder.tiers.filter((_, i) => i !== index) })}
+                  disabled={ladder.tiers.length <= 1}
+                  className="p-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+                  title="Remove tier"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-gray-600 mb-3">
+                <span>From</span>
+                <input
+                  type="number"
+                  value={tier.threshold}
+                  onChange={(e) => updateTier(index, { threshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="w-28 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                  min="0"
+                />
+                <span>{unit}, earning</span>
+                <input
+                  type="number"
+                  value={tier.multiplier}
+                  onChange={(e) => updateTier(index, { multiplier: parseFloat(e.target.value) || 1.0 })}
+                  className="w-20 px-3 py-2 border border-gray-200 rounded-lg text-center"
+                  step="0.25"
+                  min="1.0"
+                  max="5.0"
+                />
+                <span>× points</span>
+              </div>
+
+              <div className="space-y-2">
+                {tier.perks.map((perk, perkIndex) => (
+                  <div key={perkIndex} className="flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+                    <input
+                      type="text"
+                      value={perk}
+                      onChange={(e) => updateTier(index, {
+                        perks: tier.perks.map((p, i) => (i === perkIndex ? e.target.value : p))
+                      })}
+                      placeholder="e.g. Free dessert on your birthday"
+                      className="flex-1 px-3 py-1 border border-gray-200 rounded-lg text-sm"
+                    />
+                    <button
+                      onClick={() => updateTier(index, { perks: tier.perks.filter((_, i) => i !== perkIndex) })}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateTier(index, { perks: [...tier.perks, ''] })}
+                  className="text-sm text-[#E85A9B] hover:text-[#D946EF] font-medium"
+                >
+                  + Add perk
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">
+        Customers below every threshold are placed in the lowest tier. Changing the thresholds moves customers up straight away; customers who no longer qualify drop at re-qualification, after any grace period.
+      </p>
+
+      <button
+        onClick={addTier}
+        className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-dashed border-gray-300 text-sm text-gray-700 hover:border-[#E6A85C] hover:bg-[#E6A85C]/5 transition-colors"
+      >
+        <Plus className="h-4 w-4" />
+        Add Tier
+      </button>
+    </div>
+  );
+};
+
+export default TierLadderEditor;
@@ -26,7 +26,7 @@ interface RecentActivity {
   action: string;
   points: string;
   time: string;
-  tier: 'bronze' | 'silver' | 'gold';
+  tier: string;
   reward?: string;
 }
 
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OfflineQueueService, QueuedAssignment, SyncResult } from '../services/offlineQueueService';
+
+const RETRY_INTERVAL = 30 * 1000; // navigator.onLine can claim a connection the network doesn't have
+
+export const useOfflineQueue = (restaurantId?: string) => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [entries, setEntries] = useState<QueuedAssignment[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSync, setLastSync] = useState<SyncResult | null>(null);
+
+  const syncNow = useCallback(async () => {
+    if (!restaurantId || !navigator.onLine) return;
+
+    setSyncing(true);
+    try {
+      setLastSync(await OfflineQueueService.sync(restaurantId));
+    } finally {
+      setSyncing(false);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    if (!restaurantId) return;
+    let cancelled = false;
+
+    const loadQueue = async () => {
+      const queue = await OfflineQueueService.getQueue(restaurantId);
+      if (!cancelled) setEntries(queue);
+    };
+
+    loadQueue();
+    const unsubscribe = OfflineQueueService.subscribe(loadQueue);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [restaurantId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+  const hasPending = pendingCount > 0;
+
+  // Pick up entries left over from an earlier shift, and keep retrying while any are waiting
+  useEffect(() => {
+    if (!hasPending) return;
+
+    syncNow();
+    const interval = setInterval(syncNow, RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPending, syncNow]);
+
+  return {
+    isOnline,
+    entries,
+    pendingCount,
+    conflictCount: entries.length - pendingCount,
+    syncing,
+    lastSync,
+    syncNow,
+    discard: (entryId: string) => OfflineQueueService.discard(entryId),
+    retry: async (entryId: string) => {
+      await OfflineQueueService.retry(entryId);
+      await syncNow();
+    }
+  };
+};
+
+export type OfflineQueueState = ReturnType<typeof useOfflineQueue>;
@@ -0,0 +1,22 @@
+// Mirrors normalize_phone() in the database, which has the final say: local numbers
+// ("050 123 4567", "50 123 4567") get the UAE code, "00" becomes "+". Null when invalid.
+export const normalizePhone = (value: string, countryCode = '971'): string | null => {
+  const raw = value.trim();
+  let digits = raw.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (raw.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = countryCode + digits.slice(1);
+  } else if (digits.length <= 9) {
+    digits = countryCode + digits;
+  }
+
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+};
+
+// Whether a search box holds a phone number (or the last 4 digits of one) rather than an email
+export const looksLikePhone = (value: string) => /^\+?[\d\s()-]{4,}$/.test(value.trim());
@@ -0,0 +1,17 @@
+// Only the staff portal is installable, so the manifest is attached when it opens rather
+// than from index.html, where the landing page and wallet would offer it too
+export const registerStaffApp = () => {
+  if (!document.querySelector('link[rel="manifest"]')) {
+    const link = document.createElement('link');
+    link.rel = 'manifest';
+    link.href = '/manifest.webmanifest';
+    document.head.appendChild(link);
+  }
+
+  // The dev server's modules change on every save; caching them would serve stale code
+  if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  }
+};
@@ -7,7 +7,40 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// StaffUI runs on a device signed in as the restaurant; the PIN-verified staff session
+// rides along as a header so the database can record who did what
+let staffSessionToken: string | null = null;
+
+export const setStaffSessionToken = (token: string | null) => {
+  staffSessionToken = token;
+};
+
+const fetchWithStaffSession: typeof fetch = (input, init) => {
+  if (!staffSessionToken) {
+    return fetch(input, init);
+  }
+
+  const headers = new Headers(init?.headers);
+  headers.set('x-staff-session', staffSessionToken);
+  return fetch(input, { ...init, headers });
+};
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: fetchWithStaffSession }
+});
+
+// The customer wallet doesn't use Supabase Auth; it carries a restaurant-scoped token
+// from the customer-auth function, so it gets its own client
+let walletClient: ReturnType<typeof createClient> | null = null;
+
+export const setWalletAccessToken = (token: string | null) => {
+  walletClient = token
+    ? createClient(supabaseUrl, supabaseAnonKey, { accessToken: async () => token })
+    : null;
+};
+
+// Wallet reads and actions go through the signed-in customer's client when there is one
+export const walletSupabase = () => walletClient ?? supabase;
 
 // Database types
 export interface Database {
@@ -53,11 +86,17 @@ export interface Database {
           date_of_birth?: string;
           total_points: number;
           lifetime_points: number;
-          current_tier: 'bronze' | 'silver' | 'gold';
+          current_tier: string; // tier id from the restaurant's tier ladder
           tier_progress: number;
+          tier_qualifying_value: number;
+          tier_achieved_at?: string;
+          tier_grace_until?: string | null;
+          referral_code: string;
           visit_count: number;
           total_spent: number;
           last_visit?: string;
+          erased_at?: string | null; // personal data erased; the row is kept for accounting
+          email_opt_out_at?: string | null; // unsubscribed from marketing email
           created_at: string;
           updated_at: string;
         };
@@ -71,8 +110,12 @@ export interface Database {
           date_of_birth?: string;
           total_points?: number;
           lifetime_points?: number;
-          current_tier?: 'bronze' | 'silver' | 'gold';
+          current_tier?: string;
           tier_progress?: number;
+          tier_qualifying_value?: number;
+          tier_achieved_at?: string;
+          tier_grace_until?: string | null;
+          referral_code?: string;
           visit_count?: number;
           total_spent?: number;
           last_visit?: string;
@@ -89,8 +132,12 @@ export interface Database {
           date_of_birth?: string;
           total_points?: number;
           lifetime_points?: number;
-          current_tier?: 'bronze' | 'silver' | 'gold';
+          current_tier?: string;
           tier_progress?: number;
+          tier_qualifying_value?: number;
+          tier_achieved_at?: string;
+          tier_grace_until?: string | null;
+          referral_code?: string;
           visit_count?: number;
           total_spent?: number;
           last_visit?: string;
@@ -107,9 +154,10 @@ export interface Database {
           points_required: number;
           category: string;
           image_url?: string;
-          min_tier: 'bronze' | 'silver' | 'gold';
+          min_tier: string; // tier id from the restaurant's tier ladder
           is_active: boolean;
           total_available?: number;
+          redemption_ttl_hours: number | null;
           total_redeemed: number;
           created_at: string;
           updated_at: string;
@@ -122,9 +170,10 @@ export interface Database {
           points_required: number;
           category: string;
           image_url?: string;
-          min_tier?: 'bronze' | 'silver' | 'gold' | 'platinum';
+          min_tier?: string;
           is_active?: boolean;
           total_available?: number;
+          redemption_ttl_hours?: number | null;
           total_redeemed?: number;
           created_at?: string;
           updated_at?: string;
@@ -137,9 +186,10 @@ export interface Database {
           points_required?: number;
           category?: string;
           image_url?: string;
-          min_tier?: 'bronze' | 'silver' | 'gold';
+          min_tier?: string;
           is_active?: boolean;
           total_available?: number;
+          redemption_ttl_hours?: number | null;
           total_redeemed?: number;
           created_at?: string;
           updated_at?: string;
@@ -151,7 +201,6 @@ export interface Database {
           restaurant_id: string;
           name: string;
           location: string;
-          staff_password: string;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -161,7 +210,6 @@ export interface Database {
           restaurant_id: string;
           name: string;
           location: string;
-          staff_password: string;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -171,23 +219,57 @@ export interface Database {
           restaurant_id?: string;
           name?: string;
           location?: string;
-          staff_password?: string;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
         };
       };
+      staff_members: {
+        Row: {
+          id: string;
+          restaurant_id: string;
+          branch_id: string;
+          name: string;
+          role: 'cashier' | 'manager';
+          is_active: boolean;
+          failed_pin_attempts: number;
+          locked_until: string | null;
+          last_login_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          restaurant_id: string;
+          branch_id: string;
+          name: string;
+          role?: 'cashier' | 'manager';
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          role?: 'cashier' | 'manager';
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
       transactions: {
         Row: {
           id: string;
           restaurant_id: string;
           branch_id?: string;
           customer_id: string;
-          type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption';
+          type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption' | 'expiry' | 'refund' | 'reversal' | 'adjustment' | 'migration';
           points: number;
           amount_spent?: number;
           description?: string;
           reward_id?: string;
+          campaign_id?: string;
+          campaign_bonus_points: number;
+          staff_member_id?: string | null;
+          reverses_transaction_id?: string | null;
           created_at: string;
         };
         Insert: {
@@ -195,11 +277,15 @@ export interface Database {
           restaurant_id: string;
           branch_id?: string;
           customer_id: string;
-          type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption';
+          type: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption' | 'expiry' | 'refund' | 'reversal' | 'adjustment' | 'migration';
           points: number;
           amount_spent?: number;
           description?: string;
           reward_id?: string;
+          campaign_id?: string;
+          campaign_bonus_points?: number;
+          staff_member_id?: string | null;
+          reverses_transaction_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -207,11 +293,15 @@ export interface Database {
           restaurant_id?: string;
           branch_id?: string;
           customer_id?: string;
-          type?: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption';
+          type?: 'purchase' | 'bonus' | 'referral' | 'signup' | 'redemption' | 'expiry' | 'refund' | 'reversal' | 'adjustment' | 'migration';
           points?: number;
           amount_spent?: number;
           description?: string;
           reward_id?: string;
+          campaign_id?: string;
+          campaign_bonus_points?: number;
+          staff_member_id?: string | null;
+          reverses_transaction_id?: string | null;
           created_at?: string;
         };
       };
@@ -222,9 +312,20 @@ export interface Database {
           customer_id: string;
           reward_id: string;
           points_used: number;
-          status: 'pending' | 'used' | 'expired';
+          status: 'pending' | 'used' | 'expired' | 'cancelled' | 'voided';
           redeemed_at: string;
           used_at?: string;
+          code: string | null;
+          branch_id: string | null;
+          used_branch_id: string | null;
+          used_by: string | null;
+          expires_at: string | null;
+          cancelled_at: string | null;
+          voided_at: string | null;
+          voided_by: string | null;
+          void_reason: string | null;
+          used_by_staff_id: string | null;
+          voided_by_staff_id: string | null;
         };
         Insert: {
           id?: string;
@@ -232,9 +333,20 @@ export interface Database {
           customer_id: string;
           reward_id: string;
           points_used: number;
-          status?: 'pending' | 'used' | 'expired';
+          status?: 'pending' | 'used' | 'expired' | 'cancelled' | 'voided';
           redeemed_at?: string;
           used_at?: string;
+          code?: string | null;
+          branch_id?: string | null;
+          used_branch_id?: string | null;
+          used_by?: string | null;
+          expires_at?: string | null;
+          cancelled_at?: string | null;
+          voided_at?: string | null;
+          voided_by?: string | null;
+          void_reason?: string | null;
+          used_by_staff_id?: string | null;
+          voided_by_staff_id?: string | null;
         };
         Update: {
           id?: string;
@@ -242,9 +354,20 @@ export interface Database {
           customer_id?: string;
           reward_id?: string;
           points_used?: number;
-          status?: 'pending' | 'used' | 'expired';
+          status?: 'pending' | 'used' | 'expired' | 'cancelled' | 'voided';
           redeemed_at?: string;
           used_at?: string;
+          code?: string | null;
+          branch_id?: string | null;
+          used_branch_id?: string | null;
+          used_by?: string | null;
+          expires_at?: string | null;
+          cancelled_at?: string | null;
+          voided_at?: string | null;
+          voided_by?: string | null;
+          void_reason?: string | null;
+          used_by_staff_id?: string | null;
+          voided_by_staff_id?: string | null;
         };
       };
     };
@@ -0,0 +1,160 @@
+import { supabase } from '../lib/supabase';
+
+export type AuditActorType = 'owner' | 'staff' | 'customer' | 'super_admin' | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  restaurant_id: string | null;
+  restaurant_name?: string | null;
+  occurred_at: string;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  actor_label: string | null;
+  entity_type: string;
+  entity_id: string | null;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_fields: string[];
+  description: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export interface AuditLogFilters {
+  search?: string;
+  entityType?: string;
+  actorType?: AuditActorType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  hasMore: boolean;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  transactions: 'Point transaction',
+  reward_redemptions: 'Redemption',
+  rewards: 'Reward',
+  restaurants: 'Restaurant settings',
+  branches: 'Branch',
+  staff_members: 'Staff member',
+  campaigns: 'Campaign',
+  email_templates: 'Email template',
+  email_campaigns: 'Email campaign',
+  menu_items: 'Menu item',
+  customers: 'Customer',
+  customer_segments: 'Customer segment',
+  orders: 'Order',
+  customer_data: 'Customer data'
+};
+
+export const AUDIT_ACTOR_LABELS: Record<AuditActorType, string> = {
+  owner: 'Owner',
+  staff: 'Staff',
+  customer: 'Customer',
+  super_admin: 'Super admin',
+  system: 'System'
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Date filters are picked in the viewer's local time; the end date covers the whole day
+const toRange = (from?: string, to?: string) => {
+  const end = to ? new Date(`${to}T00:00:00`) : null;
+  end?.setDate(end.getDate() + 1);
+
+  return {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : null,
+    to: end ? end.toISOString() : null
+  };
+};
+
+export class AuditLogService {
+  static async getAuditLog(restaurantId: string, filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    try {
+      if (!restaurantId) return { entries: [], hasMore: false };
+
+      const page = filters.page ?? 0;
+      const range = toRange(filters.from, filters.to);
+
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('occurred_at', { ascending: false })
+        .range(page * AUDIT_LOG_PAGE_SIZE, (page + 1) * AUDIT_LOG_PAGE_SIZE);
+
+      if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+      if (filters.actorType) query = query.eq('actor_type', filters.actorType);
+      if (range.from) query = query.gte('occurred_at', range.from);
+      if (range.to) query = query.lt('occurred_at', range.to);
+
+      const search = filters.search?.trim();
+      if (search) {
+        if (UUID_PATTERN.test(search)) {
+          query = query.or(`entity_id.eq.${search},actor_id.eq.${search}`);
+        } else {
+          // Commas and parentheses would break the PostgREST filter syntax
+          const term = search.replace(/[,()]/g, ' ');
+          query = query.or(
+            `actor_label.ilike.*${term}*,description.ilike.*${term}*,changed_fields.cs.{${term}}`
+          );
+        }
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const rows = (data || []) as AuditLogEntry[];
+      return {
+        entries: rows.slice(0, AUDIT_LOG_PAGE_SIZE),
+        hasMore: rows.length > AUDIT_LOG_PAGE_SIZE
+      };
+    } catch (error) {
+      console.error('Error in getAuditLog:', error);
+      return { entries: [], hasMore: false };
+    }
+  }
+
+  static async getAuditLogForSuperAdmin(
+    filters: AuditLogFilters & { restaurantId?: string } = {}
+  ): Promise<AuditLogPage> {
+    try {
+      const page = filters.page ?? 0;
+      const range = toRange(filters.from, filters.to);
+
+      const { data, error } = await supabase.rpc('get_audit_log_for_super_admin', {
+        p_restaurant_id: filters.restaurantId || null,
+        p_entity_type: filters.entityType || null,
+        p_actor_type: filters.actorType || null,
+        p_search: filters.search?.trim() || null,
+        p_from: range.from,
+        p_to: range.to,
+        p_limit: AUDIT_LOG_PAGE_SIZE + 1,
+        p_offset: page * AUDIT_LOG_PAGE_SIZE
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const rows = (data || []) as AuditLogEntry[];
+      return {
+        entries: rows.slice(0, AUDIT_LOG_PAGE_SIZE),
+        hasMore: rows.length > AUDIT_LOG_PAGE_SIZE
+      };
+    } catch (error) {
+      console.error('Error in getAuditLogForSuperAdmin:', error);
+      return { entries: [], hasMore: false };
+    }
+  }
+}
@@ -5,7 +5,6 @@ export interface Branch {
   restaurant_id: string;
   name: string;
   location: string;
-  staff_password: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -15,14 +14,12 @@ export interface BranchInsert {
   restaurant_id: string;
   name: string;
   location: string;
-  staff_password: string;
   is_active?: boolean;
 }
 
 export interface BranchUpdate {
   name?: string;
   location?: string;
-  staff_password?: string;
   is_active?: boolean;
 }
 
@@ -248,17 +245,4 @@ export class BranchService {
       };
     }
   }
-  static async verifyBranchPassword(
-    restaurantId: string, 
-    branchId: string, 
-    password: string
-  ): Promise<boolean> {
-    try {
-      const branch = await this.getBranch(restaurantId, branchId);
-      return branch?.staff_password === password;
-    } catch (error) {
-      console.error('Error verifying branch password:', error);
-      return false;
-    }
-  }
 }
\ No newline at end of file
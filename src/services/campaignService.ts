@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabase';
+import { LoyaltyConfigService, WeeklyWindow } from './loyaltyConfigService';
+import { SegmentService } from './segmentService';
+
+export type CampaignBonusType = 'multiplier' | 'flat';
+
+export interface Campaign {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description?: string;
+  starts_on: string;
+  ends_on: string;
+  days: number[];
+  start_time: string;
+  end_time: string;
+  branch_ids: string[];
+  segment_id: string | null; // Only the segment's members get the bonus
+  bonus_type: CampaignBonusType;
+  multiplier: number;
+  bonus_points: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignInsert {
+  restaurant_id: string;
+  name: string;
+  description?: string;
+  starts_on: string;
+  ends_on: string;
+  days: number[];
+  start_time: string;
+  end_time: string;
+  branch_ids: string[];
+  segment_id?: string | null;
+  bonus_type: CampaignBonusType;
+  multiplier: number;
+  bonus_points: number;
+  is_active?: boolean;
+}
+
+export type CampaignUpdate = Partial<Omit<CampaignInsert, 'restaurant_id'>>;
+
+export interface CampaignMatch {
+  campaign: Campaign;
+  bonusPoints: number;
+}
+
+export class CampaignService {
+  static async getCampaigns(restaurantId: string): Promise<Campaign[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('starts_on', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getCampaigns:', error);
+      return [];
+    }
+  }
+
+  static async createCampaign(campaignData: CampaignInsert): Promise<Campaign> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .insert(campaignData)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async updateCampaign(
+    restaurantId: string,
+    campaignId: string,
+    updates: CampaignUpdate
+  ): Promise<Campaign> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update(updates)
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async deleteCampaign(restaurantId: string, campaignId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { error } = await supabase
+      .from('campaigns')
+      .delete()
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Finds the running campaign that gives this purchase the biggest bonus.
+   * Campaigns don't stack. `process_point_transaction` re-checks the campaign
+   * and works out the bonus itself, so this is only used to pick one and preview it.
+   */
+  static async findBestCampaign(
+    restaurantId: string,
+    customerId: string,
+    points: number,
+    branchId?: string,
+    timezone: string = 'Asia/Dubai',
+    at: Date = new Date()
+  ): Promise<CampaignMatch | null> {
+    try {
+      if (!restaurantId) return null;
+
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      // Membership is only worth looking up when a campaign is limited to a segment
+      const campaigns = (data || []) as Campaign[];
+      const segmentIds = campaigns.some(campaign => campaign.segment_id)
+        ? await SegmentService.getCustomerSegmentIds(restaurantId, customerId)
+        : [];
+
+      return this.pickBestCampaign(this.forSegments(campaigns, segmentIds), points, branchId, timezone, at);
+    } catch (error) {
+      console.error('Error in findBestCampaign:', error);
+      return null;
+    }
+  }
+
+  // Keeps the campaigns open to everyone and those for segments the customer is in
+  static forSegments(campaigns: Campaign[], segmentIds: string[]): Campaign[] {
+    return campaigns.filter(campaign => !campaign.segment_id || segmentIds.includes(campaign.segment_id));
+  }
+
+  static pickBestCampaign(
+    campaigns: Campaign[],
+    points: number,
+    branchId?: string,
+    timezone: string = 'Asia/Dubai',
+    at: Date = new Date()
+  ): CampaignMatch | null {
+    let best: CampaignMatch | null = null;
+
+    campaigns.forEach(campaign => {
+      if (!this.isCampaignLive(campaign, branchId, timezone, at)) return;
+      const bonusPoints = this.calculateBonus(campaign, points);
+      if (!best || bonusPoints > best.bonusPoints) {
+        best = { campaign, bonusPoints };
+      }
+    });
+
+    return best;
+  }
+
+  // Mirrors the `is_campaign_live` database function
+  static isCampaignLive(
+    campaign: Campaign,
+    branchId?: string,
+    timezone: string = 'Asia/Dubai',
+    at: Date = new Date()
+  ): boolean {
+    if (!campaign.is_active) return false;
+    if (campaign.branch_ids.length > 0 && (!branchId || !campaign.branch_ids.includes(branchId))) {
+      return false;
+    }
+
+    const window: WeeklyWindow = {
+      days: campaign.days,
+      startTime: campaign.start_time,
+      endTime: campaign.end_time
+    };
+    const local = LoyaltyConfigService.getLocalTime(at, timezone);
+    const daysAgo = LoyaltyConfigService.matchTimeWindow(window, local);
+    if (daysAgo === null) return false;
+
+    const openedOn = this.shiftDate(local.date, -daysAgo);
+    return openedOn >= campaign.starts_on && openedOn <= campaign.ends_on;
+  }
+
+  // Mirrors the `calculate_campaign_bonus` database function
+  static calculateBonus(campaign: Campaign, points: number): number {
+    if (campaign.bonus_type === 'flat') {
+      return Math.max(0, campaign.bonus_points);
+    }
+    const bonus = Math.max(points, 0) * (campaign.multiplier - 1);
+    return Math.max(0, Math.floor(Math.round(bonus * 1e6) / 1e6));
+  }
+
+  private static shiftDate(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+}
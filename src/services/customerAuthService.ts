@@ -0,0 +1,99 @@
+import { Database, setWalletAccessToken } from '../lib/supabase';
+
+type Customer = Database['public']['Tables']['customers']['Row'];
+
+export interface WalletSession {
+  token: string;
+  expiresAt: string;
+  customerId: string;
+}
+
+export interface SignupProfile {
+  firstName: string;
+  lastName: string;
+  email?: string; // Required when signing up by phone, and confirmed with its own emailed code
+  phone?: string;
+  birthDate?: string;
+  referralCode?: string; // From a friend's invite link
+}
+
+// Codes go by email, or by SMS to a phone number
+export type LoginIdentifier = { email: string } | { phone: string };
+
+const sessionKey = (restaurantId: string) => `voya_wallet_session:${restaurantId}`;
+
+// Passwordless wallet sign-in: the customer-auth function emails or texts a one-time code and
+// exchanges it for a token that only works at the restaurant it was issued for
+export class CustomerAuthService {
+  private static async callAuthFunction<T>(body: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-auth`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.error || 'Authentication failed');
+    }
+
+    return data as T;
+  }
+
+  // A signup profile sent with the request is kept with the code, so the emailed link
+  // can finish signing up even when it's opened on another device
+  static async requestCode(restaurantId: string, identifier: LoginIdentifier, profile?: SignupProfile): Promise<void> {
+    await this.callAuthFunction({ action: 'request', restaurantId, ...identifier, profile });
+  }
+
+  static async verifyCode(
+    restaurantId: string,
+    identifier: LoginIdentifier,
+    code: string,
+    profile?: SignupProfile,
+    emailCode?: string
+  ): Promise<Customer> {
+    const { token, expiresAt, customer } = await this.callAuthFunction<{
+      token: string;
+      expiresAt: string;
+      customer: Customer;
+    }>({ action: 'verify', restaurantId, ...identifier, code, emailCode, profile });
+
+    this.saveSession(restaurantId, { token, expiresAt, customerId: customer.id });
+    return customer;
+  }
+
+  // Restores a saved session and activates its token; expired sessions are discarded
+  static getSession(restaurantId: string): WalletSession | null {
+    try {
+      const stored = localStorage.getItem(sessionKey(restaurantId));
+      if (!stored) return null;
+
+      const session: WalletSession = JSON.parse(stored);
+      if (new Date(session.expiresAt).getTime() <= Date.now()) {
+        localStorage.removeItem(sessionKey(restaurantId));
+        return null;
+      }
+
+      setWalletAccessToken(session.token);
+      return session;
+    } catch (error) {
+      console.error('Error in getSession:', error);
+      return null;
+    }
+  }
+
+  static saveSession(restaurantId: string, session: WalletSession): void {
+    localStorage.setItem(sessionKey(restaurantId), JSON.stringify(session));
+    setWalletAccessToken(session.token);
+  }
+
+  static signOut(restaurantId: string): void {
+    localStorage.removeItem(sessionKey(restaurantId));
+    setWalletAccessToken(null);
+  }
+}
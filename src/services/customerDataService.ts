@@ -0,0 +1,139 @@
+import { supabase, walletSupabase } from '../lib/supabase';
+
+export type DataRequestKind = 'export' | 'erasure';
+
+export type DataRequestStatus = 'pending' | 'completed' | 'cancelled';
+
+export interface CustomerDataRequest {
+  id: string;
+  restaurant_id: string;
+  customer_id: string;
+  kind: DataRequestKind;
+  source: 'customer' | 'owner';
+  status: DataRequestStatus;
+  requested_at: string;
+  due_at: string | null;
+  completed_at: string | null;
+  customer?: { first_name: string; last_name: string; email: string; erased_at: string | null } | null;
+}
+
+// Data subject requests: customers download or erase their own data from the wallet, and
+// restaurant members handle requests that reach them some other way. Erasure anonymises the
+// customer but keeps their transactions for the restaurant's accounts.
+export class CustomerDataService {
+  static async exportMyData(): Promise<Record<string, unknown>> {
+    const { data, error } = await walletSupabase().rpc('export_my_data');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as Record<string, unknown>;
+  }
+
+  static async requestErasure(): Promise<CustomerDataRequest> {
+    const { data, error } = await walletSupabase().rpc('request_my_data_erasure');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as CustomerDataRequest;
+  }
+
+  static async cancelErasure(): Promise<void> {
+    const { error } = await walletSupabase().rpc('cancel_my_data_erasure');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async getPendingErasure(restaurantId: string, customerId: string): Promise<CustomerDataRequest | null> {
+    try {
+      const { data, error } = await walletSupabase()
+        .from('customer_data_requests')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .eq('kind', 'erasure')
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data as CustomerDataRequest | null;
+    } catch (error) {
+      console.error('Error in getPendingErasure:', error);
+      return null;
+    }
+  }
+
+  static async getRequests(restaurantId: string): Promise<CustomerDataRequest[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('customer_data_requests')
+        .select('*, customer:customers(first_name, last_name, email, erased_at)')
+        .eq('restaurant_id', restaurantId)
+        .order('requested_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as CustomerDataRequest[];
+    } catch (error) {
+      console.error('Error in getRequests:', error);
+      return [];
+    }
+  }
+
+  static async exportCustomerData(restaurantId: string, customerId: string): Promise<Record<string, unknown>> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase.rpc('export_customer_data', {
+      p_restaurant_id: restaurantId,
+      p_customer_id: customerId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as Record<string, unknown>;
+  }
+
+  // Takes effect straight away and completes any erasure the customer asked for
+  static async eraseCustomers(restaurantId: string, customerIds: string[]): Promise<number> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase.rpc('erase_customers', {
+      p_restaurant_id: restaurantId,
+      p_customer_ids: customerIds
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as number;
+  }
+
+  static downloadJson(data: unknown, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
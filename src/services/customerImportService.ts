@@ -0,0 +1,309 @@
+import { supabase } from '../lib/supabase';
+import { normalizePhone } from '../lib/phone';
+
+export type ImportField = 'first_name' | 'last_name' | 'email' | 'phone' | 'date_of_birth' | 'points';
+
+export type ImportMapping = Record<ImportField, number | null>; // column index in the file
+
+export type DuplicateHandling = 'merge' | 'skip';
+
+export interface ImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportCustomer {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  date_of_birth: string; // YYYY-MM-DD or empty
+  points: number;
+}
+
+export interface ImportRow {
+  line: number; // row in the file, counting the header as row 1 and ignoring blank rows
+  customer: ImportCustomer;
+  problems: string[];
+}
+
+export interface ImportReportRow {
+  line: number;
+  status: 'created' | 'merged' | 'skipped';
+  email: string;
+  name: string;
+  points: number;
+  customerId: string | null;
+  reason: string;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'first_name', label: 'First name', required: true, aliases: ['first name', 'firstname', 'given name', 'name'] },
+  { field: 'last_name', label: 'Last name', required: false, aliases: ['last name', 'lastname', 'surname', 'family name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address'] },
+  { field: 'phone', label: 'Phone', required: false, aliases: ['phone', 'mobile', 'phone number', 'telephone'] },
+  { field: 'date_of_birth', label: 'Date of birth', required: false, aliases: ['date of birth', 'dob', 'birthday', 'birth date'] },
+  { field: 'points', label: 'Opening points', required: false, aliases: ['points', 'balance', 'points balance', 'opening balance'] }
+];
+
+// Rows sent to the database per call; each call is one database transaction
+const IMPORT_BATCH_SIZE = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Quoted fields may contain commas, quotes ("") and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const toCsvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheet dates arrive as Date objects at UTC midnight
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) {
+    return `${cell.getUTCFullYear()}-${pad(cell.getUTCMonth() + 1)}-${pad(cell.getUTCDate())}`;
+  }
+  return String(cell).trim();
+};
+
+// Accepts YYYY-MM-DD and day-first DD/MM/YYYY (also with - or .), as written in the UAE
+const parseDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const parts = iso
+    ? { year: +iso[1], month: +iso[2], day: +iso[3] }
+    : dayFirst
+      ? { year: +dayFirst[3], month: +dayFirst[2], day: +dayFirst[1] }
+      : null;
+
+  if (!parts) return null;
+
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  if (date.getUTCMonth() !== parts.month - 1 || date.getUTCDate() !== parts.day) return null;
+  if (date > new Date() || parts.year < 1900) return null;
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+export class CustomerImportService {
+  static async readFile(file: File): Promise<ImportFile> {
+    let table: string[][];
+
+    if (/\.xlsx$/i.test(file.name)) {
+      const { default: readXlsxFile } = await import('read-excel-file');
+      const rows = await readXlsxFile(file);
+      table = rows.map(row => row.map(cellToString));
+    } else {
+      // Strip the byte order mark Excel adds to CSV exports
+      table = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+    }
+
+    const nonEmpty = table.filter(row => row.some(cell => cell.trim() !== ''));
+    if (nonEmpty.length < 2) {
+      throw new Error('The file needs a header row and at least one customer');
+    }
+
+    return {
+      headers: nonEmpty[0].map(header => header.trim()),
+      rows: nonEmpty.slice(1)
+    };
+  }
+
+  static guessMapping(headers: string[]): ImportMapping {
+    const normalized = headers.map(header => header.toLowerCase().replace(/[_\s]+/g, ' ').trim());
+    const mapping = {} as ImportMapping;
+
+    IMPORT_FIELDS.forEach(({ field, aliases }) => {
+      const index = normalized.findIndex(header => aliases.includes(header));
+      mapping[field] = index >= 0 ? index : null;
+    });
+
+    return mapping;
+  }
+
+  static validateRows(file: ImportFile, mapping: ImportMapping): ImportRow[] {
+    const seenEmails = new Map<string, number>();
+    const seenPhones = new Map<string, number>();
+
+    return file.rows.map((cells, index) => {
+      const line = index + 2;
+      const value = (field: ImportField) => {
+        const column = mapping[field];
+        return column === null ? '' : (cells[column] ?? '').trim();
+      };
+
+      const problems: string[] = [];
+      const email = value('email').toLowerCase();
+      const phone = value('phone');
+      const dateOfBirth = value('date_of_birth');
+      const points = value('points').replace(/,/g, '');
+
+      if (!value('first_name')) problems.push('First name is missing');
+
+      if (!email) {
+        problems.push('Email is missing');
+      } else if (!EMAIL_PATTERN.test(email)) {
+        problems.push(`"${email}" is not a valid email`);
+      } else if (seenEmails.has(email)) {
+        problems.push(`Same email as line ${seenEmails.get(email)}`);
+      } else {
+        seenEmails.set(email, line);
+      }
+
+      const normalizedPhone = phone ? normalizePhone(phone) : '';
+      if (normalizedPhone === null) {
+        problems.push(`"${phone}" is not a valid phone number`);
+      } else if (normalizedPhone && seenPhones.has(normalizedPhone)) {
+        problems.push(`Same phone as line ${seenPhones.get(normalizedPhone)}`);
+      } else if (normalizedPhone) {
+        seenPhones.set(normalizedPhone, line);
+      }
+
+      const parsedDate = dateOfBirth ? parseDate(dateOfBirth) : '';
+      if (parsedDate === null) {
+        problems.push(`"${dateOfBirth}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+      }
+
+      if (points && !/^\d+$/.test(points)) {
+        problems.push(`"${value('points')}" is not a whole number of points`);
+      }
+
+      return {
+        line,
+        customer: {
+          first_name: value('first_name'),
+          last_name: value('last_name'),
+          email,
+          phone: normalizedPhone || '',
+          date_of_birth: parsedDate || '',
+          points: points && /^\d+$/.test(points) ? parseInt(points, 10) : 0
+        },
+        problems
+      };
+    });
+  }
+
+  // Rows with problems are reported as skipped without being sent
+  static async importCustomers(
+    restaurantId: string,
+    rows: ImportRow[],
+    options: { onDuplicate: DuplicateHandling; dryRun: boolean },
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ImportReportRow[]> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const toReport = (row: ImportRow, result: Omit<ImportReportRow, 'line' | 'email' | 'name'>): ImportReportRow => ({
+      line: row.line,
+      email: row.customer.email,
+      name: `${row.customer.first_name} ${row.customer.last_name}`.trim(),
+      ...result
+    });
+
+    const report: ImportReportRow[] = rows
+      .filter(row => row.problems.length > 0)
+      .map(row => toReport(row, { status: 'skipped', points: 0, customerId: null, reason: row.problems.join('; ') }));
+
+    const valid = rows.filter(row => row.problems.length === 0);
+
+    for (let start = 0; start < valid.length; start += IMPORT_BATCH_SIZE) {
+      const batch = valid.slice(start, start + IMPORT_BATCH_SIZE);
+
+      const { data, error } = await supabase.rpc('import_customers', {
+        p_restaurant_id: restaurantId,
+        p_rows: batch.map(row => row.customer),
+        p_on_duplicate: options.onDuplicate,
+        p_dry_run: options.dryRun
+      });
+
+      // Earlier batches are already saved, so report the rest as not imported rather than throwing
+      if (error) {
+        valid.slice(start).forEach(row => {
+          report.push(toReport(row, { status: 'skipped', points: 0, customerId: null, reason: `Not imported: ${error.message}` }));
+        });
+        break;
+      }
+
+      const results = (data?.results || []) as {
+        row: number;
+        status: ImportReportRow['status'];
+        customer_id?: string | null;
+        points?: number;
+        reason?: string;
+      }[];
+
+      results.forEach(result => {
+        report.push(toReport(batch[result.row - 1], {
+          status: result.status,
+          points: result.points ?? 0,
+          customerId: result.customer_id ?? null,
+          reason: result.reason ?? ''
+        }));
+      });
+
+      onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, valid.length), valid.length);
+    }
+
+    return report.sort((a, b) => a.line - b.line);
+  }
+
+  static buildReportCsv(report: ImportReportRow[]): string {
+    const header = ['Line', 'Status', 'Email', 'Name', 'Opening points', 'Customer ID', 'Reason'];
+    const lines = report.map(row => [
+      row.line,
+      row.status,
+      row.email,
+      row.name,
+      row.points,
+      row.customerId,
+      row.reason
+    ].map(toCsvField).join(','));
+
+    return [header.join(','), ...lines].join('\r\n');
+  }
+}
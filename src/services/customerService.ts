@@ -1,10 +1,84 @@
-import { supabase } from '../lib/supabase';
+import { supabase, walletSupabase } from '../lib/supabase';
 import { Database } from '../lib/supabase';
+import { normalizePhone } from '../lib/phone';
+import { CampaignService } from './campaignService';
 
 type Customer = Database['public']['Tables']['customers']['Row'];
 type CustomerInsert = Database['public']['Tables']['customers']['Insert'];
 type CustomerUpdate = Partial<Omit<CustomerInsert, 'restaurant_id' | 'id'>>;
 type Transaction = Database['public']['Tables']['transactions']['Row'];
+
+export interface ExpiringPoints {
+  expiresAt: string;
+  points: number;
+}
+
+export interface TierHistoryEntry {
+  id: string;
+  from_tier: string | null;
+  to_tier: string;
+  change_type: 'upgrade' | 'downgrade' | 'grace_started' | 'requalified' | 'reassigned';
+  qualifying_value: number;
+  reason: string;
+  created_at: string;
+}
+
+export interface BirthdayReward {
+  id: string;
+  birthday: string;
+  valid_until: string;
+  points: number;
+  redemption: {
+    id: string;
+    code: string | null;
+    status: string;
+    reward: { name: string } | null;
+  } | null;
+}
+
+export type CustomerSortField = 'name' | 'total_points' | 'total_spent' | 'visit_count' | 'last_visit' | 'created_at';
+
+export interface CustomerFilters {
+  search?: string;
+  tier?: string;
+  lastVisitFrom?: string; // YYYY-MM-DD, inclusive
+  lastVisitTo?: string; // YYYY-MM-DD, inclusive
+  minSpent?: number;
+  maxSpent?: number;
+  minPoints?: number;
+  maxPoints?: number;
+  branchId?: string;
+  segmentId?: string;
+  sort?: CustomerSortField;
+  ascending?: boolean;
+  page?: number;
+}
+
+export interface CustomerPage {
+  customers: Customer[];
+  total: number;
+}
+
+export interface DuplicatePair {
+  score: number; // 0-1
+  reasons: string[]; // e.g. 'Same phone', 'Similar name', 'Similar email'
+  customer_a: Customer;
+  customer_b: Customer;
+}
+
+export const CUSTOMERS_PAGE_SIZE = 25;
+
+// Date filters are picked in the viewer's local time; the end date covers the whole day
+const toVisitRange = (from?: string, to?: string) => {
+  const end = to ? new Date(`${to}T00:00:00`) : null;
+  end?.setDate(end.getDate() + 1);
+
+  return {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : null,
+    to: end ? end.toISOString() : null
+  };
+};
+
 export class CustomerService {
   static async getCustomers(restaurantId: string): Promise<Customer[]> {
     try {
@@ -31,7 +105,7 @@ export class CustomerService {
     try {
       if (!restaurantId) return null;
 
-      const { data, error } = await supabase
+      const { data, error } = await walletSupabase()
         .from('customers')
         .select('*')
         .eq('id', customerId)
@@ -75,6 +149,41 @@ export class CustomerService {
     }
   }
 
+  // A full number matches exactly; four digits match the end of every number, so staff can
+  // pick the right customer from the list
+  static async findCustomersByPhone(restaurantId: string, query: string): Promise<Customer[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const digits = query.replace(/\D/g, '');
+      let request = supabase
+        .from('customers')
+        .select('*')
+        .eq('restaurant_id', restaurantId);
+
+      if (digits.length === 4) {
+        request = request.like('phone', `%${digits}`);
+      } else {
+        const phone = normalizePhone(query);
+        if (!phone) return [];
+        request = request.eq('phone', phone);
+      }
+
+      const { data, error } = await request
+        .order('last_visit', { ascending: false, nullsFirst: false })
+        .limit(10);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in findCustomersByPhone:', error);
+      return [];
+    }
+  }
+
   static async createCustomer(restaurantId: string, customerData: Omit<CustomerInsert, 'restaurant_id'>): Promise<Customer> {
     if (!restaurantId) {
       throw new Error('Restaurant not found. Please create a restaurant first.');
@@ -99,8 +208,8 @@ export class CustomerService {
       throw new Error(error.message);
     }
 
-    // Return customer data without signup bonus
-    return data;
+    // The welcome bonus is added by a database trigger, so read back the balance it left
+    return (await this.getCustomer(restaurantId, data.id)) ?? data;
   }
 
   static async updateCustomer(restaurantId: string, customerId: string, updates: CustomerUpdate): Promise<Customer | null> {
@@ -126,16 +235,117 @@ export class CustomerService {
     }
   }
 
-  static async deleteCustomer(restaurantId: string, customerId: string): Promise<void> {
+  // One page of the dashboard customers table; filtering and sorting happen in the database
+  static async getCustomerPage(restaurantId: string, filters: CustomerFilters = {}): Promise<CustomerPage> {
+    try {
+      if (!restaurantId) return { customers: [], total: 0 };
+
+      const page = filters.page ?? 0;
+      const range = toVisitRange(filters.lastVisitFrom, filters.lastVisitTo);
+
+      const { data, error } = await supabase.rpc('search_customers', {
+        p_restaurant_id: restaurantId,
+        p_search: filters.search?.trim() || null,
+        p_tier: filters.tier || null,
+        p_last_visit_from: range.from,
+        p_last_visit_to: range.to,
+        p_min_spent: filters.minSpent ?? null,
+        p_max_spent: filters.maxSpent ?? null,
+        p_min_points: filters.minPoints ?? null,
+        p_max_points: filters.maxPoints ?? null,
+        p_branch_id: filters.branchId || null,
+        p_segment_id: filters.segmentId || null,
+        p_sort: filters.sort || 'created_at',
+        p_ascending: filters.ascending ?? false,
+        p_limit: CUSTOMERS_PAGE_SIZE,
+        p_offset: page * CUSTOMERS_PAGE_SIZE
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        customers: (data?.customers || []) as Customer[],
+        total: data?.total ?? 0
+      };
+    } catch (error) {
+      console.error('Error in getCustomerPage:', error);
+      return { customers: [], total: 0 };
+    }
+  }
+
+  static async adjustPoints(
+    restaurantId: string,
+    customerId: string,
+    points: number,
+    reason: string,
+    idempotencyKey: string = crypto.randomUUID() // Pass the same key when retrying
+  ): Promise<void> {
     if (!restaurantId) {
       throw new Error('Restaurant not found');
     }
 
+    const { error } = await supabase.rpc('adjust_customer_points', {
+      p_restaurant_id: restaurantId,
+      p_customer_id: customerId,
+      p_points: points,
+      p_reason: reason,
+      p_idempotency_key: idempotencyKey
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async findDuplicates(restaurantId: string): Promise<DuplicatePair[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('find_duplicate_customers', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as DuplicatePair[];
+    } catch (error) {
+      console.error('Error in findDuplicates:', error);
+      return [];
+    }
+  }
+
+  // Moves everything the duplicate owns to the survivor and deletes the duplicate
+  static async mergeCustomers(restaurantId: string, survivorId: string, duplicateId: string): Promise<Customer> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase.rpc('merge_customers', {
+      p_restaurant_id: restaurantId,
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as Customer;
+  }
+
+  static async dismissDuplicate(restaurantId: string, customerIds: [string, string]): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const [customerA, customerB] = [...customerIds].sort();
     const { error } = await supabase
-      .from('customers')
-      .delete()
-      .eq('id', customerId)
-      .eq('restaurant_id', restaurantId);
+      .from('customer_duplicate_dismissals')
+      .insert({ restaurant_id: restaurantId, customer_a: customerA, customer_b: customerB });
 
     if (error) {
       throw new Error(error.message);
@@ -146,7 +356,7 @@ export class CustomerService {
     try {
       if (!restaurantId) return [];
 
-      const { data, error } = await supabase
+      const { data, error } = await walletSupabase()
         .from('transactions')
         .select('*')
         .eq('customer_id', customerId)
@@ -164,12 +374,92 @@ export class CustomerService {
     }
   }
 
+  // Upcoming date-based expiries from the customer's open point lots, soonest first
+  static async getExpiringPoints(restaurantId: string, customerId: string): Promise<ExpiringPoints[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await walletSupabase()
+        .from('point_lots')
+        .select('points_remaining, expires_at')
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .gt('points_remaining', 0)
+        .not('expires_at', 'is', null)
+        .order('expires_at', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const byDate = new Map<string, number>();
+      (data || []).forEach(lot => {
+        const day = lot.expires_at.slice(0, 10);
+        byDate.set(day, (byDate.get(day) || 0) + lot.points_remaining);
+      });
+
+      return Array.from(byDate, ([expiresAt, points]) => ({ expiresAt, points }));
+    } catch (error) {
+      console.error('Error in getExpiringPoints:', error);
+      return [];
+    }
+  }
+
+  // The reward for the customer's current birthday window, if it is still open
+  static async getActiveBirthdayReward(restaurantId: string, customerId: string): Promise<BirthdayReward | null> {
+    try {
+      if (!restaurantId) return null;
+
+      const { data, error } = await walletSupabase()
+        .from('birthday_rewards')
+        .select('id, birthday, valid_until, points, redemption:reward_redemptions(id, code, status, reward:rewards(name))')
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .gte('valid_until', new Date().toLocaleDateString('en-CA'))
+        .order('valid_until', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data as BirthdayReward | null;
+    } catch (error) {
+      console.error('Error in getActiveBirthdayReward:', error);
+      return null;
+    }
+  }
+
+  static async getTierHistory(restaurantId: string, customerId: string): Promise<TierHistoryEntry[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await walletSupabase()
+        .from('tier_history')
+        .select('id, from_tier, to_tier, change_type, qualifying_value, reason, created_at')
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getTierHistory:', error);
+      return [];
+    }
+  }
+
   static async addPointsTransaction(
     restaurantId: string,
     customerId: string,
     branchId?: string,
     amountSpent?: number,
-    description?: string
+    description?: string,
+    idempotencyKey: string = crypto.randomUUID() // Pass the same key when retrying
   ): Promise<void> {
     if (!restaurantId) {
       throw new Error('Restaurant not found');
@@ -193,7 +483,8 @@ export class CustomerService {
         undefined, // No specific menu item
         amountSpent,
         customer.current_tier,
-        1
+        1,
+        { branchId }
       );
       points = result.points;
     } else if (amountSpent) {
@@ -205,6 +496,9 @@ export class CustomerService {
       return; // No points to award
     }
 
+    // The database re-checks the campaign and adds its bonus on top of these points
+    const campaignMatch = await CampaignService.findBestCampaign(restaurantId, customerId, points, branchId, config.timezone);
+
     const { error } = await supabase.rpc('process_point_transaction', {
       p_restaurant_id: restaurantId,
       p_customer_id: customerId,
@@ -212,7 +506,10 @@ export class CustomerService {
       p_points: points,
       p_description: description || `Points earned from ${amountSpent} AED purchase`,
       p_amount_spent: amountSpent,
-      p_reward_id: null
+      p_reward_id: null,
+      p_branch_id: branchId || null,
+      p_campaign_id: campaignMatch?.campaign.id || null,
+      p_idempotency_key: idempotencyKey
     });
 
     if (error) {
@@ -220,26 +517,10 @@ export class CustomerService {
     }
   }
 
+  // First page of matches by name, email or phone; the query is passed as data, never as filter syntax
   static async searchCustomers(restaurantId: string, query: string): Promise<Customer[]> {
-    try {
-      if (!restaurantId) return [];
-
-      const { data, error } = await supabase
-        .from('customers')
-        .select('*')
-        .eq('restaurant_id', restaurantId)
-        .or(`first_name.ilike.%${query}%,last_name.ilike.%${query}%,email.ilike.%${query}%`)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        throw new Error(error.message);
-      }
-
-      return data || [];
-    } catch (error: any) {
-      console.error('Error in searchCustomers:', error);
-      return [];
-    }
+    const { customers } = await this.getCustomerPage(restaurantId, { search: query });
+    return customers;
   }
 
   static async getCustomerStats(restaurantId: string): Promise<{
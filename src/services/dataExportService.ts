@@ -0,0 +1,154 @@
+import { supabase } from '../lib/supabase';
+
+export type ExportDataset = 'customers' | 'transactions' | 'redemptions' | 'rewards';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportStatus = 'queued' | 'running' | 'completed' | 'failed' | 'expired';
+
+export interface ExportFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  branchId?: string;
+  segmentId?: string; // Customers only
+}
+
+export interface DataExport {
+  id: string;
+  restaurant_id: string;
+  requested_by: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  filters: { from?: string; to?: string; branchId?: string; segmentId?: string };
+  status: ExportStatus;
+  row_count: number | null;
+  file_path: string | null;
+  file_size: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
+export const EXPORT_DATASETS: { value: ExportDataset; label: string; description: string }[] = [
+  { value: 'customers', label: 'Customers', description: 'Profiles, tiers, balances and visits' },
+  { value: 'transactions', label: 'Transactions', description: 'Every point change, with branch and staff' },
+  { value: 'redemptions', label: 'Redemptions', description: 'Rewards claimed, codes and who handed them over' },
+  { value: 'rewards', label: 'Reward catalog', description: 'All rewards; date and branch filters don\'t apply' }
+];
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'json', label: 'JSON' }
+];
+
+// Date filters are picked in the viewer's local time; the end date covers the whole day
+const toRange = (from?: string, to?: string) => {
+  const end = to ? new Date(`${to}T00:00:00`) : null;
+  end?.setDate(end.getDate() + 1);
+
+  return {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: end ? end.toISOString() : undefined
+  };
+};
+
+// Exports are built by the data-export edge function in the background; the dashboard
+// polls the data_exports row and downloads the finished file with a signed URL
+export class DataExportService {
+  static async getExports(restaurantId: string): Promise<DataExport[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('data_exports')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as DataExport[];
+    } catch (error) {
+      console.error('Error in getExports:', error);
+      return [];
+    }
+  }
+
+  static async requestExport(
+    restaurantId: string,
+    dataset: ExportDataset,
+    format: ExportFormat,
+    filters: ExportFilters = {}
+  ): Promise<DataExport> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const range = dataset === 'rewards' ? {} : toRange(filters.from, filters.to);
+    const branchId = dataset === 'rewards' ? undefined : filters.branchId || undefined;
+    const segmentId = dataset === 'customers' ? filters.segmentId || undefined : undefined;
+
+    const { data, error } = await supabase
+      .from('data_exports')
+      .insert({
+        restaurant_id: restaurantId,
+        dataset,
+        format,
+        filters: { ...range, branchId, segmentId }
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await this.startExport(data.id);
+
+    return data as DataExport;
+  }
+
+  static async getDownloadUrl(dataExport: DataExport): Promise<string> {
+    if (!dataExport.file_path) {
+      throw new Error('This export has no file to download');
+    }
+
+    const fileName = `${dataExport.dataset}-${dataExport.created_at.slice(0, 10)}.${dataExport.format}`;
+    const { data, error } = await supabase.storage
+      .from('exports')
+      .createSignedUrl(dataExport.file_path, 60, { download: fileName });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data.signedUrl;
+  }
+
+  // Also used to retry an export whose function call never got through or died part way.
+  // The function checks the caller can see the export, so it needs the user's own token.
+  static async startExport(exportId: string): Promise<void> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/data-export`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ exportId })
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Could not start the export');
+    }
+  }
+}
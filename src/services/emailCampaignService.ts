@@ -0,0 +1,330 @@
+import { supabase } from '../lib/supabase';
+
+export type EmailCampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface EmailTemplate {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  subject: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmailTemplateInput {
+  name: string;
+  subject: string;
+  body: string;
+}
+
+export interface EmailCampaign {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  template_id: string;
+  segment_id: string | null; // Every member when not set
+  status: EmailCampaignStatus;
+  scheduled_at: string | null;
+  started_at: string | null;
+  sent_at: string | null;
+  recipient_count: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmailCampaignInput {
+  name: string;
+  template_id: string;
+  segment_id: string | null;
+  scheduled_at: string | null; // Saved as a draft when not set
+}
+
+export interface EmailCampaignStats {
+  recipients: number;
+  sent: number;
+  failed: number;
+  opened: number;
+  unsubscribed: number;
+}
+
+// Filled in per customer by the email-campaigns edge function
+export const MERGE_FIELDS: { key: string; label: string; sample: string }[] = [
+  { key: 'first_name', label: 'First name', sample: 'Layla' },
+  { key: 'last_name', label: 'Last name', sample: 'Haddad' },
+  { key: 'points', label: 'Points balance', sample: '1,250' },
+  { key: 'tier', label: 'Tier', sample: 'Gold' },
+  { key: 'next_reward', label: 'Next reward', sample: 'Free dessert' },
+  { key: 'points_to_next_reward', label: 'Points to next reward', sample: '250' },
+  { key: 'restaurant_name', label: 'Restaurant name', sample: 'VOYA' },
+  { key: 'wallet_link', label: 'Wallet link', sample: 'https://voya.app/wallet/voya' }
+];
+
+// Emails are sent by the email-campaigns edge function: straight away when the dashboard
+// asks, or by the pg_cron dispatcher once a scheduled campaign is due
+export class EmailCampaignService {
+  static async getTemplates(restaurantId: string): Promise<EmailTemplate[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as EmailTemplate[];
+    } catch (error) {
+      console.error('Error in getTemplates:', error);
+      return [];
+    }
+  }
+
+  static async createTemplate(restaurantId: string, template: EmailTemplateInput): Promise<EmailTemplate> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_templates')
+      .insert({ restaurant_id: restaurantId, ...this.trimTemplate(template) })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505' ? 'A template with this name already exists' : error.message);
+    }
+
+    return data as EmailTemplate;
+  }
+
+  static async updateTemplate(restaurantId: string, templateId: string, template: EmailTemplateInput): Promise<EmailTemplate> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_templates')
+      .update(this.trimTemplate(template))
+      .eq('id', templateId)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505' ? 'A template with this name already exists' : error.message);
+    }
+
+    return data as EmailTemplate;
+  }
+
+  static async deleteTemplate(restaurantId: string, templateId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { error } = await supabase
+      .from('email_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      throw new Error(error.code === '23503'
+        ? 'An email campaign uses this template. Delete the campaign first.'
+        : error.message);
+    }
+  }
+
+  static async getCampaigns(restaurantId: string): Promise<EmailCampaign[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('email_campaigns')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as EmailCampaign[];
+    } catch (error) {
+      console.error('Error in getCampaigns:', error);
+      return [];
+    }
+  }
+
+  // Delivery, open and unsubscribe counts, by campaign id
+  static async getStats(restaurantId: string): Promise<Record<string, EmailCampaignStats>> {
+    try {
+      if (!restaurantId) return {};
+
+      const { data, error } = await supabase.rpc('email_campaign_stats', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || {}) as Record<string, EmailCampaignStats>;
+    } catch (error) {
+      console.error('Error in getStats:', error);
+      return {};
+    }
+  }
+
+  static async createCampaign(restaurantId: string, campaign: EmailCampaignInput): Promise<EmailCampaign> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .insert({
+        restaurant_id: restaurantId,
+        ...campaign,
+        name: campaign.name.trim(),
+        status: campaign.scheduled_at ? 'scheduled' : 'draft'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as EmailCampaign;
+  }
+
+  // Only drafts and scheduled campaigns can change; RLS turns anything else into "no rows"
+  static async updateCampaign(restaurantId: string, campaignId: string, campaign: EmailCampaignInput): Promise<EmailCampaign> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .update({
+        ...campaign,
+        name: campaign.name.trim(),
+        status: campaign.scheduled_at ? 'scheduled' : 'draft'
+      })
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new Error('This campaign has already started sending');
+    }
+
+    return data as EmailCampaign;
+  }
+
+  static async cancelCampaign(restaurantId: string, campaignId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .update({ status: 'cancelled' })
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new Error('This campaign has already started sending');
+    }
+  }
+
+  static async deleteCampaign(restaurantId: string, campaignId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { error } = await supabase
+      .from('email_campaigns')
+      .delete()
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // Schedules the campaign for now and asks the function to send it without waiting for the
+  // dispatcher. If the call doesn't get through, the dispatcher picks it up within minutes.
+  static async sendNow(restaurantId: string, campaignId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('email_campaigns')
+      .update({ status: 'scheduled', scheduled_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .eq('restaurant_id', restaurantId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new Error('This campaign has already started sending');
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/email-campaigns`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ campaignId })
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || 'Could not start sending; it will go out with the next scheduled run');
+    }
+  }
+
+  // Mirrored in the email-campaigns edge function; unknown fields are left as typed
+  static renderTemplate(text: string, values: Record<string, string>): string {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+  }
+
+  static sampleValues(restaurantName?: string): Record<string, string> {
+    const values = Object.fromEntries(MERGE_FIELDS.map(field => [field.key, field.sample]));
+    return restaurantName ? { ...values, restaurant_name: restaurantName } : values;
+  }
+
+  private static trimTemplate(template: EmailTemplateInput): EmailTemplateInput {
+    return {
+      name: template.name.trim(),
+      subject: template.subject.trim(),
+      body: template.body.trim()
+    };
+  }
+}
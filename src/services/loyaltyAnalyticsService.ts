@@ -32,6 +32,7 @@ export interface LoyaltyROIMetrics {
   // Additional metrics
   totalPointsIssued: number;
   totalPointsRedeemed: number;
+  totalPointsExpired: number;
   activeCustomers: number;
   loyaltyCustomers: number;
   
@@ -58,6 +59,32 @@ export interface CustomerBehaviorMetrics {
   averagePointsRedeemed: number;
 }
 
+export interface CampaignPerformance {
+  orders: number;
+  customers: number;
+  revenue: number;
+  averageOrderValue: number;
+  baselineAverageOrderValue: number;
+  bonusPoints: number;
+  pointsIssued: number;
+  bonusCost: number;
+  estimatedGrossProfit: number;
+  roi: number;
+}
+
+export interface EmailCampaignPerformance {
+  campaignId: string;
+  name: string;
+  sentAt: string;
+  sent: number;
+  opened: number;
+  openRate: number;
+  unsubscribed: number;
+  customersReturned: number; // Recipients who bought within seven days of their email
+  orders: number;
+  revenue: number;
+}
+
 export class LoyaltyAnalyticsService {
   static async getROISettings(restaurantId: string): Promise<ROISettings> {
     try {
@@ -166,6 +193,7 @@ export class LoyaltyAnalyticsService {
         customerLifetimeValue,
         totalPointsIssued: loyalty.total_points_issued,
         totalPointsRedeemed: loyalty.total_points_redeemed,
+        totalPointsExpired: loyalty.total_points_expired || 0,
         activeCustomers: customers.total_customers,
         loyaltyCustomers: customers.returning_customers,
         pointRedemptionRate: loyalty.point_redemption_rate,
@@ -327,6 +355,88 @@ export class LoyaltyAnalyticsService {
     }
   }
 
+  static async getCampaignPerformance(
+    restaurantId: string,
+    campaignId: string,
+    dateRange: { start: Date; end: Date }
+  ): Promise<CampaignPerformance | null> {
+    try {
+      if (!restaurantId || !campaignId) return null;
+
+      const { data, error } = await supabase.rpc('get_campaign_performance', {
+        p_restaurant_id: restaurantId,
+        p_campaign_id: campaignId,
+        p_start_date: dateRange.start.toISOString(),
+        p_end_date: dateRange.end.toISOString()
+      });
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        orders: data.orders,
+        customers: data.customers,
+        revenue: data.revenue,
+        averageOrderValue: data.average_order_value,
+        baselineAverageOrderValue: data.baseline_average_order_value,
+        bonusPoints: data.bonus_points,
+        pointsIssued: data.points_issued,
+        bonusCost: data.bonus_cost,
+        estimatedGrossProfit: data.estimated_gross_profit,
+        roi: data.roi_percentage
+      };
+    } catch (error) {
+      console.error('Error getting campaign performance:', error);
+      return null;
+    }
+  }
+
+  // Email campaigns sent in the period, newest first
+  static async getEmailCampaignPerformance(
+    restaurantId: string,
+    dateRange: { start: Date; end: Date }
+  ): Promise<EmailCampaignPerformance[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('get_email_campaign_performance', {
+        p_restaurant_id: restaurantId,
+        p_start_date: dateRange.start.toISOString(),
+        p_end_date: dateRange.end.toISOString()
+      });
+
+      if (error) throw error;
+
+      const rows = (data || []) as {
+        campaign_id: string;
+        name: string;
+        sent_at: string;
+        sent: number;
+        opened: number;
+        unsubscribed: number;
+        customers_returned: number;
+        orders: number;
+        revenue: number | string;
+      }[];
+
+      return rows.map(row => ({
+        campaignId: row.campaign_id,
+        name: row.name,
+        sentAt: row.sent_at,
+        sent: row.sent,
+        opened: row.opened,
+        openRate: row.sent > 0 ? (row.opened / row.sent) * 100 : 0,
+        unsubscribed: row.unsubscribed,
+        customersReturned: row.customers_returned,
+        orders: row.orders,
+        revenue: Number(row.revenue)
+      }));
+    } catch (error) {
+      console.error('Error getting email campaign performance:', error);
+      return [];
+    }
+  }
+
   private static getEmptyMetrics(): LoyaltyROIMetrics {
     return {
       roi: 0,
@@ -345,6 +455,7 @@ export class LoyaltyAnalyticsService {
       customerLifetimeValue: 0,
       totalPointsIssued: 0,
       totalPointsRedeemed: 0,
+      totalPointsExpired: 0,
       activeCustomers: 0,
       loyaltyCustomers: 0,
       pointRedemptionRate: 0,
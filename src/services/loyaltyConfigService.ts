@@ -1,5 +1,154 @@
 import { supabase } from '../lib/supabase';
 
+export type EarningRuleType =
+  | 'category_multiplier'
+  | 'min_spend'
+  | 'time_window'
+  | 'branch_override'
+  | 'transaction_cap';
+
+interface EarningRuleBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface CategoryMultiplierRule extends EarningRuleBase {
+  type: 'category_multiplier';
+  categories: string[];
+  multiplier: number;
+}
+
+export interface MinSpendRule extends EarningRuleBase {
+  type: 'min_spend';
+  minAmount: number;
+  bonusPoints: number;
+}
+
+export interface WeeklyWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday, in the restaurant timezone
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, may be earlier than startTime for overnight windows
+}
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  day: number;
+  minutes: number;
+}
+
+export interface TimeWindowRule extends EarningRuleBase, WeeklyWindow {
+  type: 'time_window';
+  multiplier: number;
+}
+
+export interface BranchOverrideRule extends EarningRuleBase {
+  type: 'branch_override';
+  branchIds: string[];
+  pointsPerAED: number;
+}
+
+export interface TransactionCapRule extends EarningRuleBase {
+  type: 'transaction_cap';
+  maxPoints: number;
+}
+
+export type EarningRule =
+  | CategoryMultiplierRule
+  | MinSpendRule
+  | TimeWindowRule
+  | BranchOverrideRule
+  | TransactionCapRule;
+
+export interface PreviewMenuItem {
+  cost_price: number;
+  selling_price: number;
+  loyalty_mode: string;
+  loyalty_settings: any;
+  category?: string;
+}
+
+export interface PointsLineItem {
+  menuItem?: PreviewMenuItem;
+  amount?: number; // Priced from the menu item when not given
+  quantity: number;
+}
+
+export interface PointsContext {
+  branchId?: string;
+  at?: Date;
+}
+
+export interface AppliedRule {
+  ruleId: string;
+  name: string;
+  type: EarningRuleType;
+  detail: string;
+  pointsBefore: number;
+  pointsAfter: number;
+}
+
+export interface LineBreakdown {
+  mode?: string;
+  basePoints: number;
+  [key: string]: unknown;
+}
+
+export type TierMetric = 'lifetime_points' | 'spend' | 'visits';
+
+// How long a tier lasts before the customer has to re-qualify
+export type TierPeriod = 'all_time' | 'rolling' | 'calendar_year';
+
+export interface TierDefinition {
+  id: string; // stored in customers.current_tier and rewards.min_tier
+  name: string;
+  threshold: number; // in the ladder's metric
+  multiplier: number;
+  perks: string[];
+}
+
+export interface TierLadder {
+  metric: TierMetric;
+  period: TierPeriod;
+  windowMonths: number; // length of a rolling period
+  graceMonths: number; // time a customer keeps their tier after failing to re-qualify
+  tiers: TierDefinition[]; // lowest threshold first
+}
+
+export interface TierProgress {
+  tier: TierDefinition;
+  nextTier: TierDefinition | null;
+  progress: number; // percent from this tier's threshold to the next
+  remaining: number; // in the ladder's metric
+}
+
+// Shape of the tier keys as they sit in restaurants.settings
+export interface StoredTierSettings {
+  tierLadder?: {
+    metric?: string;
+    period?: string;
+    windowMonths?: number | string;
+    graceMonths?: number | string;
+    tiers?: Partial<TierDefinition>[];
+  };
+  tier_thresholds?: Record<string, number>;
+  tierMultipliers?: Record<string, number>;
+}
+
+export const TIER_METRIC_UNITS: Record<TierMetric, string> = {
+  lifetime_points: 'points',
+  spend: 'AED',
+  visits: 'visits'
+};
+
+// Either points added to the balance or a free reward issued as a ready-to-use code
+export interface BonusGift {
+  enabled: boolean;
+  type: 'points' | 'reward';
+  points: number;
+  rewardId: string | null;
+}
+
 export interface LoyaltyConfig {
   pointValueAED: number;
   blanketMode: {
@@ -15,14 +164,35 @@ export interface LoyaltyConfig {
       pointsPerAED: number;
     };
   };
-  tierMultipliers: {
-    bronze: number;
-    silver: number;
-    gold: number;
-    platinum: number;
+  tierLadder: TierLadder;
+  timezone: string;
+  earningRules: EarningRule[];
+  pointsExpiry: {
+    enabled: boolean;
+    afterEarningMonths: number; // 0 = earned points never expire by age
+    inactivityMonths: number; // 0 = balance never expires for lack of visits
+  };
+  tax: {
+    ratePercent: number;
+    pricesIncludeTax: boolean; // menu prices already include tax, as UAE VAT rules require
+  };
+  referrals: {
+    enabled: boolean;
+    referrerPoints: number;
+    refereePoints: number;
+    minPurchaseAED: number; // the friend's first purchase must be at least this much
+    maxRewardsPerReferrer: number; // 0 = no limit
+  };
+  signupBonus: BonusGift & {
+    validDays: number; // how long a free welcome reward can be claimed
+  };
+  birthdayReward: BonusGift & {
+    window: 'week' | 'month'; // three days either side of the birthday, or the whole month
   };
 }
 
+const DAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
 export class LoyaltyConfigService {
   static async getLoyaltyConfig(restaurantId: string): Promise<LoyaltyConfig> {
     try {
@@ -51,11 +221,38 @@ export class LoyaltyConfigService {
             pointsPerAED: settings.blanketMode?.spendSettings?.pointsPerAED || 0.2
           }
         },
-        tierMultipliers: {
-          bronze: settings.tierMultipliers?.bronze || 1.0,
-          silver: settings.tierMultipliers?.silver || 1.25,
-          gold: settings.tierMultipliers?.gold || 1.5,
-          platinum: settings.tierMultipliers?.platinum || 2.0
+        tierLadder: this.getTierLadder(settings),
+        timezone: settings.timezone || 'Asia/Dubai',
+        earningRules: Array.isArray(settings.earningRules) ? settings.earningRules : [],
+        pointsExpiry: {
+          enabled: settings.pointsExpiry?.enabled || false,
+          afterEarningMonths: settings.pointsExpiry?.afterEarningMonths ?? 12,
+          inactivityMonths: settings.pointsExpiry?.inactivityMonths ?? 0
+        },
+        tax: {
+          ratePercent: settings.tax?.ratePercent ?? 5,
+          pricesIncludeTax: settings.tax?.pricesIncludeTax ?? true
+        },
+        referrals: {
+          enabled: settings.referrals?.enabled || false,
+          referrerPoints: settings.referrals?.referrerPoints ?? settings.referral_bonus ?? 50,
+          refereePoints: settings.referrals?.refereePoints ?? 25,
+          minPurchaseAED: settings.referrals?.minPurchaseAED ?? 0,
+          maxRewardsPerReferrer: settings.referrals?.maxRewardsPerReferrer ?? 10
+        },
+        signupBonus: {
+          enabled: settings.signupBonus?.enabled || false,
+          type: settings.signupBonus?.type || 'points',
+          points: settings.signupBonus?.points ?? 50,
+          rewardId: settings.signupBonus?.rewardId ?? null,
+          validDays: settings.signupBonus?.validDays ?? 30
+        },
+        birthdayReward: {
+          enabled: settings.birthdayReward?.enabled || false,
+          type: settings.birthdayReward?.type || 'points',
+          points: settings.birthdayReward?.points ?? 100,
+          rewardId: settings.birthdayReward?.rewardId ?? null,
+          window: settings.birthdayReward?.window || 'week'
         }
       };
     } catch (error) {
@@ -86,6 +283,15 @@ export class LoyaltyConfigService {
         .eq('id', restaurantId);
 
       if (error) throw error;
+
+      // Customers are only re-ranked when a change to the ladder could move them
+      if (config.tierLadder && this.tierLadderChanged(currentSettings, updatedSettings)) {
+        const { error: tierError } = await supabase.rpc('recalculate_customer_tiers', {
+          p_restaurant_id: restaurantId
+        });
+
+        if (tierError) throw tierError;
+      }
     } catch (error) {
       console.error('Error updating loyalty config:', error);
       throw error;
@@ -95,17 +301,20 @@ export class LoyaltyConfigService {
   static async calculatePoints(
     restaurantId: string,
     menuItemId?: string,
-    orderAmount: number = 0,
+    orderAmount?: number,
     customerTier: string = 'bronze',
-    quantity: number = 1
+    quantity: number = 1,
+    context: PointsContext = {}
   ): Promise<number> {
     try {
       const { data, error } = await supabase.rpc('calculate_points_unified', {
         p_restaurant_id: restaurantId,
         p_menu_item_id: menuItemId || null,
-        p_order_amount: orderAmount,
+        p_order_amount: orderAmount ?? null,
         p_customer_tier: customerTier,
-        p_quantity: quantity
+        p_quantity: quantity,
+        p_branch_id: context.branchId || null,
+        p_at: (context.at || new Date()).toISOString()
       });
 
       if (error) throw error;
@@ -116,57 +325,237 @@ export class LoyaltyConfigService {
     }
   }
 
+  static async calculateOrderPoints(
+    restaurantId: string,
+    lines: { menuItemId?: string; amount: number; quantity: number }[],
+    customerTier: string = 'bronze',
+    context: PointsContext = {}
+  ): Promise<{ points: number; breakdown: Record<string, unknown> }> {
+    try {
+      const { data, error } = await supabase.rpc('calculate_order_points', {
+        p_restaurant_id: restaurantId,
+        p_lines: lines.map(line => ({
+          menu_item_id: line.menuItemId || null,
+          amount: line.amount,
+          quantity: line.quantity
+        })),
+        p_customer_tier: customerTier,
+        p_branch_id: context.branchId || null,
+        p_at: (context.at || new Date()).toISOString()
+      });
+
+      if (error) throw error;
+      return { points: data?.points || 0, breakdown: data?.breakdown || {} };
+    } catch (error) {
+      console.error('Error calculating order points:', error);
+      return { points: 0, breakdown: {} };
+    }
+  }
+
   static calculatePointsPreview(
     config: LoyaltyConfig,
-    menuItem?: {
-      cost_price: number;
-      selling_price: number;
-      loyalty_mode: string;
-      loyalty_settings: any;
-    },
-    orderAmount: number = 0,
+    menuItem?: PreviewMenuItem,
+    orderAmount?: number,
+    customerTier: string = 'bronze',
+    quantity: number = 1,
+    context: PointsContext = {}
+  ) {
+    return this.calculateOrderPointsPreview(
+      config,
+      [{ menuItem, amount: orderAmount, quantity }],
+      customerTier,
+      context
+    );
+  }
+
+  /**
+   * Client-side mirror of the `calculate_order_points` database function.
+   *
+   * Points are built in fixed stages so the result is explainable:
+   *   1. base points per line (branch override rate, blanket mode, or the item's own mode)
+   *   2. category multipliers per line
+   *   3. time-window multipliers on the order subtotal
+   *   4. minimum-spend bonuses
+   *   5. tier multiplier
+   *   6. per-transaction caps
+   * Within a stage, rules run in the order the owner saved them. Every step floors,
+   * the same way as the SQL version, so preview and server always agree.
+   */
+  static calculateOrderPointsPreview(
+    config: LoyaltyConfig,
+    items: PointsLineItem[],
     customerTier: string = 'bronze',
-    quantity: number = 1
+    context: PointsContext = {}
   ): { points: number; valueAED: number; breakdown: any } {
-    let basePoints = 0;
-    let breakdown: any = {};
+    const rules = (config.earningRules || []).filter(rule => rule.enabled);
+    const applied: AppliedRule[] = [];
+    const amountGiven = items.some(line => line.amount !== undefined);
+    const lines = items.map(line => ({
+      ...line,
+      amount: line.amount ?? (line.menuItem ? line.menuItem.selling_price * line.quantity : 0)
+    }));
+    const orderAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    const branchOverride = context.branchId
+      ? rules.find((rule): rule is BranchOverrideRule =>
+          rule.type === 'branch_override' && rule.branchIds.includes(context.branchId!))
+      : undefined;
+
+    // Stage 1 + 2: per-line base points and category multipliers
+    let lineBreakdowns: LineBreakdown[] = [];
+    let subtotal = 0;
+    lines.forEach(line => {
+      const base = branchOverride
+        ? {
+            mode: 'Branch Override',
+            basePoints: this.floorPoints(line.amount * branchOverride.pointsPerAED),
+            pointsPerAED: branchOverride.pointsPerAED
+          }
+        : this.calculateBasePoints(config, line);
+
+      let linePoints = base.basePoints;
+      if (line.menuItem?.category) {
+        rules.forEach(rule => {
+          if (rule.type !== 'category_multiplier' || !rule.categories.includes(line.menuItem!.category!)) return;
+          const before = linePoints;
+          linePoints = this.floorPoints(linePoints * rule.multiplier);
+          applied.push({
+            ruleId: rule.id,
+            name: rule.name,
+            type: rule.type,
+            detail: `${rule.multiplier}× on ${line.menuItem!.category}`,
+            pointsBefore: before,
+            pointsAfter: linePoints
+          });
+        });
+      }
+
+      lineBreakdowns.push({ ...base, quantity: line.quantity, amount: line.amount, points: linePoints });
+      subtotal += linePoints;
+    });
+
+    if (branchOverride) {
+      applied.unshift({
+        ruleId: branchOverride.id,
+        name: branchOverride.name,
+        type: branchOverride.type,
+        detail: `${branchOverride.pointsPerAED} points per AED at this branch`,
+        pointsBefore: 0,
+        pointsAfter: lineBreakdowns.reduce((sum, line) => sum + line.basePoints, 0)
+      });
+    }
+
+    const basePoints = lineBreakdowns.reduce((sum, line) => sum + line.basePoints, 0);
+    let points = subtotal;
+
+    // Stage 3: time windows
+    const local = this.getLocalTime(context.at || new Date(), config.timezone);
+    rules.forEach(rule => {
+      if (rule.type !== 'time_window' || !this.isInTimeWindow(rule, local)) return;
+      const before = points;
+      points = this.floorPoints(points * rule.multiplier);
+      applied.push({
+        ruleId: rule.id,
+        name: rule.name,
+        type: rule.type,
+        detail: `${rule.multiplier}× between ${rule.startTime} and ${rule.endTime}`,
+        pointsBefore: before,
+        pointsAfter: points
+      });
+    });
+
+    // Stage 4: minimum-spend bonuses, skipped when no amount was given
+    rules.forEach(rule => {
+      if (rule.type !== 'min_spend' || !amountGiven || orderAmount < rule.minAmount) return;
+      const before = points;
+      points = points + this.floorPoints(rule.bonusPoints);
+      applied.push({
+        ruleId: rule.id,
+        name: rule.name,
+        type: rule.type,
+        detail: `+${rule.bonusPoints} for spending ${rule.minAmount} AED or more`,
+        pointsBefore: before,
+        pointsAfter: points
+      });
+    });
+
+    // Stage 5: tier multiplier
+    const tierMultiplier = config.tierLadder.tiers.find(tier => tier.id === customerTier)?.multiplier || 1.0;
+    points = this.floorPoints(points * tierMultiplier);
+
+    // Stage 6: caps
+    rules.forEach(rule => {
+      if (rule.type !== 'transaction_cap' || points <= rule.maxPoints) return;
+      const before = points;
+      points = Math.max(0, this.floorPoints(rule.maxPoints));
+      applied.push({
+        ruleId: rule.id,
+        name: rule.name,
+        type: rule.type,
+        detail: `Capped at ${rule.maxPoints} points per transaction`,
+        pointsBefore: before,
+        pointsAfter: points
+      });
+    });
+
+    const finalPoints = Math.max(0, points);
+    const valueAED = finalPoints * config.pointValueAED;
+
+    // Single-line previews keep the flat breakdown shape the config and menu pages read
+    const primary = lineBreakdowns.length === 1 ? lineBreakdowns[0] : { mode: 'Order' };
+    if (lineBreakdowns.length === 1) lineBreakdowns = [];
+
+    return {
+      points: finalPoints,
+      valueAED,
+      breakdown: {
+        ...primary,
+        basePoints,
+        lines: lineBreakdowns,
+        rules: applied,
+        tierMultiplier,
+        finalPoints,
+        pointValueAED: config.pointValueAED
+      }
+    };
+  }
+
+  private static calculateBasePoints(config: LoyaltyConfig, line: Required<Pick<PointsLineItem, 'amount'>> & PointsLineItem): LineBreakdown {
+    const orderAmount = line.amount;
+    const menuItem = line.menuItem;
+    const quantity = line.quantity;
 
     // Check blanket mode first
     if (config.blanketMode.enabled) {
       switch (config.blanketMode.type) {
-        case 'smart':
+        case 'smart': {
           const estimatedProfit = orderAmount * 0.3; // 30% estimated profit margin
           const rewardValueAED = estimatedProfit * (config.blanketMode.smartSettings.profitAllocationPercent / 100);
-          basePoints = Math.floor(rewardValueAED / config.pointValueAED);
-          breakdown = {
+          return {
             mode: 'Blanket Smart Auto',
             orderAmount,
             estimatedProfit,
             allocationPercent: config.blanketMode.smartSettings.profitAllocationPercent,
             rewardValueAED,
-            basePoints
+            basePoints: this.floorPoints(rewardValueAED / config.pointValueAED)
           };
-          break;
-          
+        }
+
         case 'manual':
-          basePoints = Math.floor(orderAmount * config.blanketMode.manualSettings.pointsPerAED);
-          breakdown = {
+          return {
             mode: 'Blanket Manual',
             orderAmount,
             pointsPerAED: config.blanketMode.manualSettings.pointsPerAED,
-            basePoints
+            basePoints: this.floorPoints(orderAmount * config.blanketMode.manualSettings.pointsPerAED)
           };
-          break;
-          
+
         case 'spend':
-          basePoints = Math.floor(orderAmount * config.blanketMode.spendSettings.pointsPerAED);
-          breakdown = {
+          return {
             mode: 'Blanket Spend-Based',
             orderAmount,
             pointsPerAED: config.blanketMode.spendSettings.pointsPerAED,
-            basePoints
+            basePoints: this.floorPoints(orderAmount * config.blanketMode.spendSettings.pointsPerAED)
           };
-          break;
       }
     } else if (menuItem) {
       // Item-specific calculation
@@ -174,44 +563,180 @@ export class LoyaltyConfigService {
         const profit = (menuItem.selling_price - menuItem.cost_price) * quantity;
         const allocationPercent = menuItem.loyalty_settings.profit_allocation_percent || 0;
         const rewardValueAED = profit * (allocationPercent / 100);
-        basePoints = Math.floor(rewardValueAED / config.pointValueAED);
-        breakdown = {
+        return {
           mode: 'Item Smart Auto',
           costPrice: menuItem.cost_price,
           sellingPrice: menuItem.selling_price,
           profit,
           allocationPercent,
           rewardValueAED,
-          basePoints
+          basePoints: this.floorPoints(rewardValueAED / config.pointValueAED)
         };
       } else if (menuItem.loyalty_mode === 'manual') {
-        basePoints = (menuItem.loyalty_settings.fixed_points || 0) * quantity;
-        breakdown = {
+        return {
           mode: 'Item Manual',
           fixedPoints: menuItem.loyalty_settings.fixed_points || 0,
           quantity,
-          basePoints
+          basePoints: (menuItem.loyalty_settings.fixed_points || 0) * quantity
         };
       }
     }
 
-    // Apply tier multiplier
-    const tierMultiplier = config.tierMultipliers[customerTier as keyof typeof config.tierMultipliers] || 1.0;
-    const finalPoints = Math.floor(basePoints * tierMultiplier);
-    const valueAED = finalPoints * config.pointValueAED;
+    return { basePoints: 0 };
+  }
+
+  // Rounds away float noise (0.3 * 100 = 30.000000000000004) before flooring, like ROUND(x, 6) in SQL
+  private static floorPoints(value: number): number {
+    return Math.floor(Math.round(value * 1e6) / 1e6);
+  }
+
+  static getLocalTime(at: Date, timezone: string): LocalTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+    const get = (type: string) => parts.find(part => part.type === type)?.value || '';
 
     return {
-      points: finalPoints,
-      valueAED,
-      breakdown: {
-        ...breakdown,
-        tierMultiplier,
-        finalPoints,
-        pointValueAED: config.pointValueAED
-      }
+      date: `${get('year')}-${get('month')}-${get('day')}`,
+      day: DAY_INDEX[get('weekday')] ?? at.getDay(),
+      minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10)
     };
   }
 
+  /**
+   * Returns how many days ago the matching window opened (0 or 1), or null when
+   * outside it. Overnight windows: the late part belongs to the listed day, the
+   * early part to the day after.
+   */
+  static matchTimeWindow(window: WeeklyWindow, local: LocalTime): number | null {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return (hours || 0) * 60 + (minutes || 0);
+    };
+    const start = toMinutes(window.startTime);
+    const end = toMinutes(window.endTime);
+
+    if (start <= end) {
+      return window.days.includes(local.day) && local.minutes >= start && local.minutes < end ? 0 : null;
+    }
+
+    if (local.minutes >= start) return window.days.includes(local.day) ? 0 : null;
+    if (local.minutes < end) return window.days.includes((local.day + 6) % 7) ? 1 : null;
+    return null;
+  }
+
+  private static isInTimeWindow(rule: TimeWindowRule, local: LocalTime): boolean {
+    return this.matchTimeWindow(rule, local) !== null;
+  }
+
+  /**
+   * Tier ladder from restaurant settings, lowest tier first. Mirrors the
+   * `get_tier_ladder` database function: restaurants that never saved a ladder
+   * get Bronze/Silver/Gold/Platinum built from their old thresholds and multipliers.
+   */
+  static getTierLadder(settings: StoredTierSettings | null | undefined): TierLadder {
+    const ladder = settings?.tierLadder;
+    const metric: TierMetric = ladder?.metric === 'spend' || ladder?.metric === 'visits' ? ladder.metric : 'lifetime_points';
+    const windowMonths = Math.max(0, parseInt(String(ladder?.windowMonths ?? 0)) || 0);
+    const graceMonths = Math.max(0, parseInt(String(ladder?.graceMonths ?? 0)) || 0);
+    const period: TierPeriod = ladder?.period === 'all_time' || ladder?.period === 'rolling' || ladder?.period === 'calendar_year'
+      ? ladder.period
+      : windowMonths > 0 ? 'rolling' : 'all_time';
+    const base = { metric, period, windowMonths: period === 'rolling' ? windowMonths || 12 : windowMonths, graceMonths };
+
+    if (ladder && Array.isArray(ladder.tiers) && ladder.tiers.length > 0) {
+      const tiers: TierDefinition[] = ladder.tiers.map(tier => ({
+        id: tier.id || '',
+        name: tier.name || tier.id || '',
+        threshold: Number(tier.threshold) || 0,
+        multiplier: Number(tier.multiplier) || 1.0,
+        perks: Array.isArray(tier.perks) ? tier.perks : []
+      }));
+      return { ...base, tiers: [...tiers].sort((a, b) => a.threshold - b.threshold) };
+    }
+
+    const thresholds = settings?.tier_thresholds || {};
+    const multipliers = settings?.tierMultipliers || {};
+    return {
+      ...base,
+      tiers: [
+        { id: 'bronze', name: 'Bronze', threshold: 0, multiplier: multipliers.bronze || 1.0, perks: [] },
+        { id: 'silver', name: 'Silver', threshold: thresholds.silver ?? 500, multiplier: multipliers.silver || 1.25, perks: [] },
+        { id: 'gold', name: 'Gold', threshold: thresholds.gold ?? 1000, multiplier: multipliers.gold || 1.5, perks: [] },
+        { id: 'platinum', name: 'Platinum', threshold: thresholds.platinum ?? 2000, multiplier: multipliers.platinum || 2.0, perks: [] }
+      ]
+    };
+  }
+
+  // Same contract as validateTierLadder; a free-reward bonus needs a reward to give
+  static validateBonusGift(gift: BonusGift, label: string): string | null {
+    if (!gift.enabled) return null;
+    if (gift.type === 'reward' && !gift.rewardId) return `Choose the reward to give as the ${label}`;
+    if (gift.type === 'points' && gift.points <= 0) return `Enter the points to give as the ${label}`;
+    return null;
+  }
+
+  // Names, perks, multipliers and the grace period don't decide anyone's tier
+  private static tierLadderChanged(before: StoredTierSettings, after: StoredTierSettings): boolean {
+    const ranking = (settings: StoredTierSettings) => {
+      const { metric, period, windowMonths, tiers } = this.getTierLadder(settings);
+      return JSON.stringify({ metric, period, windowMonths, tiers: tiers.map(tier => [tier.id, tier.threshold]) });
+    };
+    return ranking(before) !== ranking(after);
+  }
+
+  // Returns a message describing the first problem with the ladder, or null if it can be saved
+  static validateTierLadder(ladder: TierLadder): string | null {
+    if (ladder.tiers.length === 0) return 'Add at least one tier';
+    if (ladder.tiers.some(tier => !tier.name.trim())) return 'Every tier needs a name';
+
+    const thresholds = ladder.tiers.map(tier => tier.threshold);
+    if (new Set(thresholds).size !== thresholds.length) return 'Each tier needs a different threshold';
+
+    return null;
+  }
+
+  // Position in the ladder (0 = lowest), -1 when the tier no longer exists
+  static getTierRank(ladder: TierLadder, tierId: string | null | undefined): number {
+    return ladder.tiers.findIndex(tier => tier.id === tierId);
+  }
+
+  static getTier(ladder: TierLadder, tierId: string | null | undefined): TierDefinition {
+    return ladder.tiers.find(tier => tier.id === tierId) || ladder.tiers[0];
+  }
+
+  /**
+   * Whether a customer's tier meets a reward's minimum tier. Rewards pointing at a
+   * tier that was removed from the ladder stay locked until the owner updates them.
+   */
+  static meetsTier(ladder: TierLadder, customerTier: string | null | undefined, minTier: string | null | undefined): boolean {
+    if (!minTier) return true;
+    const required = this.getTierRank(ladder, minTier);
+    if (required === -1) return false;
+    return Math.max(this.getTierRank(ladder, customerTier), 0) >= required;
+  }
+
+  // Mirrors `calculate_tier_progress`, measured from the current tier's threshold
+  static getTierProgress(ladder: TierLadder, tierId: string | null | undefined, value: number): TierProgress {
+    const tier = this.getTier(ladder, tierId);
+    const nextTier = ladder.tiers.find(candidate => candidate.threshold > Math.max(value, tier.threshold)) || null;
+
+    if (!nextTier) {
+      return { tier, nextTier: null, progress: 100, remaining: 0 };
+    }
+
+    const span = nextTier.threshold - tier.threshold;
+    const progress = span > 0 ? Math.min(Math.max(((value - tier.threshold) / span) * 100, 0), 100) : 0;
+    return { tier, nextTier, progress, remaining: Math.max(nextTier.threshold - value, 0) };
+  }
+
   private static getDefaultConfig(): LoyaltyConfig {
     return {
       pointValueAED: 0.05,
@@ -228,11 +753,38 @@ export class LoyaltyConfigService {
           pointsPerAED: 0.2
         }
       },
-      tierMultipliers: {
-        bronze: 1.0,
-        silver: 1.25,
-        gold: 1.5,
-        platinum: 2.0
+      tierLadder: this.getTierLadder({}),
+      timezone: 'Asia/Dubai',
+      earningRules: [],
+      pointsExpiry: {
+        enabled: false,
+        afterEarningMonths: 12,
+        inactivityMonths: 0
+      },
+      tax: {
+        ratePercent: 5,
+        pricesIncludeTax: true
+      },
+      referrals: {
+        enabled: false,
+        referrerPoints: 50,
+        refereePoints: 25,
+        minPurchaseAED: 0,
+        maxRewardsPerReferrer: 10
+      },
+      signupBonus: {
+        enabled: false,
+        type: 'points',
+        points: 50,
+        rewardId: null,
+        validDays: 30
+      },
+      birthdayReward: {
+        enabled: false,
+        type: 'points',
+        points: 100,
+        rewardId: null,
+        window: 'week'
       }
     };
   }
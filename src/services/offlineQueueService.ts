@@ -0,0 +1,377 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/supabase';
+import { normalizePhone } from '../lib/phone';
+import { CustomerService } from './customerService';
+import { OrderService, BasketLine } from './orderService';
+import { RewardService } from './rewardService';
+
+type Customer = Database['public']['Tables']['customers']['Row'];
+type Reward = Database['public']['Tables']['rewards']['Row'];
+
+export type QueuedAction =
+  | {
+      kind: 'points';
+      points: number;
+      amountSpent: number;
+      description: string;
+      campaignId: string | null;
+    }
+  | {
+      kind: 'order';
+      lines: BasketLine[];
+      orderDiscount: number;
+      campaignId: string | null;
+    }
+  | {
+      kind: 'redemption';
+      rewardId: string;
+      rewardName: string;
+      pointsRequired: number;
+    };
+
+export interface QueuedAssignment {
+  id: string; // Idempotency key, generated when the assignment is made at the counter
+  restaurantId: string;
+  branchId: string;
+  staffMemberId?: string | null; // Recorded on the sale instead of whoever is signed in at sync time
+  staffName: string | null;
+  customerId: string;
+  customerName: string;
+  action: QueuedAction;
+  status: 'pending' | 'conflict';
+  error?: string;
+  createdAt: string;
+}
+
+export type CachedCustomer = Pick<
+  Customer,
+  'id' | 'first_name' | 'last_name' | 'email' | 'phone' | 'total_points' | 'current_tier' | 'tier_grace_until'
+>;
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  // Set when the run stopped early and the remaining entries are still pending
+  pausedReason?: string;
+}
+
+const DB_NAME = 'voya-staff';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'queue';
+const CACHE_STORE = 'cache';
+// The server forgets idempotency keys after 30 days, so older entries could be recorded twice
+const MAX_ENTRY_AGE_MS = 28 * 24 * 60 * 60 * 1000;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+const syncPromises = new Map<string, Promise<SyncResult>>();
+const listeners = new Set<() => void>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const customersKey = (restaurantId: string) => `customers:${restaurantId}`;
+const rewardsKey = (restaurantId: string) => `rewards:${restaurantId}`;
+
+const toCachedCustomer = (customer: CachedCustomer): CachedCustomer => ({
+  id: customer.id,
+  first_name: customer.first_name,
+  last_name: customer.last_name,
+  email: customer.email,
+  phone: customer.phone,
+  total_points: customer.total_points,
+  current_tier: customer.current_tier,
+  tier_grace_until: customer.tier_grace_until ?? null
+});
+
+// A staff session that lapsed while offline; the entry is fine, it just needs a fresh PIN
+const isSessionError = (message: string) => /staff session expired/i.test(message);
+
+export class OfflineQueueService {
+  static isNetworkError(error: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = error instanceof Error ? error.message : String(error);
+    return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+  }
+
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static async getQueue(restaurantId: string): Promise<QueuedAssignment[]> {
+    try {
+      const entries = (await runInStore<QueuedAssignment[]>(QUEUE_STORE, 'readonly', store => store.getAll())) || [];
+      return entries
+        .filter(entry => entry.restaurantId === restaurantId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error('Error in getQueue:', error);
+      return [];
+    }
+  }
+
+  // The id is the idempotency key of the attempt that couldn't get through, if there was one
+  static async enqueue(
+    entry: Omit<QueuedAssignment, 'status' | 'createdAt'>
+  ): Promise<QueuedAssignment> {
+    const queued: QueuedAssignment = {
+      ...entry,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+
+    await runInStore(QUEUE_STORE, 'readwrite', store => store.put(queued));
+
+    // Keep the cached balance roughly right so later offline redemptions see the new points
+    const delta = entry.action.kind === 'redemption' ? -entry.action.pointsRequired
+      : entry.action.kind === 'points' ? entry.action.points
+      : 0;
+    if (delta !== 0) {
+      const customer = await this.findCachedCustomer(entry.restaurantId, { id: entry.customerId });
+      if (customer) {
+        await this.cacheCustomers(entry.restaurantId, [{ ...customer, total_points: customer.total_points + delta }]);
+      }
+    }
+
+    notify();
+    return queued;
+  }
+
+  static async discard(entryId: string): Promise<void> {
+    await runInStore(QUEUE_STORE, 'readwrite', store => store.delete(entryId));
+    notify();
+  }
+
+  static async retry(entryId: string): Promise<void> {
+    const entry = await runInStore<QueuedAssignment>(QUEUE_STORE, 'readonly', store => store.get(entryId));
+    if (!entry) return;
+
+    await runInStore(QUEUE_STORE, 'readwrite', store => store.put({ ...entry, status: 'pending', error: undefined }));
+    notify();
+  }
+
+  /**
+   * Replays pending entries oldest first, so points earned offline land before a reward
+   * bought with them. Rejections (a sold-out reward, a customer who was deleted) become
+   * conflicts for staff to retry or discard; a dropped connection stops the run.
+   */
+  static sync(restaurantId: string): Promise<SyncResult> {
+    let syncPromise = syncPromises.get(restaurantId);
+    if (!syncPromise) {
+      syncPromise = this.runSync(restaurantId).finally(() => {
+        syncPromises.delete(restaurantId);
+        notify();
+      });
+      syncPromises.set(restaurantId, syncPromise);
+    }
+    return syncPromise;
+  }
+
+  private static async runSync(restaurantId: string): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, conflicts: 0 };
+    const pending = (await this.getQueue(restaurantId)).filter(entry => entry.status === 'pending');
+
+    for (const entry of pending) {
+      if (Date.now() - new Date(entry.createdAt).getTime() > MAX_ENTRY_AGE_MS) {
+        await runInStore(QUEUE_STORE, 'readwrite', store => store.put({
+          ...entry,
+          status: 'conflict',
+          error: 'Too old to sync safely. Record it again at the counter if it is still owed, then discard this entry.'
+        }));
+        result.conflicts += 1;
+        notify();
+        continue;
+      }
+
+      try {
+        await this.replay(entry);
+        await runInStore(QUEUE_STORE, 'readwrite', store => store.delete(entry.id));
+        result.synced += 1;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to sync';
+
+        if (this.isNetworkError(error)) {
+          result.pausedReason = 'Waiting for a connection';
+          break;
+        }
+        if (isSessionError(message)) {
+          result.pausedReason = 'Sign in again to finish syncing';
+          break;
+        }
+
+        await runInStore(QUEUE_STORE, 'readwrite', store => store.put({ ...entry, status: 'conflict', error: message }));
+        result.conflicts += 1;
+      }
+      notify();
+    }
+
+    if (result.synced > 0) {
+      await this.refreshCache(restaurantId);
+    }
+
+    return result;
+  }
+
+  private static async replay(entry: QueuedAssignment): Promise<void> {
+    const { action } = entry;
+
+    if (action.kind === 'points') {
+      const { error } = await supabase.rpc('process_point_transaction', {
+        p_restaurant_id: entry.restaurantId,
+        p_customer_id: entry.customerId,
+        p_type: 'purchase',
+        p_points: action.points,
+        p_description: action.description,
+        p_amount_spent: action.amountSpent,
+        p_reward_id: null,
+        p_branch_id: entry.branchId,
+        p_campaign_id: action.campaignId,
+        p_idempotency_key: entry.id,
+        p_occurred_at: entry.createdAt,
+        p_staff_member_id: entry.staffMemberId ?? null
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } else if (action.kind === 'order') {
+      await OrderService.createOrder(entry.restaurantId, {
+        branchId: entry.branchId,
+        customerId: entry.customerId,
+        lines: action.lines,
+        orderDiscount: action.orderDiscount,
+        campaignId: action.campaignId,
+        idempotencyKey: entry.id,
+        occurredAt: entry.createdAt,
+        staffMemberId: entry.staffMemberId ?? null
+      });
+    } else {
+      await RewardService.redeemReward(
+        entry.restaurantId,
+        entry.customerId,
+        action.rewardId,
+        entry.branchId,
+        true,
+        entry.id,
+        entry.staffMemberId ?? null
+      );
+    }
+  }
+
+  // Customers and rewards the counter can look up while the connection is down
+  static async refreshCache(restaurantId: string): Promise<void> {
+    try {
+      const [customers, rewards] = await Promise.all([
+        CustomerService.getCustomers(restaurantId),
+        RewardService.getRewards(restaurantId)
+      ]);
+
+      if (customers.length > 0) {
+        const byId = Object.fromEntries(customers.map(customer => [customer.id, toCachedCustomer(customer)]));
+        await runInStore(CACHE_STORE, 'readwrite', store => store.put(byId, customersKey(restaurantId)));
+      }
+      await runInStore(CACHE_STORE, 'readwrite', store => store.put(rewards, rewardsKey(restaurantId)));
+    } catch (error) {
+      console.error('Error in refreshCache:', error);
+    }
+  }
+
+  static async cacheCustomers(restaurantId: string, customers: CachedCustomer[]): Promise<void> {
+    try {
+      const existing = (await runInStore<Record<string, CachedCustomer>>(
+        CACHE_STORE, 'readonly', store => store.get(customersKey(restaurantId))
+      )) || {};
+      customers.forEach(customer => {
+        existing[customer.id] = toCachedCustomer(customer);
+      });
+      await runInStore(CACHE_STORE, 'readwrite', store => store.put(existing, customersKey(restaurantId)));
+    } catch (error) {
+      console.error('Error in cacheCustomers:', error);
+    }
+  }
+
+  static async findCachedCustomer(
+    restaurantId: string,
+    match: { id?: string; email?: string }
+  ): Promise<CachedCustomer | null> {
+    try {
+      const customers = (await runInStore<Record<string, CachedCustomer>>(
+        CACHE_STORE, 'readonly', store => store.get(customersKey(restaurantId))
+      )) || {};
+      if (match.id) return customers[match.id] || null;
+
+      const email = match.email?.trim().toLowerCase();
+      return Object.values(customers).find(customer => customer.email.toLowerCase() === email) || null;
+    } catch (error) {
+      console.error('Error in findCachedCustomer:', error);
+      return null;
+    }
+  }
+
+  // Same matching as CustomerService.findCustomersByPhone
+  static async findCachedCustomersByPhone(restaurantId: string, query: string): Promise<CachedCustomer[]> {
+    try {
+      const customers = (await runInStore<Record<string, CachedCustomer>>(
+        CACHE_STORE, 'readonly', store => store.get(customersKey(restaurantId))
+      )) || {};
+
+      const digits = query.replace(/\D/g, '');
+      const phone = digits.length === 4 ? null : normalizePhone(query);
+      if (digits.length !== 4 && !phone) return [];
+
+      return Object.values(customers)
+        .filter(customer => customer.phone && (phone ? customer.phone === phone : customer.phone.endsWith(digits)))
+        .slice(0, 10);
+    } catch (error) {
+      console.error('Error in findCachedCustomersByPhone:', error);
+      return [];
+    }
+  }
+
+  static async getCachedRewards(restaurantId: string): Promise<Reward[]> {
+    try {
+      return (await runInStore<Reward[]>(CACHE_STORE, 'readonly', store => store.get(rewardsKey(restaurantId)))) || [];
+    } catch (error) {
+      console.error('Error in getCachedRewards:', error);
+      return [];
+    }
+  }
+}
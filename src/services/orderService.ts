@@ -0,0 +1,211 @@
+import { supabase } from '../lib/supabase';
+import { LoyaltyConfig, PreviewMenuItem } from './loyaltyConfigService';
+
+export type OrderStatus = 'completed' | 'partially_refunded' | 'refunded';
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  restaurant_id: string;
+  position: number;
+  menu_item_id: string | null;
+  name: string;
+  category: string | null;
+  unit_price: number;
+  quantity: number;
+  discount: number;
+  line_total: number;
+  created_at: string;
+}
+
+export interface Order {
+  id: string;
+  order_number: number;
+  restaurant_id: string;
+  branch_id: string | null;
+  customer_id: string | null;
+  transaction_id: string | null;
+  status: OrderStatus;
+  refunded_amount: number;
+  subtotal: number;
+  line_discount_total: number;
+  order_discount: number;
+  discount_total: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_total: number;
+  total: number;
+  points_awarded: number;
+  campaign_id: string | null;
+  campaign_bonus_points: number;
+  staff_member_id: string | null;
+  created_at: string;
+  items: OrderItem[];
+}
+
+export interface BasketLine {
+  menuItemId: string;
+  quantity: number;
+  discount: number; // AED off the whole line
+}
+
+export interface OrderInsert {
+  branchId: string;
+  customerId: string;
+  lines: BasketLine[];
+  orderDiscount?: number;
+  campaignId?: string | null;
+  idempotencyKey?: string; // Reuse when retrying so the order is only recorded once
+  occurredAt?: string; // When the sale was made, for orders replayed from the offline queue
+  staffMemberId?: string | null; // Who made a replayed sale
+}
+
+export interface BasketMenuItem extends PreviewMenuItem {
+  id: string;
+  name: string;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  lineDiscountTotal: number;
+  orderDiscount: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  // Charged amount per line with the order discount spread pro rata, for the points preview
+  pointsLines: { menuItem: BasketMenuItem; amount: number; quantity: number }[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Line items come back from an embedded select, which doesn't guarantee order
+const normalizeOrder = (data: Order): Order => ({
+  ...data,
+  items: [...(data.items || [])].sort((a, b) => a.position - b.position)
+});
+
+export class OrderService {
+  /**
+   * Client-side mirror of the pricing in the `create_order` database function, so the
+   * basket shows the same totals the receipt will.
+   */
+  static calculateTotals(
+    lines: BasketLine[],
+    menuItems: BasketMenuItem[],
+    orderDiscount: number,
+    tax: LoyaltyConfig['tax']
+  ): OrderTotals {
+    const priced = lines
+      .map(line => {
+        const menuItem = menuItems.find(item => item.id === line.menuItemId);
+        if (!menuItem || line.quantity <= 0) return null;
+        const gross = menuItem.selling_price * line.quantity;
+        const discount = roundMoney(Math.min(Math.max(line.discount || 0, 0), gross));
+        return { menuItem, quantity: line.quantity, gross, lineTotal: gross - discount, discount };
+      })
+      .filter((line): line is NonNullable<typeof line> => line !== null);
+
+    const subtotal = priced.reduce((sum, line) => sum + line.gross, 0);
+    const lineDiscountTotal = priced.reduce((sum, line) => sum + line.discount, 0);
+    const afterLineDiscounts = subtotal - lineDiscountTotal;
+    const appliedOrderDiscount = roundMoney(Math.min(Math.max(orderDiscount || 0, 0), afterLineDiscounts));
+    const net = afterLineDiscounts - appliedOrderDiscount;
+
+    const taxTotal = tax.pricesIncludeTax
+      ? roundMoney(net * tax.ratePercent / (100 + tax.ratePercent))
+      : roundMoney(net * tax.ratePercent / 100);
+
+    return {
+      subtotal: roundMoney(subtotal),
+      lineDiscountTotal: roundMoney(lineDiscountTotal),
+      orderDiscount: appliedOrderDiscount,
+      discountTotal: roundMoney(lineDiscountTotal + appliedOrderDiscount),
+      taxTotal,
+      total: roundMoney(tax.pricesIncludeTax ? net : net + taxTotal),
+      pointsLines: priced.map(line => ({
+        menuItem: line.menuItem,
+        quantity: line.quantity,
+        amount: afterLineDiscounts > 0 ? line.lineTotal * net / afterLineDiscounts : 0
+      }))
+    };
+  }
+
+  // Prices, tax and points are all worked out again in the database
+  static async createOrder(restaurantId: string, orderData: OrderInsert): Promise<Order> {
+    if (orderData.lines.length === 0) {
+      throw new Error('Add at least one item to the order');
+    }
+
+    const { data, error } = await supabase.rpc('create_order', {
+      p_restaurant_id: restaurantId,
+      p_branch_id: orderData.branchId,
+      p_customer_id: orderData.customerId,
+      p_lines: orderData.lines.map(line => ({
+        menu_item_id: line.menuItemId,
+        quantity: line.quantity,
+        discount: line.discount || 0
+      })),
+      p_order_discount: orderData.orderDiscount || 0,
+      p_campaign_id: orderData.campaignId || null,
+      p_idempotency_key: orderData.idempotencyKey ?? crypto.randomUUID(),
+      p_occurred_at: orderData.occurredAt ?? null,
+      p_staff_member_id: orderData.staffMemberId ?? null
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return normalizeOrder(data);
+  }
+
+  static async getOrder(restaurantId: string, orderId: string): Promise<Order | null> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, items:order_items(*)')
+        .eq('id', orderId)
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data ? normalizeOrder(data) : null;
+    } catch (error) {
+      console.error('Error in getOrder:', error);
+      return null;
+    }
+  }
+
+  static async getOrders(
+    restaurantId: string,
+    filters: { customerId?: string; branchId?: string; limit?: number } = {}
+  ): Promise<Order[]> {
+    try {
+      if (!restaurantId) return [];
+
+      let query = supabase
+        .from('orders')
+        .select('*, items:order_items(*)')
+        .eq('restaurant_id', restaurantId)
+        .order('created_at', { ascending: false })
+        .limit(filters.limit ?? 20);
+
+      if (filters.customerId) query = query.eq('customer_id', filters.customerId);
+      if (filters.branchId) query = query.eq('branch_id', filters.branchId);
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []).map(normalizeOrder);
+    } catch (error) {
+      console.error('Error in getOrders:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { supabase, walletSupabase } from '../lib/supabase';
+import { RedemptionCodeDetails } from './rewardService';
+
+export interface QRToken {
+  token: string;
+  expires_at: string;
+}
+
+export type ResolvedQRToken =
+  | { kind: 'customer'; customer_id: string }
+  | ({ kind: 'redemption' } & RedemptionCodeDetails);
+
+// Tokens are signed and dated server-side; the client only displays and forwards them
+export class QRTokenService {
+  static readonly PREFIX = 'VOYA1.';
+
+  static isQRToken(text: string): boolean {
+    return text.trim().startsWith(this.PREFIX);
+  }
+
+  /**
+   * Reads the customer id out of a scanned code without checking its signature, for
+   * the counter to match a cached customer while offline. The assignment is still
+   * checked by the database when it syncs.
+   */
+  static readCustomerIdOffline(text: string): string | null {
+    const parts = text.trim().split('.');
+    if (parts.length !== 5 || `${parts[0]}.` !== this.PREFIX || parts[1] !== 'C') return null;
+    return /^[0-9a-f-]{36}$/.test(parts[2]) ? parts[2] : null;
+  }
+
+  static async issueCustomerToken(customerId: string): Promise<QRToken> {
+    const { data, error } = await walletSupabase().rpc('issue_customer_qr_token', {
+      p_customer_id: customerId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as QRToken;
+  }
+
+  static async issueRedemptionToken(customerId: string, redemptionId: string): Promise<QRToken> {
+    const { data, error } = await walletSupabase().rpc('issue_redemption_qr_token', {
+      p_customer_id: customerId,
+      p_redemption_id: redemptionId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as QRToken;
+  }
+
+  static async resolveToken(restaurantId: string, token: string): Promise<ResolvedQRToken> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase.rpc('resolve_qr_token', {
+      p_restaurant_id: restaurantId,
+      p_token: token.trim()
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as ResolvedQRToken;
+  }
+}
@@ -0,0 +1,133 @@
+import { supabase, walletSupabase } from '../lib/supabase';
+
+export type ReferralStatus = 'pending' | 'rewarded' | 'capped' | 'rejected' | 'reversed';
+
+export interface Referral {
+  id: string;
+  restaurant_id: string;
+  referrer_id: string;
+  referee_id: string;
+  status: ReferralStatus;
+  rejection_reason: string | null;
+  qualifying_transaction_id: string | null;
+  referrer_points: number;
+  referee_points: number;
+  created_at: string;
+  rewarded_at: string | null;
+}
+
+export interface ReferralSummary {
+  joined: number;
+  purchased: number;
+  pointsEarned: number;
+}
+
+export interface TopReferrer {
+  customerId: string;
+  name: string;
+  purchased: number;
+}
+
+// Each step counts the referrals that got at least that far
+export interface ReferralFunnelStats {
+  signedUp: number;
+  purchased: number;
+  referrerRewarded: number;
+  capped: number;
+  reversed: number;
+  blocked: number;
+  pointsIssued: number;
+  topReferrers: TopReferrer[];
+}
+
+type FunnelRow = Pick<Referral, 'referrer_id' | 'status' | 'referrer_points' | 'referee_points'> & {
+  referrer: { first_name: string; last_name: string } | null;
+};
+
+export class ReferralService {
+  static getReferralLink(restaurantSlug: string, referralCode: string): string {
+    return `${window.location.origin}/wallet/${restaurantSlug}?ref=${encodeURIComponent(referralCode)}`;
+  }
+
+  // The signed-in customer's own referrals, for the wallet
+  static async getReferralSummary(restaurantId: string, customerId: string): Promise<ReferralSummary> {
+    try {
+      if (!restaurantId) return { joined: 0, purchased: 0, pointsEarned: 0 };
+
+      const { data, error } = await walletSupabase()
+        .from('referrals')
+        .select('status, referrer_points')
+        .eq('restaurant_id', restaurantId)
+        .eq('referrer_id', customerId)
+        .neq('status', 'rejected');
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const referrals = data || [];
+      // A refunded first purchase takes the bonus back, so it no longer counts
+      const purchased = referrals.filter(r => r.status === 'rewarded' || r.status === 'capped');
+      return {
+        joined: referrals.length,
+        purchased: purchased.length,
+        pointsEarned: purchased.reduce((sum, r) => sum + r.referrer_points, 0)
+      };
+    } catch (error) {
+      console.error('Error in getReferralSummary:', error);
+      return { joined: 0, purchased: 0, pointsEarned: 0 };
+    }
+  }
+
+  static async getFunnelStats(restaurantId: string): Promise<ReferralFunnelStats | null> {
+    try {
+      if (!restaurantId) return null;
+
+      const { data, error } = await supabase
+        .from('referrals')
+        .select(`
+          referrer_id,
+          status,
+          referrer_points,
+          referee_points,
+          referrer:customers!referrals_referrer_id_fkey(first_name, last_name)
+        `)
+        .eq('restaurant_id', restaurantId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const rows = (data || []) as unknown as FunnelRow[];
+      const accepted = rows.filter(row => row.status !== 'rejected');
+      const purchased = accepted.filter(row => row.status === 'rewarded' || row.status === 'capped');
+
+      const byReferrer = new Map<string, TopReferrer>();
+      purchased.forEach(row => {
+        const entry = byReferrer.get(row.referrer_id) ?? {
+          customerId: row.referrer_id,
+          name: row.referrer ? `${row.referrer.first_name} ${row.referrer.last_name}` : 'Unknown customer',
+          purchased: 0
+        };
+        entry.purchased += 1;
+        byReferrer.set(row.referrer_id, entry);
+      });
+
+      return {
+        signedUp: accepted.length,
+        purchased: purchased.length,
+        referrerRewarded: purchased.filter(row => row.status === 'rewarded').length,
+        capped: purchased.filter(row => row.status === 'capped').length,
+        reversed: accepted.filter(row => row.status === 'reversed').length,
+        blocked: rows.length - accepted.length,
+        pointsIssued: purchased.reduce((sum, row) => sum + row.referrer_points + row.referee_points, 0),
+        topReferrers: Array.from(byReferrer.values())
+          .sort((a, b) => b.purchased - a.purchased)
+          .slice(0, 5)
+      };
+    } catch (error) {
+      console.error('Error in getFunnelStats:', error);
+      return null;
+    }
+  }
+}
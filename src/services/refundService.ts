@@ -0,0 +1,142 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/supabase';
+import { OrderStatus } from './orderService';
+
+type Transaction = Database['public']['Tables']['transactions']['Row'];
+
+export interface RefundablePurchase extends Transaction {
+  customer: { id: string; first_name: string; last_name: string; email: string; total_points: number } | null;
+  order: { id: string; order_number: number; status: OrderStatus } | null;
+  refunded_amount: number;
+  refunded_points: number;
+  remaining_amount: number;
+  remaining_points: number;
+}
+
+export interface RefundRequest {
+  amount?: number; // AED; leave out to refund whatever is left
+  reason?: string;
+  approverStaffId?: string;
+  approverPin?: string;
+  idempotencyKey?: string; // Reuse when retrying so the purchase is only refunded once
+}
+
+export interface RefundResult {
+  transaction_id: string;
+  amount_refunded: number;
+  points_reversed: number;
+  balance: number;
+  approved_by: string | null;
+  order_status: OrderStatus | null;
+}
+
+// The refund would take the balance below zero and no manager has signed it off yet
+export interface RefundApprovalRequired {
+  requires_approval: true;
+  error: string;
+  shortfall?: number;
+}
+
+type PurchaseRow = Transaction & {
+  customer: RefundablePurchase['customer'];
+  orders: NonNullable<RefundablePurchase['order']>[] | null;
+  reversals: { amount_spent: number | null; points: number }[] | null;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const toRefundablePurchase = ({ orders, reversals, ...purchase }: PurchaseRow): RefundablePurchase => {
+  const refundedAmount = (reversals || []).reduce((sum, r) => sum - (r.amount_spent || 0), 0);
+  const refundedPoints = (reversals || []).reduce((sum, r) => sum - r.points, 0);
+
+  return {
+    ...purchase,
+    order: orders?.[0] ?? null,
+    refunded_amount: roundMoney(refundedAmount),
+    refunded_points: refundedPoints,
+    remaining_amount: roundMoney(Math.max(0, (purchase.amount_spent || 0) - refundedAmount)),
+    remaining_points: Math.max(0, purchase.points - refundedPoints)
+  };
+};
+
+export class RefundService {
+  /**
+   * Client-side mirror of how `refund_purchase` splits points on a partial refund,
+   * so the form can show what will come off the balance.
+   */
+  static previewPointsReversed(purchase: RefundablePurchase, amount: number): number {
+    if (amount >= purchase.remaining_amount || !purchase.amount_spent) {
+      return purchase.remaining_points;
+    }
+
+    return Math.min(
+      purchase.remaining_points,
+      Math.round(purchase.points * roundMoney(amount) / purchase.amount_spent)
+    );
+  }
+
+  static async getRefundablePurchases(
+    restaurantId: string,
+    filters: { customerId?: string; branchId?: string; limit?: number } = {}
+  ): Promise<RefundablePurchase[]> {
+    try {
+      if (!restaurantId) return [];
+
+      let query = supabase
+        .from('transactions')
+        .select(`
+          *,
+          customer:customers(id, first_name, last_name, email, total_points),
+          orders(id, order_number, status),
+          reversals:transactions!transactions_reverses_transaction_id_fkey(amount_spent, points)
+        `)
+        .eq('restaurant_id', restaurantId)
+        .eq('type', 'purchase')
+        .order('created_at', { ascending: false })
+        .limit(filters.limit ?? 20);
+
+      if (filters.customerId) query = query.eq('customer_id', filters.customerId);
+      if (filters.branchId) query = query.eq('branch_id', filters.branchId);
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return ((data || []) as PurchaseRow[]).map(toRefundablePurchase);
+    } catch (error) {
+      console.error('Error in getRefundablePurchases:', error);
+      return [];
+    }
+  }
+
+  // Amounts, points, the tier and approval are all settled in the database
+  static async refundPurchase(
+    transactionId: string,
+    request: RefundRequest = {}
+  ): Promise<RefundResult | RefundApprovalRequired> {
+    const { data, error } = await supabase.rpc('refund_purchase', {
+      p_transaction_id: transactionId,
+      p_amount: request.amount ?? null,
+      p_reason: request.reason?.trim() || null,
+      p_approver_staff_id: request.approverStaffId || null,
+      p_approver_pin: request.approverPin || null,
+      p_idempotency_key: request.idempotencyKey ?? crypto.randomUUID()
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data?.requires_approval) {
+      return data as RefundApprovalRequired;
+    }
+
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    return data as RefundResult;
+  }
+}
@@ -1,11 +1,35 @@
-import { supabase } from '../lib/supabase';
+import { supabase, walletSupabase } from '../lib/supabase';
 import { Database } from '../lib/supabase';
+import { LoyaltyConfigService } from './loyaltyConfigService';
 
 type Reward = Database['public']['Tables']['rewards']['Row'];
 type RewardInsert = Database['public']['Tables']['rewards']['Insert'];
 type RewardUpdate = Database['public']['Tables']['rewards']['Update'];
 type RewardRedemption = Database['public']['Tables']['reward_redemptions']['Row'];
 
+export interface RedemptionResult {
+  redemption_id: string;
+  code: string;
+  status: RewardRedemption['status'];
+  points_used: number;
+  reward_name: string;
+}
+
+export interface RedemptionCodeDetails {
+  redemption_id: string;
+  code: string;
+  status: RewardRedemption['status'];
+  points_used: number;
+  redeemed_at: string;
+  used_at: string | null;
+  expires_at: string | null;
+  void_reason: string | null;
+  reward_name: string;
+  reward_description: string | null;
+  customer_name: string;
+  customer_email: string;
+}
+
 export class RewardService {
   static async getRewards(restaurantId: string): Promise<Reward[]> {
     try {
@@ -35,7 +59,7 @@ export class RewardService {
       console.log('🔍 DEBUG: Fetching rewards for restaurant:', restaurantId, 'customer:', customerId);
       
       // Get customer tier to filter rewards appropriately
-      const { data: customer, error: customerError } = await supabase
+      const { data: customer, error: customerError } = await walletSupabase()
         .from('customers')
         .select('current_tier, total_points')
         .eq('id', customerId)
@@ -47,11 +71,12 @@ export class RewardService {
         // Don't return early, continue with default tier
       }
 
-      const customerTier = customer?.current_tier || 'bronze';
+      const ladder = (await LoyaltyConfigService.getLoyaltyConfig(restaurantId)).tierLadder;
+      const customerTier = customer?.current_tier || ladder.tiers[0]?.id;
       console.log('👤 DEBUG: Customer tier:', customerTier, 'Customer points:', customer?.total_points);
 
       // Get all active rewards for the restaurant
-      const { data, error } = await supabase
+      const { data, error } = await walletSupabase()
         .from('rewards')
         .select('*')
         .eq('restaurant_id', restaurantId)
@@ -67,15 +92,11 @@ export class RewardService {
       console.log('🎁 DEBUG: Raw rewards data:', data);
       
       // Filter rewards based on customer tier
-      const tierOrder = { bronze: 0, silver: 1, gold: 2 };
-      const customerTierLevel = tierOrder[customerTier as keyof typeof tierOrder];
-      
       const availableRewards = (data || []).filter(reward => {
-        const rewardTierLevel = tierOrder[reward.min_tier as keyof typeof tierOrder];
-        const tierAllowed = customerTierLevel >= rewardTierLevel;
+        const tierAllowed = LoyaltyConfigService.meetsTier(ladder, customerTier, reward.min_tier);
         const isAvailable = !reward.total_available || reward.total_redeemed < reward.total_available;
         
-        console.log(`🎯 DEBUG: Reward "${reward.name}": tier ${reward.min_tier} (${rewardTierLevel}) vs customer ${customerTier} (${customerTierLevel}) = ${tierAllowed}, available: ${isAvailable}, active: ${reward.is_active}`);
+        console.log(`🎯 DEBUG: Reward "${reward.name}": tier ${reward.min_tier} vs customer ${customerTier} = ${tierAllowed}, available: ${isAvailable}, active: ${reward.is_active}`);
         
         return tierAllowed && isAvailable && reward.is_active;
       });
@@ -172,90 +193,162 @@ export class RewardService {
     }
   }
 
-  static async redeemReward(restaurantId: string, customerId: string, rewardId: string): Promise<RewardRedemption> {
-  }
-  static async redeemReward(restaurantId: string, customerId: string, rewardId: string, branchId?: string): Promise<RewardRedemption> {
+  static async redeemReward(
+    restaurantId: string,
+    customerId: string,
+    rewardId: string,
+    branchId?: string,
+    markUsed = false,
+    idempotencyKey: string = crypto.randomUUID(), // Pass the same key when retrying
+    staffMemberId: string | null = null // Who made a redemption replayed from the offline queue
+  ): Promise<RedemptionResult> {
     if (!restaurantId) {
       throw new Error('Restaurant not found');
     }
 
-    // Get reward details
-    const reward = await this.getReward(restaurantId, rewardId);
-    if (!reward) {
-      throw new Error('Reward not found');
+    // Eligibility, point deduction, stock and the code are all handled in one transaction
+    const { data, error } = await walletSupabase().rpc('redeem_reward', {
+      p_restaurant_id: restaurantId,
+      p_customer_id: customerId,
+      p_reward_id: rewardId,
+      p_branch_id: branchId || null,
+      p_mark_used: markUsed,
+      p_idempotency_key: idempotencyKey,
+      p_staff_member_id: staffMemberId
+    });
+
+    if (error) {
+      throw new Error(error.message);
     }
-    
-    // Get customer details
-    const { data: customer, error: customerError } = await supabase
-      .from('customers')
-      .select('total_points, current_tier')
-      .eq('id', customerId)
-      .eq('restaurant_id', restaurantId)
-      .single();
 
-    if (customerError || !customer) {
-      throw new Error('Customer not found');
+    return data as RedemptionResult;
+  }
+
+  static async verifyRedemptionCode(restaurantId: string, code: string): Promise<RedemptionCodeDetails> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
     }
 
-    // Check if customer has enough points
-    if (customer.total_points < reward.points_required) {
-      throw new Error('Insufficient points for this reward');
+    const { data, error } = await supabase.rpc('verify_redemption_code', {
+      p_restaurant_id: restaurantId,
+      p_code: code
+    });
+
+    if (error) {
+      throw new Error(error.message);
     }
 
-    // Check tier requirement
-    const tierOrder = { bronze: 0, silver: 1, gold: 2 };
-    const customerTierLevel = tierOrder[customer.current_tier as keyof typeof tierOrder];
-    const rewardTierLevel = tierOrder[reward.min_tier as keyof typeof tierOrder];
-    
-    if (customerTierLevel < rewardTierLevel) {
-      throw new Error(`This reward requires ${reward.min_tier} tier or higher`);
+    return data as RedemptionCodeDetails;
+  }
+
+  static async consumeRedemptionCode(restaurantId: string, code: string, branchId?: string): Promise<RedemptionCodeDetails> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
     }
 
-    // Check availability
-    if (reward.total_available && reward.total_redeemed >= reward.total_available) {
-      throw new Error('This reward is no longer available');
+    const { data, error } = await supabase.rpc('consume_redemption_code', {
+      p_restaurant_id: restaurantId,
+      p_code: code,
+      p_branch_id: branchId || null
+    });
+
+    if (error) {
+      throw new Error(error.message);
     }
 
-    // Create redemption record
-    const { data: redemption, error: redemptionError } = await supabase
-      .from('reward_redemptions')
-      .insert({
-        restaurant_id: restaurantId,
-        customer_id: customerId,
-        reward_id: rewardId,
-        points_used: reward.points_required,
-      })
-      .select()
-      .single();
+    return data as RedemptionCodeDetails;
+  }
 
-    if (redemptionError) {
-      throw new Error(redemptionError.message);
+  static async cancelRedemption(customerId: string, redemptionId: string): Promise<void> {
+    const { error } = await walletSupabase().rpc('cancel_redemption', {
+      p_customer_id: customerId,
+      p_redemption_id: redemptionId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async voidRedemption(restaurantId: string, redemptionId: string, reason: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
     }
 
-    // Process point transaction (deduct points)
-    const { error: transactionError } = await supabase.rpc('process_point_transaction', {
+    if (!reason.trim()) {
+      throw new Error('Please give a reason for voiding this redemption');
+    }
+
+    const { error } = await supabase.rpc('void_redemption', {
       p_restaurant_id: restaurantId,
-      p_customer_id: customerId,
-      p_type: 'redemption',
-      p_points: -reward.points_required,
-      p_description: `Redeemed: ${reward.name}`,
-      p_amount_spent: 0,
-      p_reward_id: rewardId,
-      p_branch_id: branchId || null
+      p_redemption_id: redemptionId,
+      p_reason: reason.trim()
     });
 
-    if (transactionError) {
-      throw new Error(transactionError.message);
+    if (error) {
+      throw new Error(error.message);
     }
+  }
 
-    // Update reward redemption count
-    await supabase
-      .from('rewards')
-      .update({ total_redeemed: reward.total_redeemed + 1 })
-      .eq('id', rewardId)
-      .eq('restaurant_id', restaurantId);
+  // Codes the customer can still show or cancel, soonest expiry first
+  static async getPendingRedemptions(restaurantId: string, customerId: string): Promise<(RewardRedemption & {
+    reward: { name: string };
+  })[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await walletSupabase()
+        .from('reward_redemptions')
+        .select(`
+          *,
+          reward:rewards(name)
+        `)
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .eq('status', 'pending')
+        .order('expires_at', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getPendingRedemptions:', error);
+      return [];
+    }
+  }
+
+  // Every redemption by one customer, newest first, for the dashboard customer drawer
+  static async getCustomerRedemptions(restaurantId: string, customerId: string): Promise<(RewardRedemption & {
+    reward: { name: string } | null;
+  })[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('reward_redemptions')
+        .select(`
+          *,
+          reward:rewards(name)
+        `)
+        .eq('restaurant_id', restaurantId)
+        .eq('customer_id', customerId)
+        .order('redeemed_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getCustomerRedemptions:', error);
+      return [];
+    }
+  }
 
-    return redemption;
+  static formatRedemptionCode(code: string): string {
+    return code.length > 5 ? `${code.slice(0, 5)}-${code.slice(5)}` : code;
   }
 
   static async getRedemptions(restaurantId: string): Promise<(RewardRedemption & { 
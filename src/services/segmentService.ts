@@ -0,0 +1,244 @@
+import { supabase } from '../lib/supabase';
+
+// Every condition that is set must hold; see customer_matches_segment() in the database
+export interface SegmentRules {
+  tiers?: string[];
+  minPoints?: number;
+  maxPoints?: number;
+  minSpent?: number;
+  maxSpent?: number;
+  lastVisitWithinDays?: number;
+  noVisitForDays?: number; // Includes customers who never visited
+  minVisits?: number;
+  maxVisits?: number;
+  visitWindowDays?: number; // Visits are counted over all time when unset
+  branchIds?: string[];
+  redeemedRewardIds?: string[];
+  redeemedCategories?: string[];
+  redeemedWithinDays?: number;
+  birthdayMonths?: number[]; // 1-12
+}
+
+export interface CustomerSegment {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description: string | null;
+  rules: SegmentRules;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentInput {
+  name: string;
+  description?: string;
+  rules: SegmentRules;
+}
+
+// Names the ids in a rule summary
+export interface SegmentLabels {
+  tierName: (tierId: string) => string;
+  branchName: (branchId: string) => string;
+  rewardName: (rewardId: string) => string;
+}
+
+export const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const range = (min: number | undefined, max: number | undefined, unit: (value: number) => string) => {
+  if (min !== undefined && max !== undefined) return `${unit(min)}–${unit(max)}`;
+  if (min !== undefined) return `at least ${unit(min)}`;
+  return `at most ${unit(max as number)}`;
+};
+
+export class SegmentService {
+  static async getSegments(restaurantId: string): Promise<CustomerSegment[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('customer_segments')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as CustomerSegment[];
+    } catch (error) {
+      console.error('Error in getSegments:', error);
+      return [];
+    }
+  }
+
+  // Current member count of every saved segment, by segment id
+  static async getMemberCounts(restaurantId: string): Promise<Record<string, number>> {
+    try {
+      if (!restaurantId) return {};
+
+      const { data, error } = await supabase.rpc('segment_member_counts', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || {}) as Record<string, number>;
+    } catch (error) {
+      console.error('Error in getMemberCounts:', error);
+      return {};
+    }
+  }
+
+  // Counts rules that haven't been saved yet, for the builder's live preview
+  static async countMembers(restaurantId: string, rules: SegmentRules): Promise<number | null> {
+    try {
+      if (!restaurantId) return null;
+
+      const { data, error } = await supabase.rpc('count_segment_members', {
+        p_restaurant_id: restaurantId,
+        p_rules: this.cleanRules(rules)
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data as number;
+    } catch (error) {
+      console.error('Error in countMembers:', error);
+      return null;
+    }
+  }
+
+  static async getCustomerSegmentIds(restaurantId: string, customerId: string): Promise<string[]> {
+    try {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('customer_segment_ids', {
+        p_restaurant_id: restaurantId,
+        p_customer_id: customerId
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []) as string[];
+    } catch (error) {
+      console.error('Error in getCustomerSegmentIds:', error);
+      return [];
+    }
+  }
+
+  static async createSegment(restaurantId: string, segment: SegmentInput): Promise<CustomerSegment> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('customer_segments')
+      .insert({
+        restaurant_id: restaurantId,
+        name: segment.name.trim(),
+        description: segment.description?.trim() || null,
+        rules: this.cleanRules(segment.rules)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505' ? 'A segment with this name already exists' : error.message);
+    }
+
+    return data as CustomerSegment;
+  }
+
+  static async updateSegment(restaurantId: string, segmentId: string, segment: SegmentInput): Promise<CustomerSegment> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data, error } = await supabase
+      .from('customer_segments')
+      .update({
+        name: segment.name.trim(),
+        description: segment.description?.trim() || null,
+        rules: this.cleanRules(segment.rules)
+      })
+      .eq('id', segmentId)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.code === '23505' ? 'A segment with this name already exists' : error.message);
+    }
+
+    return data as CustomerSegment;
+  }
+
+  static async deleteSegment(restaurantId: string, segmentId: string): Promise<void> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { error } = await supabase
+      .from('customer_segments')
+      .delete()
+      .eq('id', segmentId)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      // Campaigns keep their segment; deleting it would open the bonus to everyone
+      throw new Error(error.code === '23503'
+        ? 'A campaign targets this segment. Change or delete the campaign first.'
+        : error.message);
+    }
+  }
+
+  // Drops conditions left empty in the builder, so they don't count as "none of these"
+  static cleanRules(rules: SegmentRules): SegmentRules {
+    return Object.fromEntries(
+      Object.entries(rules).filter(([, value]) =>
+        Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && !Number.isNaN(value)
+      )
+    ) as SegmentRules;
+  }
+
+  // One short phrase per condition, for segment cards and pickers
+  static describeRules(rules: SegmentRules, labels: SegmentLabels): string[] {
+    const parts: string[] = [];
+    const days = (value: number) => `${value} day${value === 1 ? '' : 's'}`;
+
+    if (rules.tiers?.length) parts.push(rules.tiers.map(labels.tierName).join(' or '));
+    if (rules.minPoints !== undefined || rules.maxPoints !== undefined) {
+      parts.push(`${range(rules.minPoints, rules.maxPoints, value => value.toLocaleString())} points`);
+    }
+    if (rules.minSpent !== undefined || rules.maxSpent !== undefined) {
+      parts.push(`Spent ${range(rules.minSpent, rules.maxSpent, value => `AED ${value.toLocaleString()}`)}`);
+    }
+    if (rules.lastVisitWithinDays !== undefined) parts.push(`Visited in the last ${days(rules.lastVisitWithinDays)}`);
+    if (rules.noVisitForDays !== undefined) parts.push(`No visit in ${days(rules.noVisitForDays)}`);
+    if (rules.minVisits !== undefined || rules.maxVisits !== undefined) {
+      const window = rules.visitWindowDays !== undefined ? ` in ${days(rules.visitWindowDays)}` : '';
+      parts.push(`${range(rules.minVisits, rules.maxVisits, value => String(value))} visits${window}`);
+    }
+    if (rules.branchIds?.length) parts.push(`Visited ${rules.branchIds.map(labels.branchName).join(' or ')}`);
+    if (rules.redeemedRewardIds?.length || rules.redeemedCategories?.length) {
+      const rewards = [
+        ...(rules.redeemedRewardIds || []).map(labels.rewardName),
+        ...(rules.redeemedCategories || []).map(category => `any ${category} reward`)
+      ];
+      const window = rules.redeemedWithinDays !== undefined ? ` in ${days(rules.redeemedWithinDays)}` : '';
+      parts.push(`Redeemed ${rewards.join(' or ')}${window}`);
+    }
+    if (rules.birthdayMonths?.length) {
+      parts.push(`Birthday in ${rules.birthdayMonths.map(month => MONTHS[month - 1]).join(', ')}`);
+    }
+
+    return parts;
+  }
+}
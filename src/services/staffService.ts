@@ -0,0 +1,168 @@
+import { supabase, setStaffSessionToken } from '../lib/supabase';
+import { Database } from '../lib/supabase';
+
+export type StaffMember = Database['public']['Tables']['staff_members']['Row'];
+export type StaffRole = StaffMember['role'];
+
+export interface StaffMemberInsert {
+  branch_id: string;
+  name: string;
+  role: StaffRole;
+  pin: string;
+}
+
+export type StaffMemberUpdate = Database['public']['Tables']['staff_members']['Update'];
+
+export interface StaffSession {
+  token: string;
+  expires_at: string;
+  staff_member: {
+    id: string;
+    name: string;
+    role: StaffRole;
+    branch_id: string;
+  };
+}
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  cashier: 'Cashier',
+  manager: 'Manager'
+};
+
+export class StaffService {
+  static async getStaffMembers(restaurantId: string, branchId?: string): Promise<StaffMember[]> {
+    try {
+      if (!restaurantId) return [];
+
+      let query = supabase
+        .from('staff_members')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('name', { ascending: true });
+
+      if (branchId) {
+        query = query.eq('branch_id', branchId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getStaffMembers:', error);
+      return [];
+    }
+  }
+
+  static async createStaffMember(restaurantId: string, staffData: StaffMemberInsert): Promise<StaffMember> {
+    if (!restaurantId) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { pin, ...memberData } = staffData;
+    const { data, error } = await supabase
+      .from('staff_members')
+      .insert({ ...memberData, restaurant_id: restaurantId })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    try {
+      await this.setPin(data.id, pin);
+    } catch (pinError) {
+      // A staff member who can never sign in is worse than none at all
+      await supabase.from('staff_members').delete().eq('id', data.id);
+      throw pinError;
+    }
+
+    return data;
+  }
+
+  static async updateStaffMember(
+    restaurantId: string,
+    staffMemberId: string,
+    updates: StaffMemberUpdate
+  ): Promise<StaffMember> {
+    const { data, error } = await supabase
+      .from('staff_members')
+      .update(updates)
+      .eq('id', staffMemberId)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async deleteStaffMember(restaurantId: string, staffMemberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('staff_members')
+      .delete()
+      .eq('id', staffMemberId)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // PINs are hashed in the database and never read back
+  static async setPin(staffMemberId: string, pin: string): Promise<void> {
+    if (!/^\d{4,8}$/.test(pin)) {
+      throw new Error('PIN must be 4 to 8 digits');
+    }
+
+    const { error } = await supabase.rpc('set_staff_pin', {
+      p_staff_member_id: staffMemberId,
+      p_pin: pin
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // Verifies the PIN server-side; from then on every request carries the session
+  static async startSession(staffMemberId: string, pin: string): Promise<StaffSession> {
+    const { data, error } = await supabase.rpc('start_staff_session', {
+      p_staff_member_id: staffMemberId,
+      p_pin: pin
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    const session = data as StaffSession;
+    setStaffSessionToken(session.token);
+    return session;
+  }
+
+  static async endSession(): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('end_staff_session');
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      console.error('Error in endSession:', error);
+    } finally {
+      setStaffSessionToken(null);
+    }
+  }
+}
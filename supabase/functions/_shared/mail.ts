@@ -0,0 +1,120 @@
+import nodemailer from "npm:nodemailer@6.9.14";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local stand-in: prints the message to the function logs instead of sending it
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+class ResendTransport implements MailTransport {
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed: ${await response.text()}`);
+    }
+  }
+}
+
+// Any SMTP server; locally, the mail catcher that `supabase start` runs
+class SmtpTransport implements MailTransport {
+  private transporter: ReturnType<typeof nodemailer.createTransport>;
+
+  constructor(host: string, port: number, private from: string, user?: string, pass?: string) {
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers,
+    });
+  }
+}
+
+// `supabase start` serves functions from containers that reach the API at one of these hosts
+const LOCAL_HOSTS = ['kong', 'localhost', '127.0.0.1', 'host.docker.internal'];
+
+const isLocalDevelopment = () => {
+  try {
+    return LOCAL_HOSTS.includes(new URL(Deno.env.get('SUPABASE_URL') ?? '').hostname);
+  } catch {
+    return false;
+  }
+};
+
+// MAIL_TRANSPORT picks the implementation; add new providers here. Only local development
+// may print mail to the logs, so a deployed project without a provider fails loudly instead
+export const getMailTransport = (): MailTransport => {
+  const transport = Deno.env.get('MAIL_TRANSPORT') || (isLocalDevelopment() ? 'console' : '');
+
+  switch (transport) {
+    case '':
+      throw new Error('MAIL_TRANSPORT is not configured');
+    case 'console':
+      if (!isLocalDevelopment()) {
+        throw new Error('MAIL_TRANSPORT=console only works in local development');
+      }
+      return new ConsoleTransport();
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) {
+        throw new Error('RESEND_API_KEY is not configured');
+      }
+      return new ResendTransport(apiKey, Deno.env.get('MAIL_FROM') || 'VOYA <no-reply@voya.app>');
+    }
+    case 'smtp': {
+      const host = Deno.env.get('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST is not configured');
+      }
+      return new SmtpTransport(
+        host,
+        Number(Deno.env.get('SMTP_PORT') || 587),
+        Deno.env.get('MAIL_FROM') || 'VOYA <no-reply@voya.app>',
+        Deno.env.get('SMTP_USER') || undefined,
+        Deno.env.get('SMTP_PASS') || undefined
+      );
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
@@ -0,0 +1,59 @@
+export interface SmsMessage {
+  to: string; // E.164
+  text: string;
+}
+
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Local stand-in: prints the message to the function logs instead of sending it
+class ConsoleTransport implements SmsTransport {
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`📱 SMS to ${message.to}:\n${message.text}`);
+  }
+}
+
+class TwilioTransport implements SmsTransport {
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        From: this.from,
+        To: message.to,
+        Body: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS delivery failed: ${await response.text()}`);
+    }
+  }
+}
+
+// SMS_TRANSPORT picks the implementation; add new providers here
+export const getSmsTransport = (): SmsTransport => {
+  const transport = Deno.env.get('SMS_TRANSPORT') || 'console';
+
+  switch (transport) {
+    case 'console':
+      return new ConsoleTransport();
+    case 'twilio': {
+      const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+      const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+      const from = Deno.env.get('TWILIO_FROM_NUMBER');
+      if (!accountSid || !authToken || !from) {
+        throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be configured');
+      }
+      return new TwilioTransport(accountSid, authToken, from);
+    }
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT: ${transport}`);
+  }
+};
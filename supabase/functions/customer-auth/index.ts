@@ -0,0 +1,359 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { SignJWT } from "npm:jose@5.9.6";
+import { getMailTransport } from "../_shared/mail.ts";
+import { getSmsTransport } from "../_shared/sms.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODES_PER_WINDOW = 5;
+const RATE_WINDOW_MINUTES = 15;
+const MAX_ATTEMPTS = 5;
+const SESSION_DAYS = 30;
+
+interface CustomerProfile {
+  firstName: string;
+  lastName: string;
+  email?: string; // Required when signing up by phone, and confirmed with a code of its own
+  phone?: string;
+  birthDate?: string;
+  referralCode?: string;
+}
+
+interface AuthRequest {
+  action: 'request' | 'verify';
+  restaurantId: string;
+  // One of the two; a phone number gets its code by SMS
+  email?: string;
+  phone?: string;
+  code?: string;
+  emailCode?: string; // Phone sign-ups only: the code sent to the profile's email
+  profile?: CustomerProfile;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Salted with the restaurant and email or phone so a leaked hash can't be matched across accounts
+const hashCode = async (restaurantId: string, identifier: string, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${restaurantId}:${identifier}:${code}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const generateCode = () => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (value % 1_000_000).toString().padStart(6, '0');
+};
+
+const validEmail = (value: string) => /\S+@\S+\.\S+/.test(value);
+
+// Finds the latest open code for the email or phone and checks the guess against it
+const checkLoginCode = async (
+  admin: ReturnType<typeof createClient>,
+  restaurantId: string,
+  identifierColumn: 'email' | 'phone',
+  identifier: string,
+  code: string
+) => {
+  const { data: loginCode } = await admin
+    .from('customer_login_codes')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .eq(identifierColumn, identifier)
+    .is('consumed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!loginCode) {
+    throw new Error('This code has expired. Please request a new one.');
+  }
+
+  // Every guess takes an attempt before it is checked, so parallel guesses can't exceed the limit
+  const { data: attempt, error: attemptError } = await admin.rpc('claim_login_code_attempt', {
+    p_code_id: loginCode.id,
+    p_max_attempts: MAX_ATTEMPTS,
+  });
+  if (attemptError) {
+    throw new Error(attemptError.message);
+  }
+
+  if (attempt === null) {
+    throw new Error('Too many incorrect attempts. Please request a new code.');
+  }
+
+  if (loginCode.code_hash !== await hashCode(restaurantId, identifier, code.trim())) {
+    throw new Error('Incorrect code');
+  }
+
+  return loginCode;
+};
+
+const consumeLoginCode = (admin: ReturnType<typeof createClient>, codeId: string) =>
+  admin
+    .from('customer_login_codes')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', codeId);
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Service role: login codes are invisible to clients, and the customer isn't signed in yet
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body: AuthRequest = await req.json();
+    let email = '';
+    let phone = '';
+
+    if (body.phone) {
+      // The database's normaliser, so the number matches customers.phone exactly
+      const { data: normalized } = await admin.rpc('normalize_phone', { p_phone: String(body.phone) });
+      if (!normalized) {
+        throw new Error('Please enter a valid phone number');
+      }
+      phone = normalized;
+    } else {
+      email = String(body.email || '').trim().toLowerCase();
+      if (!validEmail(email)) {
+        throw new Error('Please enter a valid email address');
+      }
+    }
+
+    const identifierColumn = phone ? 'phone' : 'email';
+    const identifier = phone || email;
+
+    const { data: restaurant } = await admin
+      .from('restaurants')
+      .select('id, name, slug')
+      .eq('id', body.restaurantId)
+      .single();
+
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    if (body.action === 'request') {
+      // A phone sign-up's email gets a code of its own, so it's only stored once it's been confirmed
+      const signupEmail = phone && body.profile ? String(body.profile.email || '').trim().toLowerCase() : '';
+      if (phone && body.profile && !validEmail(signupEmail)) {
+        throw new Error('Please enter a valid email address');
+      }
+
+      const windowStart = new Date(Date.now() - RATE_WINDOW_MINUTES * 60_000).toISOString();
+      const recentCodes = async (column: 'email' | 'phone', value: string) => {
+        const { count } = await admin
+          .from('customer_login_codes')
+          .select('id', { count: 'exact', head: true })
+          .eq('restaurant_id', restaurant.id)
+          .eq(column, value)
+          .gte('created_at', windowStart);
+        return count ?? 0;
+      };
+
+      if (
+        await recentCodes(identifierColumn, identifier) >= MAX_CODES_PER_WINDOW
+        || (signupEmail && await recentCodes('email', signupEmail) >= MAX_CODES_PER_WINDOW)
+      ) {
+        throw new Error('Too many codes requested. Please try again in a few minutes.');
+      }
+
+      const code = generateCode();
+      const { error: insertError } = await admin
+        .from('customer_login_codes')
+        .insert({
+          restaurant_id: restaurant.id,
+          email: email || null,
+          phone: phone || null,
+          code_hash: await hashCode(restaurant.id, identifier, code),
+          profile: body.profile ?? null,
+          expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60_000).toISOString(),
+        });
+
+      if (insertError) {
+        throw new Error(insertError.message);
+      }
+
+      if (phone) {
+        await getSmsTransport().send({
+          to: phone,
+          text: `${code} is your ${restaurant.name} sign-in code. It expires in ${CODE_TTL_MINUTES} minutes.`,
+        });
+
+        if (signupEmail) {
+          const emailCode = generateCode();
+          const { error: emailCodeError } = await admin
+            .from('customer_login_codes')
+            .insert({
+              restaurant_id: restaurant.id,
+              email: signupEmail,
+              code_hash: await hashCode(restaurant.id, signupEmail, emailCode),
+              expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60_000).toISOString(),
+            });
+
+          if (emailCodeError) {
+            throw new Error(emailCodeError.message);
+          }
+
+          await getMailTransport().send({
+            to: signupEmail,
+            subject: `Confirm your email for ${restaurant.name}: ${emailCode}`,
+            text: [
+              `Enter ${emailCode} to confirm this email address for your ${restaurant.name} account.`,
+              `The code expires in ${CODE_TTL_MINUTES} minutes. If you didn't sign up, you can ignore this email.`,
+            ].join('\n\n'),
+          });
+        }
+
+        return json({ sent: true, expiresInMinutes: CODE_TTL_MINUTES });
+      }
+
+      const walletUrl = Deno.env.get('WALLET_URL');
+      const magicLink = walletUrl
+        ? `${walletUrl.replace(/\/$/, '')}/wallet/${restaurant.slug}?email=${encodeURIComponent(email)}&code=${code}`
+        : null;
+
+      await getMailTransport().send({
+        to: email,
+        subject: `Your ${restaurant.name} sign-in code: ${code}`,
+        text: [
+          `Your sign-in code for ${restaurant.name} is ${code}.`,
+          magicLink ? `Or open this link to sign in straight away: ${magicLink}` : '',
+          `The code expires in ${CODE_TTL_MINUTES} minutes. If you didn't ask for it, you can ignore this email.`,
+        ].filter(Boolean).join('\n\n'),
+      });
+
+      return json({ sent: true, expiresInMinutes: CODE_TTL_MINUTES });
+    }
+
+    if (body.action !== 'verify') {
+      throw new Error('Unknown action');
+    }
+
+    const loginCode = await checkLoginCode(admin, restaurant.id, identifierColumn, identifier, String(body.code || ''));
+
+    const customerQuery = admin
+      .from('customers')
+      .select('*')
+      .eq('restaurant_id', restaurant.id);
+
+    // Escape LIKE wildcards so the case-insensitive match is still an exact one
+    const { data: existingCustomer } = await (phone
+      ? customerQuery.eq('phone', phone)
+      : customerQuery.ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+    ).maybeSingle();
+
+    let customer = existingCustomer;
+
+    if (!customer) {
+      // Magic links don't carry the signup form, so fall back to what came with the request
+      const profile: CustomerProfile | null = body.profile ?? loginCode.profile;
+      if (!profile?.firstName?.trim() || !profile?.lastName?.trim()) {
+        throw new Error(`No account found for this ${phone ? 'phone number' : 'email'}. Please sign up instead.`);
+      }
+
+      // Every customer has an email; phone sign-ups give theirs in the signup form and
+      // confirm it with the code emailed alongside the text
+      const signupEmail = phone ? String(profile.email || '').trim().toLowerCase() : email;
+      if (!validEmail(signupEmail)) {
+        throw new Error('Please enter a valid email address');
+      }
+
+      let emailCodeId: string | null = null;
+      if (phone) {
+        if (!String(body.emailCode || '').trim()) {
+          throw new Error('Please enter the code we emailed you');
+        }
+
+        emailCodeId = (await checkLoginCode(admin, restaurant.id, 'email', signupEmail, String(body.emailCode))).id;
+      }
+
+      const { data: newCustomer, error: createError } = await admin
+        .from('customers')
+        .insert({
+          restaurant_id: restaurant.id,
+          first_name: profile.firstName.trim(),
+          last_name: profile.lastName.trim(),
+          email: signupEmail,
+          phone: phone || profile.phone || null,
+          date_of_birth: profile.birthDate || null,
+        })
+        .select()
+        .single();
+
+      if (createError) {
+        throw new Error(createError.code === '23505'
+          ? 'This email or phone number already has an account. Please sign in instead.'
+          : createError.message);
+      }
+
+      if (emailCodeId) {
+        await consumeLoginCode(admin, emailCodeId);
+      }
+
+      // A bad or blocked code shouldn't stop the signup itself
+      if (profile.referralCode?.trim()) {
+        const { error: referralError } = await admin.rpc('apply_referral_code', {
+          p_customer_id: newCustomer.id,
+          p_code: profile.referralCode,
+        });
+
+        if (referralError) {
+          console.error('Error applying referral code:', referralError);
+        }
+      }
+
+      // The inserted row predates the welcome and birthday bonuses its triggers added
+      const { data: refreshedCustomer } = await admin
+        .from('customers')
+        .select('*')
+        .eq('id', newCustomer.id)
+        .single();
+
+      customer = refreshedCustomer ?? newCustomer;
+    }
+
+    await consumeLoginCode(admin, loginCode.id);
+
+    // Signed with the project's JWT secret so PostgREST accepts it; role stays anon and
+    // RLS scopes it to this customer at this restaurant through the wallet_* claims
+    const secret = Deno.env.get('WALLET_JWT_SECRET');
+    if (!secret) {
+      throw new Error('WALLET_JWT_SECRET is not configured');
+    }
+
+    const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60_000);
+    const token = await new SignJWT({
+      role: 'anon',
+      wallet_customer_id: customer.id,
+      wallet_restaurant_id: restaurant.id,
+    })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setSubject(customer.id)
+      .setIssuedAt()
+      .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+      .sign(new TextEncoder().encode(secret));
+
+    return json({
+      token,
+      expiresAt: expiresAt.toISOString(),
+      customer,
+    });
+  } catch (error) {
+    console.error('Error in customer auth:', error);
+    return json({ error: error.message }, 400);
+  }
+});
@@ -0,0 +1,388 @@
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.53.0";
+import * as XLSX from "npm:xlsx@0.18.5";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const PAGE_SIZE = 1000;
+const RETENTION_DAYS = 7;
+// A running export that hasn't finished by now died with its function call
+const STALE_MINUTES = 10;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Dataset = 'customers' | 'transactions' | 'redemptions' | 'rewards';
+type Format = 'csv' | 'xlsx' | 'json';
+type Record_ = Record<string, string | number | boolean | null>;
+
+interface ExportRow {
+  id: string;
+  restaurant_id: string;
+  dataset: Dataset;
+  format: Format;
+  filters: { from?: string; to?: string; branchId?: string; segmentId?: string };
+  status: string;
+  started_at: string;
+}
+
+interface Named {
+  name: string;
+}
+
+interface CustomerRef {
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+const CONTENT_TYPES: Record<Format, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const customerName = (customer: CustomerRef | null) =>
+  customer ? `${customer.first_name} ${customer.last_name}`.trim() : null;
+
+// Reads every page of a query; PostgREST caps each response
+const fetchAll = async <T>(
+  build: () => { range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }> }
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const loadRecords = async (admin: SupabaseClient, job: ExportRow): Promise<{ columns: string[]; records: Record_[] }> => {
+  const { from, to, branchId, segmentId } = job.filters;
+  const branch = branchId && UUID_PATTERN.test(branchId) ? branchId : null;
+  const segment = segmentId && UUID_PATTERN.test(segmentId) ? segmentId : null;
+
+  if (job.dataset === 'customers') {
+    const { data: restaurant } = await admin
+      .from('restaurants')
+      .select('settings')
+      .eq('id', job.restaurant_id)
+      .single();
+    const tierNames = new Map<string, string>(
+      (restaurant?.settings?.tierLadder?.tiers || []).map((tier: { id: string; name: string }) => [tier.id, tier.name])
+    );
+
+    // A deleted segment would otherwise export an empty file
+    if (segment) {
+      const { data: segmentRow } = await admin
+        .from('customer_segments')
+        .select('id')
+        .eq('id', segment)
+        .eq('restaurant_id', job.restaurant_id)
+        .maybeSingle();
+      if (!segmentRow) throw new Error('The segment for this export no longer exists');
+    }
+
+    const rows = await fetchAll<Record<string, unknown>>(() => {
+      const columns = `id, first_name, last_name, email, phone, date_of_birth, current_tier, total_points, lifetime_points,
+          total_spent, visit_count, last_visit, created_at${branch ? ', visits:transactions!inner(branch_id)' : ''}`;
+      // A branch keeps the customers who have at least one transaction there; segment_members
+      // returns customers rows, so it filters and embeds the same way
+      let query = (segment
+        ? admin.rpc('segment_members', { p_segment_id: segment }).select(columns)
+        : admin.from('customers').select(columns))
+        .eq('restaurant_id', job.restaurant_id)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+      if (from) query = query.gte('created_at', from);
+      if (to) query = query.lt('created_at', to);
+      if (branch) query = query.eq('visits.branch_id', branch);
+      return query;
+    });
+
+    const columns = ['id', 'first_name', 'last_name', 'email', 'phone', 'date_of_birth', 'tier', 'total_points',
+      'lifetime_points', 'total_spent', 'visit_count', 'last_visit', 'joined_at'];
+    return {
+      columns,
+      records: rows.map(row => ({
+        id: row.id as string,
+        first_name: row.first_name as string,
+        last_name: row.last_name as string,
+        email: row.email as string,
+        phone: (row.phone as string) ?? null,
+        date_of_birth: (row.date_of_birth as string) ?? null,
+        tier: tierNames.get(row.current_tier as string) ?? (row.current_tier as string),
+        total_points: row.total_points as number,
+        lifetime_points: row.lifetime_points as number,
+        total_spent: row.total_spent as number,
+        visit_count: row.visit_count as number,
+        last_visit: (row.last_visit as string) ?? null,
+        joined_at: row.created_at as string,
+      })),
+    };
+  }
+
+  if (job.dataset === 'transactions') {
+    const rows = await fetchAll<{
+      id: string;
+      created_at: string;
+      type: string;
+      points: number;
+      campaign_bonus_points: number;
+      amount_spent: number | null;
+      description: string | null;
+      customer: CustomerRef | null;
+      branch: Named | null;
+      staff: Named | null;
+    }>(() => {
+      let query = admin
+        .from('transactions')
+        .select(`id, created_at, type, points, campaign_bonus_points, amount_spent, description,
+          customer:customers(first_name, last_name, email), branch:branches(name), staff:staff_members(name)`)
+        .eq('restaurant_id', job.restaurant_id)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+      if (from) query = query.gte('created_at', from);
+      if (to) query = query.lt('created_at', to);
+      if (branch) query = query.eq('branch_id', branch);
+      return query;
+    });
+
+    const columns = ['id', 'created_at', 'type', 'points', 'campaign_bonus_points', 'amount_spent_aed', 'description',
+      'customer_name', 'customer_email', 'branch', 'staff'];
+    return {
+      columns,
+      records: rows.map(row => ({
+        id: row.id,
+        created_at: row.created_at,
+        type: row.type,
+        points: row.points,
+        campaign_bonus_points: row.campaign_bonus_points,
+        amount_spent_aed: row.amount_spent,
+        description: row.description,
+        customer_name: customerName(row.customer),
+        customer_email: row.customer?.email ?? null,
+        branch: row.branch?.name ?? null,
+        staff: row.staff?.name ?? null,
+      })),
+    };
+  }
+
+  if (job.dataset === 'redemptions') {
+    const rows = await fetchAll<{
+      id: string;
+      redeemed_at: string;
+      status: string;
+      code: string | null;
+      points_used: number;
+      expires_at: string | null;
+      used_at: string | null;
+      void_reason: string | null;
+      customer: CustomerRef | null;
+      reward: Named | null;
+      branch: Named | null;
+      used_branch: Named | null;
+      used_by_staff: Named | null;
+    }>(() => {
+      let query = admin
+        .from('reward_redemptions')
+        .select(`id, redeemed_at, status, code, points_used, expires_at, used_at, void_reason,
+          customer:customers(first_name, last_name, email), reward:rewards(name),
+          branch:branches!reward_redemptions_branch_id_fkey(name),
+          used_branch:branches!reward_redemptions_used_branch_id_fkey(name),
+          used_by_staff:staff_members!reward_redemptions_used_by_staff_id_fkey(name)`)
+        .eq('restaurant_id', job.restaurant_id)
+        .order('redeemed_at', { ascending: true })
+        .order('id', { ascending: true });
+      if (from) query = query.gte('redeemed_at', from);
+      if (to) query = query.lt('redeemed_at', to);
+      if (branch) query = query.or(`branch_id.eq.${branch},used_branch_id.eq.${branch}`);
+      return query;
+    });
+
+    const columns = ['id', 'redeemed_at', 'status', 'reward', 'points_used', 'code', 'customer_name', 'customer_email',
+      'branch', 'expires_at', 'used_at', 'used_at_branch', 'used_by_staff', 'void_reason'];
+    return {
+      columns,
+      records: rows.map(row => ({
+        id: row.id,
+        redeemed_at: row.redeemed_at,
+        status: row.status,
+        reward: row.reward?.name ?? null,
+        points_used: row.points_used,
+        code: row.code,
+        customer_name: customerName(row.customer),
+        customer_email: row.customer?.email ?? null,
+        branch: row.branch?.name ?? null,
+        expires_at: row.expires_at,
+        used_at: row.used_at,
+        used_at_branch: row.used_branch?.name ?? null,
+        used_by_staff: row.used_by_staff?.name ?? null,
+        void_reason: row.void_reason,
+      })),
+    };
+  }
+
+  // The reward catalog has no dates or branches to filter on
+  const columns = ['id', 'name', 'description', 'category', 'points_required', 'min_tier', 'is_active',
+    'total_available', 'total_redeemed', 'redemption_ttl_hours', 'created_at'];
+  const rows = await fetchAll<Record_>(() =>
+    admin
+      .from('rewards')
+      .select(columns.join(', '))
+      .eq('restaurant_id', job.restaurant_id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+  );
+  return { columns, records: rows };
+};
+
+const toCsvField = (value: Record_[string]) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const serialize = (format: Format, dataset: Dataset, columns: string[], records: Record_[]): Uint8Array => {
+  if (format === 'json') {
+    return new TextEncoder().encode(JSON.stringify(records, null, 2));
+  }
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(records, { header: columns }), dataset);
+    return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+  }
+
+  const lines = records.map(record => columns.map(column => toCsvField(record[column])).join(','));
+  // The byte order mark makes Excel open the file as UTF-8
+  return new TextEncoder().encode('﻿' + [columns.join(','), ...lines].join('\r\n'));
+};
+
+const removeExpiredExports = async (admin: SupabaseClient, restaurantId: string) => {
+  const { data: expired } = await admin
+    .from('data_exports')
+    .select('id, file_path')
+    .eq('restaurant_id', restaurantId)
+    .eq('status', 'completed')
+    .lt('expires_at', new Date().toISOString());
+
+  if (!expired || expired.length === 0) return;
+
+  const paths = expired.map(row => row.file_path).filter(Boolean) as string[];
+  if (paths.length > 0) {
+    await admin.storage.from('exports').remove(paths);
+  }
+
+  await admin
+    .from('data_exports')
+    .update({ status: 'expired', file_path: null })
+    .in('id', expired.map(row => row.id));
+};
+
+const runExport = async (admin: SupabaseClient, job: ExportRow) => {
+  try {
+    await removeExpiredExports(admin, job.restaurant_id);
+
+    const { columns, records } = await loadRecords(admin, job);
+    const file = serialize(job.format, job.dataset, columns, records);
+    const path = `${job.restaurant_id}/${job.id}.${job.format}`;
+
+    const { error: uploadError } = await admin.storage
+      .from('exports')
+      .upload(path, file, { contentType: CONTENT_TYPES[job.format], upsert: true });
+
+    if (uploadError) {
+      throw new Error(uploadError.message);
+    }
+
+    const completedAt = new Date();
+    await admin
+      .from('data_exports')
+      .update({
+        status: 'completed',
+        row_count: records.length,
+        file_path: path,
+        file_size: file.byteLength,
+        completed_at: completedAt.toISOString(),
+        expires_at: new Date(completedAt.getTime() + RETENTION_DAYS * 86_400_000).toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('started_at', job.started_at);
+  } catch (error) {
+    console.error('Export failed:', job.id, error);
+    await admin
+      .from('data_exports')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .eq('id', job.id)
+      .eq('started_at', job.started_at);
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { exportId } = await req.json();
+
+    if (!exportId) {
+      throw new Error('Export ID is required');
+    }
+
+    // The caller's own client, so RLS decides whether they can see this export at all
+    const caller = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: visible } = await caller
+      .from('data_exports')
+      .select('id')
+      .eq('id', exportId)
+      .maybeSingle();
+
+    if (!visible) {
+      return json({ error: 'Export not found' }, 404);
+    }
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Claiming the row means a repeated call can't start the same export twice, unless the
+    // run that claimed it has stalled; the new started_at stops that run updating the row
+    const staleBefore = new Date(Date.now() - STALE_MINUTES * 60_000).toISOString();
+    const { data: job } = await admin
+      .from('data_exports')
+      .update({ status: 'running', started_at: new Date().toISOString(), error: null })
+      .eq('id', exportId)
+      .or(`status.eq.queued,and(status.eq.running,started_at.lt.${staleBefore})`)
+      .select('id, restaurant_id, dataset, format, filters, status, started_at')
+      .maybeSingle();
+
+    if (!job) {
+      return json({ status: 'already_started' });
+    }
+
+    EdgeRuntime.waitUntil(runExport(admin, job as ExportRow));
+
+    return json({ status: 'running' }, 202);
+  } catch (error) {
+    console.error('Error starting export:', error);
+    return json({ error: error instanceof Error ? error.message : 'Export failed' }, 400);
+  }
+});
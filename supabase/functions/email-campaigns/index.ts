@@ -0,0 +1,344 @@
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.53.0";
+import { getMailTransport, MailMessage } from "../_shared/mail.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const PAGE_SIZE = 200;
+const STALE_MINUTES = 10;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// 1×1 transparent GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), char => char.charCodeAt(0));
+
+interface CampaignRow {
+  id: string;
+  restaurant_id: string;
+  template_id: string;
+  started_at: string | null;
+}
+
+interface RewardRef {
+  name: string;
+  points_required: number;
+}
+
+interface RecipientRow {
+  id: string;
+  customer: {
+    first_name: string;
+    last_name: string;
+    email: string;
+    total_points: number;
+    current_tier: string;
+    email_opt_out_at: string | null;
+    erased_at: string | null;
+  } | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+const page = (title: string, body: string, status = 200) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<title>${escapeHtml(title)}</title></head>` +
+    `<body style="font-family:sans-serif;max-width:28rem;margin:4rem auto;padding:0 1rem;color:#111827">` +
+    `<h1 style="font-size:1.25rem">${escapeHtml(title)}</h1>${body}</body></html>`,
+    { headers: { 'Content-Type': 'text/html; charset=utf-8' }, status }
+  );
+
+// Where mail clients reach this function; inside the local stack SUPABASE_URL is a container address
+const linkBase = () =>
+  Deno.env.get('EMAIL_CAMPAIGNS_URL') || `${Deno.env.get('SUPABASE_URL')}/functions/v1/email-campaigns`;
+
+// Mirrors EmailCampaignService.renderTemplate; unknown fields are left as typed
+const render = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+// The cheapest reward the customer can't afford yet, or the biggest one they can
+const nextReward = (rewards: RewardRef[], points: number): RewardRef | null => {
+  const sorted = [...rewards].sort((a, b) => a.points_required - b.points_required);
+  return sorted.find(reward => reward.points_required > points) ?? sorted[sorted.length - 1] ?? null;
+};
+
+const buildMessage = (
+  recipientId: string,
+  email: string,
+  template: { subject: string; body: string },
+  values: Record<string, string>
+): MailMessage => {
+  const unsubscribeUrl = `${linkBase()}?unsubscribe=${recipientId}`;
+  const text = render(template.body, values);
+
+  return {
+    to: email,
+    subject: render(template.subject, values),
+    text: `${text}\n\n--\nUnsubscribe: ${unsubscribeUrl}`,
+    html: `<div style="font-family:sans-serif;line-height:1.5">${escapeHtml(text).replace(/\n/g, '<br>')}</div>` +
+      `<p style="font-family:sans-serif;font-size:12px;color:#6b7280">You're getting this as a member of ` +
+      `${escapeHtml(values.restaurant_name)}'s loyalty program. <a href="${unsubscribeUrl}">Unsubscribe</a></p>` +
+      `<img src="${linkBase()}?open=${recipientId}" width="1" height="1" alt="">`,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+};
+
+const runCampaign = async (admin: SupabaseClient, campaign: CampaignRow) => {
+  try {
+    // Before anything is prepared: a project with no mail provider fails the campaign outright
+    const transport = getMailTransport();
+
+    // A resumed send keeps the list it started with
+    if (!campaign.started_at) {
+      const { error } = await admin.rpc('prepare_email_campaign_recipients', { p_campaign_id: campaign.id });
+      if (error) throw new Error(error.message);
+    }
+
+    const [{ data: template }, { data: restaurant }, { data: rewards }] = await Promise.all([
+      admin.from('email_templates').select('subject, body').eq('id', campaign.template_id).single(),
+      admin.from('restaurants').select('name, slug, settings').eq('id', campaign.restaurant_id).single(),
+      admin.from('rewards').select('name, points_required').eq('restaurant_id', campaign.restaurant_id).eq('is_active', true),
+    ]);
+
+    if (!template || !restaurant) {
+      throw new Error('The campaign template or restaurant is missing');
+    }
+
+    const tierNames = new Map<string, string>(
+      (restaurant.settings?.tierLadder?.tiers || []).map((tier: { id: string; name: string }) => [tier.id, tier.name])
+    );
+    const walletUrl = Deno.env.get('WALLET_URL');
+    const walletLink = walletUrl ? `${walletUrl.replace(/\/$/, '')}/wallet/${restaurant.slug}` : '';
+
+    for (;;) {
+      const { data, error } = await admin
+        .from('email_campaign_recipients')
+        .select('id, customer:customers(first_name, last_name, email, total_points, current_tier, email_opt_out_at, erased_at)')
+        .eq('campaign_id', campaign.id)
+        .eq('status', 'pending')
+        .limit(PAGE_SIZE);
+
+      if (error) throw new Error(error.message);
+      if (!data || data.length === 0) break;
+
+      for (const recipient of data as unknown as RecipientRow[]) {
+        const customer = recipient.customer;
+
+        if (!customer || customer.email_opt_out_at || customer.erased_at) {
+          await admin
+            .from('email_campaign_recipients')
+            .update({ status: 'failed', error: 'Unsubscribed or erased before sending' })
+            .eq('id', recipient.id);
+          continue;
+        }
+
+        const next = nextReward((rewards || []) as RewardRef[], customer.total_points);
+        const values: Record<string, string> = {
+          first_name: customer.first_name,
+          last_name: customer.last_name,
+          points: customer.total_points.toLocaleString('en-US'),
+          tier: tierNames.get(customer.current_tier) ?? customer.current_tier,
+          next_reward: next?.name ?? '',
+          points_to_next_reward: String(next ? Math.max(0, next.points_required - customer.total_points) : 0),
+          restaurant_name: restaurant.name,
+          wallet_link: walletLink,
+        };
+
+        try {
+          await transport.send(buildMessage(recipient.id, customer.email, template, values));
+          await admin
+            .from('email_campaign_recipients')
+            .update({ status: 'sent', sent_at: new Date().toISOString() })
+            .eq('id', recipient.id);
+        } catch (sendError) {
+          await admin
+            .from('email_campaign_recipients')
+            .update({ status: 'failed', error: sendError instanceof Error ? sendError.message : String(sendError) })
+            .eq('id', recipient.id);
+        }
+      }
+
+      // Touching the row moves updated_at, which tells the dispatcher this send is alive
+      await admin.from('email_campaigns').update({ status: 'sending' }).eq('id', campaign.id);
+    }
+
+    await admin
+      .from('email_campaigns')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', campaign.id);
+  } catch (error) {
+    console.error('Email campaign failed:', campaign.id, error);
+    await admin
+      .from('email_campaigns')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .eq('id', campaign.id);
+  }
+};
+
+// Claiming moves the row to `sending` (or touches it), so two calls can't send the same campaign
+const claimCampaigns = async (admin: SupabaseClient, campaignId?: string): Promise<CampaignRow[]> => {
+  const columns = 'id, restaurant_id, template_id, started_at';
+
+  let due = admin
+    .from('email_campaigns')
+    .update({ status: 'sending' })
+    .eq('status', 'scheduled')
+    .lte('scheduled_at', new Date().toISOString());
+  if (campaignId) due = due.eq('id', campaignId);
+  const { data: scheduled } = await due.select(columns);
+
+  if (campaignId) return (scheduled || []) as CampaignRow[];
+
+  const { data: stalled } = await admin
+    .from('email_campaigns')
+    .update({ status: 'sending' })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(Date.now() - STALE_MINUTES * 60_000).toISOString())
+    .select(columns);
+
+  return [...(scheduled || []), ...(stalled || [])] as CampaignRow[];
+};
+
+const handleOpen = async (admin: SupabaseClient, recipientId: string) => {
+  if (UUID_PATTERN.test(recipientId)) {
+    await admin
+      .from('email_campaign_recipients')
+      .update({ opened_at: new Date().toISOString() })
+      .eq('id', recipientId)
+      .is('opened_at', null);
+  }
+
+  return new Response(PIXEL, {
+    headers: { 'Content-Type': 'image/gif', 'Cache-Control': 'no-store, max-age=0' },
+  });
+};
+
+// GET only shows a button: link scanners open every URL in a message, and must not unsubscribe anyone
+const handleUnsubscribe = async (admin: SupabaseClient, req: Request, recipientId: string, resubscribe: boolean) => {
+  const { data: recipient } = UUID_PATTERN.test(recipientId)
+    ? await admin
+      .from('email_campaign_recipients')
+      .select('id, customer_id, restaurant:restaurants(name)')
+      .eq('id', recipientId)
+      .maybeSingle()
+    : { data: null };
+
+  if (!recipient) {
+    return page('Link not recognised', '<p>This unsubscribe link is no longer valid.</p>', 404);
+  }
+
+  const restaurantName = escapeHtml((recipient.restaurant as unknown as { name: string } | null)?.name ?? 'this restaurant');
+  const action = `${linkBase()}?${resubscribe ? 'resubscribe' : 'unsubscribe'}=${recipient.id}`;
+
+  if (req.method !== 'POST') {
+    return page(
+      'Unsubscribe',
+      `<p>Stop getting marketing emails from ${restaurantName}? Your points and rewards aren't affected.</p>` +
+      `<form method="post" action="${action}"><button type="submit">Unsubscribe</button></form>`
+    );
+  }
+
+  const now = new Date().toISOString();
+
+  if (resubscribe) {
+    await admin.from('customers').update({ email_opt_out_at: null }).eq('id', recipient.customer_id);
+    await admin.from('email_campaign_recipients').update({ unsubscribed_at: null }).eq('id', recipient.id);
+    return page('Subscribed again', `<p>You'll get emails from ${restaurantName} again.</p>`);
+  }
+
+  await admin.from('customers').update({ email_opt_out_at: now }).eq('id', recipient.customer_id).is('email_opt_out_at', null);
+  await admin.from('email_campaign_recipients').update({ unsubscribed_at: now }).eq('id', recipient.id).is('unsubscribed_at', null);
+
+  return page(
+    'You have been unsubscribed',
+    `<p>You won't get marketing emails from ${restaurantName} any more.</p>` +
+    `<form method="post" action="${linkBase()}?resubscribe=${recipient.id}"><button type="submit">Changed your mind? Subscribe again</button></form>`
+  );
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Links in the messages themselves
+  const params = new URL(req.url).searchParams;
+  if (params.has('open')) {
+    return handleOpen(admin, params.get('open') ?? '');
+  }
+  if (params.has('unsubscribe') || params.has('resubscribe')) {
+    return handleUnsubscribe(admin, req, params.get('unsubscribe') ?? params.get('resubscribe') ?? '', params.has('resubscribe'));
+  }
+
+  try {
+    const { action, campaignId } = await req.json();
+
+    // The pg_cron dispatcher calls with the service role key
+    if (action === 'dispatch') {
+      if (req.headers.get('Authorization') !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+        return json({ error: 'Not allowed' }, 403);
+      }
+
+      const campaigns = await claimCampaigns(admin);
+      EdgeRuntime.waitUntil((async () => {
+        for (const campaign of campaigns) {
+          await runCampaign(admin, campaign);
+        }
+      })());
+
+      return json({ status: 'running', campaigns: campaigns.length }, 202);
+    }
+
+    if (!campaignId) {
+      throw new Error('Campaign ID is required');
+    }
+
+    // The caller's own client, so RLS decides whether they can see this campaign at all
+    const caller = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: visible } = await caller
+      .from('email_campaigns')
+      .select('id')
+      .eq('id', campaignId)
+      .maybeSingle();
+
+    if (!visible) {
+      return json({ error: 'Campaign not found' }, 404);
+    }
+
+    const [campaign] = await claimCampaigns(admin, campaignId);
+
+    if (!campaign) {
+      return json({ status: 'already_started' });
+    }
+
+    EdgeRuntime.waitUntil(runCampaign(admin, campaign));
+
+    return json({ status: 'running' }, 202);
+  } catch (error) {
+    console.error('Error starting email campaign:', error);
+    return json({ error: error instanceof Error ? error.message : 'Could not send the campaign' }, 400);
+  }
+});
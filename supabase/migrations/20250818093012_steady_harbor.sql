@@ -0,0 +1,320 @@
+/*
+  # Rule-Based Earning Engine
+
+  1. Restaurant Settings
+    - `settings.earningRules` holds an ordered array of typed rules:
+      - `category_multiplier` (categories, multiplier)
+      - `min_spend` (minAmount, bonusPoints)
+      - `time_window` (days, startTime, endTime, multiplier)
+      - `branch_override` (branchIds, pointsPerAED)
+      - `transaction_cap` (maxPoints)
+    - `settings.timezone` is used to evaluate time windows (default Asia/Dubai)
+
+  2. Functions
+    - `calculate_order_points` evaluates a whole order and returns the points
+      together with every rule that fired
+    - `calculate_points_unified` now delegates to `calculate_order_points` so the
+      single-item path and the order path share one engine
+    - A line without an amount is priced from its menu item, and minimum-spend
+      bonuses are skipped when no line carries an amount
+
+  3. Evaluation Order
+    - Base points per line (branch override, blanket mode, or item mode)
+    - Category multipliers per line
+    - Time-window multipliers on the subtotal
+    - Minimum-spend bonuses
+    - Tier multiplier
+    - Per-transaction caps
+    This mirrors LoyaltyConfigService.calculateOrderPointsPreview step for step.
+*/
+
+CREATE OR REPLACE FUNCTION calculate_order_points(
+  p_restaurant_id uuid,
+  p_lines jsonb,
+  p_customer_tier text DEFAULT 'bronze',
+  p_branch_id uuid DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_rules jsonb := '[]'::jsonb;
+  v_rule jsonb;
+  v_branch_rule jsonb;
+  v_line jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_has_item boolean;
+  v_point_value numeric;
+  v_timezone text;
+  v_amount numeric;
+  v_quantity integer;
+  v_line_points integer;
+  v_base_total integer := 0;
+  v_points integer := 0;
+  v_before integer;
+  v_order_amount numeric := 0;
+  v_amount_given boolean := false;
+  v_tier_multiplier numeric;
+  v_local timestamp;
+  v_day integer;
+  v_minutes integer;
+  v_start integer;
+  v_end integer;
+  v_in_window boolean;
+  v_applied jsonb := '[]'::jsonb;
+BEGIN
+  SELECT settings INTO v_settings
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  IF v_settings IS NULL THEN
+    RETURN jsonb_build_object('points', 0, 'breakdown', '{}'::jsonb);
+  END IF;
+
+  v_point_value := COALESCE(NULLIF((v_settings->>'pointValueAED')::numeric, 0), 0.05);
+  v_timezone := COALESCE(v_settings->>'timezone', 'Asia/Dubai');
+
+  -- Enabled rules only, keeping the order the owner saved them in
+  IF jsonb_typeof(v_settings->'earningRules') = 'array' THEN
+    SELECT COALESCE(jsonb_agg(r ORDER BY ord), '[]'::jsonb) INTO v_rules
+    FROM jsonb_array_elements(v_settings->'earningRules') WITH ORDINALITY AS t(r, ord)
+    WHERE COALESCE((r->>'enabled')::boolean, false);
+  END IF;
+
+  IF p_branch_id IS NOT NULL THEN
+    SELECT r INTO v_branch_rule
+    FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS t(r, ord)
+    WHERE r->>'type' = 'branch_override'
+      AND (r->'branchIds') ? p_branch_id::text
+    ORDER BY ord
+    LIMIT 1;
+  END IF;
+
+  -- Stage 1 + 2: base points and category multipliers per line
+  FOR v_line IN SELECT value FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 1);
+    v_has_item := false;
+
+    IF v_line->>'menu_item_id' IS NOT NULL THEN
+      SELECT * INTO v_menu_item
+      FROM menu_items
+      WHERE id = (v_line->>'menu_item_id')::uuid AND restaurant_id = p_restaurant_id;
+      v_has_item := FOUND;
+    END IF;
+
+    IF v_line->>'amount' IS NOT NULL THEN
+      v_amount := (v_line->>'amount')::numeric;
+      v_amount_given := true;
+    ELSIF v_has_item THEN
+      v_amount := v_menu_item.selling_price * v_quantity;
+    ELSE
+      v_amount := 0;
+    END IF;
+    v_order_amount := v_order_amount + v_amount;
+
+    IF v_branch_rule IS NOT NULL THEN
+      v_line_points := FLOOR(ROUND(v_amount * (v_branch_rule->>'pointsPerAED')::numeric, 6));
+    ELSIF COALESCE((v_settings->'blanketMode'->>'enabled')::boolean, false) THEN
+      CASE COALESCE(v_settings->'blanketMode'->>'type', 'smart')
+        WHEN 'smart' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * 0.3
+            * (COALESCE(NULLIF((v_settings->'blanketMode'->'smartSettings'->>'profitAllocationPercent')::numeric, 0), 20) / 100.0)
+            / v_point_value, 6));
+        WHEN 'manual' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * COALESCE(NULLIF((v_settings->'blanketMode'->'manualSettings'->>'pointsPerAED')::numeric, 0), 0.1), 6));
+        WHEN 'spend' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * COALESCE(NULLIF((v_settings->'blanketMode'->'spendSettings'->>'pointsPerAED')::numeric, 0), 0.2), 6));
+        ELSE
+          v_line_points := 0;
+      END CASE;
+    ELSIF v_has_item THEN
+      CASE v_menu_item.loyalty_mode
+        WHEN 'smart' THEN
+          v_line_points := FLOOR(ROUND(
+            (v_menu_item.selling_price - v_menu_item.cost_price) * v_quantity
+            * (COALESCE((v_menu_item.loyalty_settings->>'profit_allocation_percent')::numeric, 0) / 100.0)
+            / v_point_value, 6));
+        WHEN 'manual' THEN
+          v_line_points := COALESCE((v_menu_item.loyalty_settings->>'fixed_points')::integer, 0) * v_quantity;
+        ELSE
+          v_line_points := 0;
+      END CASE;
+    ELSE
+      v_line_points := 0;
+    END IF;
+
+    v_base_total := v_base_total + v_line_points;
+
+    IF v_has_item AND v_menu_item.category IS NOT NULL THEN
+      FOR v_rule IN
+        SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+        WHERE r->>'type' = 'category_multiplier'
+          AND (r->'categories') ? v_menu_item.category
+      LOOP
+        v_before := v_line_points;
+        v_line_points := FLOOR(ROUND(v_line_points * (v_rule->>'multiplier')::numeric, 6));
+        v_applied := v_applied || jsonb_build_object(
+          'ruleId', v_rule->>'id',
+          'name', v_rule->>'name',
+          'type', v_rule->>'type',
+          'pointsBefore', v_before,
+          'pointsAfter', v_line_points
+        );
+      END LOOP;
+    END IF;
+
+    v_points := v_points + v_line_points;
+  END LOOP;
+
+  IF v_branch_rule IS NOT NULL THEN
+    v_applied := jsonb_build_array(jsonb_build_object(
+      'ruleId', v_branch_rule->>'id',
+      'name', v_branch_rule->>'name',
+      'type', v_branch_rule->>'type',
+      'pointsBefore', 0,
+      'pointsAfter', v_base_total
+    )) || v_applied;
+  END IF;
+
+  -- Stage 3: time windows, evaluated in the restaurant's timezone
+  v_local := p_at AT TIME ZONE v_timezone;
+  v_day := EXTRACT(DOW FROM v_local)::integer;
+  v_minutes := EXTRACT(HOUR FROM v_local)::integer * 60 + EXTRACT(MINUTE FROM v_local)::integer;
+
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'time_window'
+  LOOP
+    v_start := COALESCE(NULLIF(split_part(v_rule->>'startTime', ':', 1), '')::integer, 0) * 60
+      + COALESCE(NULLIF(split_part(v_rule->>'startTime', ':', 2), '')::integer, 0);
+    v_end := COALESCE(NULLIF(split_part(v_rule->>'endTime', ':', 1), '')::integer, 0) * 60
+      + COALESCE(NULLIF(split_part(v_rule->>'endTime', ':', 2), '')::integer, 0);
+
+    IF v_start <= v_end THEN
+      v_in_window := (v_rule->'days') @> to_jsonb(v_day) AND v_minutes >= v_start AND v_minutes < v_end;
+    ELSIF v_minutes >= v_start THEN
+      v_in_window := (v_rule->'days') @> to_jsonb(v_day);
+    ELSIF v_minutes < v_end THEN
+      -- Early-morning part of an overnight window belongs to the previous day
+      v_in_window := (v_rule->'days') @> to_jsonb((v_day + 6) % 7);
+    ELSE
+      v_in_window := false;
+    END IF;
+
+    IF v_in_window THEN
+      v_before := v_points;
+      v_points := FLOOR(ROUND(v_points * (v_rule->>'multiplier')::numeric, 6));
+      v_applied := v_applied || jsonb_build_object(
+        'ruleId', v_rule->>'id',
+        'name', v_rule->>'name',
+        'type', v_rule->>'type',
+        'pointsBefore', v_before,
+        'pointsAfter', v_points
+      );
+    END IF;
+  END LOOP;
+
+  -- Stage 4: minimum-spend bonuses, only when the caller gave an amount (item-only
+  -- lookups have nothing to compare against)
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'min_spend'
+      AND v_amount_given
+      AND v_order_amount >= (r->>'minAmount')::numeric
+  LOOP
+    v_before := v_points;
+    v_points := v_points + FLOOR((v_rule->>'bonusPoints')::numeric);
+    v_applied := v_applied || jsonb_build_object(
+      'ruleId', v_rule->>'id',
+      'name', v_rule->>'name',
+      'type', v_rule->>'type',
+      'pointsBefore', v_before,
+      'pointsAfter', v_points
+    );
+  END LOOP;
+
+  -- Stage 5: tier multiplier (defaults match LoyaltyConfigService.getDefaultConfig)
+  v_tier_multiplier := COALESCE(
+    NULLIF((v_settings->'tierMultipliers'->>p_customer_tier)::numeric, 0),
+    CASE p_customer_tier
+      WHEN 'silver' THEN 1.25
+      WHEN 'gold' THEN 1.5
+      WHEN 'platinum' THEN 2.0
+      ELSE 1.0
+    END
+  );
+  v_points := FLOOR(ROUND(v_points * v_tier_multiplier, 6));
+
+  -- Stage 6: per-transaction caps
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'transaction_cap'
+  LOOP
+    IF v_points > (v_rule->>'maxPoints')::numeric THEN
+      v_before := v_points;
+      v_points := GREATEST(0, FLOOR((v_rule->>'maxPoints')::numeric));
+      v_applied := v_applied || jsonb_build_object(
+        'ruleId', v_rule->>'id',
+        'name', v_rule->>'name',
+        'type', v_rule->>'type',
+        'pointsBefore', v_before,
+        'pointsAfter', v_points
+      );
+    END IF;
+  END LOOP;
+
+  v_points := GREATEST(0, v_points);
+
+  RETURN jsonb_build_object(
+    'points', v_points,
+    'breakdown', jsonb_build_object(
+      'basePoints', v_base_total,
+      'orderAmount', v_order_amount,
+      'rules', v_applied,
+      'tierMultiplier', v_tier_multiplier,
+      'finalPoints', v_points,
+      'pointValueAED', v_point_value
+    )
+  );
+END;
+$$;
+
+-- Replace the single-item entry point so it runs through the same engine
+DROP FUNCTION IF EXISTS calculate_points_unified(uuid, uuid, numeric, text, integer);
+
+CREATE OR REPLACE FUNCTION calculate_points_unified(
+  p_restaurant_id uuid,
+  p_menu_item_id uuid DEFAULT NULL,
+  p_order_amount numeric DEFAULT NULL,
+  p_customer_tier text DEFAULT 'bronze',
+  p_quantity integer DEFAULT 1,
+  p_branch_id uuid DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN (calculate_order_points(
+    p_restaurant_id,
+    jsonb_build_array(jsonb_build_object(
+      'menu_item_id', p_menu_item_id,
+      'amount', p_order_amount,
+      'quantity', p_quantity
+    )),
+    p_customer_tier,
+    p_branch_id,
+    p_at
+  )->>'points')::integer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_points(uuid, jsonb, text, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_points_unified(uuid, uuid, numeric, text, integer, uuid, timestamptz) TO authenticated;
@@ -0,0 +1,368 @@
+/*
+  # Time-window bonus campaigns
+
+  1. New Tables
+    - `campaigns`
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, foreign key)
+      - `name`, `description` (text)
+      - `starts_on`, `ends_on` (date, inclusive, in the restaurant timezone)
+      - `days` (integer[], 0 = Sunday ... 6 = Saturday)
+      - `start_time`, `end_time` (time, end exclusive; end before start means overnight;
+        `24:00` runs to midnight, so the default window covers the whole day)
+      - `branch_ids` (uuid[], empty = every branch)
+      - `bonus_type` ('multiplier' or 'flat')
+      - `multiplier` (numeric, applied to the purchase points)
+      - `bonus_points` (integer, added once per purchase)
+      - `is_active` (boolean)
+
+  2. Changes
+    - `transactions.campaign_id` and `transactions.campaign_bonus_points` record which
+      campaign boosted a purchase and by how much
+    - `process_point_transaction` accepts `p_campaign_id`. The bonus is worked out here,
+      not trusted from the client, and is skipped if the campaign is no longer running
+
+  3. New Functions
+    - `is_campaign_live(campaign, branch_id, at)`
+    - `calculate_campaign_bonus(campaign, points)`
+    - `get_campaign_performance(restaurant_id, campaign_id, start, end)` for the ROI dashboard
+
+  4. Security
+    - Enable RLS on `campaigns`
+    - Restaurant owners and staff can read campaigns, only owners can change them
+*/
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  days integer[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  start_time time NOT NULL DEFAULT '00:00',
+  end_time time NOT NULL DEFAULT '24:00',
+  branch_ids uuid[] NOT NULL DEFAULT '{}',
+  bonus_type text NOT NULL DEFAULT 'multiplier' CHECK (bonus_type IN ('multiplier', 'flat')),
+  multiplier numeric NOT NULL DEFAULT 2 CHECK (multiplier >= 1),
+  bonus_points integer NOT NULL DEFAULT 0 CHECK (bonus_points >= 0),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT campaigns_date_range CHECK (ends_on >= starts_on)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'campaign_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN campaign_id uuid REFERENCES campaigns(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'campaign_bonus_points'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN campaign_bonus_points integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage campaigns"
+  ON campaigns
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM restaurants r
+    WHERE r.id = campaigns.restaurant_id AND r.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM restaurants r
+    WHERE r.id = campaigns.restaurant_id AND r.owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Restaurant staff can view campaigns"
+  ON campaigns
+  FOR SELECT
+  TO authenticated
+  USING (restaurant_id IN (
+    SELECT restaurant_id FROM restaurant_staff WHERE user_id = auth.uid()
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_restaurant_active ON campaigns(restaurant_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_transactions_campaign_id ON transactions(campaign_id);
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Mirrors CampaignService.isCampaignLive: weekly hours are read in the restaurant
+-- timezone, and the early part of an overnight window counts towards the day it opened
+CREATE OR REPLACE FUNCTION is_campaign_live(
+  p_campaign campaigns,
+  p_branch_id uuid DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_timezone text;
+  v_local timestamp;
+  v_day integer;
+  v_time time;
+  v_opened_on date;
+BEGIN
+  IF NOT COALESCE(p_campaign.is_active, false) THEN
+    RETURN false;
+  END IF;
+
+  IF cardinality(p_campaign.branch_ids) > 0
+    AND (p_branch_id IS NULL OR NOT p_branch_id = ANY(p_campaign.branch_ids)) THEN
+    RETURN false;
+  END IF;
+
+  SELECT COALESCE(NULLIF(settings->>'timezone', ''), 'Asia/Dubai') INTO v_timezone
+  FROM restaurants
+  WHERE id = p_campaign.restaurant_id;
+
+  v_local := p_at AT TIME ZONE COALESCE(v_timezone, 'Asia/Dubai');
+  v_day := EXTRACT(DOW FROM v_local)::integer;
+  v_time := v_local::time;
+
+  IF p_campaign.start_time <= p_campaign.end_time THEN
+    IF v_day = ANY(p_campaign.days) AND v_time >= p_campaign.start_time AND v_time < p_campaign.end_time THEN
+      v_opened_on := v_local::date;
+    END IF;
+  ELSIF v_time >= p_campaign.start_time THEN
+    IF v_day = ANY(p_campaign.days) THEN
+      v_opened_on := v_local::date;
+    END IF;
+  ELSIF v_time < p_campaign.end_time THEN
+    IF (v_day + 6) % 7 = ANY(p_campaign.days) THEN
+      v_opened_on := v_local::date - 1;
+    END IF;
+  END IF;
+
+  RETURN v_opened_on IS NOT NULL
+    AND v_opened_on BETWEEN p_campaign.starts_on AND p_campaign.ends_on;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_campaign_bonus(
+  p_campaign campaigns,
+  p_points integer
+)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_campaign.bonus_type
+    WHEN 'flat' THEN GREATEST(0, p_campaign.bonus_points)
+    ELSE GREATEST(0, FLOOR(ROUND(GREATEST(p_points, 0) * (p_campaign.multiplier - 1), 6))::integer)
+  END;
+$$;
+
+-- Adding a parameter creates a new overload, so drop the old signature first
+DROP FUNCTION IF EXISTS process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_new_tier text;
+  v_tier_progress integer;
+BEGIN
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals
+  v_new_total_points := GREATEST(0, v_customer_record.total_points + v_points);
+
+  -- Only increase lifetime points for positive transactions
+  IF v_points > 0 THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Calculate new tier based on lifetime points
+  IF v_new_lifetime_points >= 1000 THEN
+    v_new_tier := 'gold';
+    v_tier_progress := LEAST(100, ((v_new_lifetime_points - 1000)::numeric / 1000 * 100)::integer);
+  ELSIF v_new_lifetime_points >= 500 THEN
+    v_new_tier := 'silver';
+    v_tier_progress := ((v_new_lifetime_points - 500)::numeric / 500 * 100)::integer;
+  ELSE
+    v_new_tier := 'bronze';
+    v_tier_progress := (v_new_lifetime_points::numeric / 500 * 100)::integer;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    current_tier = v_new_tier,
+    tier_progress = v_tier_progress,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  );
+END;
+$$;
+
+-- Campaign results for the ROI dashboard. Runs with the caller's rights so RLS
+-- limits it to restaurants the caller can already see.
+CREATE OR REPLACE FUNCTION get_campaign_performance(
+  p_restaurant_id uuid,
+  p_campaign_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_roi_settings jsonb;
+  v_point_value_aed numeric;
+  v_cogs_percentage numeric;
+  v_orders integer := 0;
+  v_customers integer := 0;
+  v_revenue numeric := 0;
+  v_bonus_points integer := 0;
+  v_points_issued integer := 0;
+  v_baseline_orders integer := 0;
+  v_baseline_revenue numeric := 0;
+  v_bonus_cost numeric;
+  v_gross_profit numeric;
+BEGIN
+  SELECT settings, roi_settings INTO v_settings, v_roi_settings
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  v_point_value_aed := COALESCE((v_settings->>'pointValueAED')::numeric, 0.05);
+  v_cogs_percentage := COALESCE((v_roi_settings->>'estimated_cogs_percentage')::numeric, 0.4);
+
+  SELECT
+    COUNT(*),
+    COUNT(DISTINCT customer_id),
+    COALESCE(SUM(amount_spent), 0),
+    COALESCE(SUM(campaign_bonus_points), 0),
+    COALESCE(SUM(points), 0)
+  INTO v_orders, v_customers, v_revenue, v_bonus_points, v_points_issued
+  FROM transactions
+  WHERE restaurant_id = p_restaurant_id
+    AND campaign_id = p_campaign_id
+    AND created_at BETWEEN p_start_date AND p_end_date;
+
+  -- Purchases outside any campaign in the same period, for comparison
+  SELECT COUNT(*), COALESCE(SUM(amount_spent), 0)
+  INTO v_baseline_orders, v_baseline_revenue
+  FROM transactions
+  WHERE restaurant_id = p_restaurant_id
+    AND type = 'purchase'
+    AND campaign_id IS NULL
+    AND created_at BETWEEN p_start_date AND p_end_date;
+
+  v_bonus_cost := v_bonus_points * v_point_value_aed;
+  v_gross_profit := v_revenue * (1 - v_cogs_percentage);
+
+  RETURN jsonb_build_object(
+    'orders', v_orders,
+    'customers', v_customers,
+    'revenue', v_revenue,
+    'average_order_value', CASE WHEN v_orders > 0 THEN v_revenue / v_orders ELSE 0 END,
+    'baseline_average_order_value', CASE WHEN v_baseline_orders > 0 THEN v_baseline_revenue / v_baseline_orders ELSE 0 END,
+    'bonus_points', v_bonus_points,
+    'points_issued', v_points_issued,
+    'bonus_cost', v_bonus_cost,
+    'estimated_gross_profit', v_gross_profit,
+    'roi_percentage', CASE WHEN v_bonus_cost > 0 THEN ((v_gross_profit - v_bonus_cost) / v_bonus_cost) * 100 ELSE 0 END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_campaign_live(campaigns, uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_campaign_bonus(campaigns, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_campaign_performance(uuid, uuid, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,372 @@
+/*
+  # Points expiry with FIFO point lots
+
+  1. New Tables
+    - `point_lots`
+      - one row per earning transaction
+      - `points_earned`, `points_remaining` (integer)
+      - `earned_at`, `expires_at` (timestamptz, expires_at NULL = no age-based expiry)
+      - `expired_at` (timestamptz, set when the expiry job zeroes the lot)
+
+  2. Changes
+    - `transactions.type` now allows `expiry`
+    - A trigger on `transactions` keeps lots in step with every balance change:
+      positive transactions open a lot, negative ones use up the oldest lots first.
+      `expiry` transactions are written after their lots are already zeroed.
+    - Existing balances are carried over as one lot per customer with no expiry date
+    - `calculate_comprehensive_roi` counts expired points separately from redemptions
+      and reads outstanding liability from the open lots
+
+  3. Expiry rules (restaurants.settings.pointsExpiry)
+    - `afterEarningMonths`: each lot expires this many months after it was earned
+    - `inactivityMonths`: the whole balance expires after this long without a visit
+
+  4. Scheduled Job
+    - `expire_points()` runs daily through pg_cron and writes one `expiry`
+      transaction per affected customer
+
+  5. Security
+    - Enable RLS on `point_lots`; restaurant owners and staff can read them
+    - Only pg_cron runs `expire_points()`; no client role can call it
+*/
+
+CREATE TABLE IF NOT EXISTS point_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE,
+  points_earned integer NOT NULL CHECK (points_earned > 0),
+  points_remaining integer NOT NULL CHECK (points_remaining >= 0),
+  earned_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz,
+  expired_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT point_lots_remaining_within_earned CHECK (points_remaining <= points_earned)
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_lots_customer_open
+  ON point_lots(customer_id, earned_at)
+  WHERE points_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_point_lots_expires_open
+  ON point_lots(expires_at)
+  WHERE points_remaining > 0;
+
+ALTER TABLE point_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view point lots"
+  ON point_lots
+  FOR SELECT
+  TO authenticated
+  USING (restaurant_id IN (
+    SELECT id FROM restaurants WHERE owner_id = auth.uid()
+    UNION
+    SELECT restaurant_id FROM restaurant_staff WHERE user_id = auth.uid()
+  ));
+
+-- Allow expiry transactions
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'transactions_type_check'
+  ) THEN
+    ALTER TABLE transactions DROP CONSTRAINT transactions_type_check;
+  END IF;
+END $$;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type = ANY (ARRAY['purchase'::text, 'bonus'::text, 'referral'::text, 'signup'::text, 'redemption'::text, 'expiry'::text]));
+
+-- Carry existing balances over as undated lots so lots always add up to total_points
+INSERT INTO point_lots (restaurant_id, customer_id, points_earned, points_remaining, earned_at)
+SELECT restaurant_id, id, total_points, total_points, COALESCE(last_visit, created_at, now())
+FROM customers
+WHERE total_points > 0
+  AND NOT EXISTS (SELECT 1 FROM point_lots l WHERE l.customer_id = customers.id);
+
+CREATE OR REPLACE FUNCTION maintain_point_lots()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_months integer := 0;
+  v_remaining integer;
+  v_take integer;
+  v_lot record;
+BEGIN
+  IF NEW.type = 'expiry' OR NEW.points = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.points > 0 THEN
+    SELECT settings INTO v_settings
+    FROM restaurants
+    WHERE id = NEW.restaurant_id;
+
+    IF COALESCE((v_settings->'pointsExpiry'->>'enabled')::boolean, false) THEN
+      v_months := COALESCE((v_settings->'pointsExpiry'->>'afterEarningMonths')::integer, 0);
+    END IF;
+
+    INSERT INTO point_lots (
+      restaurant_id,
+      customer_id,
+      transaction_id,
+      points_earned,
+      points_remaining,
+      earned_at,
+      expires_at
+    ) VALUES (
+      NEW.restaurant_id,
+      NEW.customer_id,
+      NEW.id,
+      NEW.points,
+      NEW.points,
+      COALESCE(NEW.created_at, now()),
+      CASE WHEN v_months > 0 THEN COALESCE(NEW.created_at, now()) + make_interval(months => v_months) END
+    );
+  ELSE
+    -- Use up the oldest lots first
+    v_remaining := -NEW.points;
+
+    FOR v_lot IN
+      SELECT id, points_remaining
+      FROM point_lots
+      WHERE customer_id = NEW.customer_id AND points_remaining > 0
+      ORDER BY earned_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_take := LEAST(v_lot.points_remaining, v_remaining);
+      UPDATE point_lots SET points_remaining = points_remaining - v_take WHERE id = v_lot.id;
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintain_point_lots_trigger ON transactions;
+CREATE TRIGGER maintain_point_lots_trigger
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION maintain_point_lots();
+
+CREATE OR REPLACE FUNCTION expire_points()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_candidate record;
+  v_customer customers%ROWTYPE;
+  v_points integer;
+  v_expired_customers integer := 0;
+BEGIN
+  FOR v_candidate IN
+    SELECT customer_id, bool_or(inactive) AS inactive, MAX(inactivity_months) AS inactivity_months
+    FROM (
+      SELECT
+        l.customer_id,
+        l.expires_at,
+        COALESCE((r.settings->'pointsExpiry'->>'inactivityMonths')::integer, 0) AS inactivity_months,
+        COALESCE((r.settings->'pointsExpiry'->>'enabled')::boolean, false)
+          AND COALESCE((r.settings->'pointsExpiry'->>'inactivityMonths')::integer, 0) > 0
+          AND COALESCE(c.last_visit, c.created_at) <= now() - make_interval(
+            months => COALESCE((r.settings->'pointsExpiry'->>'inactivityMonths')::integer, 0)
+          ) AS inactive
+      FROM point_lots l
+      JOIN customers c ON c.id = l.customer_id
+      JOIN restaurants r ON r.id = l.restaurant_id
+      WHERE l.points_remaining > 0
+    ) open_lots
+    WHERE expires_at <= now() OR inactive
+    GROUP BY customer_id
+  LOOP
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = v_candidate.customer_id
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(points_remaining), 0) INTO v_points
+    FROM (
+      SELECT points_remaining
+      FROM point_lots
+      WHERE customer_id = v_customer.id
+        AND points_remaining > 0
+        AND (v_candidate.inactive OR expires_at <= now())
+      FOR UPDATE
+    ) due;
+
+    UPDATE point_lots
+    SET points_remaining = 0,
+        expired_at = now()
+    WHERE customer_id = v_customer.id
+      AND points_remaining > 0
+      AND (v_candidate.inactive OR expires_at <= now());
+
+    -- Never take the balance below zero if it has drifted from the lots
+    v_points := LEAST(v_points, v_customer.total_points);
+
+    IF v_points > 0 THEN
+      UPDATE customers
+      SET total_points = total_points - v_points,
+          updated_at = now()
+      WHERE id = v_customer.id;
+
+      INSERT INTO transactions (
+        restaurant_id,
+        customer_id,
+        type,
+        points,
+        description
+      ) VALUES (
+        v_customer.restaurant_id,
+        v_customer.id,
+        'expiry',
+        -v_points,
+        CASE
+          WHEN v_candidate.inactive THEN
+            format('%s points expired after %s months without a visit', v_points, v_candidate.inactivity_months)
+          ELSE format('%s points expired', v_points)
+        END
+      );
+
+      v_expired_customers := v_expired_customers + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_expired_customers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_points() FROM PUBLIC, anon, authenticated;
+
+-- Run the expiry job every night
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-points', '10 0 * * *', $$SELECT expire_points()$$);
+
+-- Report expired points separately and read liability from the open lots
+CREATE OR REPLACE FUNCTION calculate_comprehensive_roi(
+  p_restaurant_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+  v_revenue_metrics jsonb;
+  v_cost_metrics jsonb;
+  v_loyalty_metrics jsonb;
+  v_customer_metrics jsonb;
+  v_profitability jsonb;
+  v_settings jsonb;
+  v_total_revenue numeric := 0;
+  v_total_orders integer := 0;
+  v_total_customers integer := 0;
+  v_returning_customers integer := 0;
+  v_total_points_issued integer := 0;
+  v_total_points_redeemed integer := 0;
+  v_total_points_expired integer := 0;
+  v_outstanding_points integer := 0;
+  v_total_reward_cost numeric := 0;
+  v_point_value_aed numeric := 0.05;
+  v_estimated_cogs numeric := 0;
+  v_estimated_gross_profit numeric := 0;
+  v_roi_settings jsonb;
+BEGIN
+  -- Get restaurant settings
+  SELECT settings, roi_settings INTO v_settings, v_roi_settings
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  v_point_value_aed := COALESCE((v_settings->>'pointValueAED')::numeric, 0.05);
+
+  -- Get revenue and customer metrics
+  SELECT
+    COALESCE(SUM(total_spent), 0),
+    COUNT(*),
+    COUNT(CASE WHEN visit_count > 1 THEN 1 END)
+  INTO v_total_revenue, v_total_customers, v_returning_customers
+  FROM customers
+  WHERE restaurant_id = p_restaurant_id
+    AND created_at BETWEEN p_start_date AND p_end_date;
+
+  -- Get transaction metrics
+  SELECT
+    COALESCE(SUM(CASE WHEN points > 0 THEN points ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN points < 0 AND type <> 'expiry' THEN ABS(points) ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN type = 'expiry' THEN ABS(points) ELSE 0 END), 0),
+    COUNT(CASE WHEN type = 'purchase' THEN 1 END)
+  INTO v_total_points_issued, v_total_points_redeemed, v_total_points_expired, v_total_orders
+  FROM transactions
+  WHERE restaurant_id = p_restaurant_id
+    AND created_at BETWEEN p_start_date AND p_end_date;
+
+  -- Liability is what customers can still spend today
+  SELECT COALESCE(SUM(points_remaining), 0) INTO v_outstanding_points
+  FROM point_lots
+  WHERE restaurant_id = p_restaurant_id
+    AND points_remaining > 0;
+
+  -- Calculate reward costs
+  v_total_reward_cost := v_total_points_redeemed * v_point_value_aed;
+
+  -- Calculate estimated costs using ROI settings
+  v_estimated_cogs := v_total_revenue * COALESCE((v_roi_settings->>'estimated_cogs_percentage')::numeric, 0.4);
+  v_estimated_gross_profit := v_total_revenue - v_estimated_cogs;
+
+  -- Build result JSON
+  v_revenue_metrics := jsonb_build_object(
+    'total_revenue', v_total_revenue,
+    'average_order_value', CASE WHEN v_total_orders > 0 THEN v_total_revenue / v_total_orders ELSE 0 END,
+    'revenue_per_customer', CASE WHEN v_total_customers > 0 THEN v_total_revenue / v_total_customers ELSE 0 END,
+    'total_orders', v_total_orders
+  );
+
+  v_cost_metrics := jsonb_build_object(
+    'total_reward_cost', v_total_reward_cost,
+    'estimated_cogs', v_estimated_cogs,
+    'estimated_gross_profit', v_estimated_gross_profit,
+    'reward_cost_percentage', CASE WHEN v_total_revenue > 0 THEN (v_total_reward_cost / v_total_revenue) * 100 ELSE 0 END
+  );
+
+  v_loyalty_metrics := jsonb_build_object(
+    'total_points_issued', v_total_points_issued,
+    'total_points_redeemed', v_total_points_redeemed,
+    'total_points_expired', v_total_points_expired,
+    'point_redemption_rate', CASE WHEN v_total_points_issued > 0 THEN (v_total_points_redeemed::numeric / v_total_points_issued) * 100 ELSE 0 END,
+    'outstanding_liability', v_outstanding_points * v_point_value_aed
+  );
+
+  v_customer_metrics := jsonb_build_object(
+    'total_customers', v_total_customers,
+    'returning_customers', v_returning_customers,
+    'retention_rate', CASE WHEN v_total_customers > 0 THEN (v_returning_customers::numeric / v_total_customers) * 100 ELSE 0 END
+  );
+
+  v_profitability := jsonb_build_object(
+    'gross_profit_margin', CASE WHEN v_total_revenue > 0 THEN (v_estimated_gross_profit / v_total_revenue) * 100 ELSE 0 END,
+    'net_profit_after_rewards', v_estimated_gross_profit - v_total_reward_cost,
+    'roi_percentage', CASE WHEN v_total_reward_cost > 0 THEN ((v_estimated_gross_profit - v_total_reward_cost) / v_total_reward_cost) * 100 ELSE 0 END
+  );
+
+  v_result := jsonb_build_object(
+    'revenue_metrics', v_revenue_metrics,
+    'cost_metrics', v_cost_metrics,
+    'loyalty_metrics', v_loyalty_metrics,
+    'customer_metrics', v_customer_metrics,
+    'profitability', v_profitability,
+    'settings_used', jsonb_build_object('point_value_aed', v_point_value_aed)
+  );
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,714 @@
+/*
+  # Configurable tier ladder
+
+  1. Restaurant Settings
+    - `settings.tierLadder` defines the tiers for a restaurant:
+      - `metric`: what customers qualify on (`lifetime_points`, `spend` or `visits`)
+      - `windowMonths`: rolling window for the metric (0 = all time)
+      - `tiers`: any number of tiers, each with `id`, `name`, `threshold`,
+        `multiplier` and `perks`
+    - Restaurants without a ladder get Bronze/Silver/Gold/Platinum at
+      0/500/1000/2000 lifetime points, keeping any saved `tier_thresholds`
+      and `tierMultipliers`
+
+  2. Changes
+    - `customers.current_tier` and `rewards.min_tier` hold tier ids from the
+      ladder, so their fixed CHECK constraints are dropped
+    - New `customers.tier_qualifying_value` stores the customer's current metric
+    - The `update_customer_tier_trigger` trigger and the hardcoded
+      `calculate_tier(integer)` / `calculate_tier_progress(integer)` are replaced
+
+  3. Functions
+    - `get_tier_ladder`, `calculate_tier`, `calculate_tier_progress`,
+      `tier_rank` and `tier_multiplier` all read the ladder
+    - `refresh_customer_tier` recalculates one customer and runs after every
+      `process_point_transaction` and super admin adjustment; only other database
+      functions can call it
+    - `recalculate_customer_tiers` lets an owner re-rank everyone after editing the ladder
+    - `calculate_order_points` takes the tier multiplier from the ladder
+*/
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_current_tier_check;
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_min_tier_check;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tier_qualifying_value numeric NOT NULL DEFAULT 0;
+
+DROP TRIGGER IF EXISTS update_customer_tier_trigger ON customers;
+DROP FUNCTION IF EXISTS update_customer_tier();
+DROP FUNCTION IF EXISTS calculate_tier(integer);
+DROP FUNCTION IF EXISTS calculate_tier_progress(integer);
+
+-- Tiers ordered from lowest to highest threshold.
+-- Defaults match LoyaltyConfigService.getTierLadder.
+CREATE OR REPLACE FUNCTION get_tier_ladder(p_settings jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF jsonb_typeof(p_settings->'tierLadder'->'tiers') = 'array'
+    AND jsonb_array_length(p_settings->'tierLadder'->'tiers') > 0 THEN
+    RETURN (
+      SELECT jsonb_agg(t ORDER BY COALESCE((t->>'threshold')::numeric, 0), ord)
+      FROM jsonb_array_elements(p_settings->'tierLadder'->'tiers') WITH ORDINALITY AS x(t, ord)
+    );
+  END IF;
+
+  RETURN jsonb_build_array(
+    jsonb_build_object(
+      'id', 'bronze',
+      'name', 'Bronze',
+      'threshold', 0,
+      'multiplier', COALESCE(NULLIF((p_settings->'tierMultipliers'->>'bronze')::numeric, 0), 1.0),
+      'perks', '[]'::jsonb
+    ),
+    jsonb_build_object(
+      'id', 'silver',
+      'name', 'Silver',
+      'threshold', COALESCE((p_settings->'tier_thresholds'->>'silver')::numeric, 500),
+      'multiplier', COALESCE(NULLIF((p_settings->'tierMultipliers'->>'silver')::numeric, 0), 1.25),
+      'perks', '[]'::jsonb
+    ),
+    jsonb_build_object(
+      'id', 'gold',
+      'name', 'Gold',
+      'threshold', COALESCE((p_settings->'tier_thresholds'->>'gold')::numeric, 1000),
+      'multiplier', COALESCE(NULLIF((p_settings->'tierMultipliers'->>'gold')::numeric, 0), 1.5),
+      'perks', '[]'::jsonb
+    ),
+    jsonb_build_object(
+      'id', 'platinum',
+      'name', 'Platinum',
+      'threshold', COALESCE((p_settings->'tier_thresholds'->>'platinum')::numeric, 2000),
+      'multiplier', COALESCE(NULLIF((p_settings->'tierMultipliers'->>'platinum')::numeric, 0), 2.0),
+      'perks', '[]'::jsonb
+    )
+  );
+END;
+$$;
+
+-- The value a customer qualifies on: lifetime points, spend or visits,
+-- either all time or within the ladder's rolling window
+CREATE OR REPLACE FUNCTION calculate_tier_value(p_customer_id uuid, p_settings jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_metric text := COALESCE(p_settings->'tierLadder'->>'metric', 'lifetime_points');
+  v_window integer := COALESCE((p_settings->'tierLadder'->>'windowMonths')::integer, 0);
+  v_value numeric;
+BEGIN
+  IF v_window > 0 THEN
+    SELECT CASE v_metric
+        WHEN 'spend' THEN COALESCE(SUM(amount_spent) FILTER (WHERE type = 'purchase'), 0)
+        WHEN 'visits' THEN COUNT(*) FILTER (WHERE type = 'purchase')
+        ELSE COALESCE(SUM(points) FILTER (WHERE points > 0), 0)
+      END
+    INTO v_value
+    FROM transactions
+    WHERE customer_id = p_customer_id
+      AND created_at >= now() - make_interval(months => v_window);
+  ELSE
+    SELECT CASE v_metric
+        WHEN 'spend' THEN total_spent
+        WHEN 'visits' THEN visit_count
+        ELSE lifetime_points
+      END
+    INTO v_value
+    FROM customers
+    WHERE id = p_customer_id;
+  END IF;
+
+  RETURN COALESCE(v_value, 0);
+END;
+$$;
+
+-- Highest tier whose threshold the value reaches; the first tier otherwise
+CREATE OR REPLACE FUNCTION calculate_tier(p_settings jsonb, p_value numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT t->>'id'
+      FROM jsonb_array_elements(get_tier_ladder(p_settings)) WITH ORDINALITY AS x(t, ord)
+      WHERE COALESCE((t->>'threshold')::numeric, 0) <= p_value
+      ORDER BY ord DESC
+      LIMIT 1
+    ),
+    get_tier_ladder(p_settings)->0->>'id'
+  );
+$$;
+
+-- Percentage of the way from the current tier's threshold to the next one
+CREATE OR REPLACE FUNCTION calculate_tier_progress(p_settings jsonb, p_value numeric)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_tier jsonb;
+  v_current numeric := 0;
+  v_next numeric;
+BEGIN
+  FOR v_tier IN SELECT t FROM jsonb_array_elements(get_tier_ladder(p_settings)) AS x(t) LOOP
+    IF COALESCE((v_tier->>'threshold')::numeric, 0) <= p_value THEN
+      v_current := COALESCE((v_tier->>'threshold')::numeric, 0);
+    ELSE
+      v_next := (v_tier->>'threshold')::numeric;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_next IS NULL THEN
+    RETURN 100;
+  END IF;
+
+  RETURN LEAST(100, GREATEST(0, FLOOR((p_value - v_current) * 100 / (v_next - v_current))))::integer;
+END;
+$$;
+
+-- Position of a tier in the ladder (0 = lowest), NULL when the tier no longer exists
+CREATE OR REPLACE FUNCTION tier_rank(p_settings jsonb, p_tier text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (ord - 1)::integer
+  FROM jsonb_array_elements(get_tier_ladder(p_settings)) WITH ORDINALITY AS x(t, ord)
+  WHERE t->>'id' = p_tier
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION tier_multiplier(p_settings jsonb, p_tier text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT NULLIF((t->>'multiplier')::numeric, 0)
+      FROM jsonb_array_elements(get_tier_ladder(p_settings)) AS x(t)
+      WHERE t->>'id' = p_tier
+      LIMIT 1
+    ),
+    1.0
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_customer_tier(p_customer_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_value numeric;
+  v_tier text;
+BEGIN
+  SELECT r.settings INTO v_settings
+  FROM customers c
+  JOIN restaurants r ON r.id = c.restaurant_id
+  WHERE c.id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_value := calculate_tier_value(p_customer_id, v_settings);
+  v_tier := calculate_tier(v_settings, v_value);
+
+  UPDATE customers SET
+    current_tier = v_tier,
+    tier_progress = calculate_tier_progress(v_settings, v_value),
+    tier_qualifying_value = v_value
+  WHERE id = p_customer_id;
+
+  RETURN v_tier;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_customer_tier(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Re-rank every customer after the owner changes the ladder
+CREATE OR REPLACE FUNCTION recalculate_customer_tiers(p_restaurant_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to update tiers for this restaurant';
+  END IF;
+
+  FOR v_customer_id IN SELECT id FROM customers WHERE restaurant_id = p_restaurant_id LOOP
+    PERFORM refresh_customer_tier(v_customer_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION recalculate_customer_tiers(uuid) TO authenticated;
+
+-- Tier changes are now decided in one place
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+BEGIN
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals
+  v_new_total_points := GREATEST(0, v_customer_record.total_points + v_points);
+
+  -- Only increase lifetime points for positive transactions
+  IF v_points > 0 THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  );
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION super_admin_adjust_customer_points(
+  p_customer_id uuid,
+  p_points_adjustment integer,
+  p_description text DEFAULT 'Super admin adjustment'
+)
+RETURNS void AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  -- Get customer details
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+  
+  -- Create transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    type,
+    points,
+    description,
+    created_at
+  ) VALUES (
+    v_customer.restaurant_id,
+    p_customer_id,
+    CASE WHEN p_points_adjustment > 0 THEN 'bonus' ELSE 'redemption' END,
+    p_points_adjustment,
+    p_description,
+    now()
+  );
+  
+  -- Update customer points
+  UPDATE customers 
+  SET 
+    total_points = GREATEST(0, total_points + p_points_adjustment),
+    lifetime_points = CASE 
+      WHEN p_points_adjustment > 0 THEN lifetime_points + p_points_adjustment 
+      ELSE lifetime_points 
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  PERFORM refresh_customer_tier(p_customer_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION super_admin_reset_customer_data(p_restaurant_id uuid DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  IF p_restaurant_id IS NOT NULL THEN
+    -- Reset specific restaurant's customer data
+    DELETE FROM transactions WHERE restaurant_id = p_restaurant_id;
+    DELETE FROM reward_redemptions WHERE restaurant_id = p_restaurant_id;
+    UPDATE customers c
+    SET 
+      total_points = 0,
+      lifetime_points = 0,
+      current_tier = get_tier_ladder(r.settings)->0->>'id',
+      tier_progress = 0,
+      tier_qualifying_value = 0,
+      visit_count = 0,
+      total_spent = 0,
+      last_visit = NULL
+    FROM restaurants r
+    WHERE r.id = c.restaurant_id AND c.restaurant_id = p_restaurant_id;
+  ELSE
+    -- Reset all customer data
+    DELETE FROM transactions;
+    DELETE FROM reward_redemptions;
+    UPDATE customers c
+    SET 
+      total_points = 0,
+      lifetime_points = 0,
+      current_tier = get_tier_ladder(r.settings)->0->>'id',
+      tier_progress = 0,
+      tier_qualifying_value = 0,
+      visit_count = 0,
+      total_spent = 0,
+      last_visit = NULL
+    FROM restaurants r
+    WHERE r.id = c.restaurant_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION calculate_order_points(
+  p_restaurant_id uuid,
+  p_lines jsonb,
+  p_customer_tier text DEFAULT 'bronze',
+  p_branch_id uuid DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_rules jsonb := '[]'::jsonb;
+  v_rule jsonb;
+  v_branch_rule jsonb;
+  v_line jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_has_item boolean;
+  v_point_value numeric;
+  v_timezone text;
+  v_amount numeric;
+  v_quantity integer;
+  v_line_points integer;
+  v_base_total integer := 0;
+  v_points integer := 0;
+  v_before integer;
+  v_order_amount numeric := 0;
+  v_amount_given boolean := false;
+  v_tier_multiplier numeric;
+  v_local timestamp;
+  v_day integer;
+  v_minutes integer;
+  v_start integer;
+  v_end integer;
+  v_in_window boolean;
+  v_applied jsonb := '[]'::jsonb;
+BEGIN
+  SELECT settings INTO v_settings
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  IF v_settings IS NULL THEN
+    RETURN jsonb_build_object('points', 0, 'breakdown', '{}'::jsonb);
+  END IF;
+
+  v_point_value := COALESCE(NULLIF((v_settings->>'pointValueAED')::numeric, 0), 0.05);
+  v_timezone := COALESCE(v_settings->>'timezone', 'Asia/Dubai');
+
+  -- Enabled rules only, keeping the order the owner saved them in
+  IF jsonb_typeof(v_settings->'earningRules') = 'array' THEN
+    SELECT COALESCE(jsonb_agg(r ORDER BY ord), '[]'::jsonb) INTO v_rules
+    FROM jsonb_array_elements(v_settings->'earningRules') WITH ORDINALITY AS t(r, ord)
+    WHERE COALESCE((r->>'enabled')::boolean, false);
+  END IF;
+
+  IF p_branch_id IS NOT NULL THEN
+    SELECT r INTO v_branch_rule
+    FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS t(r, ord)
+    WHERE r->>'type' = 'branch_override'
+      AND (r->'branchIds') ? p_branch_id::text
+    ORDER BY ord
+    LIMIT 1;
+  END IF;
+
+  -- Stage 1 + 2: base points and category multipliers per line
+  FOR v_line IN SELECT value FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 1);
+    v_has_item := false;
+
+    IF v_line->>'menu_item_id' IS NOT NULL THEN
+      SELECT * INTO v_menu_item
+      FROM menu_items
+      WHERE id = (v_line->>'menu_item_id')::uuid AND restaurant_id = p_restaurant_id;
+      v_has_item := FOUND;
+    END IF;
+
+    IF v_line->>'amount' IS NOT NULL THEN
+      v_amount := (v_line->>'amount')::numeric;
+      v_amount_given := true;
+    ELSIF v_has_item THEN
+      v_amount := v_menu_item.selling_price * v_quantity;
+    ELSE
+      v_amount := 0;
+    END IF;
+    v_order_amount := v_order_amount + v_amount;
+
+    IF v_branch_rule IS NOT NULL THEN
+      v_line_points := FLOOR(ROUND(v_amount * (v_branch_rule->>'pointsPerAED')::numeric, 6));
+    ELSIF COALESCE((v_settings->'blanketMode'->>'enabled')::boolean, false) THEN
+      CASE COALESCE(v_settings->'blanketMode'->>'type', 'smart')
+        WHEN 'smart' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * 0.3
+            * (COALESCE(NULLIF((v_settings->'blanketMode'->'smartSettings'->>'profitAllocationPercent')::numeric, 0), 20) / 100.0)
+            / v_point_value, 6));
+        WHEN 'manual' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * COALESCE(NULLIF((v_settings->'blanketMode'->'manualSettings'->>'pointsPerAED')::numeric, 0), 0.1), 6));
+        WHEN 'spend' THEN
+          v_line_points := FLOOR(ROUND(
+            v_amount * COALESCE(NULLIF((v_settings->'blanketMode'->'spendSettings'->>'pointsPerAED')::numeric, 0), 0.2), 6));
+        ELSE
+          v_line_points := 0;
+      END CASE;
+    ELSIF v_has_item THEN
+      CASE v_menu_item.loyalty_mode
+        WHEN 'smart' THEN
+          v_line_points := FLOOR(ROUND(
+            (v_menu_item.selling_price - v_menu_item.cost_price) * v_quantity
+            * (COALESCE((v_menu_item.loyalty_settings->>'profit_allocation_percent')::numeric, 0) / 100.0)
+            / v_point_value, 6));
+        WHEN 'manual' THEN
+          v_line_points := COALESCE((v_menu_item.loyalty_settings->>'fixed_points')::integer, 0) * v_quantity;
+        ELSE
+          v_line_points := 0;
+      END CASE;
+    ELSE
+      v_line_points := 0;
+    END IF;
+
+    v_base_total := v_base_total + v_line_points;
+
+    IF v_has_item AND v_menu_item.category IS NOT NULL THEN
+      FOR v_rule IN
+        SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+        WHERE r->>'type' = 'category_multiplier'
+          AND (r->'categories') ? v_menu_item.category
+      LOOP
+        v_before := v_line_points;
+        v_line_points := FLOOR(ROUND(v_line_points * (v_rule->>'multiplier')::numeric, 6));
+        v_applied := v_applied || jsonb_build_object(
+          'ruleId', v_rule->>'id',
+          'name', v_rule->>'name',
+          'type', v_rule->>'type',
+          'pointsBefore', v_before,
+          'pointsAfter', v_line_points
+        );
+      END LOOP;
+    END IF;
+
+    v_points := v_points + v_line_points;
+  END LOOP;
+
+  IF v_branch_rule IS NOT NULL THEN
+    v_applied := jsonb_build_array(jsonb_build_object(
+      'ruleId', v_branch_rule->>'id',
+      'name', v_branch_rule->>'name',
+      'type', v_branch_rule->>'type',
+      'pointsBefore', 0,
+      'pointsAfter', v_base_total
+    )) || v_applied;
+  END IF;
+
+  -- Stage 3: time windows, evaluated in the restaurant's timezone
+  v_local := p_at AT TIME ZONE v_timezone;
+  v_day := EXTRACT(DOW FROM v_local)::integer;
+  v_minutes := EXTRACT(HOUR FROM v_local)::integer * 60 + EXTRACT(MINUTE FROM v_local)::integer;
+
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'time_window'
+  LOOP
+    v_start := COALESCE(NULLIF(split_part(v_rule->>'startTime', ':', 1), '')::integer, 0) * 60
+      + COALESCE(NULLIF(split_part(v_rule->>'startTime', ':', 2), '')::integer, 0);
+    v_end := COALESCE(NULLIF(split_part(v_rule->>'endTime', ':', 1), '')::integer, 0) * 60
+      + COALESCE(NULLIF(split_part(v_rule->>'endTime', ':', 2), '')::integer, 0);
+
+    IF v_start <= v_end THEN
+      v_in_window := (v_rule->'days') @> to_jsonb(v_day) AND v_minutes >= v_start AND v_minutes < v_end;
+    ELSIF v_minutes >= v_start THEN
+      v_in_window := (v_rule->'days') @> to_jsonb(v_day);
+    ELSIF v_minutes < v_end THEN
+      -- Early-morning part of an overnight window belongs to the previous day
+      v_in_window := (v_rule->'days') @> to_jsonb((v_day + 6) % 7);
+    ELSE
+      v_in_window := false;
+    END IF;
+
+    IF v_in_window THEN
+      v_before := v_points;
+      v_points := FLOOR(ROUND(v_points * (v_rule->>'multiplier')::numeric, 6));
+      v_applied := v_applied || jsonb_build_object(
+        'ruleId', v_rule->>'id',
+        'name', v_rule->>'name',
+        'type', v_rule->>'type',
+        'pointsBefore', v_before,
+        'pointsAfter', v_points
+      );
+    END IF;
+  END LOOP;
+
+  -- Stage 4: minimum-spend bonuses, only when the caller gave an amount (item-only
+  -- lookups have nothing to compare against)
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'min_spend'
+      AND v_amount_given
+      AND v_order_amount >= (r->>'minAmount')::numeric
+  LOOP
+    v_before := v_points;
+    v_points := v_points + FLOOR((v_rule->>'bonusPoints')::numeric);
+    v_applied := v_applied || jsonb_build_object(
+      'ruleId', v_rule->>'id',
+      'name', v_rule->>'name',
+      'type', v_rule->>'type',
+      'pointsBefore', v_before,
+      'pointsAfter', v_points
+    );
+  END LOOP;
+
+  -- Stage 5: tier multiplier from the restaurant's tier ladder
+  v_tier_multiplier := tier_multiplier(v_settings, p_customer_tier);
+  v_points := FLOOR(ROUND(v_points * v_tier_multiplier, 6));
+
+  -- Stage 6: per-transaction caps
+  FOR v_rule IN
+    SELECT r FROM jsonb_array_elements(v_rules) AS t(r)
+    WHERE r->>'type' = 'transaction_cap'
+  LOOP
+    IF v_points > (v_rule->>'maxPoints')::numeric THEN
+      v_before := v_points;
+      v_points := GREATEST(0, FLOOR((v_rule->>'maxPoints')::numeric));
+      v_applied := v_applied || jsonb_build_object(
+        'ruleId', v_rule->>'id',
+        'name', v_rule->>'name',
+        'type', v_rule->>'type',
+        'pointsBefore', v_before,
+        'pointsAfter', v_points
+      );
+    END IF;
+  END LOOP;
+
+  v_points := GREATEST(0, v_points);
+
+  RETURN jsonb_build_object(
+    'points', v_points,
+    'breakdown', jsonb_build_object(
+      'basePoints', v_base_total,
+      'orderAmount', v_order_amount,
+      'rules', v_applied,
+      'tierMultiplier', v_tier_multiplier,
+      'finalPoints', v_points,
+      'pointValueAED', v_point_value
+    )
+  );
+END;
+$$;
+
+-- Put every existing customer on the ladder (platinum was never reachable before)
+DO $$
+DECLARE
+  v_customer_id uuid;
+BEGIN
+  FOR v_customer_id IN SELECT id FROM customers LOOP
+    PERFORM refresh_customer_tier(v_customer_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,387 @@
+/*
+  # Tier re-qualification, grace period and tier history
+
+  1. Restaurant Settings
+    - `settings.tierLadder.period` sets how long a tier lasts:
+      - `all_time`: tiers are never lost (default when `windowMonths` is 0)
+      - `rolling`: customers must keep qualifying over the last `windowMonths` months
+      - `calendar_year`: status earned in a year is kept through the following year
+    - `settings.tierLadder.graceMonths`: how long a customer keeps their tier after
+      failing to re-qualify (0 = downgrade at the next evaluation)
+
+  2. New Tables
+    - `tier_history`
+      - one row per tier change, grace period start or re-qualification
+      - `from_tier`, `to_tier`, `change_type`, `qualifying_value`, `reason`
+
+  3. Changes
+    - `customers.tier_achieved_at` records when the current tier was reached
+    - `customers.tier_grace_until` is set while a customer is in their grace period
+    - `refresh_customer_tier` only upgrades unless asked to downgrade, so customers
+      no longer drop a tier in the middle of a period because of a single transaction
+    - `recalculate_customer_tiers` (after an owner edits the ladder) no longer downgrades
+      either; customers who stop qualifying go through re-qualification and its grace period
+
+  4. Scheduled Job
+    - `evaluate_tier_requalification()` runs daily through pg_cron, starts grace
+      periods and downgrades customers whose grace period has ended
+
+  5. Security
+    - Enable RLS on `tier_history`; restaurant owners and staff can read it
+    - `refresh_customer_tier` and `evaluate_tier_requalification` can't be called by clients
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tier_achieved_at timestamptz DEFAULT now();
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tier_grace_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS tier_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  from_tier text,
+  to_tier text NOT NULL,
+  change_type text NOT NULL CHECK (change_type IN ('upgrade', 'downgrade', 'grace_started', 'requalified', 'reassigned')),
+  qualifying_value numeric NOT NULL DEFAULT 0,
+  reason text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tier_history_customer_created
+  ON tier_history(customer_id, created_at DESC);
+
+ALTER TABLE tier_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant users can view tier history"
+  ON tier_history
+  FOR SELECT
+  TO authenticated
+  USING (restaurant_id IN (
+    SELECT id FROM restaurants WHERE owner_id = auth.uid()
+    UNION
+    SELECT restaurant_id FROM restaurant_staff WHERE user_id = auth.uid()
+  ));
+
+-- Mirrors LoyaltyConfigService.getTierLadder
+CREATE OR REPLACE FUNCTION tier_period(p_settings jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_settings->'tierLadder'->>'period' IN ('all_time', 'rolling', 'calendar_year')
+      THEN p_settings->'tierLadder'->>'period'
+    WHEN COALESCE((p_settings->'tierLadder'->>'windowMonths')::integer, 0) > 0 THEN 'rolling'
+    ELSE 'all_time'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_tier_value_between(
+  p_customer_id uuid,
+  p_metric text,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    CASE p_metric
+      WHEN 'spend' THEN SUM(amount_spent) FILTER (WHERE type = 'purchase')
+      WHEN 'visits' THEN COUNT(*) FILTER (WHERE type = 'purchase')
+      ELSE SUM(points) FILTER (WHERE points > 0)
+    END,
+    0
+  )
+  FROM transactions
+  WHERE customer_id = p_customer_id
+    AND created_at >= p_from
+    AND created_at < p_to;
+$$;
+
+-- Start of the current calendar year in the restaurant's timezone
+CREATE OR REPLACE FUNCTION tier_year_start(p_settings jsonb)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('year', now() AT TIME ZONE COALESCE(p_settings->>'timezone', 'Asia/Dubai'))
+    AT TIME ZONE COALESCE(p_settings->>'timezone', 'Asia/Dubai');
+$$;
+
+-- The value a customer qualifies on within the current period
+CREATE OR REPLACE FUNCTION calculate_tier_value(p_customer_id uuid, p_settings jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_metric text := COALESCE(p_settings->'tierLadder'->>'metric', 'lifetime_points');
+  v_window integer := COALESCE(NULLIF((p_settings->'tierLadder'->>'windowMonths')::integer, 0), 12);
+  v_value numeric;
+BEGIN
+  CASE tier_period(p_settings)
+    WHEN 'rolling' THEN
+      RETURN calculate_tier_value_between(
+        p_customer_id, v_metric, now() - make_interval(months => v_window), 'infinity'
+      );
+    WHEN 'calendar_year' THEN
+      RETURN calculate_tier_value_between(
+        p_customer_id, v_metric, tier_year_start(p_settings), 'infinity'
+      );
+    ELSE
+      SELECT CASE v_metric
+          WHEN 'spend' THEN total_spent
+          WHEN 'visits' THEN visit_count
+          ELSE lifetime_points
+        END
+      INTO v_value
+      FROM customers
+      WHERE id = p_customer_id;
+
+      RETURN COALESCE(v_value, 0);
+  END CASE;
+END;
+$$;
+
+-- Tier the customer has earned for the current period. With calendar years the
+-- tier reached last year still counts, so status lasts through the next year.
+CREATE OR REPLACE FUNCTION calculate_qualified_tier(p_customer_id uuid, p_settings jsonb)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tier text;
+  v_last_year_tier text;
+BEGIN
+  v_tier := calculate_tier(p_settings, calculate_tier_value(p_customer_id, p_settings));
+
+  IF tier_period(p_settings) = 'calendar_year' THEN
+    v_last_year_tier := calculate_tier(p_settings, calculate_tier_value_between(
+      p_customer_id,
+      COALESCE(p_settings->'tierLadder'->>'metric', 'lifetime_points'),
+      tier_year_start(p_settings) - interval '1 year',
+      tier_year_start(p_settings)
+    ));
+
+    IF tier_rank(p_settings, v_last_year_tier) > tier_rank(p_settings, v_tier) THEN
+      v_tier := v_last_year_tier;
+    END IF;
+  END IF;
+
+  RETURN v_tier;
+END;
+$$;
+
+-- Human-readable qualifying value for tier history, e.g. "1200 points in the last 12 months"
+CREATE OR REPLACE FUNCTION describe_tier_value(p_settings jsonb, p_value numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim_scale(round(p_value, 2))::text
+    || CASE COALESCE(p_settings->'tierLadder'->>'metric', 'lifetime_points')
+      WHEN 'spend' THEN ' AED spent'
+      WHEN 'visits' THEN ' visits'
+      ELSE ' points earned'
+    END
+    || CASE tier_period(p_settings)
+      WHEN 'rolling' THEN ' in the last '
+        || COALESCE(NULLIF((p_settings->'tierLadder'->>'windowMonths')::integer, 0), 12) || ' months'
+      WHEN 'calendar_year' THEN ' this year'
+      ELSE ''
+    END;
+$$;
+
+-- Upgrades happen straight away; downgrades only when the caller allows them
+DROP FUNCTION IF EXISTS refresh_customer_tier(uuid);
+
+CREATE OR REPLACE FUNCTION refresh_customer_tier(
+  p_customer_id uuid,
+  p_allow_downgrade boolean DEFAULT false,
+  p_reason text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_settings jsonb;
+  v_value numeric;
+  v_tier text;
+  v_current_rank integer;
+  v_new_rank integer;
+  v_change text;
+  v_reason text;
+BEGIN
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT settings INTO v_settings
+  FROM restaurants
+  WHERE id = v_customer.restaurant_id;
+
+  v_value := calculate_tier_value(p_customer_id, v_settings);
+  v_tier := calculate_qualified_tier(p_customer_id, v_settings);
+  v_current_rank := tier_rank(v_settings, v_customer.current_tier);
+  v_new_rank := tier_rank(v_settings, v_tier);
+
+  IF v_current_rank IS NULL THEN
+    v_change := 'reassigned';
+    v_reason := 'Previous tier ' || COALESCE(v_customer.current_tier, 'none') || ' is no longer offered';
+  ELSIF v_new_rank > v_current_rank THEN
+    v_change := 'upgrade';
+    v_reason := 'Qualified with ' || describe_tier_value(v_settings, v_value);
+  ELSIF v_new_rank < v_current_rank AND p_allow_downgrade THEN
+    v_change := 'downgrade';
+    v_reason := 'Did not re-qualify: ' || describe_tier_value(v_settings, v_value);
+  ELSIF v_new_rank >= v_current_rank AND v_customer.tier_grace_until IS NOT NULL THEN
+    v_change := 'requalified';
+    v_reason := 'Re-qualified with ' || describe_tier_value(v_settings, v_value);
+  END IF;
+
+  IF v_change IN ('upgrade', 'downgrade', 'reassigned') THEN
+    UPDATE customers SET
+      current_tier = v_tier,
+      tier_achieved_at = now(),
+      tier_grace_until = NULL,
+      tier_progress = calculate_tier_progress(v_settings, v_value),
+      tier_qualifying_value = v_value
+    WHERE id = p_customer_id;
+  ELSE
+    UPDATE customers SET
+      tier_grace_until = CASE WHEN v_change = 'requalified' THEN NULL ELSE tier_grace_until END,
+      tier_progress = calculate_tier_progress(v_settings, v_value),
+      tier_qualifying_value = v_value
+    WHERE id = p_customer_id;
+  END IF;
+
+  IF v_change IS NOT NULL THEN
+    INSERT INTO tier_history (
+      restaurant_id,
+      customer_id,
+      from_tier,
+      to_tier,
+      change_type,
+      qualifying_value,
+      reason
+    ) VALUES (
+      v_customer.restaurant_id,
+      p_customer_id,
+      v_customer.current_tier,
+      CASE WHEN v_change = 'requalified' THEN v_customer.current_tier ELSE v_tier END,
+      v_change,
+      v_value,
+      COALESCE(p_reason, v_reason)
+    );
+  END IF;
+
+  RETURN CASE WHEN v_change IN ('upgrade', 'downgrade', 'reassigned') THEN v_tier ELSE v_customer.current_tier END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_customer_tier(uuid, boolean, text) FROM PUBLIC, anon, authenticated;
+
+-- Editing the ladder applies upgrades and removed tiers straight away; downgrades wait for
+-- re-qualification so the grace period still applies
+CREATE OR REPLACE FUNCTION recalculate_customer_tiers(p_restaurant_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to update tiers for this restaurant';
+  END IF;
+
+  FOR v_customer_id IN SELECT id FROM customers WHERE restaurant_id = p_restaurant_id LOOP
+    PERFORM refresh_customer_tier(v_customer_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Daily re-qualification for restaurants whose tiers run on a period
+CREATE OR REPLACE FUNCTION evaluate_tier_requalification()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_restaurant record;
+  v_customer customers%ROWTYPE;
+  v_tier text;
+  v_value numeric;
+  v_grace integer;
+  v_grace_until timestamptz;
+  v_downgraded integer := 0;
+BEGIN
+  FOR v_restaurant IN
+    SELECT id, settings FROM restaurants WHERE tier_period(settings) <> 'all_time'
+  LOOP
+    v_grace := GREATEST(0, COALESCE((v_restaurant.settings->'tierLadder'->>'graceMonths')::integer, 0));
+
+    FOR v_customer IN SELECT * FROM customers WHERE restaurant_id = v_restaurant.id LOOP
+      v_tier := calculate_qualified_tier(v_customer.id, v_restaurant.settings);
+
+      IF tier_rank(v_restaurant.settings, v_tier) >= COALESCE(tier_rank(v_restaurant.settings, v_customer.current_tier), -1) THEN
+        -- Still qualifies: keeps progress current and ends any grace period
+        PERFORM refresh_customer_tier(v_customer.id);
+      ELSIF v_customer.tier_grace_until IS NULL AND v_grace > 0 THEN
+        v_value := calculate_tier_value(v_customer.id, v_restaurant.settings);
+        v_grace_until := now() + make_interval(months => v_grace);
+
+        UPDATE customers SET tier_grace_until = v_grace_until WHERE id = v_customer.id;
+
+        INSERT INTO tier_history (
+          restaurant_id,
+          customer_id,
+          from_tier,
+          to_tier,
+          change_type,
+          qualifying_value,
+          reason
+        ) VALUES (
+          v_restaurant.id,
+          v_customer.id,
+          v_customer.current_tier,
+          v_customer.current_tier,
+          'grace_started',
+          v_value,
+          'Did not re-qualify: ' || describe_tier_value(v_restaurant.settings, v_value)
+            || '. Tier kept until ' || to_char(v_grace_until AT TIME ZONE COALESCE(v_restaurant.settings->>'timezone', 'Asia/Dubai'), 'DD Mon YYYY')
+        );
+
+        PERFORM refresh_customer_tier(v_customer.id);
+      ELSIF v_customer.tier_grace_until IS NULL OR v_customer.tier_grace_until <= now() THEN
+        PERFORM refresh_customer_tier(v_customer.id, true);
+        v_downgraded := v_downgraded + 1;
+      ELSE
+        PERFORM refresh_customer_tier(v_customer.id);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_downgraded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION evaluate_tier_requalification() FROM PUBLIC, anon, authenticated;
+
+-- Re-qualify every night, after the points expiry job
+SELECT cron.schedule('evaluate-tier-requalification', '20 0 * * *', $$SELECT evaluate_tier_requalification()$$);
@@ -0,0 +1,293 @@
+/*
+  # Atomic reward redemption with single-use codes
+
+  1. Changes
+    - `reward_redemptions.code`: unique, unguessable code the customer shows to staff
+      (10 characters from a 32-letter alphabet without look-alike characters)
+    - `reward_redemptions.branch_id`: branch where the reward was redeemed
+    - `reward_redemptions.used_branch_id`, `used_by`: where and by whom the code was consumed
+
+  2. Functions
+    - `redeem_reward` locks the customer and reward rows, checks tier, stock and
+      points, deducts the points, increments `total_redeemed` and issues the code,
+      all in one transaction
+    - `verify_redemption_code` looks a code up for staff without consuming it
+    - `consume_redemption_code` moves a pending redemption to `used`, once
+
+  3. Security
+    - Verifying and consuming codes is limited to the restaurant's owner and staff
+    - Redeeming is too: there is no customer sign-in yet, so a customer id alone must not
+      be enough to spend that customer's points
+    - `redemption_code_details()` takes a whole row, so only the functions above can call it
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS code text;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id) ON DELETE SET NULL;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS used_branch_id uuid REFERENCES branches(id) ON DELETE SET NULL;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS used_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reward_redemptions_code
+  ON reward_redemptions(code)
+  WHERE code IS NOT NULL;
+
+-- 32 symbols so every random byte maps without bias; 10 symbols = 50 bits
+CREATE OR REPLACE FUNCTION generate_redemption_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes bytea := extensions.gen_random_bytes(10);
+  v_code text := '';
+BEGIN
+  FOR i IN 0..9 LOOP
+    v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, i) % 32) + 1, 1);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+-- Codes are stored without separators; staff can type them with dashes, spaces or lower case
+CREATE OR REPLACE FUNCTION normalize_redemption_code(p_code text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(upper(COALESCE(p_code, '')), '[^A-Z0-9]', '', 'g');
+$$;
+
+CREATE OR REPLACE FUNCTION is_restaurant_member(p_restaurant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+    UNION
+    SELECT 1 FROM restaurant_staff WHERE restaurant_id = p_restaurant_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_reward_id uuid,
+  p_branch_id uuid DEFAULT NULL,
+  p_mark_used boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_settings jsonb;
+  v_redemption_id uuid;
+  v_code text;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Only restaurant staff can redeem rewards';
+  END IF;
+
+  -- Lock both rows so concurrent redemptions queue up instead of double-spending
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE id = p_reward_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_reward.is_active THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_reward.total_available IS NOT NULL AND v_reward.total_redeemed >= v_reward.total_available THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+
+  IF v_reward.min_tier IS NOT NULL AND (
+    tier_rank(v_settings, v_reward.min_tier) IS NULL
+    OR COALESCE(tier_rank(v_settings, v_customer.current_tier), 0) < tier_rank(v_settings, v_reward.min_tier)
+  ) THEN
+    RAISE EXCEPTION 'This reward requires % tier or higher', COALESCE((
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_tier_ladder(v_settings)) AS x(t)
+      WHERE t->>'id' = v_reward.min_tier
+    ), v_reward.min_tier);
+  END IF;
+
+  IF v_customer.total_points < v_reward.points_required THEN
+    RAISE EXCEPTION 'Insufficient points for this reward';
+  END IF;
+
+  -- A clash is astronomically unlikely, but retry rather than fail if one happens
+  LOOP
+    v_code := generate_redemption_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO reward_redemptions (
+    restaurant_id,
+    customer_id,
+    reward_id,
+    points_used,
+    status,
+    code,
+    branch_id,
+    used_at,
+    used_branch_id,
+    used_by
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_reward_id,
+    v_reward.points_required,
+    CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    v_code,
+    p_branch_id,
+    CASE WHEN p_mark_used THEN now() END,
+    CASE WHEN p_mark_used THEN p_branch_id END,
+    CASE WHEN p_mark_used THEN auth.uid() END
+  )
+  RETURNING id INTO v_redemption_id;
+
+  PERFORM process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'redemption',
+    -v_reward.points_required,
+    'Redeemed: ' || v_reward.name,
+    0,
+    p_reward_id,
+    p_branch_id
+  );
+
+  UPDATE rewards
+  SET total_redeemed = total_redeemed + 1
+  WHERE id = p_reward_id;
+
+  RETURN jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'status', CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    'points_used', v_reward.points_required,
+    'reward_name', v_reward.name
+  );
+END;
+$$;
+
+-- Shape returned to staff when they look up or accept a code
+CREATE OR REPLACE FUNCTION redemption_code_details(p_redemption reward_redemptions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'redemption_id', p_redemption.id,
+    'code', p_redemption.code,
+    'status', p_redemption.status,
+    'points_used', p_redemption.points_used,
+    'redeemed_at', p_redemption.redeemed_at,
+    'used_at', p_redemption.used_at,
+    'reward_name', r.name,
+    'reward_description', r.description,
+    'customer_name', c.first_name || ' ' || c.last_name,
+    'customer_email', c.email
+  )
+  FROM rewards r, customers c
+  WHERE r.id = p_redemption.reward_id
+    AND c.id = p_redemption.customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_redemption_code(p_restaurant_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not authorized to verify codes for this restaurant';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE restaurant_id = p_restaurant_id
+    AND code = normalize_redemption_code(p_code);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption code not found';
+  END IF;
+
+  RETURN redemption_code_details(v_redemption);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION consume_redemption_code(
+  p_restaurant_id uuid,
+  p_code text,
+  p_branch_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not authorized to accept codes for this restaurant';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE restaurant_id = p_restaurant_id
+    AND code = normalize_redemption_code(p_code)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption code not found';
+  END IF;
+
+  IF v_redemption.status = 'used' THEN
+    RAISE EXCEPTION 'This code was already used on %', to_char(v_redemption.used_at, 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'This code is % and can no longer be used', v_redemption.status;
+  END IF;
+
+  UPDATE reward_redemptions SET
+    status = 'used',
+    used_at = now(),
+    used_branch_id = p_branch_id,
+    used_by = auth.uid()
+  WHERE id = v_redemption.id
+  RETURNING * INTO v_redemption;
+
+  RETURN redemption_code_details(v_redemption);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redemption_code_details(reward_redemptions) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeem_reward(uuid, uuid, uuid, uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_reward(uuid, uuid, uuid, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_redemption_code(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION consume_redemption_code(uuid, text, uuid) TO authenticated;
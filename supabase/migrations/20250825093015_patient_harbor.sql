@@ -0,0 +1,446 @@
+/*
+  # Redemption code lifecycle
+
+  1. Changes
+    - `rewards.redemption_ttl_hours`: how long a redemption code stays valid (NULL = no expiry)
+    - `reward_redemptions.expires_at`: set from the reward's TTL when the code is issued
+    - `reward_redemptions.cancelled_at`: when the customer cancelled the code
+    - `reward_redemptions.voided_at`, `voided_by`, `void_reason`: staff void with a recorded reason
+    - `reward_redemptions.status` gains `cancelled` and `voided`
+    - `transactions.type` gains `refund`
+
+  2. Functions
+    - `close_redemption` refunds the points of a redemption and restores the reward's stock.
+      It re-reads the redemption under a row lock and only closes a pending one (or, for a
+      void, a used one), so a redemption can never be refunded twice.
+    - `expire_redemptions` expires pending codes past `expires_at`; runs hourly
+    - `cancel_redemption` lets a customer cancel one of their own pending codes
+    - `void_redemption` lets owners and staff void a pending or used redemption
+    - `consume_redemption_code` refuses codes past their expiry time
+    - Refunds give points back without counting towards lifetime points or tier progress
+
+  3. Security
+    - `close_redemption` and `expire_redemptions` are internal: no client role can call them
+*/
+
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS redemption_ttl_hours integer DEFAULT 48
+  CHECK (redemption_ttl_hours IS NULL OR redemption_ttl_hours > 0);
+
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE reward_redemptions ADD COLUMN IF NOT EXISTS void_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_pending_expiry
+  ON reward_redemptions(expires_at)
+  WHERE status = 'pending';
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'reward_redemptions_status_check'
+  ) THEN
+    ALTER TABLE reward_redemptions DROP CONSTRAINT reward_redemptions_status_check;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'transactions_type_check'
+  ) THEN
+    ALTER TABLE transactions DROP CONSTRAINT transactions_type_check;
+  END IF;
+END $$;
+
+ALTER TABLE reward_redemptions ADD CONSTRAINT reward_redemptions_status_check
+  CHECK (status = ANY (ARRAY['pending'::text, 'used'::text, 'expired'::text, 'cancelled'::text, 'voided'::text]));
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type = ANY (ARRAY['purchase'::text, 'bonus'::text, 'referral'::text, 'signup'::text, 'redemption'::text, 'expiry'::text, 'refund'::text]));
+
+-- Stamp the expiry when a code is issued so later TTL changes don't affect codes already out there
+CREATE OR REPLACE FUNCTION set_redemption_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_ttl_hours integer;
+BEGIN
+  IF NEW.status = 'pending' AND NEW.expires_at IS NULL THEN
+    SELECT redemption_ttl_hours INTO v_ttl_hours
+    FROM rewards
+    WHERE id = NEW.reward_id;
+
+    IF v_ttl_hours IS NOT NULL THEN
+      NEW.expires_at := COALESCE(NEW.redeemed_at, now()) + make_interval(hours => v_ttl_hours);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_redemption_expiry_trigger ON reward_redemptions;
+CREATE TRIGGER set_redemption_expiry_trigger
+  BEFORE INSERT ON reward_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_redemption_expiry();
+
+-- Refunds restore spendable points only; they were never new earnings
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+BEGIN
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals
+  v_new_total_points := GREATEST(0, v_customer_record.total_points + v_points);
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  );
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_tier_value_between(
+  p_customer_id uuid,
+  p_metric text,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    CASE p_metric
+      WHEN 'spend' THEN SUM(amount_spent) FILTER (WHERE type = 'purchase')
+      WHEN 'visits' THEN COUNT(*) FILTER (WHERE type = 'purchase')
+      ELSE SUM(points) FILTER (WHERE points > 0 AND type <> 'refund')
+    END,
+    0
+  )
+  FROM transactions
+  WHERE customer_id = p_customer_id
+    AND created_at >= p_from
+    AND created_at < p_to;
+$$;
+
+-- Shared by expiry, cancellation and void
+CREATE OR REPLACE FUNCTION close_redemption(
+  p_redemption_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+  v_reward_name text;
+BEGIN
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  -- Only staff can take back a code that was already used
+  IF v_redemption.status <> 'pending' AND NOT (p_status = 'voided' AND v_redemption.status = 'used') THEN
+    RAISE EXCEPTION 'This redemption is already % and its points were refunded', v_redemption.status;
+  END IF;
+
+  SELECT name INTO v_reward_name FROM rewards WHERE id = v_redemption.reward_id;
+
+  UPDATE reward_redemptions SET
+    status = p_status,
+    cancelled_at = CASE WHEN p_status = 'cancelled' THEN now() ELSE cancelled_at END,
+    voided_at = CASE WHEN p_status = 'voided' THEN now() ELSE voided_at END,
+    voided_by = CASE WHEN p_status = 'voided' THEN auth.uid() ELSE voided_by END,
+    void_reason = CASE WHEN p_status = 'voided' THEN p_reason ELSE void_reason END
+  WHERE id = v_redemption.id;
+
+  PERFORM process_point_transaction(
+    v_redemption.restaurant_id,
+    v_redemption.customer_id,
+    'refund',
+    v_redemption.points_used,
+    'Refund: ' || COALESCE(v_reward_name, 'reward') || ' (' || p_status ||
+      CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END || ')',
+    0,
+    v_redemption.reward_id,
+    v_redemption.branch_id
+  );
+
+  UPDATE rewards
+  SET total_redeemed = GREATEST(0, total_redeemed - 1)
+  WHERE id = v_redemption.reward_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_redemptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  FOR v_redemption IN
+    SELECT *
+    FROM reward_redemptions
+    WHERE status = 'pending'
+      AND expires_at <= now()
+    ORDER BY expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM close_redemption(v_redemption.id, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_redemption(p_customer_id uuid, p_redemption_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id AND customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only unused codes can be cancelled';
+  END IF;
+
+  PERFORM close_redemption(v_redemption.id, 'cancelled');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION void_redemption(
+  p_restaurant_id uuid,
+  p_redemption_id uuid,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not authorized to void redemptions for this restaurant';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a redemption';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF v_redemption.status NOT IN ('pending', 'used') THEN
+    RAISE EXCEPTION 'This redemption is already % and its points were refunded', v_redemption.status;
+  END IF;
+
+  PERFORM close_redemption(v_redemption.id, 'voided', btrim(p_reason));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redemption_code_details(p_redemption reward_redemptions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'redemption_id', p_redemption.id,
+    'code', p_redemption.code,
+    'status', p_redemption.status,
+    'points_used', p_redemption.points_used,
+    'redeemed_at', p_redemption.redeemed_at,
+    'used_at', p_redemption.used_at,
+    'expires_at', p_redemption.expires_at,
+    'void_reason', p_redemption.void_reason,
+    'reward_name', r.name,
+    'reward_description', r.description,
+    'customer_name', c.first_name || ' ' || c.last_name,
+    'customer_email', c.email
+  )
+  FROM rewards r, customers c
+  WHERE r.id = p_redemption.reward_id
+    AND c.id = p_redemption.customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION consume_redemption_code(
+  p_restaurant_id uuid,
+  p_code text,
+  p_branch_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not authorized to accept codes for this restaurant';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE restaurant_id = p_restaurant_id
+    AND code = normalize_redemption_code(p_code)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption code not found';
+  END IF;
+
+  IF v_redemption.status = 'used' THEN
+    RAISE EXCEPTION 'This code was already used on %', to_char(v_redemption.used_at, 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'This code is % and can no longer be used', v_redemption.status;
+  END IF;
+
+  -- The hourly job refunds it; until then it must not be accepted
+  IF v_redemption.expires_at IS NOT NULL AND v_redemption.expires_at <= now() THEN
+    RAISE EXCEPTION 'This code expired on %', to_char(v_redemption.expires_at, 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  UPDATE reward_redemptions SET
+    status = 'used',
+    used_at = now(),
+    used_branch_id = p_branch_id,
+    used_by = auth.uid()
+  WHERE id = v_redemption.id
+  RETURNING * INTO v_redemption;
+
+  RETURN redemption_code_details(v_redemption);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_redemption(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_redemptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_redemption(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION void_redemption(uuid, uuid, text) TO authenticated;
+
+-- Codes are issued for hours, not days, so check every hour
+SELECT cron.schedule('expire-redemptions', '5 * * * *', $$SELECT expire_redemptions()$$);
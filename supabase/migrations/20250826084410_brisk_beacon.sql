@@ -0,0 +1,175 @@
+/*
+  # Signed, rotating QR codes
+
+  1. New Tables
+    - `qr_signing_keys`
+      - `restaurant_id` (uuid, primary key, references restaurants)
+      - `secret` (bytea, 32 random bytes)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `issue_customer_qr_token` returns a short-lived signed token identifying a customer
+    - `issue_redemption_qr_token` returns a short-lived signed token for a pending redemption
+    - `resolve_qr_token` checks the signature and age of a scanned token and returns
+      the customer or the redemption it points to
+
+  3. Token format
+    - `VOYA1.<C|R>.<id>.<issued at, epoch seconds>.<signature>`
+    - The signature is an HMAC-SHA256 over everything before it, keyed per restaurant
+    - Tokens are accepted for 60 seconds, so a screenshot of an old code is rejected
+
+  4. Security
+    - RLS is enabled on `qr_signing_keys` with no policies; only the functions above read it
+    - Resolving tokens is limited to the restaurant's owner and staff
+    - `sign_qr_payload` and `issue_qr_token` are internal; clients can only get tokens through
+      the issue functions above
+*/
+
+CREATE TABLE IF NOT EXISTS qr_signing_keys (
+  restaurant_id uuid PRIMARY KEY REFERENCES restaurants(id) ON DELETE CASCADE,
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE qr_signing_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION sign_qr_payload(p_restaurant_id uuid, p_payload text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_secret bytea;
+BEGIN
+  INSERT INTO qr_signing_keys (restaurant_id)
+  VALUES (p_restaurant_id)
+  ON CONFLICT (restaurant_id) DO NOTHING;
+
+  SELECT secret INTO v_secret FROM qr_signing_keys WHERE restaurant_id = p_restaurant_id;
+
+  -- URL-safe base64, truncated to 128 bits to keep the QR code small
+  RETURN left(translate(encode(extensions.hmac(convert_to(p_payload, 'UTF8'), v_secret, 'sha256'), 'base64'), '+/=', '-_'), 22);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_qr_token(p_restaurant_id uuid, p_kind text, p_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_issued_at bigint := floor(extract(epoch FROM now()))::bigint;
+  v_payload text := 'VOYA1.' || p_kind || '.' || p_id || '.' || v_issued_at;
+BEGIN
+  RETURN jsonb_build_object(
+    'token', v_payload || '.' || sign_qr_payload(p_restaurant_id, v_payload),
+    'expires_at', to_timestamp(v_issued_at + 60)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_customer_qr_token(p_customer_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id FROM customers WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  RETURN issue_qr_token(v_restaurant_id, 'C', p_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_redemption_qr_token(p_customer_id uuid, p_redemption_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id AND customer_id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'This code is % and can no longer be used', v_redemption.status;
+  END IF;
+
+  RETURN issue_qr_token(v_redemption.restaurant_id, 'R', p_redemption_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_qr_token(p_restaurant_id uuid, p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_parts text[] := string_to_array(btrim(COALESCE(p_token, '')), '.');
+  v_kind text;
+  v_id uuid;
+  v_age bigint;
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not authorized to scan codes for this restaurant';
+  END IF;
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 5
+    OR v_parts[1] <> 'VOYA1'
+    OR v_parts[2] NOT IN ('C', 'R')
+    OR v_parts[3] !~ '^[0-9a-f-]{36}$'
+    OR v_parts[4] !~ '^[0-9]{1,12}$'
+  THEN
+    RAISE EXCEPTION 'This is not a valid VOYA code';
+  END IF;
+
+  IF v_parts[5] <> sign_qr_payload(p_restaurant_id, array_to_string(v_parts[1:4], '.')) THEN
+    RAISE EXCEPTION 'This code was not issued by this restaurant';
+  END IF;
+
+  -- A little slack for a slow scan; anything older is treated as a replayed screenshot
+  v_age := floor(extract(epoch FROM now()))::bigint - v_parts[4]::bigint;
+  IF v_age > 60 OR v_age < -10 THEN
+    RAISE EXCEPTION 'This code has expired. Ask the customer to refresh it';
+  END IF;
+
+  v_kind := v_parts[2];
+  v_id := v_parts[3]::uuid;
+
+  IF v_kind = 'C' THEN
+    IF NOT EXISTS (SELECT 1 FROM customers WHERE id = v_id AND restaurant_id = p_restaurant_id) THEN
+      RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    RETURN jsonb_build_object('kind', 'customer', 'customer_id', v_id);
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = v_id AND restaurant_id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  RETURN jsonb_build_object('kind', 'redemption') || redemption_code_details(v_redemption);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sign_qr_payload(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_qr_token(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_customer_qr_token(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_redemption_qr_token(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_qr_token(uuid, text) TO authenticated;
@@ -0,0 +1,350 @@
+/*
+  # Passwordless customer wallet sessions
+
+  1. New Tables
+    - `customer_login_codes`
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `email` (text, lower-cased)
+      - `code_hash` (text, SHA-256 of the one-time code; the code itself is never stored)
+      - `expires_at` (timestamptz)
+      - `attempts` (integer, wrong guesses so far)
+      - `profile` (jsonb, signup details sent with the request so a magic link can finish signing up)
+      - `consumed_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Wallet sessions
+    - The `customer-auth` edge function emails a one-time code (and a magic link carrying
+      it) and, once verified, issues a JWT with role `anon` plus `wallet_customer_id` and
+      `wallet_restaurant_id` claims. A session is only valid for the restaurant it was
+      issued for.
+    - `wallet_customer_id()` and `wallet_restaurant_id()` read those claims
+    - `can_act_for_customer()` is true for the signed-in customer and for the restaurant's
+      owner and staff
+    - `get_wallet_restaurant()` lets the signed-out wallet find its restaurant by slug without
+      opening up the `restaurants` table
+
+  3. Security
+    - RLS on `customer_login_codes` with no policies; only the edge function (service role) uses it
+    - `claim_login_code_attempt()` counts a guess in one statement, so parallel guesses can't
+      get past the attempt limit
+    - Wallet sessions can read their own `customers`, `transactions`, `reward_redemptions`,
+      `point_lots` and `tier_history` rows, plus their restaurant and its active rewards
+    - `redeem_reward`, `cancel_redemption` and the QR token functions now check
+      `can_act_for_customer()` instead of trusting the customer id they are given, so
+      wallet sessions can now redeem their own rewards
+*/
+
+CREATE TABLE IF NOT EXISTS customer_login_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  profile jsonb,
+  consumed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_login_codes_lookup
+  ON customer_login_codes(restaurant_id, email, created_at DESC);
+
+ALTER TABLE customer_login_codes ENABLE ROW LEVEL SECURITY;
+
+-- Returns the attempt number, or NULL once the code has no attempts left
+CREATE OR REPLACE FUNCTION claim_login_code_attempt(p_code_id uuid, p_max_attempts integer)
+RETURNS integer
+LANGUAGE sql
+AS $$
+  UPDATE customer_login_codes
+  SET attempts = attempts + 1
+  WHERE id = p_code_id AND attempts < p_max_attempts
+  RETURNING attempts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_login_code_attempt(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION wallet_customer_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(auth.jwt()->>'wallet_customer_id', '')::uuid;
+$$;
+
+CREATE OR REPLACE FUNCTION wallet_restaurant_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(auth.jwt()->>'wallet_restaurant_id', '')::uuid;
+$$;
+
+CREATE OR REPLACE FUNCTION can_act_for_customer(p_customer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM customers c
+    WHERE c.id = p_customer_id
+      AND (
+        (c.id = wallet_customer_id() AND c.restaurant_id = wallet_restaurant_id())
+        OR is_restaurant_member(c.restaurant_id)
+      )
+  );
+$$;
+
+-- Wallet sessions only ever see their own rows
+CREATE POLICY "Wallet customers can view themselves"
+  ON customers FOR SELECT
+  TO anon
+  USING (id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+CREATE POLICY "Wallet customers can view their transactions"
+  ON transactions FOR SELECT
+  TO anon
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+CREATE POLICY "Wallet customers can view their redemptions"
+  ON reward_redemptions FOR SELECT
+  TO anon
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+CREATE POLICY "Wallet customers can view their point lots"
+  ON point_lots FOR SELECT
+  TO anon
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+CREATE POLICY "Wallet customers can view their tier history"
+  ON tier_history FOR SELECT
+  TO anon
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+CREATE POLICY "Wallet customers can view active rewards"
+  ON rewards FOR SELECT
+  TO anon
+  USING (restaurant_id = wallet_restaurant_id() AND is_active = true);
+
+CREATE POLICY "Wallet customers can view their restaurant"
+  ON restaurants FOR SELECT
+  TO anon
+  USING (id = wallet_restaurant_id());
+
+CREATE OR REPLACE FUNCTION get_wallet_restaurant(p_slug text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object('id', id, 'name', name, 'slug', slug, 'settings', settings)
+  FROM restaurants
+  WHERE slug = p_slug;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_wallet_restaurant(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_reward_id uuid,
+  p_branch_id uuid DEFAULT NULL,
+  p_mark_used boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_settings jsonb;
+  v_redemption_id uuid;
+  v_code text;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to redeem rewards for this customer';
+  END IF;
+
+  IF p_mark_used AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Only restaurant staff can hand over a reward directly';
+  END IF;
+
+  -- Lock both rows so concurrent redemptions queue up instead of double-spending
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE id = p_reward_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_reward.is_active THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_reward.total_available IS NOT NULL AND v_reward.total_redeemed >= v_reward.total_available THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+
+  IF v_reward.min_tier IS NOT NULL AND (
+    tier_rank(v_settings, v_reward.min_tier) IS NULL
+    OR COALESCE(tier_rank(v_settings, v_customer.current_tier), 0) < tier_rank(v_settings, v_reward.min_tier)
+  ) THEN
+    RAISE EXCEPTION 'This reward requires % tier or higher', COALESCE((
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_tier_ladder(v_settings)) AS x(t)
+      WHERE t->>'id' = v_reward.min_tier
+    ), v_reward.min_tier);
+  END IF;
+
+  IF v_customer.total_points < v_reward.points_required THEN
+    RAISE EXCEPTION 'Insufficient points for this reward';
+  END IF;
+
+  -- A clash is astronomically unlikely, but retry rather than fail if one happens
+  LOOP
+    v_code := generate_redemption_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO reward_redemptions (
+    restaurant_id,
+    customer_id,
+    reward_id,
+    points_used,
+    status,
+    code,
+    branch_id,
+    used_at,
+    used_branch_id,
+    used_by
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_reward_id,
+    v_reward.points_required,
+    CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    v_code,
+    p_branch_id,
+    CASE WHEN p_mark_used THEN now() END,
+    CASE WHEN p_mark_used THEN p_branch_id END,
+    CASE WHEN p_mark_used THEN auth.uid() END
+  )
+  RETURNING id INTO v_redemption_id;
+
+  PERFORM process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'redemption',
+    -v_reward.points_required,
+    'Redeemed: ' || v_reward.name,
+    0,
+    p_reward_id,
+    p_branch_id
+  );
+
+  UPDATE rewards
+  SET total_redeemed = total_redeemed + 1
+  WHERE id = p_reward_id;
+
+  RETURN jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'status', CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    'points_used', v_reward.points_required,
+    'reward_name', v_reward.name
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_redemption(p_customer_id uuid, p_redemption_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to cancel redemptions for this customer';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id AND customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only unused codes can be cancelled';
+  END IF;
+
+  PERFORM close_redemption(v_redemption.id, 'cancelled');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_customer_qr_token(p_customer_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to show this customer''s code';
+  END IF;
+
+  SELECT restaurant_id INTO v_restaurant_id FROM customers WHERE id = p_customer_id;
+
+  RETURN issue_qr_token(v_restaurant_id, 'C', p_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_redemption_qr_token(p_customer_id uuid, p_redemption_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to show this customer''s code';
+  END IF;
+
+  SELECT * INTO v_redemption
+  FROM reward_redemptions
+  WHERE id = p_redemption_id AND customer_id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption not found';
+  END IF;
+
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'This code is % and can no longer be used', v_redemption.status;
+  END IF;
+
+  RETURN issue_qr_token(v_redemption.restaurant_id, 'R', p_redemption_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION redeem_reward(uuid, uuid, uuid, uuid, boolean) TO anon;
+
+-- Points are only ever moved by staff or by the functions above, never directly by a wallet
+REVOKE EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid) TO authenticated;
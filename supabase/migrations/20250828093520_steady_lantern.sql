@@ -0,0 +1,372 @@
+/*
+  # Per-staff accounts and PINs
+
+  1. New Tables
+    - `staff_members`
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `branch_id` (uuid, references branches)
+      - `name` (text)
+      - `role` (text, cashier or manager)
+      - `is_active` (boolean)
+      - `failed_pin_attempts` (integer)
+      - `locked_until` (timestamptz, set after repeated wrong PINs)
+      - `last_login_at` (timestamptz)
+    - `staff_pins`
+      - `staff_member_id` (uuid, primary key)
+      - `pin_hash` (text, bcrypt)
+    - `staff_sessions`
+      - `id` (uuid, primary key)
+      - `staff_member_id`, `restaurant_id`, `branch_id`
+      - `token_hash` (text, SHA-256 of the session token; the token itself is never stored)
+      - `expires_at`, `ended_at`, `created_at` (timestamptz)
+
+  2. Changes
+    - `branches.staff_password` is dropped. Each existing branch gets a "Branch Staff" manager
+      whose PIN is the old password, so nobody is locked out until real staff are added.
+    - `transactions.staff_member_id` records who issued points, redeemed or refunded
+    - `reward_redemptions.used_by_staff_id` and `voided_by_staff_id` record who handed over
+      or voided a reward
+
+  3. Staff sessions
+    - `start_staff_session()` checks a PIN server-side on a device signed in to the restaurant
+      and returns a session token valid for 8 hours. Five wrong PINs lock the account for
+      15 minutes.
+    - StaffUI sends the token in the `x-staff-session` header. `current_staff_session()` reads
+      it, and triggers stamp the staff member on new transactions and redemption updates.
+      An expired or ended session is rejected rather than silently ignored.
+    - Only managers can void a redemption from a staff session
+
+  4. Security
+    - RLS on `staff_members` for restaurant owners and staff
+    - RLS on `staff_pins` and `staff_sessions` with no policies; only the functions below use them
+*/
+
+CREATE TABLE IF NOT EXISTS staff_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  role text NOT NULL DEFAULT 'cashier' CHECK (role IN ('cashier', 'manager')),
+  is_active boolean NOT NULL DEFAULT true,
+  failed_pin_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_login_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS staff_pins (
+  staff_member_id uuid PRIMARY KEY REFERENCES staff_members(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS staff_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_member_id uuid NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_members_branch_id ON staff_members(branch_id);
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_staff_member_id ON staff_sessions(staff_member_id);
+
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view staff members"
+  ON staff_members FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant owners can manage staff members"
+  ON staff_members FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM restaurants r
+    WHERE r.id = staff_members.restaurant_id AND r.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM restaurants r
+    JOIN branches b ON b.restaurant_id = r.id
+    WHERE r.id = staff_members.restaurant_id
+      AND b.id = staff_members.branch_id
+      AND r.owner_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_staff_members_updated_at
+  BEFORE UPDATE ON staff_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS staff_member_id uuid REFERENCES staff_members(id) ON DELETE SET NULL;
+
+ALTER TABLE reward_redemptions
+  ADD COLUMN IF NOT EXISTS used_by_staff_id uuid REFERENCES staff_members(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS voided_by_staff_id uuid REFERENCES staff_members(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_staff_member_id ON transactions(staff_member_id);
+
+-- Carry each branch's shared password over as a manager PIN, then drop the plaintext column
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'branches' AND column_name = 'staff_password'
+  ) THEN
+    WITH migrated AS (
+      INSERT INTO staff_members (restaurant_id, branch_id, name, role)
+      SELECT restaurant_id, id, 'Branch Staff', 'manager'
+      FROM branches
+      RETURNING id, branch_id
+    )
+    INSERT INTO staff_pins (staff_member_id, pin_hash)
+    SELECT m.id, extensions.crypt(b.staff_password, extensions.gen_salt('bf'))
+    FROM migrated m
+    JOIN branches b ON b.id = m.branch_id;
+
+    ALTER TABLE branches DROP COLUMN staff_password;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION set_staff_pin(p_staff_member_id uuid, p_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id FROM staff_members WHERE id = p_staff_member_id;
+
+  IF v_restaurant_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = v_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO staff_pins (staff_member_id, pin_hash, updated_at)
+  VALUES (p_staff_member_id, extensions.crypt(p_pin, extensions.gen_salt('bf')), now())
+  ON CONFLICT (staff_member_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+
+  -- A new PIN clears any lockout, and sessions opened with the old PIN end
+  UPDATE staff_members
+  SET failed_pin_attempts = 0, locked_until = NULL
+  WHERE id = p_staff_member_id;
+
+  UPDATE staff_sessions
+  SET ended_at = now()
+  WHERE staff_member_id = p_staff_member_id AND ended_at IS NULL;
+END;
+$$;
+
+-- Wrong PINs return an error instead of raising, so the attempt counter isn't rolled back
+CREATE OR REPLACE FUNCTION start_staff_session(p_staff_member_id uuid, p_pin text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_members%ROWTYPE;
+  v_pin_hash text;
+  v_token text;
+  v_expires_at timestamptz;
+BEGIN
+  SELECT * INTO v_staff
+  FROM staff_members
+  WHERE id = p_staff_member_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_member(v_staff.restaurant_id) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  IF NOT v_staff.is_active OR NOT EXISTS (
+    SELECT 1 FROM branches WHERE id = v_staff.branch_id AND is_active = true
+  ) THEN
+    RETURN jsonb_build_object('error', 'This staff account is inactive');
+  END IF;
+
+  IF v_staff.locked_until > now() THEN
+    RETURN jsonb_build_object(
+      'error', 'Too many incorrect PINs. Try again in ' ||
+        CEIL(EXTRACT(EPOCH FROM v_staff.locked_until - now()) / 60)::integer || ' minutes.'
+    );
+  END IF;
+
+  SELECT pin_hash INTO v_pin_hash FROM staff_pins WHERE staff_member_id = p_staff_member_id;
+
+  IF v_pin_hash IS NULL OR v_pin_hash <> extensions.crypt(COALESCE(p_pin, ''), v_pin_hash) THEN
+    UPDATE staff_members
+    SET
+      failed_pin_attempts = CASE WHEN failed_pin_attempts + 1 >= 5 THEN 0 ELSE failed_pin_attempts + 1 END,
+      locked_until = CASE WHEN failed_pin_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE locked_until END
+    WHERE id = p_staff_member_id;
+
+    RETURN jsonb_build_object('error', 'Incorrect PIN');
+  END IF;
+
+  v_token := encode(extensions.gen_random_bytes(32), 'hex');
+  v_expires_at := now() + interval '8 hours';
+
+  INSERT INTO staff_sessions (staff_member_id, restaurant_id, branch_id, token_hash, expires_at)
+  VALUES (
+    v_staff.id,
+    v_staff.restaurant_id,
+    v_staff.branch_id,
+    encode(extensions.digest(v_token, 'sha256'), 'hex'),
+    v_expires_at
+  );
+
+  UPDATE staff_members
+  SET failed_pin_attempts = 0, locked_until = NULL, last_login_at = now()
+  WHERE id = p_staff_member_id;
+
+  RETURN jsonb_build_object(
+    'token', v_token,
+    'expires_at', v_expires_at,
+    'staff_member', jsonb_build_object(
+      'id', v_staff.id,
+      'name', v_staff.name,
+      'role', v_staff.role,
+      'branch_id', v_staff.branch_id
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION current_staff_session()
+RETURNS staff_sessions
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token text;
+  v_session staff_sessions%ROWTYPE;
+BEGIN
+  v_token := NULLIF(current_setting('request.headers', true), '')::json->>'x-staff-session';
+
+  IF v_token IS NULL OR v_token = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.* INTO v_session
+  FROM staff_sessions s
+  JOIN staff_members m ON m.id = s.staff_member_id
+  WHERE s.token_hash = encode(extensions.digest(v_token, 'sha256'), 'hex')
+    AND s.ended_at IS NULL
+    AND s.expires_at > now()
+    AND m.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff session expired. Please sign in again.';
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION end_staff_session()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  v_token := NULLIF(current_setting('request.headers', true), '')::json->>'x-staff-session';
+
+  UPDATE staff_sessions
+  SET ended_at = now()
+  WHERE token_hash = encode(extensions.digest(COALESCE(v_token, ''), 'sha256'), 'hex')
+    AND ended_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stamp_transaction_staff_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session staff_sessions%ROWTYPE;
+BEGIN
+  v_session := current_staff_session();
+
+  IF v_session.id IS NOT NULL THEN
+    IF v_session.restaurant_id <> NEW.restaurant_id THEN
+      RAISE EXCEPTION 'This staff session belongs to another restaurant';
+    END IF;
+    NEW.staff_member_id := v_session.staff_member_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_transaction_staff_member_trigger
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_transaction_staff_member();
+
+CREATE OR REPLACE FUNCTION stamp_redemption_staff_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session staff_sessions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_session := current_staff_session();
+
+  IF v_session.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_session.restaurant_id <> NEW.restaurant_id THEN
+    RAISE EXCEPTION 'This staff session belongs to another restaurant';
+  END IF;
+
+  IF NEW.status = 'used' THEN
+    NEW.used_by_staff_id := v_session.staff_member_id;
+  ELSIF NEW.status = 'voided' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM staff_members WHERE id = v_session.staff_member_id AND role = 'manager'
+    ) THEN
+      RAISE EXCEPTION 'Only a manager can void a redemption';
+    END IF;
+    NEW.voided_by_staff_id := v_session.staff_member_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_redemption_staff_member_trigger
+  BEFORE INSERT OR UPDATE OF status ON reward_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_redemption_staff_member();
+
+REVOKE EXECUTE ON FUNCTION set_staff_pin(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION start_staff_session(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION end_staff_session() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_staff_pin(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_staff_session(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_staff_session() TO authenticated;
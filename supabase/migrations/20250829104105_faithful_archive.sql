@@ -0,0 +1,468 @@
+/*
+  # Append-only audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid; no foreign key, so history outlives a deleted restaurant)
+      - `occurred_at` (timestamptz)
+      - `actor_type` (text: owner, staff, customer, super_admin, system)
+      - `actor_id` (uuid: auth user, staff member or customer, depending on the actor type)
+      - `actor_label` (text, name or email at the time of the change)
+      - `entity_type` (text, the table that changed)
+      - `entity_id` (uuid)
+      - `action` (text: insert, update, delete, or a named action such as reset)
+      - `before`, `after` (jsonb; for updates only the changed fields, with settings objects
+        diffed one level down, e.g. `settings.tierLadder`)
+      - `changed_fields` (text[])
+      - `description` (text)
+      - `ip_address`, `user_agent` (text, from the API request)
+
+  2. What is recorded
+    - Every point transaction
+    - Rewards, redemptions, restaurant settings, branches, staff members, campaigns and menu items
+    - Customer profile edits and deletions (running totals such as points and visits are left out;
+      the transactions that move them are already logged)
+    - Super admin point adjustments, data resets and restaurant deletions, attributed to the
+      super admin
+
+  3. Security
+    - RLS: restaurant owners can read their own restaurant's entries
+    - Entries can't be updated, deleted or truncated, even by the service role
+    - `write_audit_log()` is only reachable from the audit triggers and other definer
+      functions, so clients can't write entries of their own
+    - `get_audit_log_for_super_admin()` backs the SuperAdminUI viewer and only answers a
+      signed-in super admin (`is_super_admin()`)
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_type text NOT NULL CHECK (actor_type IN ('owner', 'staff', 'customer', 'super_admin', 'system')),
+  actor_id uuid,
+  actor_label text,
+  entity_type text NOT NULL,
+  entity_id uuid,
+  action text NOT NULL,
+  before jsonb,
+  after jsonb,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  description text,
+  ip_address text,
+  user_agent text
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_restaurant_occurred ON audit_log(restaurant_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view their audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM restaurants r
+    WHERE r.id = audit_log.restaurant_id AND r.owner_id = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_changes_trigger
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate_trigger
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+-- Works out who is acting from the request: super admin functions flag themselves, StaffUI
+-- carries a staff session, wallets carry a customer claim, and no user at all means cron
+CREATE OR REPLACE FUNCTION write_audit_log(
+  p_restaurant_id uuid,
+  p_entity_type text,
+  p_entity_id uuid,
+  p_action text,
+  p_before jsonb,
+  p_after jsonb,
+  p_description text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_headers json := NULLIF(current_setting('request.headers', true), '')::json;
+  v_staff_session staff_sessions%ROWTYPE;
+  v_actor_type text;
+  v_actor_id uuid;
+  v_actor_label text;
+BEGIN
+  IF current_setting('voya.audit_actor', true) = 'super_admin' THEN
+    v_actor_type := 'super_admin';
+    v_actor_label := 'Super admin';
+  ELSE
+    v_staff_session := current_staff_session();
+
+    IF v_staff_session.id IS NOT NULL THEN
+      v_actor_type := 'staff';
+      v_actor_id := v_staff_session.staff_member_id;
+      SELECT name INTO v_actor_label FROM staff_members WHERE id = v_actor_id;
+    ELSIF wallet_customer_id() IS NOT NULL THEN
+      v_actor_type := 'customer';
+      v_actor_id := wallet_customer_id();
+      SELECT first_name || ' ' || last_name INTO v_actor_label FROM customers WHERE id = v_actor_id;
+    ELSIF auth.uid() IS NOT NULL THEN
+      v_actor_id := auth.uid();
+      v_actor_type := CASE
+        WHEN EXISTS (SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()) THEN 'owner'
+        ELSE 'staff'
+      END;
+      SELECT email INTO v_actor_label FROM auth.users WHERE id = auth.uid();
+    ELSE
+      v_actor_type := 'system';
+      v_actor_label := 'System';
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    restaurant_id,
+    actor_type,
+    actor_id,
+    actor_label,
+    entity_type,
+    entity_id,
+    action,
+    before,
+    after,
+    changed_fields,
+    description,
+    ip_address,
+    user_agent
+  ) VALUES (
+    p_restaurant_id,
+    v_actor_type,
+    v_actor_id,
+    v_actor_label,
+    p_entity_type,
+    p_entity_id,
+    p_action,
+    p_before,
+    p_after,
+    COALESCE(ARRAY(SELECT jsonb_object_keys(COALESCE(p_after, p_before, '{}'::jsonb))), '{}'),
+    p_description,
+    NULLIF(trim(split_part(v_headers->>'x-forwarded-for', ',', 1)), ''),
+    v_headers->>'user-agent'
+  );
+END;
+$$;
+
+-- Trigger arguments name columns to leave out of update diffs (updated_at is always left out)
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_ignored text[] := COALESCE(TG_ARGV::text[], '{}') || ARRAY['updated_at'];
+  v_before jsonb;
+  v_after jsonb;
+  v_key text;
+  v_sub_key text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_after := v_new;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_before := v_old;
+  ELSE
+    v_before := '{}'::jsonb;
+    v_after := '{}'::jsonb;
+
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      CONTINUE WHEN v_key = ANY(v_ignored) OR v_old->v_key IS NOT DISTINCT FROM v_new->v_key;
+
+      -- Settings-style objects are diffed one level down so one toggle doesn't log the whole blob
+      IF jsonb_typeof(v_old->v_key) = 'object' AND jsonb_typeof(v_new->v_key) = 'object' THEN
+        FOR v_sub_key IN
+          SELECT jsonb_object_keys(v_old->v_key) UNION SELECT jsonb_object_keys(v_new->v_key)
+        LOOP
+          CONTINUE WHEN v_old->v_key->v_sub_key IS NOT DISTINCT FROM v_new->v_key->v_sub_key;
+          v_before := v_before || jsonb_build_object(v_key || '.' || v_sub_key, v_old->v_key->v_sub_key);
+          v_after := v_after || jsonb_build_object(v_key || '.' || v_sub_key, v_new->v_key->v_sub_key);
+        END LOOP;
+      ELSE
+        v_before := v_before || jsonb_build_object(v_key, v_old->v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new->v_key);
+      END IF;
+    END LOOP;
+
+    IF v_after = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  PERFORM write_audit_log(
+    CASE WHEN TG_TABLE_NAME = 'restaurants' THEN v_row->>'id' ELSE v_row->>'restaurant_id' END::uuid,
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    lower(TG_OP),
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_transactions_trigger
+  AFTER INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_rewards_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON rewards
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('total_redeemed');
+
+CREATE TRIGGER audit_reward_redemptions_trigger
+  AFTER INSERT OR UPDATE ON reward_redemptions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_restaurants_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON restaurants
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_branches_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON branches
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_staff_members_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON staff_members
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('failed_pin_attempts', 'locked_until', 'last_login_at');
+
+CREATE TRIGGER audit_campaigns_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON campaigns
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_menu_items_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON menu_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_customers_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON customers
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change(
+    'total_points', 'lifetime_points', 'current_tier', 'tier_progress', 'tier_qualifying_value',
+    'tier_achieved_at', 'tier_grace_until', 'visit_count', 'total_spent', 'last_visit'
+  );
+
+-- Super admin functions mark the transaction so the rows they touch are attributed to them
+CREATE OR REPLACE FUNCTION super_admin_adjust_customer_points(
+  p_customer_id uuid,
+  p_points_adjustment integer,
+  p_description text DEFAULT 'Super admin adjustment'
+)
+RETURNS void AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  PERFORM set_config('voya.audit_actor', 'super_admin', true);
+
+  -- Get customer details
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    type,
+    points,
+    description,
+    created_at
+  ) VALUES (
+    v_customer.restaurant_id,
+    p_customer_id,
+    CASE WHEN p_points_adjustment > 0 THEN 'bonus' ELSE 'redemption' END,
+    p_points_adjustment,
+    p_description,
+    now()
+  );
+
+  -- Update customer points
+  UPDATE customers
+  SET
+    total_points = GREATEST(0, total_points + p_points_adjustment),
+    lifetime_points = CASE
+      WHEN p_points_adjustment > 0 THEN lifetime_points + p_points_adjustment
+      ELSE lifetime_points
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  PERFORM refresh_customer_tier(p_customer_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION super_admin_reset_customer_data(p_restaurant_id uuid DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  PERFORM set_config('voya.audit_actor', 'super_admin', true);
+
+  -- One entry per restaurant rather than one per deleted transaction
+  FOR v_restaurant_id IN
+    SELECT id FROM restaurants WHERE p_restaurant_id IS NULL OR id = p_restaurant_id
+  LOOP
+    PERFORM write_audit_log(
+      v_restaurant_id,
+      'customer_data',
+      NULL,
+      'reset',
+      jsonb_build_object(
+        'transactions', (SELECT COUNT(*) FROM transactions WHERE restaurant_id = v_restaurant_id),
+        'reward_redemptions', (SELECT COUNT(*) FROM reward_redemptions WHERE restaurant_id = v_restaurant_id),
+        'total_points', (SELECT COALESCE(SUM(total_points), 0) FROM customers WHERE restaurant_id = v_restaurant_id)
+      ),
+      NULL,
+      'All points, transactions and redemptions reset'
+    );
+  END LOOP;
+
+  IF p_restaurant_id IS NOT NULL THEN
+    -- Reset specific restaurant's customer data
+    DELETE FROM transactions WHERE restaurant_id = p_restaurant_id;
+    DELETE FROM reward_redemptions WHERE restaurant_id = p_restaurant_id;
+    UPDATE customers c
+    SET
+      total_points = 0,
+      lifetime_points = 0,
+      current_tier = get_tier_ladder(r.settings)->0->>'id',
+      tier_progress = 0,
+      tier_qualifying_value = 0,
+      visit_count = 0,
+      total_spent = 0,
+      last_visit = NULL
+    FROM restaurants r
+    WHERE r.id = c.restaurant_id AND c.restaurant_id = p_restaurant_id;
+  ELSE
+    -- Reset all customer data
+    DELETE FROM transactions;
+    DELETE FROM reward_redemptions;
+    UPDATE customers c
+    SET
+      total_points = 0,
+      lifetime_points = 0,
+      current_tier = get_tier_ladder(r.settings)->0->>'id',
+      tier_progress = 0,
+      tier_qualifying_value = 0,
+      visit_count = 0,
+      total_spent = 0,
+      last_visit = NULL
+    FROM restaurants r
+    WHERE r.id = c.restaurant_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION super_admin_delete_restaurant(p_restaurant_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('voya.audit_actor', 'super_admin', true);
+
+  -- Delete all related data (foreign keys will cascade)
+  DELETE FROM restaurants WHERE id = p_restaurant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_audit_log_for_super_admin(
+  p_restaurant_id uuid DEFAULT NULL,
+  p_entity_type text DEFAULT NULL,
+  p_actor_type text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 100,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  restaurant_id uuid,
+  restaurant_name text,
+  occurred_at timestamptz,
+  actor_type text,
+  actor_id uuid,
+  actor_label text,
+  entity_type text,
+  entity_id uuid,
+  action text,
+  before jsonb,
+  after jsonb,
+  changed_fields text[],
+  description text,
+  ip_address text,
+  user_agent text
+) AS $$
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can read the audit log';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.restaurant_id,
+    r.name,
+    a.occurred_at,
+    a.actor_type,
+    a.actor_id,
+    a.actor_label,
+    a.entity_type,
+    a.entity_id,
+    a.action,
+    a.before,
+    a.after,
+    a.changed_fields,
+    a.description,
+    a.ip_address,
+    a.user_agent
+  FROM audit_log a
+  LEFT JOIN restaurants r ON r.id = a.restaurant_id
+  WHERE (p_restaurant_id IS NULL OR a.restaurant_id = p_restaurant_id)
+    AND (p_entity_type IS NULL OR a.entity_type = p_entity_type)
+    AND (p_actor_type IS NULL OR a.actor_type = p_actor_type)
+    AND (p_from IS NULL OR a.occurred_at >= p_from)
+    AND (p_to IS NULL OR a.occurred_at < p_to)
+    AND (
+      p_search IS NULL OR p_search = ''
+      OR a.actor_label ILIKE '%' || p_search || '%'
+      OR a.description ILIKE '%' || p_search || '%'
+      OR a.entity_id::text = p_search
+      OR a.before::text ILIKE '%' || p_search || '%'
+      OR a.after::text ILIKE '%' || p_search || '%'
+      OR r.name ILIKE '%' || p_search || '%'
+    )
+  ORDER BY a.occurred_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION write_audit_log(uuid, text, uuid, text, jsonb, jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_audit_log_for_super_admin(uuid, text, text, text, timestamptz, timestamptz, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_audit_log_for_super_admin(uuid, text, text, text, timestamptz, timestamptz, integer, integer) TO authenticated;
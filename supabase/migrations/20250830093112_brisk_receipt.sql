@@ -0,0 +1,425 @@
+/*
+  # Orders with line items
+
+  1. New Tables
+    - `orders`
+      - `id` (uuid, primary key)
+      - `order_number` (bigint, printed on receipts)
+      - `restaurant_id`, `branch_id`, `customer_id`
+      - `transaction_id` (uuid, the purchase transaction that awarded the points)
+      - `status` (text: completed)
+      - `subtotal` (menu prices before discounts)
+      - `line_discount_total`, `order_discount`, `discount_total`
+      - `tax_rate`, `tax_inclusive`, `tax_total`
+      - `total` (what the customer paid)
+      - `points_awarded`, `campaign_id`, `campaign_bonus_points`
+      - `staff_member_id` (who rang it up, copied from the transaction)
+      - `created_at`
+    - `order_items`
+      - `id`, `order_id`, `restaurant_id`, `position`
+      - `menu_item_id` (kept as NULL if the menu item is later deleted)
+      - `name`, `category`, `unit_price` (copied from the menu at the time of sale)
+      - `quantity`, `discount`, `line_total`
+
+  2. Functions
+    - `create_order()` prices the basket from the menu, applies line and order discounts,
+      works out tax from `settings.tax` (default 5% VAT included in menu prices), scores the
+      basket with `calculate_order_points` and records everything in one transaction
+    - `process_point_transaction()` now returns the id of the transaction it created
+
+  3. Security
+    - RLS: restaurant members can read orders and their items
+    - Orders are only written through `create_order()`
+*/
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number bigint GENERATED ALWAYS AS IDENTITY,
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  branch_id uuid REFERENCES branches(id) ON DELETE SET NULL,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed')),
+  subtotal decimal(10,2) NOT NULL DEFAULT 0,
+  line_discount_total decimal(10,2) NOT NULL DEFAULT 0,
+  order_discount decimal(10,2) NOT NULL DEFAULT 0,
+  discount_total decimal(10,2) NOT NULL DEFAULT 0,
+  tax_rate decimal(5,2) NOT NULL DEFAULT 0,
+  tax_inclusive boolean NOT NULL DEFAULT true,
+  tax_total decimal(10,2) NOT NULL DEFAULT 0,
+  total decimal(10,2) NOT NULL DEFAULT 0,
+  points_awarded integer NOT NULL DEFAULT 0,
+  campaign_id uuid REFERENCES campaigns(id) ON DELETE SET NULL,
+  campaign_bonus_points integer NOT NULL DEFAULT 0,
+  staff_member_id uuid REFERENCES staff_members(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  category text,
+  unit_price decimal(10,2) NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  discount decimal(10,2) NOT NULL DEFAULT 0,
+  line_total decimal(10,2) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_restaurant_created ON orders(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_customer ON orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_transaction ON orders(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_menu_item ON order_items(menu_item_id);
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can view order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE TRIGGER audit_orders_trigger
+  AFTER INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Same body as before; the return type changes so callers can link to the new transaction
+DROP FUNCTION IF EXISTS process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_transaction_id uuid;
+BEGIN
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals
+  v_new_total_points := GREATEST(0, v_customer_record.total_points + v_points);
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid) TO authenticated;
+
+-- Lines are [{ menu_item_id, quantity, discount }]; discounts are AED off the line
+CREATE OR REPLACE FUNCTION create_order(
+  p_restaurant_id uuid,
+  p_branch_id uuid,
+  p_customer_id uuid,
+  p_lines jsonb,
+  p_order_discount numeric DEFAULT 0,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_customer customers%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_transaction_id uuid;
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_points_lines jsonb;
+  v_quantity integer;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_order_discount numeric;
+  v_net numeric;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_tax numeric;
+  v_total numeric;
+  v_points integer;
+  v_branch_name text;
+  v_description text;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record orders for this restaurant';
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF jsonb_typeof(p_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Prices always come from the menu, never from the till
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found';
+    END IF;
+
+    v_gross := v_menu_item.selling_price * v_quantity;
+    v_line_discount := ROUND(LEAST(GREATEST(COALESCE((v_line->>'discount')::numeric, 0), 0), v_gross), 2);
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+
+    v_lines := v_lines || jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'name', v_menu_item.name,
+      'category', v_menu_item.category,
+      'unit_price', v_menu_item.selling_price,
+      'quantity', v_quantity,
+      'discount', v_line_discount,
+      'line_total', v_gross - v_line_discount
+    );
+  END LOOP;
+
+  v_order_discount := ROUND(
+    LEAST(GREATEST(COALESCE(p_order_discount, 0), 0), v_subtotal - v_line_discounts), 2);
+  v_net := v_subtotal - v_line_discounts - v_order_discount;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+  v_tax_rate := COALESCE((v_settings->'tax'->>'ratePercent')::numeric, 5);
+  v_tax_inclusive := COALESCE((v_settings->'tax'->>'pricesIncludeTax')::boolean, true);
+
+  IF v_tax_inclusive THEN
+    v_tax := ROUND(v_net * v_tax_rate / (100 + v_tax_rate), 2);
+    v_total := v_net;
+  ELSE
+    v_tax := ROUND(v_net * v_tax_rate / 100, 2);
+    v_total := v_net + v_tax;
+  END IF;
+
+  -- Points are earned on what each line was charged, with the order discount spread pro rata
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', l->>'menu_item_id',
+    'quantity', (l->>'quantity')::integer,
+    'amount', CASE
+      WHEN v_subtotal - v_line_discounts > 0
+        THEN (l->>'line_total')::numeric * v_net / (v_subtotal - v_line_discounts)
+      ELSE 0
+    END
+  ))
+  INTO v_points_lines
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_points := COALESCE((calculate_order_points(
+    p_restaurant_id,
+    v_points_lines,
+    v_customer.current_tier,
+    p_branch_id,
+    now()
+  )->>'points')::integer, 0);
+
+  SELECT name INTO v_branch_name FROM branches WHERE id = p_branch_id;
+  SELECT 'Items: ' || string_agg((l->>'name') || ' x' || (l->>'quantity'), ', ')
+  INTO v_description
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_transaction_id := process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'purchase',
+    v_points,
+    v_description || COALESCE(' (' || v_branch_name || ')', ''),
+    v_total,
+    NULL,
+    p_branch_id,
+    p_campaign_id
+  );
+
+  -- Read back for the campaign bonus and the staff member the triggers stamped
+  SELECT * INTO v_transaction FROM transactions WHERE id = v_transaction_id;
+
+  INSERT INTO orders (
+    restaurant_id,
+    branch_id,
+    customer_id,
+    transaction_id,
+    subtotal,
+    line_discount_total,
+    order_discount,
+    discount_total,
+    tax_rate,
+    tax_inclusive,
+    tax_total,
+    total,
+    points_awarded,
+    campaign_id,
+    campaign_bonus_points,
+    staff_member_id
+  ) VALUES (
+    p_restaurant_id,
+    p_branch_id,
+    p_customer_id,
+    v_transaction.id,
+    v_subtotal,
+    v_line_discounts,
+    v_order_discount,
+    v_line_discounts + v_order_discount,
+    v_tax_rate,
+    v_tax_inclusive,
+    v_tax,
+    v_total,
+    v_transaction.points,
+    v_transaction.campaign_id,
+    v_transaction.campaign_bonus_points,
+    v_transaction.staff_member_id
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    restaurant_id,
+    position,
+    menu_item_id,
+    name,
+    category,
+    unit_price,
+    quantity,
+    discount,
+    line_total
+  )
+  SELECT
+    v_order.id,
+    p_restaurant_id,
+    ord::integer,
+    (l->>'menu_item_id')::uuid,
+    l->>'name',
+    l->>'category',
+    (l->>'unit_price')::numeric,
+    (l->>'quantity')::integer,
+    (l->>'discount')::numeric,
+    (l->>'line_total')::numeric
+  FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS t(l, ord);
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.position) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid) TO authenticated;
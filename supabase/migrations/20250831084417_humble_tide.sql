@@ -0,0 +1,534 @@
+/*
+  # Purchase refunds with points reversal
+
+  1. Changes
+    - `transactions.type` now allows `reversal`: a full or partial refund of a purchase,
+      with negative `points` and negative `amount_spent`
+    - `transactions.reverses_transaction_id` links a reversal to the purchase it undoes
+    - `orders.refunded_amount` and `orders.status` now track refunds
+      (`completed`, `partially_refunded`, `refunded`)
+    - Customer balances may go below zero when a manager approves a refund of points
+      that were already spent. Later earnings pay that off before opening new point lots.
+    - Tier values subtract reversed spend and points, and a refund re-evaluates the tier,
+      downgrading the customer if they no longer qualify
+
+  2. Functions
+    - `refund_purchase()` reverses all or part of a purchase. Partial refunds reverse points
+      in proportion to the amount refunded. A refund that would push the balance below
+      zero needs a manager: a manager's staff session, the owner, or a manager's PIN.
+      Like `start_staff_session()`, approval problems come back as `{ error }` so failed
+      PIN attempts are kept.
+    - `maintain_point_lots()` takes a reversal out of the original purchase's lot first
+    - `process_point_transaction()` and `super_admin_adjust_customer_points()` no longer
+      reset a negative balance to zero; earnings pay it off instead
+    - `super_admin_adjust_customer_points()` updates the balance before writing its
+      transaction, like `process_point_transaction()`, so point lots see the new balance
+    - Manager approvals are written to the audit log
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'transactions_type_check'
+  ) THEN
+    ALTER TABLE transactions DROP CONSTRAINT transactions_type_check;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'orders_status_check'
+  ) THEN
+    ALTER TABLE orders DROP CONSTRAINT orders_status_check;
+  END IF;
+END $$;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type = ANY (ARRAY['purchase'::text, 'bonus'::text, 'referral'::text, 'signup'::text, 'redemption'::text, 'expiry'::text, 'refund'::text, 'reversal'::text]));
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS reverses_transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_reverses ON transactions(reverses_transaction_id)
+  WHERE reverses_transaction_id IS NOT NULL;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS refunded_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('completed', 'partially_refunded', 'refunded'));
+
+-- Lots never hold more than the balance, so a negative balance is paid off before
+-- new lots open, and reversals come out of the purchase they undo first
+CREATE OR REPLACE FUNCTION maintain_point_lots()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_months integer := 0;
+  v_remaining integer;
+  v_take integer;
+  v_lot record;
+  v_lot_points integer;
+BEGIN
+  IF NEW.type = 'expiry' OR NEW.points = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.points > 0 THEN
+    -- The balance is already updated, so anything below the earned points paid off a debt
+    SELECT LEAST(NEW.points, total_points)
+    INTO v_lot_points
+    FROM customers
+    WHERE id = NEW.customer_id;
+
+    IF COALESCE(v_lot_points, 0) <= 0 THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT settings INTO v_settings
+    FROM restaurants
+    WHERE id = NEW.restaurant_id;
+
+    IF COALESCE((v_settings->'pointsExpiry'->>'enabled')::boolean, false) THEN
+      v_months := COALESCE((v_settings->'pointsExpiry'->>'afterEarningMonths')::integer, 0);
+    END IF;
+
+    INSERT INTO point_lots (
+      restaurant_id,
+      customer_id,
+      transaction_id,
+      points_earned,
+      points_remaining,
+      earned_at,
+      expires_at
+    ) VALUES (
+      NEW.restaurant_id,
+      NEW.customer_id,
+      NEW.id,
+      v_lot_points,
+      v_lot_points,
+      COALESCE(NEW.created_at, now()),
+      CASE WHEN v_months > 0 THEN COALESCE(NEW.created_at, now()) + make_interval(months => v_months) END
+    );
+  ELSE
+    -- Use up the oldest lots first
+    v_remaining := -NEW.points;
+
+    FOR v_lot IN
+      SELECT id, points_remaining
+      FROM point_lots
+      WHERE customer_id = NEW.customer_id AND points_remaining > 0
+      ORDER BY
+        (NEW.reverses_transaction_id IS NOT NULL AND transaction_id = NEW.reverses_transaction_id) DESC,
+        earned_at,
+        created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+
+      v_take := LEAST(v_lot.points_remaining, v_remaining);
+      UPDATE point_lots SET points_remaining = points_remaining - v_take WHERE id = v_lot.id;
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Balances can now be below zero after an approved refund
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_transaction_id uuid;
+BEGIN
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals; earnings pay off an approved negative balance first
+  v_new_total_points := CASE
+    WHEN v_points >= 0 THEN v_customer_record.total_points + v_points
+    ELSE GREATEST(LEAST(v_customer_record.total_points, 0), v_customer_record.total_points + v_points)
+  END;
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_tier_value_between(
+  p_customer_id uuid,
+  p_metric text,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    CASE p_metric
+      WHEN 'spend' THEN SUM(amount_spent) FILTER (WHERE type IN ('purchase', 'reversal'))
+      WHEN 'visits' THEN COUNT(*) FILTER (WHERE type = 'purchase')
+      ELSE SUM(points) FILTER (WHERE (points > 0 AND type <> 'refund') OR type = 'reversal')
+    END,
+    0
+  )
+  FROM transactions
+  WHERE customer_id = p_customer_id
+    AND created_at >= p_from
+    AND created_at < p_to;
+$$;
+
+CREATE OR REPLACE FUNCTION super_admin_adjust_customer_points(
+  p_customer_id uuid,
+  p_points_adjustment integer,
+  p_description text DEFAULT 'Super admin adjustment'
+)
+RETURNS void AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  PERFORM set_config('voya.audit_actor', 'super_admin', true);
+
+  -- Get customer details
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Update customer points; deductions stop at zero but don't wipe an approved negative balance
+  UPDATE customers
+  SET
+    total_points = CASE
+      WHEN p_points_adjustment >= 0 THEN total_points + p_points_adjustment
+      ELSE GREATEST(LEAST(total_points, 0), total_points + p_points_adjustment)
+    END,
+    lifetime_points = CASE
+      WHEN p_points_adjustment > 0 THEN lifetime_points + p_points_adjustment
+      ELSE lifetime_points
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  -- Create transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    type,
+    points,
+    description,
+    created_at
+  ) VALUES (
+    v_customer.restaurant_id,
+    p_customer_id,
+    CASE WHEN p_points_adjustment > 0 THEN 'bonus' ELSE 'redemption' END,
+    p_points_adjustment,
+    p_description,
+    now()
+  );
+
+  PERFORM refresh_customer_tier(p_customer_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_amount NULL refunds whatever is left of the purchase
+CREATE OR REPLACE FUNCTION refund_purchase(
+  p_transaction_id uuid,
+  p_amount numeric DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_approver_staff_id uuid DEFAULT NULL,
+  p_approver_pin text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_purchase transactions%ROWTYPE;
+  v_customer customers%ROWTYPE;
+  v_session staff_sessions%ROWTYPE;
+  v_approver staff_members%ROWTYPE;
+  v_pin_hash text;
+  v_refunded_amount numeric;
+  v_refunded_points integer;
+  v_remaining_amount numeric;
+  v_remaining_points integer;
+  v_amount numeric;
+  v_points integer;
+  v_approved_by uuid;
+  v_reversal_id uuid;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_member(v_purchase.restaurant_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_purchase.type <> 'purchase' THEN
+    RAISE EXCEPTION 'Only purchases can be refunded';
+  END IF;
+
+  SELECT COALESCE(SUM(-amount_spent), 0), COALESCE(SUM(-points), 0)
+  INTO v_refunded_amount, v_refunded_points
+  FROM transactions
+  WHERE reverses_transaction_id = v_purchase.id;
+
+  v_remaining_amount := COALESCE(v_purchase.amount_spent, 0) - v_refunded_amount;
+  v_remaining_points := v_purchase.points - v_refunded_points;
+
+  IF v_remaining_amount <= 0 AND v_remaining_points <= 0 THEN
+    RAISE EXCEPTION 'This purchase has already been fully refunded';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount >= v_remaining_amount THEN
+    v_amount := GREATEST(v_remaining_amount, 0);
+    v_points := GREATEST(v_remaining_points, 0);
+  ELSIF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  ELSE
+    -- Points come back in proportion to the money, campaign bonus included
+    v_amount := ROUND(p_amount, 2);
+    v_points := LEAST(
+      GREATEST(v_remaining_points, 0),
+      ROUND(v_purchase.points * v_amount / v_purchase.amount_spent)::integer
+    );
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = v_purchase.customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Points the customer has already spent can only be clawed back with a manager's say-so
+  IF v_customer.total_points - v_points < 0 THEN
+    v_session := current_staff_session();
+
+    IF v_session.id IS NOT NULL THEN
+      IF EXISTS (SELECT 1 FROM staff_members WHERE id = v_session.staff_member_id AND role = 'manager') THEN
+        v_approved_by := v_session.staff_member_id;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM restaurants WHERE id = v_purchase.restaurant_id AND owner_id = auth.uid()) THEN
+      v_approved_by := auth.uid();
+    END IF;
+
+    IF v_approved_by IS NULL THEN
+      IF p_approver_staff_id IS NULL THEN
+        RETURN jsonb_build_object(
+          'error', 'This refund takes the balance below zero. A manager needs to approve it.',
+          'requires_approval', true,
+          'shortfall', v_points - v_customer.total_points
+        );
+      END IF;
+
+      SELECT * INTO v_approver
+      FROM staff_members
+      WHERE id = p_approver_staff_id AND restaurant_id = v_purchase.restaurant_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_approver.role <> 'manager' OR NOT v_approver.is_active THEN
+        RETURN jsonb_build_object('error', 'Only an active manager can approve this refund', 'requires_approval', true);
+      END IF;
+
+      IF v_approver.locked_until > now() THEN
+        RETURN jsonb_build_object(
+          'error', 'Too many incorrect PINs. Try again in ' ||
+            CEIL(EXTRACT(EPOCH FROM v_approver.locked_until - now()) / 60)::integer || ' minutes.',
+          'requires_approval', true
+        );
+      END IF;
+
+      SELECT pin_hash INTO v_pin_hash FROM staff_pins WHERE staff_member_id = v_approver.id;
+
+      IF v_pin_hash IS NULL OR v_pin_hash <> extensions.crypt(COALESCE(p_approver_pin, ''), v_pin_hash) THEN
+        UPDATE staff_members
+        SET
+          failed_pin_attempts = CASE WHEN failed_pin_attempts + 1 >= 5 THEN 0 ELSE failed_pin_attempts + 1 END,
+          locked_until = CASE WHEN failed_pin_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE locked_until END
+        WHERE id = v_approver.id;
+
+        RETURN jsonb_build_object('error', 'Incorrect manager PIN', 'requires_approval', true);
+      END IF;
+
+      UPDATE staff_members SET failed_pin_attempts = 0 WHERE id = v_approver.id;
+      v_approved_by := v_approver.id;
+    END IF;
+  END IF;
+
+  UPDATE customers SET
+    total_points = total_points - v_points,
+    lifetime_points = GREATEST(0, lifetime_points - v_points),
+    total_spent = GREATEST(0, total_spent - v_amount),
+    updated_at = now()
+  WHERE id = v_customer.id;
+
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reverses_transaction_id
+  ) VALUES (
+    v_purchase.restaurant_id,
+    v_purchase.customer_id,
+    v_purchase.branch_id,
+    'reversal',
+    -v_points,
+    -v_amount,
+    CASE WHEN v_amount >= v_remaining_amount THEN 'Refund' ELSE 'Partial refund' END
+      || ' of ' || v_amount || ' AED'
+      || COALESCE(': ' || NULLIF(trim(p_reason), ''), ''),
+    v_purchase.id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  IF v_approved_by IS NOT NULL THEN
+    PERFORM write_audit_log(
+      v_purchase.restaurant_id,
+      'transactions',
+      v_reversal_id,
+      'refund_approved',
+      jsonb_build_object('total_points', v_customer.total_points),
+      jsonb_build_object('total_points', v_customer.total_points - v_points, 'approved_by', v_approved_by),
+      'Refund below zero approved by ' || COALESCE(
+        (SELECT name FROM staff_members WHERE id = v_approved_by),
+        (SELECT email FROM auth.users WHERE id = v_approved_by),
+        'a manager'
+      )
+    );
+  END IF;
+
+  UPDATE orders SET
+    refunded_amount = refunded_amount + v_amount,
+    status = CASE
+      WHEN v_amount >= v_remaining_amount THEN 'refunded'
+      ELSE 'partially_refunded'
+    END
+  WHERE transaction_id = v_purchase.id
+  RETURNING * INTO v_order;
+
+  -- Undoing the purchase can take the customer back below their tier's threshold
+  PERFORM refresh_customer_tier(v_customer.id, true, 'Purchase refunded');
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_reversal_id,
+    'amount_refunded', v_amount,
+    'points_reversed', v_points,
+    'balance', v_customer.total_points - v_points,
+    'approved_by', v_approved_by,
+    'order_status', v_order.status
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refund_purchase(uuid, numeric, text, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refund_purchase(uuid, numeric, text, uuid, text) TO authenticated;
@@ -0,0 +1,892 @@
+/*
+  # Idempotency keys for point-changing calls
+
+  1. New Tables
+    - `idempotency_keys`
+      - `restaurant_id` (uuid, references restaurants) and `key` (uuid, generated by the client),
+        unique together
+      - `operation` (text): the function the key was first used with
+      - `result` (jsonb): what that call returned
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `process_point_transaction()`, `create_order()`, `redeem_reward()`, `refund_purchase()` and
+      `super_admin_adjust_customer_points()` take an optional `p_idempotency_key`. A call that
+      repeats a key returns the first call's result instead of changing points again.
+    - `create_order()` locks the customer row like the others, so a retry sent while the first
+      attempt is still running waits for it and then sees its result
+    - Each function looks the key up after locking the row it changes; that lock is what makes
+      a concurrent retry wait for the first attempt
+    - `prune_idempotency_keys()` drops keys older than 30 days; runs daily. That outlasts any
+      offline queue in StaffUI.
+
+  3. Security
+    - RLS is enabled on `idempotency_keys` with no policies; only the functions above use it
+    - The key helpers can only be reached from those functions, not called by clients
+    - `process_point_transaction()` refuses a signed-in caller who isn't a member of the
+      restaurant, like `create_order()` and `refund_purchase()`
+*/
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  key uuid NOT NULL,
+  operation text NOT NULL,
+  result jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (restaurant_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- NULL when the key is new (or no key was sent)
+CREATE OR REPLACE FUNCTION idempotent_result(p_restaurant_id uuid, p_key uuid, p_operation text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row idempotency_keys%ROWTYPE;
+BEGIN
+  IF p_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_row
+  FROM idempotency_keys
+  WHERE restaurant_id = p_restaurant_id AND key = p_key;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_row.operation <> p_operation THEN
+    RAISE EXCEPTION 'This request ID was already used for a different action';
+  END IF;
+
+  RETURN v_row.result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_idempotent_result(
+  p_restaurant_id uuid,
+  p_key uuid,
+  p_operation text,
+  p_result jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO idempotency_keys (restaurant_id, key, operation, result)
+  VALUES (p_restaurant_id, p_key, p_operation, p_result);
+EXCEPTION
+  WHEN unique_violation THEN
+    -- Only possible when the same key raced in for a different customer or purchase
+    RAISE EXCEPTION 'This request is already being processed';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prune_idempotency_keys()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  DELETE FROM idempotency_keys WHERE created_at < now() - interval '30 days';
+$$;
+
+-- New parameters change the signatures, so the old versions have to go first
+DROP FUNCTION IF EXISTS process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid);
+DROP FUNCTION IF EXISTS create_order(uuid, uuid, uuid, jsonb, numeric, uuid);
+DROP FUNCTION IF EXISTS redeem_reward(uuid, uuid, uuid, uuid, boolean);
+DROP FUNCTION IF EXISTS refund_purchase(uuid, numeric, text, uuid, text);
+DROP FUNCTION IF EXISTS super_admin_adjust_customer_points(uuid, integer, text);
+
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_transaction_id uuid;
+  v_replay jsonb;
+BEGIN
+  -- Signed-in callers must belong to the restaurant. Wallet sessions and scheduled jobs have no
+  -- user; they can't call this directly and only reach it through functions that check them.
+  IF auth.uid() IS NOT NULL AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record points for this restaurant';
+  END IF;
+
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- A retried request gets back the transaction it already created
+  v_replay := idempotent_result(p_restaurant_id, p_idempotency_key, 'process_point_transaction');
+  IF v_replay IS NOT NULL THEN
+    RETURN (v_replay->>'transaction_id')::uuid;
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals; earnings pay off an approved negative balance first
+  v_new_total_points := CASE
+    WHEN v_points >= 0 THEN v_customer_record.total_points + v_points
+    ELSE GREATEST(LEAST(v_customer_record.total_points, 0), v_customer_record.total_points + v_points)
+  END;
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+
+  PERFORM save_idempotent_result(
+    p_restaurant_id,
+    p_idempotency_key,
+    'process_point_transaction',
+    jsonb_build_object('transaction_id', v_transaction_id)
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_restaurant_id uuid,
+  p_branch_id uuid,
+  p_customer_id uuid,
+  p_lines jsonb,
+  p_order_discount numeric DEFAULT 0,
+  p_campaign_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_customer customers%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_transaction_id uuid;
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_points_lines jsonb;
+  v_quantity integer;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_order_discount numeric;
+  v_net numeric;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_tax numeric;
+  v_total numeric;
+  v_points integer;
+  v_branch_name text;
+  v_description text;
+  v_result jsonb;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record orders for this restaurant';
+  END IF;
+
+  -- The lock makes a retry of the same order wait for the first attempt to finish
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  v_result := idempotent_result(p_restaurant_id, p_idempotency_key, 'create_order');
+  IF v_result IS NOT NULL THEN
+    RETURN v_result;
+  END IF;
+
+  IF jsonb_typeof(p_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Prices always come from the menu, never from the till
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found';
+    END IF;
+
+    v_gross := v_menu_item.selling_price * v_quantity;
+    v_line_discount := ROUND(LEAST(GREATEST(COALESCE((v_line->>'discount')::numeric, 0), 0), v_gross), 2);
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+
+    v_lines := v_lines || jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'name', v_menu_item.name,
+      'category', v_menu_item.category,
+      'unit_price', v_menu_item.selling_price,
+      'quantity', v_quantity,
+      'discount', v_line_discount,
+      'line_total', v_gross - v_line_discount
+    );
+  END LOOP;
+
+  v_order_discount := ROUND(
+    LEAST(GREATEST(COALESCE(p_order_discount, 0), 0), v_subtotal - v_line_discounts), 2);
+  v_net := v_subtotal - v_line_discounts - v_order_discount;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+  v_tax_rate := COALESCE((v_settings->'tax'->>'ratePercent')::numeric, 5);
+  v_tax_inclusive := COALESCE((v_settings->'tax'->>'pricesIncludeTax')::boolean, true);
+
+  IF v_tax_inclusive THEN
+    v_tax := ROUND(v_net * v_tax_rate / (100 + v_tax_rate), 2);
+    v_total := v_net;
+  ELSE
+    v_tax := ROUND(v_net * v_tax_rate / 100, 2);
+    v_total := v_net + v_tax;
+  END IF;
+
+  -- Points are earned on what each line was charged, with the order discount spread pro rata
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', l->>'menu_item_id',
+    'quantity', (l->>'quantity')::integer,
+    'amount', CASE
+      WHEN v_subtotal - v_line_discounts > 0
+        THEN (l->>'line_total')::numeric * v_net / (v_subtotal - v_line_discounts)
+      ELSE 0
+    END
+  ))
+  INTO v_points_lines
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_points := COALESCE((calculate_order_points(
+    p_restaurant_id,
+    v_points_lines,
+    v_customer.current_tier,
+    p_branch_id,
+    now()
+  )->>'points')::integer, 0);
+
+  SELECT name INTO v_branch_name FROM branches WHERE id = p_branch_id;
+  SELECT 'Items: ' || string_agg((l->>'name') || ' x' || (l->>'quantity'), ', ')
+  INTO v_description
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_transaction_id := process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'purchase',
+    v_points,
+    v_description || COALESCE(' (' || v_branch_name || ')', ''),
+    v_total,
+    NULL,
+    p_branch_id,
+    p_campaign_id
+  );
+
+  -- Read back for the campaign bonus and the staff member the triggers stamped
+  SELECT * INTO v_transaction FROM transactions WHERE id = v_transaction_id;
+
+  INSERT INTO orders (
+    restaurant_id,
+    branch_id,
+    customer_id,
+    transaction_id,
+    subtotal,
+    line_discount_total,
+    order_discount,
+    discount_total,
+    tax_rate,
+    tax_inclusive,
+    tax_total,
+    total,
+    points_awarded,
+    campaign_id,
+    campaign_bonus_points,
+    staff_member_id
+  ) VALUES (
+    p_restaurant_id,
+    p_branch_id,
+    p_customer_id,
+    v_transaction.id,
+    v_subtotal,
+    v_line_discounts,
+    v_order_discount,
+    v_line_discounts + v_order_discount,
+    v_tax_rate,
+    v_tax_inclusive,
+    v_tax,
+    v_total,
+    v_transaction.points,
+    v_transaction.campaign_id,
+    v_transaction.campaign_bonus_points,
+    v_transaction.staff_member_id
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    restaurant_id,
+    position,
+    menu_item_id,
+    name,
+    category,
+    unit_price,
+    quantity,
+    discount,
+    line_total
+  )
+  SELECT
+    v_order.id,
+    p_restaurant_id,
+    ord::integer,
+    (l->>'menu_item_id')::uuid,
+    l->>'name',
+    l->>'category',
+    (l->>'unit_price')::numeric,
+    (l->>'quantity')::integer,
+    (l->>'discount')::numeric,
+    (l->>'line_total')::numeric
+  FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS t(l, ord);
+
+  v_result := to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.position) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+
+  PERFORM save_idempotent_result(p_restaurant_id, p_idempotency_key, 'create_order', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_reward_id uuid,
+  p_branch_id uuid DEFAULT NULL,
+  p_mark_used boolean DEFAULT false,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_settings jsonb;
+  v_redemption_id uuid;
+  v_code text;
+  v_result jsonb;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to redeem rewards for this customer';
+  END IF;
+
+  IF p_mark_used AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Only restaurant staff can hand over a reward directly';
+  END IF;
+
+  -- Lock both rows so concurrent redemptions queue up instead of double-spending
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Checked before stock and points, which the first attempt has already used up
+  v_result := idempotent_result(p_restaurant_id, p_idempotency_key, 'redeem_reward');
+  IF v_result IS NOT NULL THEN
+    RETURN v_result;
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE id = p_reward_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_reward.is_active THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_reward.total_available IS NOT NULL AND v_reward.total_redeemed >= v_reward.total_available THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+
+  IF v_reward.min_tier IS NOT NULL AND (
+    tier_rank(v_settings, v_reward.min_tier) IS NULL
+    OR COALESCE(tier_rank(v_settings, v_customer.current_tier), 0) < tier_rank(v_settings, v_reward.min_tier)
+  ) THEN
+    RAISE EXCEPTION 'This reward requires % tier or higher', COALESCE((
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_tier_ladder(v_settings)) AS x(t)
+      WHERE t->>'id' = v_reward.min_tier
+    ), v_reward.min_tier);
+  END IF;
+
+  IF v_customer.total_points < v_reward.points_required THEN
+    RAISE EXCEPTION 'Insufficient points for this reward';
+  END IF;
+
+  -- A clash is astronomically unlikely, but retry rather than fail if one happens
+  LOOP
+    v_code := generate_redemption_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO reward_redemptions (
+    restaurant_id,
+    customer_id,
+    reward_id,
+    points_used,
+    status,
+    code,
+    branch_id,
+    used_at,
+    used_branch_id,
+    used_by
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_reward_id,
+    v_reward.points_required,
+    CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    v_code,
+    p_branch_id,
+    CASE WHEN p_mark_used THEN now() END,
+    CASE WHEN p_mark_used THEN p_branch_id END,
+    CASE WHEN p_mark_used THEN auth.uid() END
+  )
+  RETURNING id INTO v_redemption_id;
+
+  PERFORM process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'redemption',
+    -v_reward.points_required,
+    'Redeemed: ' || v_reward.name,
+    0,
+    p_reward_id,
+    p_branch_id
+  );
+
+  UPDATE rewards
+  SET total_redeemed = total_redeemed + 1
+  WHERE id = p_reward_id;
+
+  v_result := jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'status', CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    'points_used', v_reward.points_required,
+    'reward_name', v_reward.name
+  );
+
+  PERFORM save_idempotent_result(p_restaurant_id, p_idempotency_key, 'redeem_reward', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refund_purchase(
+  p_transaction_id uuid,
+  p_amount numeric DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_approver_staff_id uuid DEFAULT NULL,
+  p_approver_pin text DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_purchase transactions%ROWTYPE;
+  v_customer customers%ROWTYPE;
+  v_session staff_sessions%ROWTYPE;
+  v_approver staff_members%ROWTYPE;
+  v_pin_hash text;
+  v_refunded_amount numeric;
+  v_refunded_points integer;
+  v_remaining_amount numeric;
+  v_remaining_points integer;
+  v_amount numeric;
+  v_points integer;
+  v_approved_by uuid;
+  v_reversal_id uuid;
+  v_order orders%ROWTYPE;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_member(v_purchase.restaurant_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  -- Before the remaining amount is worked out, which the first attempt has already refunded.
+  -- Answers that need a manager aren't saved, so the retry with a PIN goes through.
+  v_result := idempotent_result(v_purchase.restaurant_id, p_idempotency_key, 'refund_purchase');
+  IF v_result IS NOT NULL THEN
+    RETURN v_result;
+  END IF;
+
+  IF v_purchase.type <> 'purchase' THEN
+    RAISE EXCEPTION 'Only purchases can be refunded';
+  END IF;
+
+  SELECT COALESCE(SUM(-amount_spent), 0), COALESCE(SUM(-points), 0)
+  INTO v_refunded_amount, v_refunded_points
+  FROM transactions
+  WHERE reverses_transaction_id = v_purchase.id;
+
+  v_remaining_amount := COALESCE(v_purchase.amount_spent, 0) - v_refunded_amount;
+  v_remaining_points := v_purchase.points - v_refunded_points;
+
+  IF v_remaining_amount <= 0 AND v_remaining_points <= 0 THEN
+    RAISE EXCEPTION 'This purchase has already been fully refunded';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount >= v_remaining_amount THEN
+    v_amount := GREATEST(v_remaining_amount, 0);
+    v_points := GREATEST(v_remaining_points, 0);
+  ELSIF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  ELSE
+    -- Points come back in proportion to the money, campaign bonus included
+    v_amount := ROUND(p_amount, 2);
+    v_points := LEAST(
+      GREATEST(v_remaining_points, 0),
+      ROUND(v_purchase.points * v_amount / v_purchase.amount_spent)::integer
+    );
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = v_purchase.customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Points the customer has already spent can only be clawed back with a manager's say-so
+  IF v_customer.total_points - v_points < 0 THEN
+    v_session := current_staff_session();
+
+    IF v_session.id IS NOT NULL THEN
+      IF EXISTS (SELECT 1 FROM staff_members WHERE id = v_session.staff_member_id AND role = 'manager') THEN
+        v_approved_by := v_session.staff_member_id;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM restaurants WHERE id = v_purchase.restaurant_id AND owner_id = auth.uid()) THEN
+      v_approved_by := auth.uid();
+    END IF;
+
+    IF v_approved_by IS NULL THEN
+      IF p_approver_staff_id IS NULL THEN
+        RETURN jsonb_build_object(
+          'error', 'This refund takes the balance below zero. A manager needs to approve it.',
+          'requires_approval', true,
+          'shortfall', v_points - v_customer.total_points
+        );
+      END IF;
+
+      SELECT * INTO v_approver
+      FROM staff_members
+      WHERE id = p_approver_staff_id AND restaurant_id = v_purchase.restaurant_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_approver.role <> 'manager' OR NOT v_approver.is_active THEN
+        RETURN jsonb_build_object('error', 'Only an active manager can approve this refund', 'requires_approval', true);
+      END IF;
+
+      IF v_approver.locked_until > now() THEN
+        RETURN jsonb_build_object(
+          'error', 'Too many incorrect PINs. Try again in ' ||
+            CEIL(EXTRACT(EPOCH FROM v_approver.locked_until - now()) / 60)::integer || ' minutes.',
+          'requires_approval', true
+        );
+      END IF;
+
+      SELECT pin_hash INTO v_pin_hash FROM staff_pins WHERE staff_member_id = v_approver.id;
+
+      IF v_pin_hash IS NULL OR v_pin_hash <> extensions.crypt(COALESCE(p_approver_pin, ''), v_pin_hash) THEN
+        UPDATE staff_members
+        SET
+          failed_pin_attempts = CASE WHEN failed_pin_attempts + 1 >= 5 THEN 0 ELSE failed_pin_attempts + 1 END,
+          locked_until = CASE WHEN failed_pin_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE locked_until END
+        WHERE id = v_approver.id;
+
+        RETURN jsonb_build_object('error', 'Incorrect manager PIN', 'requires_approval', true);
+      END IF;
+
+      UPDATE staff_members SET failed_pin_attempts = 0 WHERE id = v_approver.id;
+      v_approved_by := v_approver.id;
+    END IF;
+  END IF;
+
+  UPDATE customers SET
+    total_points = total_points - v_points,
+    lifetime_points = GREATEST(0, lifetime_points - v_points),
+    total_spent = GREATEST(0, total_spent - v_amount),
+    updated_at = now()
+  WHERE id = v_customer.id;
+
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reverses_transaction_id
+  ) VALUES (
+    v_purchase.restaurant_id,
+    v_purchase.customer_id,
+    v_purchase.branch_id,
+    'reversal',
+    -v_points,
+    -v_amount,
+    CASE WHEN v_amount >= v_remaining_amount THEN 'Refund' ELSE 'Partial refund' END
+      || ' of ' || v_amount || ' AED'
+      || COALESCE(': ' || NULLIF(trim(p_reason), ''), ''),
+    v_purchase.id
+  )
+  RETURNING id INTO v_reversal_id;
+
+  IF v_approved_by IS NOT NULL THEN
+    PERFORM write_audit_log(
+      v_purchase.restaurant_id,
+      'transactions',
+      v_reversal_id,
+      'refund_approved',
+      jsonb_build_object('total_points', v_customer.total_points),
+      jsonb_build_object('total_points', v_customer.total_points - v_points, 'approved_by', v_approved_by),
+      'Refund below zero approved by ' || COALESCE(
+        (SELECT name FROM staff_members WHERE id = v_approved_by),
+        (SELECT email FROM auth.users WHERE id = v_approved_by),
+        'a manager'
+      )
+    );
+  END IF;
+
+  UPDATE orders SET
+    refunded_amount = refunded_amount + v_amount,
+    status = CASE
+      WHEN v_amount >= v_remaining_amount THEN 'refunded'
+      ELSE 'partially_refunded'
+    END
+  WHERE transaction_id = v_purchase.id
+  RETURNING * INTO v_order;
+
+  -- Undoing the purchase can take the customer back below their tier's threshold
+  PERFORM refresh_customer_tier(v_customer.id, true, 'Purchase refunded');
+
+  v_result := jsonb_build_object(
+    'transaction_id', v_reversal_id,
+    'amount_refunded', v_amount,
+    'points_reversed', v_points,
+    'balance', v_customer.total_points - v_points,
+    'approved_by', v_approved_by,
+    'order_status', v_order.status
+  );
+
+  PERFORM save_idempotent_result(v_purchase.restaurant_id, p_idempotency_key, 'refund_purchase', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION super_admin_adjust_customer_points(
+  p_customer_id uuid,
+  p_points_adjustment integer,
+  p_description text DEFAULT 'Super admin adjustment',
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+BEGIN
+  PERFORM set_config('voya.audit_actor', 'super_admin', true);
+
+  -- Get customer details
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF idempotent_result(v_customer.restaurant_id, p_idempotency_key, 'super_admin_adjust_customer_points') IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Update customer points; deductions stop at zero but don't wipe an approved negative balance
+  UPDATE customers
+  SET
+    total_points = CASE
+      WHEN p_points_adjustment >= 0 THEN total_points + p_points_adjustment
+      ELSE GREATEST(LEAST(total_points, 0), total_points + p_points_adjustment)
+    END,
+    lifetime_points = CASE
+      WHEN p_points_adjustment > 0 THEN lifetime_points + p_points_adjustment
+      ELSE lifetime_points
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  -- Create transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    type,
+    points,
+    description,
+    created_at
+  ) VALUES (
+    v_customer.restaurant_id,
+    p_customer_id,
+    CASE WHEN p_points_adjustment > 0 THEN 'bonus' ELSE 'redemption' END,
+    p_points_adjustment,
+    p_description,
+    now()
+  );
+
+  PERFORM refresh_customer_tier(p_customer_id);
+
+  PERFORM save_idempotent_result(
+    v_customer.restaurant_id,
+    p_idempotency_key,
+    'super_admin_adjust_customer_points',
+    '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION idempotent_result(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION save_idempotent_result(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_idempotency_keys() FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_reward(uuid, uuid, uuid, uuid, boolean, uuid) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_purchase(uuid, numeric, text, uuid, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refund_purchase(uuid, numeric, text, uuid, text, uuid) TO authenticated;
+
+SELECT cron.schedule('prune-idempotency-keys', '30 0 * * *', $$SELECT prune_idempotency_keys()$$);
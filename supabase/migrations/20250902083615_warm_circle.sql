@@ -0,0 +1,371 @@
+/*
+  # Referral program
+
+  1. Customers
+    - `referral_code` (text): short shareable code, unique per restaurant, generated on insert
+      and backfilled for existing customers
+
+  2. New Tables
+    - `referrals`
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `referrer_id` (uuid, references customers): the customer who shared the link
+      - `referee_id` (uuid, references customers, unique): the friend who signed up with it
+      - `status` (text): `pending` until the friend's first qualifying purchase, then `rewarded`,
+        or `capped` when the referrer had already hit their limit and only the friend was
+        rewarded; `rejected` when the signup was blocked; `reversed` when the qualifying
+        purchase was refunded and both bonuses were taken back
+      - `rejection_reason` (text)
+      - `qualifying_transaction_id` (uuid, references transactions)
+      - `referrer_points`, `referee_points` (integer): what each side was given
+      - `created_at`, `rewarded_at` (timestamptz)
+
+  3. Settings (restaurants.settings.referrals)
+    - `enabled`, `referrerPoints`, `refereePoints`, `minPurchaseAED` and `maxRewardsPerReferrer`
+      (0 = no limit)
+
+  4. Functions
+    - `apply_referral_code()` links a newly signed-up customer to the code they came in with.
+      Only the customer-auth edge function calls it. Signups whose email (ignoring `+tags`)
+      or phone number matches the referrer's are recorded as rejected.
+    - A trigger on `transactions` rewards both sides through `process_point_transaction()`
+      on the friend's first purchase of at least `minPurchaseAED`
+    - Another trigger takes both bonuses back when a refund leaves the qualifying purchase
+      below `minPurchaseAED` (or fully refunded). It only takes what each customer still has,
+      so neither balance goes below zero without a manager, and the referral is closed as
+      `reversed` rather than waiting for another purchase
+
+  5. Security
+    - Restaurant members can view their referrals; wallet sessions can view the referrals
+      they made
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS referral_code text;
+
+CREATE OR REPLACE FUNCTION generate_referral_code(p_restaurant_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_code text;
+BEGIN
+  LOOP
+    -- No 0/O or 1/I, so codes read back over the phone survive
+    SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::integer, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM customers WHERE restaurant_id = p_restaurant_id AND referral_code = v_code
+    );
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+UPDATE customers
+SET referral_code = generate_referral_code(restaurant_id)
+WHERE referral_code IS NULL;
+
+ALTER TABLE customers ALTER COLUMN referral_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_referral_code
+  ON customers(restaurant_id, referral_code);
+
+CREATE OR REPLACE FUNCTION set_referral_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.referral_code IS NULL THEN
+    NEW.referral_code := generate_referral_code(NEW.restaurant_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_customer_referral_code ON customers;
+CREATE TRIGGER set_customer_referral_code
+  BEFORE INSERT ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION set_referral_code();
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  referrer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  referee_id uuid NOT NULL UNIQUE REFERENCES customers(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'rewarded', 'capped', 'rejected', 'reversed')),
+  rejection_reason text,
+  qualifying_transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  referrer_points integer NOT NULL DEFAULT 0,
+  referee_points integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  rewarded_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_restaurant ON referrals(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer ON referrals(referrer_id, status);
+
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view referrals"
+  ON referrals FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Wallet customers can view their referrals"
+  ON referrals FOR SELECT
+  TO anon
+  USING (referrer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+-- a.b+promo@x.com and a.b@x.com are the same inbox for fraud purposes
+CREATE OR REPLACE FUNCTION normalize_referral_email(p_email text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(lower(trim(p_email)), '\+[^@]*@', '@');
+$$;
+
+CREATE OR REPLACE FUNCTION apply_referral_code(p_customer_id uuid, p_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_referee customers%ROWTYPE;
+  v_referrer customers%ROWTYPE;
+  v_settings jsonb;
+  v_referee_phone text;
+  v_referrer_phone text;
+BEGIN
+  SELECT * INTO v_referee FROM customers WHERE id = p_customer_id;
+
+  IF NOT FOUND OR NULLIF(trim(p_code), '') IS NULL THEN
+    RETURN 'ignored';
+  END IF;
+
+  SELECT settings->'referrals' INTO v_settings FROM restaurants WHERE id = v_referee.restaurant_id;
+
+  IF NOT COALESCE((v_settings->>'enabled')::boolean, false) THEN
+    RETURN 'disabled';
+  END IF;
+
+  SELECT * INTO v_referrer
+  FROM customers
+  WHERE restaurant_id = v_referee.restaurant_id
+    AND referral_code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM referrals WHERE referee_id = v_referee.id) THEN
+    RETURN 'exists';
+  END IF;
+
+  v_referee_phone := NULLIF(regexp_replace(COALESCE(v_referee.phone, ''), '\D', '', 'g'), '');
+  v_referrer_phone := NULLIF(regexp_replace(COALESCE(v_referrer.phone, ''), '\D', '', 'g'), '');
+
+  IF v_referrer.id = v_referee.id
+    OR normalize_referral_email(v_referrer.email) = normalize_referral_email(v_referee.email)
+    OR v_referee_phone = v_referrer_phone
+  THEN
+    INSERT INTO referrals (restaurant_id, referrer_id, referee_id, status, rejection_reason)
+    VALUES (v_referee.restaurant_id, v_referrer.id, v_referee.id, 'rejected', 'Self-referral');
+    RETURN 'rejected';
+  END IF;
+
+  INSERT INTO referrals (restaurant_id, referrer_id, referee_id)
+  VALUES (v_referee.restaurant_id, v_referrer.id, v_referee.id);
+
+  RETURN 'pending';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reward_referral_on_purchase()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_referral referrals%ROWTYPE;
+  v_settings jsonb;
+  v_referrer_points integer;
+  v_referee_points integer;
+  v_max_rewards integer;
+  v_status text := 'rewarded';
+  v_referee_name text;
+BEGIN
+  SELECT * INTO v_referral
+  FROM referrals
+  WHERE referee_id = NEW.customer_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT settings->'referrals' INTO v_settings FROM restaurants WHERE id = NEW.restaurant_id;
+
+  -- Left pending while the program is paused, so the friend's next purchase can still count
+  IF NOT COALESCE((v_settings->>'enabled')::boolean, false)
+    OR COALESCE(NEW.amount_spent, 0) < COALESCE((v_settings->>'minPurchaseAED')::numeric, 0)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_referrer_points := GREATEST(COALESCE((v_settings->>'referrerPoints')::integer, 0), 0);
+  v_referee_points := GREATEST(COALESCE((v_settings->>'refereePoints')::integer, 0), 0);
+  v_max_rewards := COALESCE((v_settings->>'maxRewardsPerReferrer')::integer, 0);
+
+  IF v_max_rewards > 0 AND (
+    SELECT count(*) FROM referrals
+    WHERE referrer_id = v_referral.referrer_id AND status = 'rewarded'
+  ) >= v_max_rewards THEN
+    v_status := 'capped';
+    v_referrer_points := 0;
+  END IF;
+
+  SELECT first_name INTO v_referee_name FROM customers WHERE id = NEW.customer_id;
+
+  IF v_referee_points > 0 THEN
+    PERFORM process_point_transaction(
+      NEW.restaurant_id,
+      NEW.customer_id,
+      'referral',
+      v_referee_points,
+      'Welcome bonus for joining through a friend',
+      NULL,
+      NULL,
+      NEW.branch_id
+    );
+  END IF;
+
+  IF v_referrer_points > 0 THEN
+    PERFORM process_point_transaction(
+      NEW.restaurant_id,
+      v_referral.referrer_id,
+      'referral',
+      v_referrer_points,
+      'Referral bonus: ' || COALESCE(v_referee_name, 'a friend') || ' made their first purchase',
+      NULL,
+      NULL,
+      NEW.branch_id
+    );
+  END IF;
+
+  UPDATE referrals SET
+    status = v_status,
+    qualifying_transaction_id = NEW.id,
+    referrer_points = v_referrer_points,
+    referee_points = v_referee_points,
+    rewarded_at = now()
+  WHERE id = v_referral.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reward_referral_on_purchase ON transactions;
+CREATE TRIGGER reward_referral_on_purchase
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'purchase')
+  EXECUTE FUNCTION reward_referral_on_purchase();
+
+CREATE OR REPLACE FUNCTION reverse_referral_on_refund()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_referral referrals%ROWTYPE;
+  v_purchase transactions%ROWTYPE;
+  v_min_purchase numeric;
+  v_net_amount numeric;
+  v_customer customers%ROWTYPE;
+  v_customer_id uuid;
+  v_points integer;
+  v_taken integer;
+BEGIN
+  SELECT * INTO v_referral
+  FROM referrals
+  WHERE qualifying_transaction_id = NEW.reverses_transaction_id
+    AND status IN ('rewarded', 'capped')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_purchase FROM transactions WHERE id = NEW.reverses_transaction_id;
+
+  SELECT COALESCE(v_purchase.amount_spent, 0) + COALESCE(SUM(amount_spent), 0)
+  INTO v_net_amount
+  FROM transactions
+  WHERE reverses_transaction_id = v_purchase.id;
+
+  SELECT COALESCE((settings->'referrals'->>'minPurchaseAED')::numeric, 0)
+  INTO v_min_purchase
+  FROM restaurants
+  WHERE id = NEW.restaurant_id;
+
+  -- A partial refund that still leaves a qualifying purchase keeps the bonuses
+  IF v_net_amount > 0 AND v_net_amount >= v_min_purchase THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_customer_id, v_points IN
+    VALUES (v_referral.referee_id, v_referral.referee_points),
+           (v_referral.referrer_id, v_referral.referrer_points)
+  LOOP
+    CONTINUE WHEN v_points <= 0;
+
+    SELECT * INTO v_customer FROM customers WHERE id = v_customer_id FOR UPDATE;
+    CONTINUE WHEN NOT FOUND;
+
+    -- No manager signs off on this, so only what's left of the bonus comes back
+    v_taken := LEAST(v_points, GREATEST(v_customer.total_points, 0));
+
+    UPDATE customers SET
+      total_points = total_points - v_taken,
+      lifetime_points = GREATEST(0, lifetime_points - v_points),
+      updated_at = now()
+    WHERE id = v_customer.id;
+
+    IF v_taken > 0 THEN
+      INSERT INTO transactions (restaurant_id, customer_id, branch_id, type, points, description)
+      VALUES (
+        NEW.restaurant_id,
+        v_customer.id,
+        NEW.branch_id,
+        'reversal',
+        -v_taken,
+        'Referral bonus reversed: qualifying purchase refunded'
+      );
+    END IF;
+
+    IF v_customer.id = v_referral.referrer_id THEN
+      PERFORM refresh_customer_tier(v_customer.id, true, 'Referral bonus reversed');
+    END IF;
+  END LOOP;
+
+  UPDATE referrals SET status = 'reversed' WHERE id = v_referral.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reverse_referral_on_refund ON transactions;
+CREATE TRIGGER reverse_referral_on_refund
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'reversal' AND NEW.reverses_transaction_id IS NOT NULL)
+  EXECUTE FUNCTION reverse_referral_on_refund();
+
+REVOKE EXECUTE ON FUNCTION apply_referral_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_referral_code(uuid, text) TO service_role;
@@ -0,0 +1,334 @@
+/*
+  # Signup and birthday bonuses
+
+  1. Settings
+    - `restaurants.settings.signupBonus`: `enabled`, `type` (`points` or `reward`), `points`,
+      `rewardId` and `validDays` (how long a free welcome reward can be claimed)
+    - `restaurants.settings.birthdayReward`: `enabled`, `type`, `points`, `rewardId` and
+      `window` (`week`: three days either side of the birthday, or `month`: the calendar month)
+
+  2. New Tables
+    - `birthday_rewards`: one row per customer per year a birthday reward was issued
+      - `customer_id` and `birthday_year` are unique together, so changing a date of birth
+        can't earn a second one in the same year
+      - `birthday` (date), `valid_until` (date, last day of the window, restaurant timezone)
+      - `points`, `transaction_id`, `redemption_id` (the free reward's code, if one was given)
+
+  3. Functions
+    - `grant_bonus_gift()` adds the points, or issues the free reward as a pending redemption
+      code with no points used, and records a `signup` or `bonus` transaction either way
+    - New customers get the welcome bonus from a trigger, however they were added
+    - `issue_birthday_reward()` gives one customer their reward if today falls in their window;
+      it runs on signup, when the date of birth changes and for everyone from a daily job
+    - A free reward that is inactive or out of stock is skipped rather than failing the signup
+
+  4. Security
+    - Restaurant members can view birthday rewards; wallet sessions can view their own
+    - Only pg_cron runs `issue_birthday_rewards()`; no client role can call it
+*/
+
+CREATE TABLE IF NOT EXISTS birthday_rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  birthday_year integer NOT NULL,
+  birthday date NOT NULL,
+  valid_until date NOT NULL,
+  points integer NOT NULL DEFAULT 0,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  redemption_id uuid REFERENCES reward_redemptions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (customer_id, birthday_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_birthday_rewards_customer ON birthday_rewards(customer_id, valid_until DESC);
+
+ALTER TABLE birthday_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view birthday rewards"
+  ON birthday_rewards FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Wallet customers can view their birthday rewards"
+  ON birthday_rewards FOR SELECT
+  TO anon
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+-- 29 February falls back to the 28th in other years
+CREATE OR REPLACE FUNCTION birthday_in_year(p_date_of_birth date, p_year integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_date(
+    p_year,
+    extract(month FROM p_date_of_birth)::integer,
+    LEAST(
+      extract(day FROM p_date_of_birth)::integer,
+      extract(day FROM (make_date(p_year, extract(month FROM p_date_of_birth)::integer, 1) + interval '1 month' - interval '1 day'))::integer
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION grant_bonus_gift(
+  p_customer_id uuid,
+  p_gift jsonb,
+  p_type text,
+  p_label text,
+  p_valid_until timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_points integer;
+  v_code text;
+  v_redemption_id uuid;
+  v_transaction_id uuid;
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF COALESCE(p_gift->>'type', 'points') = 'reward' THEN
+    SELECT * INTO v_reward
+    FROM rewards
+    WHERE id = NULLIF(p_gift->>'rewardId', '')::uuid
+      AND restaurant_id = v_customer.restaurant_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_reward.is_active
+      OR (v_reward.total_available IS NOT NULL AND v_reward.total_redeemed >= v_reward.total_available)
+    THEN
+      RETURN NULL;
+    END IF;
+
+    LOOP
+      v_code := generate_redemption_code();
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE code = v_code);
+    END LOOP;
+
+    INSERT INTO reward_redemptions (
+      restaurant_id,
+      customer_id,
+      reward_id,
+      points_used,
+      status,
+      code,
+      expires_at
+    ) VALUES (
+      v_customer.restaurant_id,
+      v_customer.id,
+      v_reward.id,
+      0,
+      'pending',
+      v_code,
+      p_valid_until
+    )
+    RETURNING id INTO v_redemption_id;
+
+    UPDATE rewards
+    SET total_redeemed = total_redeemed + 1
+    WHERE id = v_reward.id;
+
+    v_transaction_id := process_point_transaction(
+      v_customer.restaurant_id,
+      v_customer.id,
+      p_type,
+      0,
+      p_label || ' gift: ' || v_reward.name,
+      NULL,
+      v_reward.id
+    );
+
+    RETURN jsonb_build_object('transaction_id', v_transaction_id, 'redemption_id', v_redemption_id, 'points', 0);
+  END IF;
+
+  v_points := COALESCE((p_gift->>'points')::integer, 0);
+
+  IF v_points <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_transaction_id := process_point_transaction(
+    v_customer.restaurant_id,
+    v_customer.id,
+    p_type,
+    v_points,
+    p_label || ' bonus'
+  );
+
+  RETURN jsonb_build_object('transaction_id', v_transaction_id, 'redemption_id', NULL, 'points', v_points);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_signup_bonus()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_gift jsonb;
+BEGIN
+  SELECT settings->'signupBonus' INTO v_gift FROM restaurants WHERE id = NEW.restaurant_id;
+
+  IF COALESCE((v_gift->>'enabled')::boolean, false) THEN
+    PERFORM grant_bonus_gift(
+      NEW.id,
+      v_gift,
+      'signup',
+      'Welcome',
+      now() + make_interval(days => GREATEST(COALESCE((v_gift->>'validDays')::integer, 30), 1))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS issue_signup_bonus ON customers;
+CREATE TRIGGER issue_signup_bonus
+  AFTER INSERT ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_signup_bonus();
+
+CREATE OR REPLACE FUNCTION issue_birthday_reward(p_customer_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_settings jsonb;
+  v_gift jsonb;
+  v_today date;
+  v_birthday date;
+  v_window_start date;
+  v_window_end date;
+  v_year integer;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+
+  IF NOT FOUND OR v_customer.date_of_birth IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = v_customer.restaurant_id;
+  v_gift := v_settings->'birthdayReward';
+
+  IF NOT COALESCE((v_gift->>'enabled')::boolean, false) THEN
+    RETURN false;
+  END IF;
+
+  v_today := (now() AT TIME ZONE COALESCE(v_settings->>'timezone', 'Asia/Dubai'))::date;
+
+  -- A week window around 1 January can start in the previous year
+  FOREACH v_year IN ARRAY ARRAY[extract(year FROM v_today)::integer - 1, extract(year FROM v_today)::integer, extract(year FROM v_today)::integer + 1]
+  LOOP
+    v_birthday := birthday_in_year(v_customer.date_of_birth, v_year);
+
+    IF COALESCE(v_gift->>'window', 'week') = 'month' THEN
+      v_window_start := date_trunc('month', v_birthday)::date;
+      v_window_end := (date_trunc('month', v_birthday) + interval '1 month' - interval '1 day')::date;
+    ELSE
+      v_window_start := v_birthday - 3;
+      v_window_end := v_birthday + 3;
+    END IF;
+
+    EXIT WHEN v_today BETWEEN v_window_start AND v_window_end;
+    v_birthday := NULL;
+  END LOOP;
+
+  IF v_birthday IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Claim the year first; a concurrent run for the same customer stops here
+  INSERT INTO birthday_rewards (restaurant_id, customer_id, birthday_year, birthday, valid_until)
+  VALUES (v_customer.restaurant_id, v_customer.id, extract(year FROM v_birthday)::integer, v_birthday, v_window_end)
+  ON CONFLICT (customer_id, birthday_year) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  v_result := grant_bonus_gift(
+    v_customer.id,
+    v_gift,
+    'bonus',
+    'Birthday',
+    -- The free reward can be claimed until the window closes, local time
+    ((v_window_end + 1)::timestamp AT TIME ZONE COALESCE(v_settings->>'timezone', 'Asia/Dubai'))
+  );
+
+  IF v_result IS NULL THEN
+    DELETE FROM birthday_rewards
+    WHERE customer_id = v_customer.id AND birthday_year = extract(year FROM v_birthday)::integer;
+    RETURN false;
+  END IF;
+
+  UPDATE birthday_rewards SET
+    points = (v_result->>'points')::integer,
+    transaction_id = (v_result->>'transaction_id')::uuid,
+    redemption_id = (v_result->>'redemption_id')::uuid
+  WHERE customer_id = v_customer.id AND birthday_year = extract(year FROM v_birthday)::integer;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_birthday_reward_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM issue_birthday_reward(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS issue_birthday_reward_on_change ON customers;
+CREATE TRIGGER issue_birthday_reward_on_change
+  AFTER INSERT OR UPDATE OF date_of_birth ON customers
+  FOR EACH ROW
+  WHEN (NEW.date_of_birth IS NOT NULL)
+  EXECUTE FUNCTION issue_birthday_reward_on_change();
+
+CREATE OR REPLACE FUNCTION issue_birthday_rewards()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_issued integer := 0;
+BEGIN
+  FOR v_customer_id IN
+    SELECT c.id
+    FROM customers c
+    JOIN restaurants r ON r.id = c.restaurant_id
+    WHERE c.date_of_birth IS NOT NULL
+      AND COALESCE((r.settings->'birthdayReward'->>'enabled')::boolean, false)
+  LOOP
+    IF issue_birthday_reward(v_customer_id) THEN
+      v_issued := v_issued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_issued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_bonus_gift(uuid, jsonb, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_birthday_reward(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_birthday_rewards() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('issue-birthday-rewards', '15 0 * * *', $$SELECT issue_birthday_rewards()$$);
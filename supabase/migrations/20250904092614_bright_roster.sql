@@ -0,0 +1,179 @@
+/*
+  # Customer management
+
+  1. Changes
+    - `transactions.type` now allows `adjustment`: points added or deducted by hand, kept apart
+      from bonuses so a deduction never shows up as a negative bonus
+
+  2. Functions
+    - `search_customers()` backs the dashboard customers page: one page of customers plus the
+      total match count, filtered and sorted in the database
+      - Search matches name, email and phone; the text is a bound parameter with LIKE
+        wildcards escaped, so it is never parsed as filter syntax
+      - Filters: tier, last visit range, total spent range, points range and branch (customers
+        with at least one transaction at that branch)
+      - Sorts on `name`, `total_points`, `total_spent`, `visit_count`, `last_visit` or
+        `created_at`; anything else falls back to newest first
+    - `adjust_customer_points()` lets restaurant members add or deduct points by hand; a reason
+      is required and is kept in the transaction description (and so in the audit log)
+
+  3. Indexes
+    - `transactions(branch_id, customer_id)` for the branch filter
+    - `customers(restaurant_id, last_visit)` for the last visit filter and sort
+
+  4. Security
+    - `search_customers()` runs as the caller, so the existing customers policies apply
+    - `adjust_customer_points()` checks `is_restaurant_member()` before changing anything
+*/
+
+CREATE INDEX IF NOT EXISTS idx_transactions_branch_customer ON transactions(branch_id, customer_id);
+CREATE INDEX IF NOT EXISTS idx_customers_restaurant_last_visit ON customers(restaurant_id, last_visit DESC);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'transactions_type_check'
+  ) THEN
+    ALTER TABLE transactions DROP CONSTRAINT transactions_type_check;
+  END IF;
+END $$;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type = ANY (ARRAY['purchase'::text, 'bonus'::text, 'referral'::text, 'signup'::text, 'redemption'::text, 'expiry'::text, 'refund'::text, 'reversal'::text, 'adjustment'::text]));
+
+CREATE OR REPLACE FUNCTION search_customers(
+  p_restaurant_id uuid,
+  p_search text DEFAULT NULL,
+  p_tier text DEFAULT NULL,
+  p_last_visit_from timestamptz DEFAULT NULL,
+  p_last_visit_to timestamptz DEFAULT NULL,
+  p_min_spent numeric DEFAULT NULL,
+  p_max_spent numeric DEFAULT NULL,
+  p_min_points integer DEFAULT NULL,
+  p_max_points integer DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_pattern text;
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 25), 1), 200);
+  v_offset integer := GREATEST(COALESCE(p_offset, 0), 0);
+  v_result jsonb;
+BEGIN
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH matched AS (
+    SELECT c.*
+    FROM customers c
+    WHERE c.restaurant_id = p_restaurant_id
+      AND (
+        v_pattern IS NULL
+        OR (c.first_name || ' ' || c.last_name) ILIKE v_pattern
+        OR c.email ILIKE v_pattern
+        OR c.phone ILIKE v_pattern
+      )
+      AND (p_tier IS NULL OR c.current_tier = p_tier)
+      AND (p_last_visit_from IS NULL OR c.last_visit >= p_last_visit_from)
+      AND (p_last_visit_to IS NULL OR c.last_visit < p_last_visit_to)
+      AND (p_min_spent IS NULL OR c.total_spent >= p_min_spent)
+      AND (p_max_spent IS NULL OR c.total_spent <= p_max_spent)
+      AND (p_min_points IS NULL OR c.total_points >= p_min_points)
+      AND (p_max_points IS NULL OR c.total_points <= p_max_points)
+      AND (p_branch_id IS NULL OR EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.branch_id = p_branch_id AND t.customer_id = c.id
+      ))
+  ),
+  -- Sorting stops once the requested page is found, instead of ranking every match
+  page AS (
+    SELECT m.*
+    FROM matched m
+    ORDER BY
+      CASE WHEN p_sort = 'name' AND p_ascending THEN lower(m.first_name || ' ' || m.last_name) END ASC,
+      CASE WHEN p_sort = 'name' AND NOT p_ascending THEN lower(m.first_name || ' ' || m.last_name) END DESC,
+      CASE WHEN p_ascending THEN
+        CASE p_sort
+          WHEN 'total_points' THEN m.total_points::numeric
+          WHEN 'total_spent' THEN m.total_spent
+          WHEN 'visit_count' THEN m.visit_count::numeric
+        END
+      END ASC,
+      CASE WHEN NOT p_ascending THEN
+        CASE p_sort
+          WHEN 'total_points' THEN m.total_points::numeric
+          WHEN 'total_spent' THEN m.total_spent
+          WHEN 'visit_count' THEN m.visit_count::numeric
+        END
+      END DESC,
+      CASE WHEN p_sort = 'last_visit' AND p_ascending THEN m.last_visit END ASC NULLS LAST,
+      CASE WHEN p_sort = 'last_visit' AND NOT p_ascending THEN m.last_visit END DESC NULLS LAST,
+      CASE WHEN p_sort = 'created_at' AND p_ascending THEN m.created_at END ASC,
+      m.created_at DESC,
+      m.id
+    LIMIT v_limit
+    OFFSET v_offset
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matched),
+    'customers', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM page p), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION adjust_customer_points(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_points integer,
+  p_reason text,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to adjust points for this restaurant';
+  END IF;
+
+  IF COALESCE(p_points, 0) = 0 THEN
+    RAISE EXCEPTION 'Enter the number of points to add or deduct';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for manual adjustments';
+  END IF;
+
+  -- Deductions stop at zero, the same as any other negative transaction
+  RETURN process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'adjustment',
+    p_points,
+    'Manual adjustment: ' || btrim(p_reason),
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    p_idempotency_key
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_customers(uuid, text, text, timestamptz, timestamptz, numeric, numeric, integer, integer, uuid, text, boolean, integer, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION adjust_customer_points(uuid, uuid, integer, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_customers(uuid, text, text, timestamptz, timestamptz, numeric, numeric, integer, integer, uuid, text, boolean, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION adjust_customer_points(uuid, uuid, integer, text, uuid) TO authenticated;
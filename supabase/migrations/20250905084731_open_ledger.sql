@@ -0,0 +1,190 @@
+/*
+  # Import existing loyalty members
+
+  1. Changes
+    - `transactions.type` now allows `migration`: an opening point balance brought over from a
+      previous loyalty programme. It counts towards lifetime points and tiers like any earning.
+
+  2. Functions
+    - `import_customers()` takes a batch of rows (`first_name`, `last_name`, `email`, `phone`,
+      `date_of_birth`, `points`) and returns one result per row: `created`, `merged` or
+      `skipped`, with a reason
+      - A row whose email already belongs to a customer is merged (empty phone and date of
+        birth are filled in; nothing is overwritten) or skipped, as chosen
+      - Opening balances are only added to customers the import creates, so running the same
+        file twice can't double anyone's points
+      - A dry run does all the same work inside a savepoint and rolls it back, so its report
+        matches what a real run would do
+    - Imported members don't get the welcome bonus; they already belong to the programme
+
+  3. Security
+    - `import_customers()` checks `is_restaurant_member()` before changing anything
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'transactions_type_check'
+  ) THEN
+    ALTER TABLE transactions DROP CONSTRAINT transactions_type_check;
+  END IF;
+END $$;
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type = ANY (ARRAY['purchase'::text, 'bonus'::text, 'referral'::text, 'signup'::text, 'redemption'::text, 'expiry'::text, 'refund'::text, 'reversal'::text, 'adjustment'::text, 'migration'::text]));
+
+CREATE OR REPLACE FUNCTION issue_signup_bonus()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_gift jsonb;
+BEGIN
+  -- Members brought over by import_customers() already belong to the programme
+  IF current_setting('voya.importing_customers', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT settings->'signupBonus' INTO v_gift FROM restaurants WHERE id = NEW.restaurant_id;
+
+  IF COALESCE((v_gift->>'enabled')::boolean, false) THEN
+    PERFORM grant_bonus_gift(
+      NEW.id,
+      v_gift,
+      'signup',
+      'Welcome',
+      now() + make_interval(days => GREATEST(COALESCE((v_gift->>'validDays')::integer, 30), 1))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_customers(
+  p_restaurant_id uuid,
+  p_rows jsonb,
+  p_on_duplicate text DEFAULT 'merge',
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row jsonb;
+  v_index integer := 0;
+  v_email text;
+  v_points integer;
+  v_existing customers%ROWTYPE;
+  v_customer_id uuid;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to import customers for this restaurant';
+  END IF;
+
+  IF p_on_duplicate NOT IN ('merge', 'skip') THEN
+    RAISE EXCEPTION 'Unknown duplicate handling: %', p_on_duplicate;
+  END IF;
+
+  PERFORM set_config('voya.importing_customers', 'on', true);
+
+  BEGIN
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+      v_index := v_index + 1;
+      v_email := lower(btrim(v_row->>'email'));
+      IF NULLIF(v_email, '') IS NULL OR NULLIF(btrim(v_row->>'first_name'), '') IS NULL THEN
+        v_results := v_results || jsonb_build_object(
+          'row', v_index, 'status', 'skipped', 'reason', 'Email and first name are required'
+        );
+        CONTINUE;
+      END IF;
+
+      -- A row the database rejects (a bad date, say) is skipped without losing the rest
+      BEGIN
+        v_points := GREATEST(COALESCE((v_row->>'points')::integer, 0), 0);
+
+        SELECT * INTO v_existing
+        FROM customers
+        WHERE restaurant_id = p_restaurant_id AND lower(email) = v_email
+        FOR UPDATE;
+
+        IF FOUND THEN
+          IF p_on_duplicate = 'skip' THEN
+            v_results := v_results || jsonb_build_object(
+              'row', v_index, 'status', 'skipped', 'customer_id', v_existing.id,
+              'reason', 'A customer with this email already exists'
+            );
+            CONTINUE;
+          END IF;
+
+          UPDATE customers SET
+            phone = COALESCE(NULLIF(phone, ''), NULLIF(btrim(v_row->>'phone'), '')),
+            date_of_birth = COALESCE(date_of_birth, (NULLIF(v_row->>'date_of_birth', ''))::date),
+            updated_at = now()
+          WHERE id = v_existing.id;
+
+          v_results := v_results || jsonb_build_object(
+            'row', v_index, 'status', 'merged', 'customer_id', v_existing.id,
+            'reason', CASE WHEN v_points > 0
+              THEN 'Existing customer; missing details filled in, opening balance not added'
+              ELSE 'Existing customer; missing details filled in'
+            END
+          );
+          CONTINUE;
+        END IF;
+
+        INSERT INTO customers (restaurant_id, first_name, last_name, email, phone, date_of_birth)
+        VALUES (
+          p_restaurant_id,
+          btrim(v_row->>'first_name'),
+          COALESCE(btrim(v_row->>'last_name'), ''),
+          v_email,
+          NULLIF(btrim(v_row->>'phone'), ''),
+          (NULLIF(v_row->>'date_of_birth', ''))::date
+        )
+        RETURNING id INTO v_customer_id;
+
+        IF v_points > 0 THEN
+          PERFORM process_point_transaction(
+            p_restaurant_id,
+            v_customer_id,
+            'migration',
+            v_points,
+            'Opening balance from previous loyalty programme'
+          );
+        END IF;
+
+        v_results := v_results || jsonb_build_object(
+          'row', v_index, 'status', 'created', 'points', v_points,
+          'customer_id', CASE WHEN p_dry_run THEN NULL ELSE v_customer_id END
+        );
+      EXCEPTION
+        WHEN OTHERS THEN
+          v_results := v_results || jsonb_build_object(
+            'row', v_index, 'status', 'skipped', 'reason', SQLERRM
+          );
+      END;
+    END LOOP;
+
+    IF p_dry_run THEN
+      RAISE EXCEPTION USING ERRCODE = 'VOYDR', MESSAGE = 'dry run';
+    END IF;
+  EXCEPTION
+    WHEN SQLSTATE 'VOYDR' THEN
+      -- Everything in the block is rolled back; the results are kept
+      NULL;
+  END;
+
+  PERFORM set_config('voya.importing_customers', 'off', true);
+
+  RETURN jsonb_build_object('dry_run', p_dry_run, 'results', v_results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_customers(uuid, jsonb, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_customers(uuid, jsonb, text, boolean) TO authenticated;
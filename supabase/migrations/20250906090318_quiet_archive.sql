@@ -0,0 +1,79 @@
+/*
+  # Data exports
+
+  1. New Tables
+    - `data_exports`: one row per export a restaurant member asks for
+      - `dataset` (`customers`, `transactions`, `redemptions` or `rewards`)
+      - `format` (`csv`, `xlsx` or `json`)
+      - `filters` (jsonb: `from` and `to` timestamps and `branchId`, all optional)
+      - `status` (`queued`, `running`, `completed`, `failed` or `expired`)
+      - `row_count`, `file_path`, `file_size`, `error`
+      - `requested_by` (auth user), `created_at`, `started_at`, `completed_at`
+      - `expires_at`: the file is removed seven days after the export finishes
+
+  2. Storage
+    - Private `exports` bucket; files sit under `<restaurant id>/<export id>.<format>`
+
+  3. How it runs
+    - The dashboard inserts a `queued` row and calls the `data-export` edge function, which
+      claims the row, builds the file in the background and uploads it. The dashboard polls
+      the row and downloads the file with a signed URL.
+    - An export still `running` ten minutes after it started is taken to have died with its
+      function call; calling the function again claims it afresh, and the old run can no
+      longer update the row
+    - The function also removes files whose exports have expired
+
+  4. Security
+    - Restaurant members can see their exports, request new ones (as themselves, `queued`
+      only) and download the files under their restaurant's folder
+    - Only the edge function (service role) moves an export past `queued`
+*/
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  requested_by uuid NOT NULL DEFAULT auth.uid(),
+  dataset text NOT NULL CHECK (dataset IN ('customers', 'transactions', 'redemptions', 'rewards')),
+  format text NOT NULL CHECK (format IN ('csv', 'xlsx', 'json')),
+  filters jsonb NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'expired')),
+  row_count integer,
+  file_path text,
+  file_size bigint,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  expires_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_restaurant ON data_exports(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_exports_expiry ON data_exports(expires_at) WHERE status = 'completed';
+
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view data exports"
+  ON data_exports FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can request data exports"
+  ON data_exports FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_restaurant_member(restaurant_id)
+    AND requested_by = auth.uid()
+    AND status = 'queued'
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Restaurant members can download their exports"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'exports'
+    AND is_restaurant_member(((storage.foldername(name))[1])::uuid)
+  );
@@ -0,0 +1,258 @@
+/*
+  # Duplicate customers and account merge
+
+  1. New Tables
+    - `customer_duplicate_dismissals`: pairs a restaurant member has marked as different people,
+      so the duplicate finder stops suggesting them
+
+  2. Functions
+    - `customer_phone_key()`: the last nine digits of a phone number, so `+971 50 123 4567`
+      and `050-1234567` compare equal
+    - `find_duplicate_customers()` returns likely duplicate pairs with a score (0-1) and the
+      reasons they matched: the same phone, a similar name or a similar email (trigram
+      similarity). Dismissed pairs are left out.
+    - `merge_customers()` folds a duplicate into the customer being kept
+      - Transactions, redemptions, point lots, orders, tier history, birthday rewards and
+        referrals move to the kept customer
+      - Points balance, lifetime points, visits and total spent become the sum of both
+        records, the last visit the later of the two, and the member-since date the earlier
+      - An empty phone or date of birth on the kept customer is filled in from the duplicate
+      - The tier is re-evaluated with the combined history, then the duplicate is deleted
+      - The merge is written to the audit log with both records' totals
+
+  3. Indexes
+    - Trigram indexes on customer names and emails, and an index on the phone key
+
+  4. Security
+    - Both functions check `is_restaurant_member()`; dismissals have RLS for restaurant members
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION customer_phone_key(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+    THEN right(regexp_replace(p_phone, '\D', '', 'g'), 9)
+  END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_customers_phone_key
+  ON customers(restaurant_id, customer_phone_key(phone));
+CREATE INDEX IF NOT EXISTS idx_customers_name_trgm
+  ON customers USING gin (lower(first_name || ' ' || last_name) extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_customers_email_trgm
+  ON customers USING gin (lower(email) extensions.gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS customer_duplicate_dismissals (
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_a uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  customer_b uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  dismissed_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (customer_a, customer_b),
+  -- Stored in id order so each pair has one row
+  CONSTRAINT customer_duplicate_dismissals_ordered CHECK (customer_a < customer_b)
+);
+
+ALTER TABLE customer_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view duplicate dismissals"
+  ON customer_duplicate_dismissals FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can dismiss duplicates"
+  ON customer_duplicate_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE OR REPLACE FUNCTION find_duplicate_customers(
+  p_restaurant_id uuid,
+  p_min_score numeric DEFAULT 0.5,
+  p_limit integer DEFAULT 50
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to view customers for this restaurant';
+  END IF;
+
+  WITH people AS (
+    SELECT
+      c.*,
+      lower(c.first_name || ' ' || c.last_name) AS name_key,
+      lower(c.email) AS email_key,
+      customer_phone_key(c.phone) AS phone_key
+    FROM customers c
+    WHERE c.restaurant_id = p_restaurant_id
+  ),
+  candidates AS (
+    -- The % operator (similarity above 0.3) lets the trigram indexes find candidates
+    SELECT
+      a.id AS a_id,
+      b.id AS b_id,
+      a.phone_key IS NOT NULL AND a.phone_key = b.phone_key AS same_phone,
+      extensions.similarity(a.name_key, b.name_key) AS name_score,
+      extensions.similarity(a.email_key, b.email_key) AS email_score
+    FROM people a
+    JOIN people b
+      ON a.id < b.id
+      AND (
+        (a.phone_key IS NOT NULL AND a.phone_key = b.phone_key)
+        OR a.name_key OPERATOR(extensions.%) b.name_key
+        OR a.email_key OPERATOR(extensions.%) b.email_key
+      )
+  ),
+  scored AS (
+    -- A shared phone is strong evidence on its own; otherwise name and email count equally
+    SELECT
+      candidates.*,
+      round(GREATEST(
+        CASE WHEN same_phone THEN 0.8 + 0.2 * name_score ELSE 0 END,
+        (name_score + email_score) / 2
+      )::numeric, 2) AS score
+    FROM candidates
+    WHERE NOT EXISTS (
+      SELECT 1 FROM customer_duplicate_dismissals d
+      WHERE d.customer_a = candidates.a_id AND d.customer_b = candidates.b_id
+    )
+  )
+  SELECT COALESCE(jsonb_agg(pair ORDER BY (pair->>'score')::numeric DESC), '[]'::jsonb)
+  INTO v_result
+  FROM (
+    SELECT jsonb_build_object(
+      'score', s.score,
+      'reasons', to_jsonb(array_remove(ARRAY[
+        CASE WHEN s.same_phone THEN 'Same phone' END,
+        CASE WHEN s.name_score >= 0.99 THEN 'Same name' WHEN s.name_score >= 0.5 THEN 'Similar name' END,
+        CASE WHEN s.email_score >= 0.5 THEN 'Similar email' END
+      ], NULL)),
+      'customer_a', to_jsonb(a),
+      'customer_b', to_jsonb(b)
+    ) AS pair
+    FROM scored s
+    JOIN customers a ON a.id = s.a_id
+    JOIN customers b ON b.id = s.b_id
+    WHERE s.score >= COALESCE(p_min_score, 0.5)
+    ORDER BY s.score DESC, a.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200)
+  ) pairs;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_restaurant_id uuid,
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_survivor customers%ROWTYPE;
+  v_duplicate customers%ROWTYPE;
+  v_merged customers%ROWTYPE;
+  v_totals text[] := ARRAY['total_points', 'lifetime_points', 'visit_count', 'total_spent', 'current_tier'];
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to merge customers for this restaurant';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Choose two different customers to merge';
+  END IF;
+
+  -- Locked in id order so two merges of the same pair can't deadlock
+  PERFORM 1 FROM customers
+  WHERE id IN (p_survivor_id, p_duplicate_id) AND restaurant_id = p_restaurant_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_survivor FROM customers WHERE id = p_survivor_id AND restaurant_id = p_restaurant_id;
+  SELECT * INTO v_duplicate FROM customers WHERE id = p_duplicate_id AND restaurant_id = p_restaurant_id;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  UPDATE transactions SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE reward_redemptions SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE point_lots SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE orders SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE tier_history SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  -- One birthday reward per year; the kept customer's wins
+  DELETE FROM birthday_rewards d
+  WHERE d.customer_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM birthday_rewards s
+      WHERE s.customer_id = p_survivor_id AND s.birthday_year = d.birthday_year
+    );
+  UPDATE birthday_rewards SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  -- A referral between the two would become a self-referral, and a customer can only be
+  -- referred once; the points already paid stay in the moved transactions
+  DELETE FROM referrals
+  WHERE (referrer_id = p_duplicate_id AND referee_id = p_survivor_id)
+     OR (referrer_id = p_survivor_id AND referee_id = p_duplicate_id)
+     OR (referee_id = p_duplicate_id AND EXISTS (SELECT 1 FROM referrals WHERE referee_id = p_survivor_id));
+  UPDATE referrals SET referee_id = p_survivor_id WHERE referee_id = p_duplicate_id;
+  UPDATE referrals SET referrer_id = p_survivor_id WHERE referrer_id = p_duplicate_id;
+
+  -- Each record's balance already reflects its own ledger, so the merged totals are the sums
+  UPDATE customers SET
+    total_points = v_survivor.total_points + v_duplicate.total_points,
+    lifetime_points = v_survivor.lifetime_points + v_duplicate.lifetime_points,
+    visit_count = v_survivor.visit_count + v_duplicate.visit_count,
+    total_spent = v_survivor.total_spent + v_duplicate.total_spent,
+    last_visit = GREATEST(v_survivor.last_visit, v_duplicate.last_visit),
+    created_at = LEAST(v_survivor.created_at, v_duplicate.created_at),
+    phone = COALESCE(NULLIF(v_survivor.phone, ''), NULLIF(v_duplicate.phone, '')),
+    date_of_birth = COALESCE(v_survivor.date_of_birth, v_duplicate.date_of_birth),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  DELETE FROM customers WHERE id = p_duplicate_id;
+
+  -- Merging only adds history, so the tier can go up but not down
+  PERFORM refresh_customer_tier(p_survivor_id, false, 'Merged with duplicate account ' || v_duplicate.email);
+
+  SELECT * INTO v_merged FROM customers WHERE id = p_survivor_id;
+
+  PERFORM write_audit_log(
+    p_restaurant_id,
+    'customers',
+    p_survivor_id,
+    'merge',
+    jsonb_build_object(
+      'kept', jsonb_build_object('id', v_survivor.id, 'email', v_survivor.email)
+        || (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_survivor)) WHERE key = ANY(v_totals)),
+      'merged', jsonb_build_object('id', v_duplicate.id, 'email', v_duplicate.email,
+          'name', v_duplicate.first_name || ' ' || v_duplicate.last_name)
+        || (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_duplicate)) WHERE key = ANY(v_totals))
+    ),
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_merged)) WHERE key = ANY(v_totals)),
+    'Merged ' || v_duplicate.email || ' into ' || v_survivor.email
+  );
+
+  RETURN to_jsonb(v_merged);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_duplicate_customers(uuid, numeric, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION merge_customers(uuid, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_customers(uuid, numeric, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_customers(uuid, uuid, uuid) TO authenticated;
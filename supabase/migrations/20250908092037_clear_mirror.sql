@@ -0,0 +1,616 @@
+/*
+  # Customer data requests: export and erasure
+
+  1. Changes
+    - `customers.erased_at`: set once a customer's personal data has been erased. The row stays
+      so transactions, redemptions and orders still add up for the restaurant's accounts.
+
+  2. New Tables
+    - `customer_data_requests`: one row per data export or erasure
+      - `kind` (`export` or `erasure`), `source` (`customer` from the wallet, `owner` from the
+        dashboard)
+      - `status` (`pending`, `completed` or `cancelled`)
+      - `due_at`: erasures a customer asks for are carried out within 30 days, giving them time
+        to change their mind and the restaurant time to settle anything open
+      - `requested_at`, `completed_at`
+
+  3. Functions
+    - `customer_data_export()` gathers everything held about a customer: profile, transactions,
+      redemptions, orders, tier history, referrals and birthday rewards
+    - Wallet (the signed-in customer only):
+      - `export_my_data()` returns that export and records the request
+      - `request_my_data_erasure()` / `cancel_my_data_erasure()` open or withdraw an erasure
+    - Dashboard (restaurant members):
+      - `export_customer_data()` for requests that arrive by email or in person
+      - `erase_customers()` erases straight away, completing any pending request
+    - `erase_customer_data()` does the erasure: name, email, phone and date of birth are
+      replaced or cleared, the referral code is reissued, open redemption codes are cancelled
+      (their points go back first, so the ledger still balances) and login codes are deleted.
+      Points, visits, spend and every transaction are kept.
+    - `process_due_erasures()` runs daily through pg_cron and carries out erasures past `due_at`
+    - `find_duplicate_customers()` leaves erased customers out
+
+  4. Audit log
+    - An erasure writes one `erase` entry with no personal data; the row-level customer update
+      it makes is not logged, since that entry would copy the erased fields into the log.
+    - `redact_customer_audit_log()` clears the customer's personal data from entries written
+      before the erasure, and from those of any customer merged into them: name, email, phone
+      and date of birth in `before`/`after`, merge descriptions, and `actor_label` where the
+      customer acted from the wallet. Which fields changed, and when, is kept.
+    - The audit log stays append-only for everything else: `prevent_audit_log_changes()` only
+      lets an update through while that function is running, and clients can't update it at all
+
+  5. Security
+    - RLS: restaurant members can read their restaurant's requests; a signed-in wallet customer
+      can read their own
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS erased_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS customer_data_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('export', 'erasure')),
+  source text NOT NULL CHECK (source IN ('customer', 'owner')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  due_at timestamptz,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_data_requests_restaurant
+  ON customer_data_requests(restaurant_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_customer_data_requests_due
+  ON customer_data_requests(due_at)
+  WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_data_requests_one_pending_erasure
+  ON customer_data_requests(customer_id)
+  WHERE kind = 'erasure' AND status = 'pending';
+
+ALTER TABLE customer_data_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view customer data requests"
+  ON customer_data_requests FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Wallet customers can view their data requests"
+  ON customer_data_requests FOR SELECT
+  TO anon, authenticated
+  USING (customer_id = wallet_customer_id() AND restaurant_id = wallet_restaurant_id());
+
+-- Same as before, except that an erasure's own customer update is left out
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_ignored text[] := COALESCE(TG_ARGV::text[], '{}') || ARRAY['updated_at'];
+  v_before jsonb;
+  v_after jsonb;
+  v_key text;
+  v_sub_key text;
+BEGIN
+  IF TG_TABLE_NAME = 'customers' AND current_setting('voya.erasing_customer', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_after := v_new;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_before := v_old;
+  ELSE
+    v_before := '{}'::jsonb;
+    v_after := '{}'::jsonb;
+
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      CONTINUE WHEN v_key = ANY(v_ignored) OR v_old->v_key IS NOT DISTINCT FROM v_new->v_key;
+
+      -- Settings-style objects are diffed one level down so one toggle doesn't log the whole blob
+      IF jsonb_typeof(v_old->v_key) = 'object' AND jsonb_typeof(v_new->v_key) = 'object' THEN
+        FOR v_sub_key IN
+          SELECT jsonb_object_keys(v_old->v_key) UNION SELECT jsonb_object_keys(v_new->v_key)
+        LOOP
+          CONTINUE WHEN v_old->v_key->v_sub_key IS NOT DISTINCT FROM v_new->v_key->v_sub_key;
+          v_before := v_before || jsonb_build_object(v_key || '.' || v_sub_key, v_old->v_key->v_sub_key);
+          v_after := v_after || jsonb_build_object(v_key || '.' || v_sub_key, v_new->v_key->v_sub_key);
+        END LOOP;
+      ELSE
+        v_before := v_before || jsonb_build_object(v_key, v_old->v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new->v_key);
+      END IF;
+    END LOOP;
+
+    IF v_after = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  PERFORM write_audit_log(
+    CASE WHEN TG_TABLE_NAME = 'restaurants' THEN v_row->>'id' ELSE v_row->>'restaurant_id' END::uuid,
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    lower(TG_OP),
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION customer_data_export(p_customer_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'exported_at', now(),
+    'restaurant', (SELECT r.name FROM restaurants r WHERE r.id = c.restaurant_id),
+    'profile', jsonb_build_object(
+      'first_name', c.first_name,
+      'last_name', c.last_name,
+      'email', c.email,
+      'phone', c.phone,
+      'date_of_birth', c.date_of_birth,
+      'member_since', c.created_at,
+      'tier', c.current_tier,
+      'points_balance', c.total_points,
+      'lifetime_points', c.lifetime_points,
+      'visits', c.visit_count,
+      'total_spent', c.total_spent,
+      'last_visit', c.last_visit,
+      'referral_code', c.referral_code
+    ),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', t.created_at, 'type', t.type, 'points', t.points, 'amount_spent', t.amount_spent,
+        'description', t.description, 'branch', b.name
+      ) ORDER BY t.created_at)
+      FROM transactions t LEFT JOIN branches b ON b.id = t.branch_id
+      WHERE t.customer_id = c.id
+    ), '[]'::jsonb),
+    'redemptions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', rr.redeemed_at, 'reward', rw.name, 'points_used', rr.points_used,
+        'status', rr.status, 'used_at', rr.used_at
+      ) ORDER BY rr.redeemed_at)
+      FROM reward_redemptions rr LEFT JOIN rewards rw ON rw.id = rr.reward_id
+      WHERE rr.customer_id = c.id
+    ), '[]'::jsonb),
+    'orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', o.created_at, 'order_number', o.order_number, 'total', o.total,
+        'points_awarded', o.points_awarded
+      ) ORDER BY o.created_at)
+      FROM orders o
+      WHERE o.customer_id = c.id
+    ), '[]'::jsonb),
+    'tier_history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', th.created_at, 'from', th.from_tier, 'to', th.to_tier, 'reason', th.reason
+      ) ORDER BY th.created_at)
+      FROM tier_history th
+      WHERE th.customer_id = c.id
+    ), '[]'::jsonb),
+    'referrals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', rf.created_at,
+        'role', CASE WHEN rf.referrer_id = c.id THEN 'referrer' ELSE 'referred' END,
+        'status', rf.status,
+        'points', CASE WHEN rf.referrer_id = c.id THEN rf.referrer_points ELSE rf.referee_points END
+      ) ORDER BY rf.created_at)
+      FROM referrals rf
+      WHERE rf.referrer_id = c.id OR rf.referee_id = c.id
+    ), '[]'::jsonb),
+    'birthday_rewards', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'birthday', br.birthday, 'valid_until', br.valid_until, 'points', br.points
+      ) ORDER BY br.birthday)
+      FROM birthday_rewards br
+      WHERE br.customer_id = c.id
+    ), '[]'::jsonb),
+    'data_requests', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'kind', dr.kind, 'status', dr.status, 'requested_at', dr.requested_at, 'due_at', dr.due_at
+      ) ORDER BY dr.requested_at)
+      FROM customer_data_requests dr
+      WHERE dr.customer_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM customers c
+  WHERE c.id = p_customer_id;
+$$;
+
+-- Append-only, except for the redaction an erasure makes
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_setting('voya.redacting_audit_log', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+-- Blanks personal fields at the top level and one level down, where merge entries keep them
+CREATE OR REPLACE FUNCTION redact_customer_fields(p_data jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN jsonb_typeof(p_data) = 'object' THEN (
+    SELECT COALESCE(jsonb_object_agg(
+      key,
+      CASE
+        WHEN key IN ('first_name', 'last_name', 'name', 'email', 'phone', 'date_of_birth') THEN to_jsonb('[erased]'::text)
+        WHEN jsonb_typeof(value) = 'object' THEN COALESCE((
+          SELECT jsonb_object_agg(
+            sub.key,
+            CASE
+              WHEN sub.key IN ('first_name', 'last_name', 'name', 'email', 'phone', 'date_of_birth') THEN to_jsonb('[erased]'::text)
+              ELSE sub.value
+            END
+          )
+          FROM jsonb_each(value) sub
+        ), '{}'::jsonb)
+        ELSE value
+      END
+    ), '{}'::jsonb)
+    FROM jsonb_each(p_data)
+  ) ELSE p_data END;
+$$;
+
+CREATE OR REPLACE FUNCTION redact_customer_audit_log(p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_ids uuid[];
+BEGIN
+  -- The customer, and every customer merged into them, whose rows now belong to this one
+  WITH RECURSIVE merged(id) AS (
+    SELECT p_customer_id
+    UNION
+    SELECT (a.before->'merged'->>'id')::uuid
+    FROM audit_log a
+    JOIN merged m ON a.entity_id = m.id
+    WHERE a.entity_type = 'customers' AND a.action = 'merge' AND a.before->'merged'->>'id' IS NOT NULL
+  )
+  SELECT array_agg(id) INTO v_customer_ids FROM merged;
+
+  PERFORM set_config('voya.redacting_audit_log', 'on', true);
+
+  UPDATE audit_log SET
+    before = redact_customer_fields(before),
+    after = redact_customer_fields(after),
+    description = CASE WHEN action = 'merge' THEN 'Merged customers (personal data erased)' ELSE description END
+  WHERE entity_type = 'customers' AND entity_id = ANY(v_customer_ids);
+
+  UPDATE audit_log SET actor_label = 'Erased customer'
+  WHERE actor_type = 'customer' AND actor_id = ANY(v_customer_ids);
+
+  PERFORM set_config('voya.redacting_audit_log', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION erase_customer_data(p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF v_customer.erased_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  FOR v_redemption IN
+    SELECT * FROM reward_redemptions
+    WHERE customer_id = p_customer_id AND status = 'pending'
+    FOR UPDATE
+  LOOP
+    PERFORM close_redemption(v_redemption.id, 'cancelled');
+  END LOOP;
+
+  DELETE FROM customer_login_codes
+  WHERE restaurant_id = v_customer.restaurant_id AND lower(email) = lower(v_customer.email);
+
+  PERFORM set_config('voya.erasing_customer', 'on', true);
+
+  UPDATE customers SET
+    first_name = 'Erased',
+    last_name = 'customer',
+    email = 'erased-' || id || '@erased.invalid',
+    phone = NULL,
+    date_of_birth = NULL,
+    referral_code = generate_referral_code(restaurant_id),
+    erased_at = now(),
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  PERFORM set_config('voya.erasing_customer', 'off', true);
+
+  PERFORM redact_customer_audit_log(p_customer_id);
+
+  UPDATE customer_data_requests SET
+    status = 'completed',
+    completed_at = now()
+  WHERE customer_id = p_customer_id AND kind = 'erasure' AND status = 'pending';
+
+  PERFORM write_audit_log(
+    v_customer.restaurant_id,
+    'customer_data',
+    p_customer_id,
+    'erase',
+    NULL,
+    NULL,
+    'Personal data erased; points and transactions kept'
+  );
+END;
+$$;
+
+-- Erased customers all share the same placeholder name, so leave them out
+CREATE OR REPLACE FUNCTION find_duplicate_customers(
+  p_restaurant_id uuid,
+  p_min_score numeric DEFAULT 0.5,
+  p_limit integer DEFAULT 50
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to view customers for this restaurant';
+  END IF;
+
+  WITH people AS (
+    SELECT
+      c.*,
+      lower(c.first_name || ' ' || c.last_name) AS name_key,
+      lower(c.email) AS email_key,
+      customer_phone_key(c.phone) AS phone_key
+    FROM customers c
+    WHERE c.restaurant_id = p_restaurant_id
+      AND c.erased_at IS NULL
+  ),
+  candidates AS (
+    -- The % operator (similarity above 0.3) lets the trigram indexes find candidates
+    SELECT
+      a.id AS a_id,
+      b.id AS b_id,
+      a.phone_key IS NOT NULL AND a.phone_key = b.phone_key AS same_phone,
+      extensions.similarity(a.name_key, b.name_key) AS name_score,
+      extensions.similarity(a.email_key, b.email_key) AS email_score
+    FROM people a
+    JOIN people b
+      ON a.id < b.id
+      AND (
+        (a.phone_key IS NOT NULL AND a.phone_key = b.phone_key)
+        OR a.name_key OPERATOR(extensions.%) b.name_key
+        OR a.email_key OPERATOR(extensions.%) b.email_key
+      )
+  ),
+  scored AS (
+    -- A shared phone is strong evidence on its own; otherwise name and email count equally
+    SELECT
+      candidates.*,
+      round(GREATEST(
+        CASE WHEN same_phone THEN 0.8 + 0.2 * name_score ELSE 0 END,
+        (name_score + email_score) / 2
+      )::numeric, 2) AS score
+    FROM candidates
+    WHERE NOT EXISTS (
+      SELECT 1 FROM customer_duplicate_dismissals d
+      WHERE d.customer_a = candidates.a_id AND d.customer_b = candidates.b_id
+    )
+  )
+  SELECT COALESCE(jsonb_agg(pair ORDER BY (pair->>'score')::numeric DESC), '[]'::jsonb)
+  INTO v_result
+  FROM (
+    SELECT jsonb_build_object(
+      'score', s.score,
+      'reasons', to_jsonb(array_remove(ARRAY[
+        CASE WHEN s.same_phone THEN 'Same phone' END,
+        CASE WHEN s.name_score >= 0.99 THEN 'Same name' WHEN s.name_score >= 0.5 THEN 'Similar name' END,
+        CASE WHEN s.email_score >= 0.5 THEN 'Similar email' END
+      ], NULL)),
+      'customer_a', to_jsonb(a),
+      'customer_b', to_jsonb(b)
+    ) AS pair
+    FROM scored s
+    JOIN customers a ON a.id = s.a_id
+    JOIN customers b ON b.id = s.b_id
+    WHERE s.score >= COALESCE(p_min_score, 0.5)
+    ORDER BY s.score DESC, a.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200)
+  ) pairs;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION export_my_data()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid := wallet_customer_id();
+BEGIN
+  IF v_customer_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM customers
+    WHERE id = v_customer_id AND restaurant_id = wallet_restaurant_id() AND erased_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sign in to your wallet to download your data';
+  END IF;
+
+  INSERT INTO customer_data_requests (restaurant_id, customer_id, kind, source, status, completed_at)
+  VALUES (wallet_restaurant_id(), v_customer_id, 'export', 'customer', 'completed', now());
+
+  RETURN customer_data_export(v_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_my_data_erasure()
+RETURNS customer_data_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid := wallet_customer_id();
+  v_request customer_data_requests%ROWTYPE;
+BEGIN
+  IF v_customer_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM customers
+    WHERE id = v_customer_id AND restaurant_id = wallet_restaurant_id() AND erased_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sign in to your wallet to delete your data';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM customer_data_requests
+  WHERE customer_id = v_customer_id AND kind = 'erasure' AND status = 'pending';
+
+  IF FOUND THEN
+    RETURN v_request;
+  END IF;
+
+  INSERT INTO customer_data_requests (restaurant_id, customer_id, kind, source, due_at)
+  VALUES (wallet_restaurant_id(), v_customer_id, 'erasure', 'customer', now() + interval '30 days')
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_my_data_erasure()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF wallet_customer_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to your wallet to cancel the request';
+  END IF;
+
+  UPDATE customer_data_requests SET
+    status = 'cancelled',
+    completed_at = now()
+  WHERE customer_id = wallet_customer_id()
+    AND restaurant_id = wallet_restaurant_id()
+    AND kind = 'erasure'
+    AND status = 'pending';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION export_customer_data(p_restaurant_id uuid, p_customer_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to export customer data for this restaurant';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id AND restaurant_id = p_restaurant_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO customer_data_requests (restaurant_id, customer_id, kind, source, status, completed_at)
+  VALUES (p_restaurant_id, p_customer_id, 'export', 'owner', 'completed', now());
+
+  RETURN customer_data_export(p_customer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION erase_customers(p_restaurant_id uuid, p_customer_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_erased integer := 0;
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to erase customers for this restaurant';
+  END IF;
+
+  FOR v_customer_id IN
+    SELECT id FROM customers
+    WHERE restaurant_id = p_restaurant_id AND id = ANY(p_customer_ids) AND erased_at IS NULL
+  LOOP
+    -- Record the owner's request unless the customer's own is already waiting
+    INSERT INTO customer_data_requests (restaurant_id, customer_id, kind, source, due_at)
+    SELECT p_restaurant_id, v_customer_id, 'erasure', 'owner', now()
+    WHERE NOT EXISTS (
+      SELECT 1 FROM customer_data_requests
+      WHERE customer_id = v_customer_id AND kind = 'erasure' AND status = 'pending'
+    );
+
+    PERFORM erase_customer_data(v_customer_id);
+    v_erased := v_erased + 1;
+  END LOOP;
+
+  RETURN v_erased;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION process_due_erasures()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_id uuid;
+  v_erased integer := 0;
+BEGIN
+  FOR v_customer_id IN
+    SELECT customer_id FROM customer_data_requests
+    WHERE kind = 'erasure' AND status = 'pending' AND due_at <= now()
+  LOOP
+    PERFORM erase_customer_data(v_customer_id);
+    v_erased := v_erased + 1;
+  END LOOP;
+
+  RETURN v_erased;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION customer_data_export(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION erase_customer_data(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redact_customer_audit_log(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_due_erasures() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION export_customer_data(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION erase_customers(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION export_my_data() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_my_data_erasure() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_my_data_erasure() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION export_customer_data(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION erase_customers(uuid, uuid[]) TO authenticated;
+
+SELECT cron.schedule('process-due-erasures', '40 0 * * *', $$SELECT process_due_erasures()$$);
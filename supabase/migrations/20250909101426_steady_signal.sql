@@ -0,0 +1,298 @@
+/*
+  # Phone numbers in E.164 and phone sign-in
+
+  1. Functions
+    - `normalize_phone()` turns a phone number into E.164 (`+971501234567`). Numbers written
+      the local way (`050 123 4567`, `50 123 4567`) get the UAE country code; `00` becomes `+`.
+      Returns NULL for anything that can't be a phone number.
+
+  2. Changes
+    - `customers.phone`
+      - Existing numbers are converted to E.164. A number that can't be read is cleared, and
+        where two customers of one restaurant share a number it stays with the one who visited
+        most recently. Both show up in the audit log with the old value.
+      - A trigger normalises every number written from now on and rejects invalid ones or one
+        that already belongs to another customer of the restaurant
+      - Unique per restaurant
+    - `customer_login_codes` can be keyed by `phone` instead of `email`, for codes sent by SMS
+    - `merge_customers()` deletes the duplicate before updating the kept customer, so the kept
+      customer can take over the duplicate's phone number
+    - `erase_customer_data()` also deletes login codes sent to the customer's phone
+
+  3. Indexes
+    - Unique index on (`restaurant_id`, `phone`) and a lookup index for phone login codes
+*/
+
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text, p_country_code text DEFAULT '971')
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_raw text := btrim(COALESCE(p_phone, ''));
+  v_digits text := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF v_digits = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_raw LIKE '+%' THEN
+    NULL;
+  ELSIF v_digits LIKE '00%' THEN
+    v_digits := substr(v_digits, 3);
+  ELSIF v_digits LIKE '0%' THEN
+    v_digits := p_country_code || substr(v_digits, 2);
+  ELSIF length(v_digits) <= 9 THEN
+    -- A local number without its leading 0
+    v_digits := p_country_code || v_digits;
+  END IF;
+
+  -- E.164 allows at most 15 digits, and country codes never start with 0
+  IF v_digits !~ '^[1-9][0-9]{7,14}$' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || v_digits;
+END;
+$$;
+
+WITH normalized AS (
+  SELECT
+    id,
+    normalize_phone(phone) AS e164,
+    row_number() OVER (
+      PARTITION BY restaurant_id, normalize_phone(phone)
+      ORDER BY last_visit DESC NULLS LAST, created_at
+    ) AS position
+  FROM customers
+  WHERE phone IS NOT NULL
+)
+UPDATE customers c SET
+  phone = CASE WHEN n.position = 1 THEN n.e164 END
+FROM normalized n
+WHERE c.id = n.id
+  AND c.phone IS DISTINCT FROM CASE WHEN n.position = 1 THEN n.e164 END;
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_restaurant_phone_key
+  ON customers(restaurant_id, phone)
+  WHERE phone IS NOT NULL;
+
+-- The unique index is the backstop; this gives imports and sign-ups a readable error
+CREATE OR REPLACE FUNCTION normalize_customer_phone()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_phone text;
+BEGIN
+  IF NULLIF(btrim(COALESCE(NEW.phone, '')), '') IS NULL THEN
+    NEW.phone := NULL;
+    RETURN NEW;
+  END IF;
+
+  v_phone := normalize_phone(NEW.phone);
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION '"%" is not a valid phone number', NEW.phone USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM customers
+    WHERE restaurant_id = NEW.restaurant_id AND phone = v_phone AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Phone number % already belongs to another customer', v_phone
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  NEW.phone := v_phone;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_customer_phone_trigger ON customers;
+CREATE TRIGGER normalize_customer_phone_trigger
+  BEFORE INSERT OR UPDATE OF phone ON customers
+  FOR EACH ROW EXECUTE FUNCTION normalize_customer_phone();
+
+ALTER TABLE customer_login_codes ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE customer_login_codes ADD COLUMN IF NOT EXISTS phone text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'customer_login_codes_one_identifier'
+  ) THEN
+    ALTER TABLE customer_login_codes
+      ADD CONSTRAINT customer_login_codes_one_identifier CHECK ((email IS NULL) <> (phone IS NULL));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_customer_login_codes_phone_lookup
+  ON customer_login_codes(restaurant_id, phone, created_at DESC)
+  WHERE phone IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_restaurant_id uuid,
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_survivor customers%ROWTYPE;
+  v_duplicate customers%ROWTYPE;
+  v_merged customers%ROWTYPE;
+  v_totals text[] := ARRAY['total_points', 'lifetime_points', 'visit_count', 'total_spent', 'current_tier'];
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to merge customers for this restaurant';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Choose two different customers to merge';
+  END IF;
+
+  -- Locked in id order so two merges of the same pair can't deadlock
+  PERFORM 1 FROM customers
+  WHERE id IN (p_survivor_id, p_duplicate_id) AND restaurant_id = p_restaurant_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_survivor FROM customers WHERE id = p_survivor_id AND restaurant_id = p_restaurant_id;
+  SELECT * INTO v_duplicate FROM customers WHERE id = p_duplicate_id AND restaurant_id = p_restaurant_id;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  UPDATE transactions SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE reward_redemptions SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE point_lots SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE orders SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE tier_history SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  -- One birthday reward per year; the kept customer's wins
+  DELETE FROM birthday_rewards d
+  WHERE d.customer_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM birthday_rewards s
+      WHERE s.customer_id = p_survivor_id AND s.birthday_year = d.birthday_year
+    );
+  UPDATE birthday_rewards SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  -- A referral between the two would become a self-referral, and a customer can only be
+  -- referred once; the points already paid stay in the moved transactions
+  DELETE FROM referrals
+  WHERE (referrer_id = p_duplicate_id AND referee_id = p_survivor_id)
+     OR (referrer_id = p_survivor_id AND referee_id = p_duplicate_id)
+     OR (referee_id = p_duplicate_id AND EXISTS (SELECT 1 FROM referrals WHERE referee_id = p_survivor_id));
+  UPDATE referrals SET referee_id = p_survivor_id WHERE referee_id = p_duplicate_id;
+  UPDATE referrals SET referrer_id = p_survivor_id WHERE referrer_id = p_duplicate_id;
+
+  -- Gone before the kept customer is updated, so the duplicate's phone number is free to move
+  DELETE FROM customers WHERE id = p_duplicate_id;
+
+  -- Each record's balance already reflects its own ledger, so the merged totals are the sums
+  UPDATE customers SET
+    total_points = v_survivor.total_points + v_duplicate.total_points,
+    lifetime_points = v_survivor.lifetime_points + v_duplicate.lifetime_points,
+    visit_count = v_survivor.visit_count + v_duplicate.visit_count,
+    total_spent = v_survivor.total_spent + v_duplicate.total_spent,
+    last_visit = GREATEST(v_survivor.last_visit, v_duplicate.last_visit),
+    created_at = LEAST(v_survivor.created_at, v_duplicate.created_at),
+    phone = COALESCE(NULLIF(v_survivor.phone, ''), NULLIF(v_duplicate.phone, '')),
+    date_of_birth = COALESCE(v_survivor.date_of_birth, v_duplicate.date_of_birth),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  -- Merging only adds history, so the tier can go up but not down
+  PERFORM refresh_customer_tier(p_survivor_id, false, 'Merged with duplicate account ' || v_duplicate.email);
+
+  SELECT * INTO v_merged FROM customers WHERE id = p_survivor_id;
+
+  PERFORM write_audit_log(
+    p_restaurant_id,
+    'customers',
+    p_survivor_id,
+    'merge',
+    jsonb_build_object(
+      'kept', jsonb_build_object('id', v_survivor.id, 'email', v_survivor.email)
+        || (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_survivor)) WHERE key = ANY(v_totals)),
+      'merged', jsonb_build_object('id', v_duplicate.id, 'email', v_duplicate.email,
+          'name', v_duplicate.first_name || ' ' || v_duplicate.last_name)
+        || (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_duplicate)) WHERE key = ANY(v_totals))
+    ),
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(to_jsonb(v_merged)) WHERE key = ANY(v_totals)),
+    'Merged ' || v_duplicate.email || ' into ' || v_survivor.email
+  );
+
+  RETURN to_jsonb(v_merged);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION erase_customer_data(p_customer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF v_customer.erased_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  FOR v_redemption IN
+    SELECT * FROM reward_redemptions
+    WHERE customer_id = p_customer_id AND status = 'pending'
+    FOR UPDATE
+  LOOP
+    PERFORM close_redemption(v_redemption.id, 'cancelled');
+  END LOOP;
+
+  DELETE FROM customer_login_codes
+  WHERE restaurant_id = v_customer.restaurant_id
+    AND (lower(email) = lower(v_customer.email) OR phone = v_customer.phone);
+
+  PERFORM set_config('voya.erasing_customer', 'on', true);
+
+  UPDATE customers SET
+    first_name = 'Erased',
+    last_name = 'customer',
+    email = 'erased-' || id || '@erased.invalid',
+    phone = NULL,
+    date_of_birth = NULL,
+    referral_code = generate_referral_code(restaurant_id),
+    erased_at = now(),
+    updated_at = now()
+  WHERE id = p_customer_id;
+
+  PERFORM set_config('voya.erasing_customer', 'off', true);
+
+  PERFORM redact_customer_audit_log(p_customer_id);
+
+  UPDATE customer_data_requests SET
+    status = 'completed',
+    completed_at = now()
+  WHERE customer_id = p_customer_id AND kind = 'erasure' AND status = 'pending';
+
+  PERFORM write_audit_log(
+    v_customer.restaurant_id,
+    'customer_data',
+    p_customer_id,
+    'erase',
+    NULL,
+    NULL,
+    'Personal data erased; points and transactions kept'
+  );
+END;
+$$;
@@ -0,0 +1,482 @@
+/*
+  # Customer segments
+
+  1. New Tables
+    - `customer_segments`: saved groups of customers, e.g. "Gold members who haven't visited in
+      30 days"
+      - `name`, `description`
+      - `rules` (jsonb): every condition that is set must hold
+        - `tiers`: any of these tier ids
+        - `minPoints` / `maxPoints`, `minSpent` / `maxSpent`
+        - `lastVisitWithinDays`: visited in the last N days
+        - `noVisitForDays`: no visit in the last N days, including customers who never visited
+        - `minVisits` / `maxVisits`: purchases in the last `visitWindowDays` days, or ever when
+          that isn't set
+        - `branchIds`: has at least one transaction at any of these branches
+        - `redeemedRewardIds` / `redeemedCategories`: has used any of these rewards, or a reward
+          in any of these categories, optionally in the last `redeemedWithinDays` days
+        - `birthdayMonths`: 1-12
+
+  2. Changes
+    - `campaigns.segment_id`: a campaign with a segment only gives its bonus to the segment's
+      members. A segment can't be deleted while a campaign uses it.
+
+  3. Functions
+    - `customer_matches_segment(customer, rules)` evaluates the rules for one customer; erased
+      customers never match
+    - `segment_members(segment_id)` returns the segment's customers as a table, so exports can
+      page and embed it like `customers`
+    - `count_segment_members(restaurant_id, rules)` counts unsaved rules for the builder;
+      `segment_member_counts(restaurant_id)` counts every saved segment
+    - `customer_segment_ids(restaurant_id, customer_id)` lists the segments a customer is in,
+      so the staff portal can preview segment campaigns
+    - `search_customers()` takes `p_segment_id`
+    - `process_point_transaction()` only applies a segment campaign's bonus to members
+
+  4. Security
+    - RLS on `customer_segments` for restaurant members; segment changes are audit logged
+    - The counting and membership functions run as the caller, so customers RLS applies
+*/
+
+CREATE TABLE IF NOT EXISTS customer_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  rules jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(rules) = 'object'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+ALTER TABLE customer_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view segments"
+  ON customer_segments FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can create segments"
+  ON customer_segments FOR INSERT
+  TO authenticated
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can update segments"
+  ON customer_segments FOR UPDATE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id))
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can delete segments"
+  ON customer_segments FOR DELETE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE TRIGGER update_customer_segments_updated_at
+  BEFORE UPDATE ON customer_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_customer_segments_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON customer_segments
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS segment_id uuid REFERENCES customer_segments(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_customer ON reward_redemptions(customer_id, status);
+
+-- A bound that isn't set reads as NULL, so its comparison is NULL and never excludes anyone
+CREATE OR REPLACE FUNCTION customer_matches_segment(p_customer customers, p_rules jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_visits integer;
+BEGIN
+  IF p_rules IS NULL OR p_customer.erased_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_rules->'tiers', '[]')) > 0
+    AND NOT (p_rules->'tiers') ? p_customer.current_tier THEN
+    RETURN false;
+  END IF;
+
+  IF (p_rules->>'minPoints')::integer > p_customer.total_points
+    OR (p_rules->>'maxPoints')::integer < p_customer.total_points
+    OR (p_rules->>'minSpent')::numeric > p_customer.total_spent
+    OR (p_rules->>'maxSpent')::numeric < p_customer.total_spent THEN
+    RETURN false;
+  END IF;
+
+  IF p_rules->>'lastVisitWithinDays' IS NOT NULL AND (
+    p_customer.last_visit IS NULL
+    OR p_customer.last_visit < now() - make_interval(days => (p_rules->>'lastVisitWithinDays')::integer)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF p_customer.last_visit >= now() - make_interval(days => (p_rules->>'noVisitForDays')::integer) THEN
+    RETURN false;
+  END IF;
+
+  IF p_rules->>'minVisits' IS NOT NULL OR p_rules->>'maxVisits' IS NOT NULL THEN
+    IF p_rules->>'visitWindowDays' IS NULL THEN
+      v_visits := p_customer.visit_count;
+    ELSE
+      SELECT count(*) INTO v_visits
+      FROM transactions t
+      WHERE t.customer_id = p_customer.id
+        AND t.type = 'purchase'
+        AND t.created_at >= now() - make_interval(days => (p_rules->>'visitWindowDays')::integer);
+    END IF;
+
+    IF (p_rules->>'minVisits')::integer > v_visits OR (p_rules->>'maxVisits')::integer < v_visits THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_rules->'branchIds', '[]')) > 0 AND NOT EXISTS (
+    SELECT 1 FROM transactions t
+    WHERE t.customer_id = p_customer.id
+      AND t.branch_id IN (SELECT value::uuid FROM jsonb_array_elements_text(p_rules->'branchIds'))
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_rules->'redeemedRewardIds', '[]'))
+    + jsonb_array_length(COALESCE(p_rules->'redeemedCategories', '[]')) > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM reward_redemptions rr
+      JOIN rewards r ON r.id = rr.reward_id
+      WHERE rr.customer_id = p_customer.id
+        AND rr.status = 'used'
+        AND (
+          COALESCE(p_rules->'redeemedRewardIds', '[]') ? r.id::text
+          OR COALESCE(p_rules->'redeemedCategories', '[]') ? r.category
+        )
+        AND (
+          p_rules->>'redeemedWithinDays' IS NULL
+          OR rr.redeemed_at >= now() - make_interval(days => (p_rules->>'redeemedWithinDays')::integer)
+        )
+    ) THEN
+    RETURN false;
+  END IF;
+
+  -- An array contains a bare number, so @> works as "is one of"
+  IF jsonb_array_length(COALESCE(p_rules->'birthdayMonths', '[]')) > 0 AND (
+    p_customer.date_of_birth IS NULL
+    OR NOT (p_rules->'birthdayMonths') @> to_jsonb(EXTRACT(MONTH FROM p_customer.date_of_birth)::integer)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION segment_members(p_segment_id uuid)
+RETURNS SETOF customers
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.*
+  FROM customer_segments s
+  JOIN customers c ON c.restaurant_id = s.restaurant_id
+  WHERE s.id = p_segment_id
+    AND customer_matches_segment(c, s.rules);
+$$;
+
+CREATE OR REPLACE FUNCTION count_segment_members(p_restaurant_id uuid, p_rules jsonb)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*)::integer
+  FROM customers c
+  WHERE c.restaurant_id = p_restaurant_id
+    AND customer_matches_segment(c, p_rules);
+$$;
+
+CREATE OR REPLACE FUNCTION segment_member_counts(p_restaurant_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_object_agg(s.id, count_segment_members(s.restaurant_id, s.rules)), '{}'::jsonb)
+  FROM customer_segments s
+  WHERE s.restaurant_id = p_restaurant_id;
+$$;
+
+CREATE OR REPLACE FUNCTION customer_segment_ids(p_restaurant_id uuid, p_customer_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(array_agg(s.id), '{}')
+  FROM customer_segments s
+  JOIN customers c ON c.id = p_customer_id AND c.restaurant_id = s.restaurant_id
+  WHERE s.restaurant_id = p_restaurant_id
+    AND customer_matches_segment(c, s.rules);
+$$;
+
+DROP FUNCTION IF EXISTS search_customers(uuid, text, text, timestamptz, timestamptz, numeric, numeric, integer, integer, uuid, text, boolean, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_customers(
+  p_restaurant_id uuid,
+  p_search text DEFAULT NULL,
+  p_tier text DEFAULT NULL,
+  p_last_visit_from timestamptz DEFAULT NULL,
+  p_last_visit_to timestamptz DEFAULT NULL,
+  p_min_spent numeric DEFAULT NULL,
+  p_max_spent numeric DEFAULT NULL,
+  p_min_points integer DEFAULT NULL,
+  p_max_points integer DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_segment_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_pattern text;
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 25), 1), 200);
+  v_offset integer := GREATEST(COALESCE(p_offset, 0), 0);
+  v_result jsonb;
+  v_segment_rules jsonb;
+BEGIN
+  IF p_segment_id IS NOT NULL THEN
+    SELECT rules INTO v_segment_rules
+    FROM customer_segments
+    WHERE id = p_segment_id AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('total', 0, 'customers', '[]'::jsonb);
+    END IF;
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH matched AS (
+    SELECT c.*
+    FROM customers c
+    WHERE c.restaurant_id = p_restaurant_id
+      AND (
+        v_pattern IS NULL
+        OR (c.first_name || ' ' || c.last_name) ILIKE v_pattern
+        OR c.email ILIKE v_pattern
+        OR c.phone ILIKE v_pattern
+      )
+      AND (p_tier IS NULL OR c.current_tier = p_tier)
+      AND (p_last_visit_from IS NULL OR c.last_visit >= p_last_visit_from)
+      AND (p_last_visit_to IS NULL OR c.last_visit < p_last_visit_to)
+      AND (p_min_spent IS NULL OR c.total_spent >= p_min_spent)
+      AND (p_max_spent IS NULL OR c.total_spent <= p_max_spent)
+      AND (p_min_points IS NULL OR c.total_points >= p_min_points)
+      AND (p_max_points IS NULL OR c.total_points <= p_max_points)
+      AND (p_branch_id IS NULL OR EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.branch_id = p_branch_id AND t.customer_id = c.id
+      ))
+      AND (p_segment_id IS NULL OR customer_matches_segment(c, v_segment_rules))
+  ),
+  -- Sorting stops once the requested page is found, instead of ranking every match
+  page AS (
+    SELECT m.*
+    FROM matched m
+    ORDER BY
+      CASE WHEN p_sort = 'name' AND p_ascending THEN lower(m.first_name || ' ' || m.last_name) END ASC,
+      CASE WHEN p_sort = 'name' AND NOT p_ascending THEN lower(m.first_name || ' ' || m.last_name) END DESC,
+      CASE WHEN p_ascending THEN
+        CASE p_sort
+          WHEN 'total_points' THEN m.total_points::numeric
+          WHEN 'total_spent' THEN m.total_spent
+          WHEN 'visit_count' THEN m.visit_count::numeric
+        END
+      END ASC,
+      CASE WHEN NOT p_ascending THEN
+        CASE p_sort
+          WHEN 'total_points' THEN m.total_points::numeric
+          WHEN 'total_spent' THEN m.total_spent
+          WHEN 'visit_count' THEN m.visit_count::numeric
+        END
+      END DESC,
+      CASE WHEN p_sort = 'last_visit' AND p_ascending THEN m.last_visit END ASC NULLS LAST,
+      CASE WHEN p_sort = 'last_visit' AND NOT p_ascending THEN m.last_visit END DESC NULLS LAST,
+      CASE WHEN p_sort = 'created_at' AND p_ascending THEN m.created_at END ASC,
+      m.created_at DESC,
+      m.id
+    LIMIT v_limit
+    OFFSET v_offset
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matched),
+    'customers', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM page p), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_transaction_id uuid;
+  v_replay jsonb;
+BEGIN
+  -- Signed-in callers must belong to the restaurant. Wallet sessions and scheduled jobs have no
+  -- user; they can't call this directly and only reach it through functions that check them.
+  IF auth.uid() IS NOT NULL AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record points for this restaurant';
+  END IF;
+
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- A retried request gets back the transaction it already created
+  v_replay := idempotent_result(p_restaurant_id, p_idempotency_key, 'process_point_transaction');
+  IF v_replay IS NOT NULL THEN
+    RETURN (v_replay->>'transaction_id')::uuid;
+  END IF;
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    -- A segment campaign only rewards the segment's members
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, now()) AND (
+      v_campaign.segment_id IS NULL
+      OR customer_matches_segment(
+        v_customer_record,
+        (SELECT rules FROM customer_segments WHERE id = v_campaign.segment_id)
+      )
+    ) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals; earnings pay off an approved negative balance first
+  v_new_total_points := CASE
+    WHEN v_points >= 0 THEN v_customer_record.total_points + v_points
+    ELSE GREATEST(LEAST(v_customer_record.total_points, 0), v_customer_record.total_points + v_points)
+  END;
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN now()
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  PERFORM refresh_customer_tier(p_customer_id);
+
+  PERFORM save_idempotent_result(
+    p_restaurant_id,
+    p_idempotency_key,
+    'process_point_transaction',
+    jsonb_build_object('transaction_id', v_transaction_id)
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_customers(uuid, text, text, timestamptz, timestamptz, numeric, numeric, integer, integer, uuid, uuid, text, boolean, integer, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION segment_members(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION count_segment_members(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION segment_member_counts(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION customer_segment_ids(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_customers(uuid, text, text, timestamptz, timestamptz, numeric, numeric, integer, integer, uuid, uuid, text, boolean, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION segment_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION count_segment_members(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION segment_member_counts(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION customer_segment_ids(uuid, uuid) TO authenticated;
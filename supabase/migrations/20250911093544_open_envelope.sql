@@ -0,0 +1,330 @@
+/*
+  # Email campaigns
+
+  1. New Tables
+    - `email_templates`: reusable messages per restaurant
+      - `name`, `subject`, `body` (plain text; merge fields such as `{{first_name}}`,
+        `{{points}}`, `{{tier}}` and `{{next_reward}}` are filled in per customer)
+    - `email_campaigns`: one send of a template to loyalty members
+      - `template_id`, `segment_id` (NULL sends to every member)
+      - `status` (`draft`, `scheduled`, `sending`, `sent`, `failed` or `cancelled`)
+      - `scheduled_at`, `started_at`, `sent_at`, `recipient_count`, `error`
+    - `email_campaign_recipients`: one row per customer a campaign goes to
+      - `status` (`pending`, `sent` or `failed`), `error`, `sent_at`
+      - `opened_at`, `unsubscribed_at`
+      - The row id is the token in the message's open pixel and unsubscribe link
+
+  2. Changes
+    - `customers.email_opt_out_at`: set when a customer unsubscribes; campaigns skip them
+
+  3. How it runs
+    - The `email-campaigns` edge function claims a due campaign, adds its recipients with
+      `prepare_email_campaign_recipients()`, renders each message and sends it through the
+      mail transport. It also serves the open pixel and the unsubscribe page, so deploy it
+      with `--no-verify-jwt`: mail clients load those without a token.
+    - `dispatch_email_campaigns()` runs every five minutes through pg_cron and calls the
+      function when a campaign is due or a send has stalled. It reads the `project_url` and
+      `service_role_key` secrets from Vault.
+
+  4. Functions
+    - `email_campaign_stats(restaurant_id)`: delivery, open and unsubscribe counts per campaign
+    - `get_email_campaign_performance(restaurant_id, start, end)`: campaigns sent in the period
+      with their opens and the purchases recipients made in the following seven days, for the
+      ROI dashboard
+
+  5. Security
+    - Restaurant members manage templates and campaigns. Only drafts and scheduled campaigns
+      can be changed; only the edge function (service role) moves a campaign to `sending`.
+    - Members can read recipients; only the service role writes them
+    - Template and campaign changes are audit logged
+*/
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS email_opt_out_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS email_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  template_id uuid NOT NULL REFERENCES email_templates(id) ON DELETE RESTRICT,
+  segment_id uuid REFERENCES customer_segments(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'sending', 'sent', 'failed', 'cancelled')),
+  scheduled_at timestamptz,
+  started_at timestamptz,
+  sent_at timestamptz,
+  recipient_count integer,
+  error text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT email_campaigns_scheduled_at CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS email_campaign_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error text,
+  sent_at timestamptz,
+  opened_at timestamptz,
+  unsubscribed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (campaign_id, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_restaurant ON email_campaigns(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_due ON email_campaigns(scheduled_at) WHERE status IN ('scheduled', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_pending ON email_campaign_recipients(campaign_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_restaurant ON email_campaign_recipients(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_customer ON email_campaign_recipients(customer_id);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can view email templates"
+  ON email_templates FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can create email templates"
+  ON email_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can update email templates"
+  ON email_templates FOR UPDATE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id))
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can delete email templates"
+  ON email_templates FOR DELETE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can view email campaigns"
+  ON email_campaigns FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+-- The template and segment must be the restaurant's own
+CREATE POLICY "Restaurant members can create email campaigns"
+  ON email_campaigns FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_restaurant_member(restaurant_id)
+    AND status IN ('draft', 'scheduled')
+    AND EXISTS (SELECT 1 FROM email_templates t WHERE t.id = template_id AND t.restaurant_id = email_campaigns.restaurant_id)
+    AND (segment_id IS NULL OR EXISTS (
+      SELECT 1 FROM customer_segments s WHERE s.id = segment_id AND s.restaurant_id = email_campaigns.restaurant_id
+    ))
+  );
+
+CREATE POLICY "Restaurant members can update unsent email campaigns"
+  ON email_campaigns FOR UPDATE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id) AND status IN ('draft', 'scheduled'))
+  WITH CHECK (
+    is_restaurant_member(restaurant_id)
+    AND status IN ('draft', 'scheduled', 'cancelled')
+    AND EXISTS (SELECT 1 FROM email_templates t WHERE t.id = template_id AND t.restaurant_id = email_campaigns.restaurant_id)
+    AND (segment_id IS NULL OR EXISTS (
+      SELECT 1 FROM customer_segments s WHERE s.id = segment_id AND s.restaurant_id = email_campaigns.restaurant_id
+    ))
+  );
+
+-- Sent campaigns stay for their results
+CREATE POLICY "Restaurant members can delete unsent email campaigns"
+  ON email_campaigns FOR DELETE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id) AND status IN ('draft', 'cancelled', 'failed'));
+
+CREATE POLICY "Restaurant members can view email recipients"
+  ON email_campaign_recipients FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_email_campaigns_updated_at
+  BEFORE UPDATE ON email_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_email_templates_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON email_templates
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER audit_email_campaigns_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON email_campaigns
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Members are worked out once, when sending starts; a resumed send keeps the same list
+CREATE OR REPLACE FUNCTION prepare_email_campaign_recipients(p_campaign_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign email_campaigns%ROWTYPE;
+  v_rules jsonb;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_campaign FROM email_campaigns WHERE id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.segment_id IS NOT NULL THEN
+    SELECT rules INTO v_rules FROM customer_segments WHERE id = v_campaign.segment_id;
+  END IF;
+
+  INSERT INTO email_campaign_recipients (campaign_id, restaurant_id, customer_id)
+  SELECT v_campaign.id, v_campaign.restaurant_id, c.id
+  FROM customers c
+  WHERE c.restaurant_id = v_campaign.restaurant_id
+    AND c.erased_at IS NULL
+    AND c.email_opt_out_at IS NULL
+    AND COALESCE(c.email, '') <> ''
+    AND (v_campaign.segment_id IS NULL OR customer_matches_segment(c, v_rules))
+  ON CONFLICT (campaign_id, customer_id) DO NOTHING;
+
+  SELECT count(*)::integer INTO v_count
+  FROM email_campaign_recipients
+  WHERE campaign_id = p_campaign_id;
+
+  UPDATE email_campaigns
+  SET recipient_count = v_count, started_at = COALESCE(started_at, now())
+  WHERE id = p_campaign_id;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION email_campaign_stats(p_restaurant_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_object_agg(campaign_id, stats), '{}'::jsonb)
+  FROM (
+    SELECT
+      campaign_id,
+      jsonb_build_object(
+        'recipients', count(*),
+        'sent', count(*) FILTER (WHERE status = 'sent'),
+        'failed', count(*) FILTER (WHERE status = 'failed'),
+        'opened', count(opened_at),
+        'unsubscribed', count(unsubscribed_at)
+      ) AS stats
+    FROM email_campaign_recipients
+    WHERE restaurant_id = p_restaurant_id
+    GROUP BY campaign_id
+  ) per_campaign;
+$$;
+
+-- A purchase counts towards a campaign when the recipient makes it within seven days of
+-- their message. Runs with the caller's rights, like get_campaign_performance().
+CREATE OR REPLACE FUNCTION get_email_campaign_performance(
+  p_restaurant_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(result ORDER BY sent_at DESC), '[]'::jsonb)
+  FROM (
+    SELECT
+      ec.sent_at,
+      jsonb_build_object(
+        'campaign_id', ec.id,
+        'name', ec.name,
+        'sent_at', ec.sent_at,
+        'sent', count(*) FILTER (WHERE r.status = 'sent'),
+        'opened', count(r.opened_at),
+        'unsubscribed', count(r.unsubscribed_at),
+        'customers_returned', count(*) FILTER (WHERE p.orders > 0),
+        'orders', COALESCE(sum(p.orders), 0),
+        'revenue', COALESCE(sum(p.revenue), 0)
+      ) AS result
+    FROM email_campaigns ec
+    JOIN email_campaign_recipients r ON r.campaign_id = ec.id
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS orders, COALESCE(sum(t.amount_spent), 0) AS revenue
+      FROM transactions t
+      WHERE r.status = 'sent'
+        AND t.customer_id = r.customer_id
+        AND t.type = 'purchase'
+        AND t.created_at >= r.sent_at
+        AND t.created_at < r.sent_at + interval '7 days'
+    ) p ON true
+    WHERE ec.restaurant_id = p_restaurant_id
+      AND ec.sent_at BETWEEN p_start_date AND p_end_date
+    GROUP BY ec.id
+  ) per_campaign;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Only calls out when there is work, so an idle project makes no requests
+CREATE OR REPLACE FUNCTION dispatch_email_campaigns()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url text;
+  v_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM email_campaigns
+    WHERE (status = 'scheduled' AND scheduled_at <= now())
+      OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE WARNING 'Email campaigns are due but project_url or service_role_key is missing from Vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/email-campaigns',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := jsonb_build_object('action', 'dispatch')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prepare_email_campaign_recipients(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dispatch_email_campaigns() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION email_campaign_stats(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_email_campaign_performance(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION email_campaign_stats(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_email_campaign_performance(uuid, timestamptz, timestamptz) TO authenticated;
+
+SELECT cron.schedule('dispatch-email-campaigns', '*/5 * * * *', $$SELECT dispatch_email_campaigns()$$);
@@ -0,0 +1,674 @@
+/*
+  # Offline sales keep the time they were made
+
+  1. Functions
+    - `process_point_transaction()` and `create_order()` take an optional `p_occurred_at`: when
+      the sale was rung up. The staff portal sends it when it replays its offline queue.
+    - Campaigns and earning rules are checked at that time, and the transaction and order are
+      stamped with it, so point lots earn and expire from the sale rather than the sync
+    - A tier reached by a late sale is dated from the sale, in `customers.tier_achieved_at` and
+      in tier history
+    - `occurred_at_or_now()` checks the time: a moment in the future becomes now, and sales
+      more than 30 days old are rejected, since their idempotency keys may have been pruned.
+      Only a replay (a request with an idempotency key) can name an earlier time.
+    - A campaign bonus on a late sale also needs the campaign to be running today, so a sale
+      can't be backdated into a campaign that has ended or been paused
+    - `process_point_transaction()`, `create_order()` and `redeem_reward()` take an optional
+      `p_staff_member_id`: the staff member who made a queued sale or redemption. It must
+      belong to the restaurant, and is recorded instead of whoever is signed in at sync time.
+    - `act_for_staff_member()` validates that staff member and flags the transaction, and the
+      staff stamping triggers prefer the flagged staff member over the current staff session
+*/
+
+CREATE OR REPLACE FUNCTION occurred_at_or_now(p_occurred_at timestamptz, p_idempotency_key uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF p_occurred_at IS NULL OR p_occurred_at > now() THEN
+    RETURN now();
+  END IF;
+
+  IF p_idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Only a sale replayed from the offline queue can be recorded at an earlier time';
+  END IF;
+
+  IF p_occurred_at < now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This sale is more than 30 days old and can no longer be recorded';
+  END IF;
+
+  RETURN p_occurred_at;
+END;
+$$;
+
+-- Records a queued sale against the staff member who made it, for the rest of the transaction
+CREATE OR REPLACE FUNCTION act_for_staff_member(p_restaurant_id uuid, p_staff_member_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_staff_member_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Only restaurant staff can record a sale for a staff member';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM staff_members WHERE id = p_staff_member_id AND restaurant_id = p_restaurant_id
+  ) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  PERFORM set_config('voya.staff_member_id', p_staff_member_id::text, true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stamp_transaction_staff_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session staff_sessions%ROWTYPE;
+  v_staff_member_id uuid := NULLIF(current_setting('voya.staff_member_id', true), '')::uuid;
+BEGIN
+  v_session := current_staff_session();
+
+  IF v_session.id IS NOT NULL AND v_session.restaurant_id <> NEW.restaurant_id THEN
+    RAISE EXCEPTION 'This staff session belongs to another restaurant';
+  END IF;
+
+  IF v_staff_member_id IS NOT NULL THEN
+    NEW.staff_member_id := v_staff_member_id;
+  ELSIF v_session.id IS NOT NULL THEN
+    NEW.staff_member_id := v_session.staff_member_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stamp_redemption_staff_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session staff_sessions%ROWTYPE;
+  v_staff_member_id uuid := NULLIF(current_setting('voya.staff_member_id', true), '')::uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_session := current_staff_session();
+
+  IF v_session.id IS NOT NULL AND v_session.restaurant_id <> NEW.restaurant_id THEN
+    RAISE EXCEPTION 'This staff session belongs to another restaurant';
+  END IF;
+
+  IF NEW.status = 'used' THEN
+    NEW.used_by_staff_id := COALESCE(v_staff_member_id, v_session.staff_member_id, NEW.used_by_staff_id);
+  ELSIF NEW.status = 'voided' AND v_session.id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM staff_members WHERE id = v_session.staff_member_id AND role = 'manager'
+    ) THEN
+      RAISE EXCEPTION 'Only a manager can void a redemption';
+    END IF;
+    NEW.voided_by_staff_id := v_session.staff_member_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The new parameters change the signatures, so the old versions have to go first
+DROP FUNCTION IF EXISTS process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid, uuid);
+DROP FUNCTION IF EXISTS create_order(uuid, uuid, uuid, jsonb, numeric, uuid, uuid);
+DROP FUNCTION IF EXISTS redeem_reward(uuid, uuid, uuid, uuid, boolean, uuid);
+
+CREATE OR REPLACE FUNCTION process_point_transaction(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_type text,
+  p_points integer,
+  p_description text DEFAULT NULL,
+  p_amount_spent numeric DEFAULT NULL,
+  p_reward_id uuid DEFAULT NULL,
+  p_branch_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_occurred_at timestamptz DEFAULT NULL,
+  p_staff_member_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_record customers%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_campaign_id uuid;
+  v_campaign_bonus integer := 0;
+  v_points integer := p_points;
+  v_new_total_points integer;
+  v_new_lifetime_points integer;
+  v_transaction_id uuid;
+  v_replay jsonb;
+  v_occurred_at timestamptz := occurred_at_or_now(p_occurred_at, p_idempotency_key);
+  v_tier text;
+BEGIN
+  -- Signed-in callers must belong to the restaurant. Wallet sessions and scheduled jobs have no
+  -- user; they can't call this directly and only reach it through functions that check them.
+  IF auth.uid() IS NOT NULL AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record points for this restaurant';
+  END IF;
+
+  -- Get current customer data with row lock
+  SELECT * INTO v_customer_record
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- A retried request gets back the transaction it already created
+  v_replay := idempotent_result(p_restaurant_id, p_idempotency_key, 'process_point_transaction');
+  IF v_replay IS NOT NULL THEN
+    RETURN (v_replay->>'transaction_id')::uuid;
+  END IF;
+
+  PERFORM act_for_staff_member(p_restaurant_id, p_staff_member_id);
+
+  -- Apply the campaign bonus if the campaign is still running for this branch
+  IF p_campaign_id IS NOT NULL AND p_type = 'purchase' THEN
+    SELECT * INTO v_campaign
+    FROM campaigns
+    WHERE id = p_campaign_id AND restaurant_id = p_restaurant_id;
+
+    -- A segment campaign only rewards the segment's members, and a late sale only gets the
+    -- bonus while the campaign is still running
+    IF FOUND AND is_campaign_live(v_campaign, p_branch_id, v_occurred_at) AND (
+      v_occurred_at = now()
+      OR v_campaign.ends_on >= (
+        SELECT (now() AT TIME ZONE COALESCE(NULLIF(settings->>'timezone', ''), 'Asia/Dubai'))::date
+        FROM restaurants
+        WHERE id = p_restaurant_id
+      )
+    ) AND (
+      v_campaign.segment_id IS NULL
+      OR customer_matches_segment(
+        v_customer_record,
+        (SELECT rules FROM customer_segments WHERE id = v_campaign.segment_id)
+      )
+    ) THEN
+      v_campaign_id := v_campaign.id;
+      v_campaign_bonus := calculate_campaign_bonus(v_campaign, p_points);
+      v_points := p_points + v_campaign_bonus;
+    END IF;
+  END IF;
+
+  -- Calculate new point totals; earnings pay off an approved negative balance first
+  v_new_total_points := CASE
+    WHEN v_points >= 0 THEN v_customer_record.total_points + v_points
+    ELSE GREATEST(LEAST(v_customer_record.total_points, 0), v_customer_record.total_points + v_points)
+  END;
+
+  -- Only increase lifetime points for positive earning transactions
+  IF v_points > 0 AND p_type <> 'refund' THEN
+    v_new_lifetime_points := v_customer_record.lifetime_points + v_points;
+  ELSE
+    v_new_lifetime_points := v_customer_record.lifetime_points;
+  END IF;
+
+  -- Update customer record
+  UPDATE customers SET
+    total_points = v_new_total_points,
+    lifetime_points = v_new_lifetime_points,
+    total_spent = CASE
+      WHEN p_amount_spent IS NOT NULL THEN total_spent + p_amount_spent
+      ELSE total_spent
+    END,
+    visit_count = CASE
+      WHEN p_type = 'purchase' THEN visit_count + 1
+      ELSE visit_count
+    END,
+    last_visit = CASE
+      WHEN p_type = 'purchase' THEN GREATEST(last_visit, v_occurred_at)
+      ELSE last_visit
+    END,
+    updated_at = now()
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id;
+
+  -- Insert transaction record
+  INSERT INTO transactions (
+    restaurant_id,
+    customer_id,
+    branch_id,
+    type,
+    points,
+    amount_spent,
+    description,
+    reward_id,
+    campaign_id,
+    campaign_bonus_points,
+    created_at
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_branch_id,
+    p_type,
+    v_points,
+    p_amount_spent,
+    p_description,
+    p_reward_id,
+    v_campaign_id,
+    v_campaign_bonus,
+    v_occurred_at
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Tier is worked out after the transaction exists so rolling windows include it
+  v_tier := refresh_customer_tier(p_customer_id);
+
+  -- A sale synced late reached the new tier when it was made, not when it synced
+  IF v_occurred_at < now() AND v_tier IS DISTINCT FROM v_customer_record.current_tier THEN
+    UPDATE customers SET tier_achieved_at = v_occurred_at WHERE id = p_customer_id;
+    UPDATE tier_history SET created_at = v_occurred_at
+    WHERE customer_id = p_customer_id AND created_at = now();
+  END IF;
+
+  PERFORM save_idempotent_result(
+    p_restaurant_id,
+    p_idempotency_key,
+    'process_point_transaction',
+    jsonb_build_object('transaction_id', v_transaction_id)
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_restaurant_id uuid,
+  p_branch_id uuid,
+  p_customer_id uuid,
+  p_lines jsonb,
+  p_order_discount numeric DEFAULT 0,
+  p_campaign_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_occurred_at timestamptz DEFAULT NULL,
+  p_staff_member_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_customer customers%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_transaction_id uuid;
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_points_lines jsonb;
+  v_quantity integer;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_order_discount numeric;
+  v_net numeric;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_tax numeric;
+  v_total numeric;
+  v_points integer;
+  v_branch_name text;
+  v_description text;
+  v_result jsonb;
+  v_occurred_at timestamptz := occurred_at_or_now(p_occurred_at, p_idempotency_key);
+BEGIN
+  IF NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record orders for this restaurant';
+  END IF;
+
+  -- The lock makes a retry of the same order wait for the first attempt to finish
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  v_result := idempotent_result(p_restaurant_id, p_idempotency_key, 'create_order');
+  IF v_result IS NOT NULL THEN
+    RETURN v_result;
+  END IF;
+
+  IF jsonb_typeof(p_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Prices always come from the menu, never from the till
+  FOR v_line IN SELECT value FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found';
+    END IF;
+
+    v_gross := v_menu_item.selling_price * v_quantity;
+    v_line_discount := ROUND(LEAST(GREATEST(COALESCE((v_line->>'discount')::numeric, 0), 0), v_gross), 2);
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+
+    v_lines := v_lines || jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'name', v_menu_item.name,
+      'category', v_menu_item.category,
+      'unit_price', v_menu_item.selling_price,
+      'quantity', v_quantity,
+      'discount', v_line_discount,
+      'line_total', v_gross - v_line_discount
+    );
+  END LOOP;
+
+  v_order_discount := ROUND(
+    LEAST(GREATEST(COALESCE(p_order_discount, 0), 0), v_subtotal - v_line_discounts), 2);
+  v_net := v_subtotal - v_line_discounts - v_order_discount;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+  v_tax_rate := COALESCE((v_settings->'tax'->>'ratePercent')::numeric, 5);
+  v_tax_inclusive := COALESCE((v_settings->'tax'->>'pricesIncludeTax')::boolean, true);
+
+  IF v_tax_inclusive THEN
+    v_tax := ROUND(v_net * v_tax_rate / (100 + v_tax_rate), 2);
+    v_total := v_net;
+  ELSE
+    v_tax := ROUND(v_net * v_tax_rate / 100, 2);
+    v_total := v_net + v_tax;
+  END IF;
+
+  -- Points are earned on what each line was charged, with the order discount spread pro rata
+  SELECT jsonb_agg(jsonb_build_object(
+    'menu_item_id', l->>'menu_item_id',
+    'quantity', (l->>'quantity')::integer,
+    'amount', CASE
+      WHEN v_subtotal - v_line_discounts > 0
+        THEN (l->>'line_total')::numeric * v_net / (v_subtotal - v_line_discounts)
+      ELSE 0
+    END
+  ))
+  INTO v_points_lines
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_points := COALESCE((calculate_order_points(
+    p_restaurant_id,
+    v_points_lines,
+    v_customer.current_tier,
+    p_branch_id,
+    v_occurred_at
+  )->>'points')::integer, 0);
+
+  SELECT name INTO v_branch_name FROM branches WHERE id = p_branch_id;
+  SELECT 'Items: ' || string_agg((l->>'name') || ' x' || (l->>'quantity'), ', ')
+  INTO v_description
+  FROM jsonb_array_elements(v_lines) AS t(l);
+
+  v_transaction_id := process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'purchase',
+    v_points,
+    v_description || COALESCE(' (' || v_branch_name || ')', ''),
+    v_total,
+    NULL,
+    p_branch_id,
+    p_campaign_id,
+    -- A key of its own, derived from the order's, lets the points keep a replayed sale's time
+    md5(p_idempotency_key::text || ':points')::uuid,
+    v_occurred_at,
+    p_staff_member_id
+  );
+
+  -- Read back for the campaign bonus and the staff member the triggers stamped
+  SELECT * INTO v_transaction FROM transactions WHERE id = v_transaction_id;
+
+  INSERT INTO orders (
+    restaurant_id,
+    branch_id,
+    customer_id,
+    transaction_id,
+    subtotal,
+    line_discount_total,
+    order_discount,
+    discount_total,
+    tax_rate,
+    tax_inclusive,
+    tax_total,
+    total,
+    points_awarded,
+    campaign_id,
+    campaign_bonus_points,
+    staff_member_id,
+    created_at
+  ) VALUES (
+    p_restaurant_id,
+    p_branch_id,
+    p_customer_id,
+    v_transaction.id,
+    v_subtotal,
+    v_line_discounts,
+    v_order_discount,
+    v_line_discounts + v_order_discount,
+    v_tax_rate,
+    v_tax_inclusive,
+    v_tax,
+    v_total,
+    v_transaction.points,
+    v_transaction.campaign_id,
+    v_transaction.campaign_bonus_points,
+    v_transaction.staff_member_id,
+    v_occurred_at
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    restaurant_id,
+    position,
+    menu_item_id,
+    name,
+    category,
+    unit_price,
+    quantity,
+    discount,
+    line_total
+  )
+  SELECT
+    v_order.id,
+    p_restaurant_id,
+    ord::integer,
+    (l->>'menu_item_id')::uuid,
+    l->>'name',
+    l->>'category',
+    (l->>'unit_price')::numeric,
+    (l->>'quantity')::integer,
+    (l->>'discount')::numeric,
+    (l->>'line_total')::numeric
+  FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS t(l, ord);
+
+  v_result := to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.position) FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+
+  PERFORM save_idempotent_result(p_restaurant_id, p_idempotency_key, 'create_order', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_reward(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_reward_id uuid,
+  p_branch_id uuid DEFAULT NULL,
+  p_mark_used boolean DEFAULT false,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_staff_member_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_settings jsonb;
+  v_redemption_id uuid;
+  v_code text;
+  v_result jsonb;
+BEGIN
+  IF NOT can_act_for_customer(p_customer_id) THEN
+    RAISE EXCEPTION 'Not authorized to redeem rewards for this customer';
+  END IF;
+
+  IF p_mark_used AND NOT is_restaurant_member(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Only restaurant staff can hand over a reward directly';
+  END IF;
+
+  -- Lock both rows so concurrent redemptions queue up instead of double-spending
+  SELECT * INTO v_customer
+  FROM customers
+  WHERE id = p_customer_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  -- Checked before stock and points, which the first attempt has already used up
+  v_result := idempotent_result(p_restaurant_id, p_idempotency_key, 'redeem_reward');
+  IF v_result IS NOT NULL THEN
+    RETURN v_result;
+  END IF;
+
+  PERFORM act_for_staff_member(p_restaurant_id, p_staff_member_id);
+
+  SELECT * INTO v_reward
+  FROM rewards
+  WHERE id = p_reward_id AND restaurant_id = p_restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_reward.is_active THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF v_reward.total_available IS NOT NULL AND v_reward.total_redeemed >= v_reward.total_available THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+
+  SELECT settings INTO v_settings FROM restaurants WHERE id = p_restaurant_id;
+
+  IF v_reward.min_tier IS NOT NULL AND (
+    tier_rank(v_settings, v_reward.min_tier) IS NULL
+    OR COALESCE(tier_rank(v_settings, v_customer.current_tier), 0) < tier_rank(v_settings, v_reward.min_tier)
+  ) THEN
+    RAISE EXCEPTION 'This reward requires % tier or higher', COALESCE((
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_tier_ladder(v_settings)) AS x(t)
+      WHERE t->>'id' = v_reward.min_tier
+    ), v_reward.min_tier);
+  END IF;
+
+  IF v_customer.total_points < v_reward.points_required THEN
+    RAISE EXCEPTION 'Insufficient points for this reward';
+  END IF;
+
+  -- A clash is astronomically unlikely, but retry rather than fail if one happens
+  LOOP
+    v_code := generate_redemption_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO reward_redemptions (
+    restaurant_id,
+    customer_id,
+    reward_id,
+    points_used,
+    status,
+    code,
+    branch_id,
+    used_at,
+    used_branch_id,
+    used_by
+  ) VALUES (
+    p_restaurant_id,
+    p_customer_id,
+    p_reward_id,
+    v_reward.points_required,
+    CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    v_code,
+    p_branch_id,
+    CASE WHEN p_mark_used THEN now() END,
+    CASE WHEN p_mark_used THEN p_branch_id END,
+    CASE WHEN p_mark_used THEN auth.uid() END
+  )
+  RETURNING id INTO v_redemption_id;
+
+  PERFORM process_point_transaction(
+    p_restaurant_id,
+    p_customer_id,
+    'redemption',
+    -v_reward.points_required,
+    'Redeemed: ' || v_reward.name,
+    0,
+    p_reward_id,
+    p_branch_id
+  );
+
+  UPDATE rewards
+  SET total_redeemed = total_redeemed + 1
+  WHERE id = p_reward_id;
+
+  v_result := jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'status', CASE WHEN p_mark_used THEN 'used' ELSE 'pending' END,
+    'points_used', v_reward.points_required,
+    'reward_name', v_reward.name
+  );
+
+  PERFORM save_idempotent_result(p_restaurant_id, p_idempotency_key, 'redeem_reward', v_result);
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION occurred_at_or_now(timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION act_for_staff_member(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid, uuid, timestamptz, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_point_transaction(uuid, uuid, text, integer, text, numeric, uuid, uuid, uuid, uuid, timestamptz, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid, uuid, timestamptz, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(uuid, uuid, uuid, jsonb, numeric, uuid, uuid, timestamptz, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_reward(uuid, uuid, uuid, uuid, boolean, uuid, uuid) TO anon, authenticated;
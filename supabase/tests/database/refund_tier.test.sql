@@ -0,0 +1,86 @@
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email)
+VALUES ('11111111-1111-1111-1111-111111111111', 'owner@refund-tier.test');
+
+-- Two tiers on all-time spend, so nothing but the refund can move the customer down
+INSERT INTO restaurants (id, name, slug, owner_id, settings)
+VALUES (
+  '22222222-2222-2222-2222-222222222222',
+  'Refund Tier Test',
+  'refund-tier-test',
+  '11111111-1111-1111-1111-111111111111',
+  '{
+    "tierLadder": {
+      "metric": "spend",
+      "period": "all_time",
+      "tiers": [
+        { "id": "bronze", "name": "Bronze", "threshold": 0, "multiplier": 1 },
+        { "id": "gold", "name": "Gold", "threshold": 100, "multiplier": 1.5 }
+      ]
+    }
+  }'::jsonb
+);
+
+INSERT INTO customers (id, restaurant_id, first_name, last_name, email)
+VALUES (
+  '33333333-3333-3333-3333-333333333333',
+  '22222222-2222-2222-2222-222222222222',
+  'Layla',
+  'Haddad',
+  'layla@refund-tier.test'
+);
+
+-- Act as the owner from here on
+SET LOCAL role authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}',
+  true
+);
+
+CREATE TEMP TABLE purchase AS
+SELECT process_point_transaction(
+  p_restaurant_id => '22222222-2222-2222-2222-222222222222',
+  p_customer_id => '33333333-3333-3333-3333-333333333333',
+  p_type => 'purchase',
+  p_points => 15,
+  p_amount_spent => 150
+) AS id;
+
+SELECT is(
+  (SELECT current_tier FROM customers WHERE id = '33333333-3333-3333-3333-333333333333'),
+  'gold',
+  'a purchase over the threshold moves the customer up'
+);
+
+SELECT is(
+  (SELECT (refund_purchase(id)->>'amount_refunded')::numeric FROM purchase),
+  150::numeric,
+  'the whole purchase is refunded'
+);
+
+SELECT is(
+  (SELECT current_tier FROM customers WHERE id = '33333333-3333-3333-3333-333333333333'),
+  'bronze',
+  'refunding it moves the customer back down'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM tier_history
+    WHERE customer_id = '33333333-3333-3333-3333-333333333333'
+      AND change_type = 'downgrade'
+      AND to_tier = 'bronze'
+      AND reason = 'Purchase refunded'
+  ),
+  'the downgrade is recorded in tier history'
+);
+
+SELECT * FROM finish();
+ROLLBACK;